@@ -1,7 +1,19 @@
 import * as THREE from 'three'
 import type { ParticleLayer as IParticleLayer, ParticleData } from './types'
-import { ParticleType, SpatialDistribution } from './types'
-import { EnhancedShaders } from './shaders/EnhancedShaders'
+import { ParticleType, SpatialDistribution, SimulationMode, RenderMode, QualityLevel } from './types'
+import { ShaderLibrary, type ShaderDefines, type ShaderVariant } from './shaders/ShaderLibrary'
+import { GPUSimulation } from './simulation/GPUSimulation'
+import { InstancedQuadRenderer } from './rendering/InstancedQuadRenderer'
+import { ShapeSampler } from './utils/ShapeSampler'
+import { SeededRandom } from './utils/SeededRandom'
+import type { ShapeSource, ShapeSample, ShapeSamplerOptions } from './utils/ShapeSampler'
+import type { ThemeConfig, ColorPalette } from './theme/ThemeManager'
+import { ParticleSnapshot } from './snapshot/ParticleSnapshot'
+import type { LayerSnapshot, SimulationSnapshot } from './snapshot/ParticleSnapshot'
+import type { ForceFieldSystem } from './forces/ForceFieldSystem'
+import { EnergyWaveSystem, type EnergyWaveUniforms } from './effects/EnergyWaveSystem'
+import { DepthFogSystem, type DepthFogOverrides, type DepthFogUniforms } from './effects/DepthFogSystem'
+import { ClickRippleSystem, type ClickRippleUniforms } from './effects/ClickRippleSystem'
 
 export interface LayerConfiguration {
   intensity: number                    // Material intensity (0.4, 0.8, 1.2)
@@ -11,6 +23,90 @@ export interface LayerConfiguration {
   velocityMultiplier: number          // Velocity range multiplier (0.01, 0.03, 0.05)
   brightnessBase: number              // Base brightness (0.3, 0.6, 0.8)
   brightnessMultiplier: number        // Brightness range multiplier (0.2, 0.3, 0.4)
+  simulationMode?: SimulationMode     // Motion model, defaults to STATELESS
+  renderMode?: RenderMode             // Sprite backend, defaults to POINTS
+  spriteAspect?: number               // Quad width / height (instanced quads only)
+  velocityStretch?: number            // Stretch along screen-space velocity (instanced quads only)
+  spinSpeed?: number                  // Sprite rotation in radians per second (instanced quads only)
+  shaderDefines?: ShaderDefines       // Extra shader defines, e.g. USE_GLOW_HALO or USE_ENERGY_WAVES: false
+  shaderProgram?: 'simple' | 'points' // Point sprite program, defaults to the baseline 'simple'
+}
+
+// 场景描述或调用方可覆盖的层参数
+export interface LayerOverrides {
+  name?: string
+  particleCount?: number
+  depthRange?: [number, number]
+  sizeRange?: [number, number]
+  colorPalette?: THREE.Color[]
+  spatialDistribution?: SpatialDistribution
+  layerConfig?: Partial<LayerConfiguration>
+}
+
+// 形状分布的粒子颜色来源：形状本身的像素颜色，或层的调色板
+export type ShapeColorMode = 'source' | 'palette'
+
+// 形状分布在世界空间中的摆放方式
+export interface ShapeLayout {
+  width: number                      // 形状宽度（世界单位），高度按比例
+  center: [number, number, number]   // 形状中心
+  depthJitter: number                // 沿z轴的随机偏移幅度
+  colorMode: ShapeColorMode
+}
+
+// 粒子编队：空间分布，形状分布时附带形状来源
+export interface LayerFormation {
+  distribution: SpatialDistribution
+  shape?: {
+    source: ShapeSource
+    layout?: Partial<ShapeLayout>
+    samplerOptions?: Partial<ShapeSamplerOptions>
+  }
+  particleCount?: number             // 目标粒子数，缺省保持当前数量
+}
+
+export type MorphEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut'
+
+export interface MorphOptions {
+  duration: number                                 // 毫秒
+  easing: MorphEasing | ((t: number) => number)
+}
+
+// 预先生成（通常在Worker中）的粒子数据，种子和数量与层一致时create()直接使用
+export interface GeneratedParticles {
+  seed: number
+  particleCount: number
+  data: ParticleData
+  randomState: number                // 生成结束时的随机数状态，create()的后续步骤从这里继续
+}
+
+// 进行中的变形：起止数据按显示容量对齐
+interface MorphState {
+  start: Pick<ParticleData, 'position' | 'color' | 'size' | 'depth'>
+  end: Pick<ParticleData, 'position' | 'color' | 'size' | 'depth'>
+  target: ParticleData
+  startTime: number
+  duration: number
+  easing: (t: number) => number
+  resolve: () => void
+}
+
+const PARTICLE_DATA_FIELDS: (keyof ParticleData)[] = [
+  'position', 'color', 'size', 'velocity', 'phase', 'depth', 'orbitalSpeed', 'type'
+]
+
+const MORPH_EASINGS: Record<MorphEasing, (t: number) => number> = {
+  linear: t => t,
+  easeIn: t => t * t,
+  easeOut: t => 1 - (1 - t) * (1 - t),
+  easeInOut: t => t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2
+}
+
+// 各形状来源对应的空间分布
+const SHAPE_DISTRIBUTIONS: Record<ShapeSource['type'], SpatialDistribution> = {
+  image: SpatialDistribution.IMAGE,
+  svgPath: SpatialDistribution.SVG_PATH,
+  text: SpatialDistribution.TEXT
 }
 
 export abstract class ParticleLayer implements IParticleLayer {
@@ -18,7 +114,7 @@ export abstract class ParticleLayer implements IParticleLayer {
   public particleCount: number
   public geometry!: THREE.BufferGeometry
   public material!: THREE.ShaderMaterial
-  public points!: THREE.Points
+  public points!: THREE.Points | THREE.Mesh | THREE.LineSegments
   
   protected particleData!: ParticleData
   protected depthRange: [number, number]
@@ -26,6 +122,47 @@ export abstract class ParticleLayer implements IParticleLayer {
   protected colorPalette: THREE.Color[]
   protected spatialDistribution: SpatialDistribution
   protected layerConfig: LayerConfiguration
+  protected simulation?: GPUSimulation
+  protected simulationUnavailable: boolean = false
+  protected shapeSource?: ShapeSource
+  protected shapeSamplerOptions: Partial<ShapeSamplerOptions> = {}
+  protected shapeSample?: ShapeSample
+  protected shapeLayout: ShapeLayout = {
+    width: 12,
+    center: [0, 0, 0],
+    depthJitter: 0.5,
+    colorMode: 'palette'
+  }
+  // 最近一次形状取样使用的像素，-1表示未使用形状
+  protected currentShapePixel: number = -1
+  protected morph?: MorphState
+  // 生成粒子使用的种子，create()时从头开始，相同种子得到相同粒子
+  protected seed: number = SeededRandom.createSeed()
+  protected random: SeededRandom = new SeededRandom(this.seed)
+  // 预先生成的粒子数据，create()时代替generateParticles
+  protected pregenerated?: GeneratedParticles
+  // 快照中的GPU模拟状态，模拟重新创建时写入
+  protected pendingSimulationState?: SimulationSnapshot
+  // 作用于模拟的力场（由管理器共享）
+  protected forceFields?: ForceFieldSystem
+  // 能量波缓冲区（由管理器共享），新建材质时并入uniform
+  protected energyWaveUniforms: EnergyWaveUniforms = EnergyWaveSystem.createUniforms()
+  // 深度雾化（由管理器共享），本层的uniform独立，每帧按层覆盖同步
+  protected depthFog?: DepthFogSystem
+  protected fogOverrides: DepthFogOverrides = {}
+  protected depthFogUniforms: DepthFogUniforms = DepthFogSystem.createUniforms()
+  // 点击涟漪（由管理器共享），新建材质时并入uniform
+  protected clickRippleUniforms: ClickRippleUniforms = ClickRippleSystem.createUniforms()
+  // 层整体透明度（渐入渐出），本层所有材质共用
+  protected layerOpacity: THREE.IUniform<number> = { value: 1 }
+  // 当前材质使用的着色器程序（ShaderLibrary中的名称）和质量等级
+  protected shaderProgram: string = 'simple'
+  protected shaderQuality: QualityLevel = QualityLevel.HIGH
+  // 增强着色器编译失败后改用不引用片段的简化着色器
+  protected simpleShaders: boolean = false
+  // CPU模拟的轨道原点，首次积分时从粒子位置复制
+  protected cpuOrigin?: Float32Array
+  private cpuForce: THREE.Vector3 = new THREE.Vector3()
   
   constructor(
     name: string,
@@ -48,8 +185,18 @@ export abstract class ParticleLayer implements IParticleLayer {
   }
 
   public create(): void {
-    // 生成粒子数据
-    this.generateParticles()
+    // 从种子的初始状态开始生成
+    this.random = new SeededRandom(this.seed)
+
+    // 生成粒子数据，已预先生成时直接使用
+    const pregenerated = this.pregenerated
+    this.pregenerated = undefined
+    if (pregenerated && pregenerated.seed === this.seed && pregenerated.particleCount === this.particleCount) {
+      this.particleData = pregenerated.data
+      this.random.setState(pregenerated.randomState)
+    } else {
+      this.generateParticles()
+    }
     
     // 创建几何体
     this.createGeometry()
@@ -57,11 +204,140 @@ export abstract class ParticleLayer implements IParticleLayer {
     // 创建材质
     this.createMaterial()
     
-    // 创建点系统
-    this.points = new THREE.Points(this.geometry, this.material)
+    // 创建点系统（或实例化四边形）
+    if (this.isQuadRendering()) {
+      const pointMaterial = this.material
+      this.shaderProgram = 'instancedQuad'
+      this.material = InstancedQuadRenderer.createMaterial(pointMaterial, {
+        spriteAspect: this.layerConfig.spriteAspect ?? 1,
+        velocityStretch: this.layerConfig.velocityStretch ?? 0,
+        spinSpeed: this.layerConfig.spinSpeed ?? 0
+      }, this.getShaderVariant())
+      pointMaterial.dispose()
+      this.points = InstancedQuadRenderer.createMesh(this.geometry as THREE.InstancedBufferGeometry, this.material)
+    } else {
+      this.points = new THREE.Points(this.geometry, this.material)
+    }
     this.points.name = this.name
   }
 
+  public isQuadRendering(): boolean {
+    return this.layerConfig.renderMode === RenderMode.INSTANCED_QUADS
+  }
+
+  /**
+   * 标记粒子数据已修改，按渲染方式映射到对应的几何体属性
+   */
+  protected markParticleDataDirty(fields: (keyof ParticleData)[] = PARTICLE_DATA_FIELDS): void {
+    for (const field of fields) {
+      const attribute = this.geometry.getAttribute(this.getAttributeName(field))
+      if (attribute) {
+        attribute.needsUpdate = true
+      }
+    }
+  }
+
+  protected getAttributeName(field: keyof ParticleData): string {
+    if (this.isQuadRendering()) {
+      return InstancedQuadRenderer.getAttributeName(field)
+    }
+    return field === 'type' ? 'particleType' : field
+  }
+
+  protected updateBoundingSphere(): void {
+    if (this.geometry instanceof THREE.InstancedBufferGeometry) {
+      InstancedQuadRenderer.computeBoundingSphere(this.geometry, this.particleData)
+    } else {
+      this.geometry.computeBoundingSphere()
+    }
+  }
+
+  /**
+   * 设置生成种子，在create()之前调用才会影响当前粒子
+   */
+  public setSeed(seed: number): void {
+    this.seed = seed >>> 0
+    this.random = new SeededRandom(this.seed)
+  }
+
+  public getSeed(): number {
+    return this.seed
+  }
+
+  /**
+   * 当前粒子数据（直接引用，调用方只读）
+   */
+  public getParticleData(): ParticleData {
+    return this.particleData
+  }
+
+  /**
+   * 能否用generateData + applyGeneratedParticles重新生成粒子
+   * 生成过程带有粒子数据以外状态（发射槽位、连线、体积）的层返回false
+   */
+  public canRegenerate(): boolean {
+    return true
+  }
+
+  /**
+   * 能否在Worker中按层描述重建并生成；形状分布依赖DOM画布取样，只能在主线程生成
+   */
+  public canGenerateInWorker(): boolean {
+    return this.canRegenerate() && !this.shapeSource
+  }
+
+  /**
+   * 按当前种子生成指定数量的粒子数据到新数组，不影响层现有的数据和几何体
+   */
+  public generateData(particleCount: number = this.particleCount): GeneratedParticles {
+    const { particleData, random } = this
+    const currentCount = this.particleCount
+
+    this.particleCount = particleCount
+    this.particleData = this.createParticleData(particleCount)
+    this.random = new SeededRandom(this.seed)
+
+    try {
+      this.generateParticles()
+      return { seed: this.seed, particleCount, data: this.particleData, randomState: this.random.getState() }
+    } finally {
+      this.particleData = particleData
+      this.particleCount = currentCount
+      this.random = random
+    }
+  }
+
+  /**
+   * 使用预先生成的粒子数据：未创建时留给create()，已创建时替换数据，数量不同时重建几何体
+   */
+  public applyGeneratedParticles(generated: GeneratedParticles): void {
+    if (!this.geometry) {
+      this.particleCount = generated.particleCount
+      this.pregenerated = generated
+      return
+    }
+
+    this.morph?.resolve()
+    this.morph = undefined
+    this.random = new SeededRandom(this.seed)
+    this.random.setState(generated.randomState)
+
+    // 模拟纹理保存的是旧位置，下一帧按新数据重建
+    this.releaseSimulation()
+
+    if (generated.particleCount !== this.particleCount) {
+      this.particleCount = generated.particleCount
+      this.particleData = generated.data
+      this.rebuildGeometry()
+    } else {
+      for (const field of PARTICLE_DATA_FIELDS) {
+        this.particleData[field].set(generated.data[field])
+      }
+      this.markParticleDataDirty()
+      this.updateBoundingSphere()
+    }
+  }
+
   public updateUniforms(time: number, mouse: THREE.Vector2): void {
     if (!this.material || !this.material.uniforms) return
     
@@ -72,9 +348,608 @@ export abstract class ParticleLayer implements IParticleLayer {
     if (this.material.uniforms.mouse) {
       this.material.uniforms.mouse.value.copy(mouse)
     }
+    this.syncDepthFog()
+  }
+
+  /**
+   * 设置层整体透明度（0-1），渐进加载时用于渐入
+   */
+  public setOpacity(opacity: number): void {
+    this.layerOpacity.value = THREE.MathUtils.clamp(opacity, 0, 1)
+  }
+
+  public getOpacity(): number {
+    return this.layerOpacity.value
+  }
+
+  /**
+   * 主题切换（含过渡中的每一帧）时更新颜色、透明度和强度
+   */
+  public onThemeChange(colors: ColorPalette, theme: ThemeConfig): void {
+    if (!this.material || !this.material.uniforms) return
+
+    const uniforms = this.material.uniforms
+    const themeColors = this.getThemeColors(colors)
+    if (uniforms.color) {
+      uniforms.color.value = themeColors.color
+    }
+    if (uniforms.glowColor) {
+      uniforms.glowColor.value = themeColors.glowColor
+    }
+    if (uniforms.opacity) {
+      uniforms.opacity.value = theme.particleOpacity
+    }
+    if (uniforms.intensity) {
+      uniforms.intensity.value = theme.glowIntensity
+    }
+  }
+
+  /**
+   * 质量等级变化时切换着色器变体
+   */
+  public onQualityChange(level: QualityLevel): void {
+    if (level === this.shaderQuality) return
+    this.shaderQuality = level
+    this.updateShaderVariant()
+  }
+
+  // 本层的着色器定义：层配置中的定义，启用GPU模拟时加上GPU_SIMULATION
+  protected getShaderDefines(): ShaderDefines {
+    return {
+      ...this.layerConfig.shaderDefines,
+      GPU_SIMULATION: this.simulation !== undefined
+    }
+  }
+
+  protected getShaderVariant(): ShaderVariant {
+    if (this.simpleShaders) {
+      return ShaderLibrary.getVariant('simple', { quality: QualityLevel.LOW })
+    }
+    return ShaderLibrary.getVariant(this.shaderProgram, {
+      quality: this.shaderQuality,
+      defines: this.getShaderDefines()
+    })
+  }
+
+  /**
+   * 换用简化着色器，之后切换质量等级或重建材质都保持简化版本
+   * 简化着色器只适用于点精灵，实例化四边形、连线和网格层返回false
+   */
+  public useSimpleShaders(): boolean {
+    if (!(this.points instanceof THREE.Points)) return false
+
+    this.simpleShaders = true
+    // 简化着色器不读取模拟纹理，停用GPU模拟
+    this.simulationUnavailable = true
+    this.releaseSimulation()
+    this.updateShaderVariant()
+    return true
+  }
+
+  public usesSimpleShaders(): boolean {
+    return this.simpleShaders
+  }
+
+  // 替换材质的着色器源码，three.js在下次渲染时按新源码取用或编译程序
+  protected updateShaderVariant(): void {
+    if (!this.material) return
+
+    const variant = this.getShaderVariant()
+    if (this.material.vertexShader === variant.vertexShader &&
+        this.material.fragmentShader === variant.fragmentShader) return
+
+    this.material.vertexShader = variant.vertexShader
+    this.material.fragmentShader = variant.fragmentShader
+    this.material.needsUpdate = true
+  }
+
+  // 本层使用的主题颜色，子类按层次选择
+  protected getThemeColors(colors: ColorPalette): { color: THREE.Color; glowColor: THREE.Color } {
+    return { color: colors.primary, glowColor: colors.glow }
+  }
+
+  /**
+   * 推进一步模拟积分：GPU模式首次调用时创建模拟资源，CPU模式直接更新粒子数据
+   */
+  public updateSimulation(renderer: THREE.WebGLRenderer, deltaTime: number): void {
+    if (!this.geometry || !this.material || this.morph) return
+
+    if (this.layerConfig.simulationMode === SimulationMode.CPU) {
+      this.stepCpuSimulation(deltaTime)
+      return
+    }
+    if (this.layerConfig.simulationMode !== SimulationMode.GPU || this.simulationUnavailable) return
+
+    if (!this.simulation && !this.initializeSimulation(renderer)) return
+
+    this.simulation!.step(deltaTime, this.material.uniforms.time.value)
+    this.material.uniforms.positionTexture.value = this.simulation!.getPositionTexture()
+  }
+
+  /**
+   * 设置作用于本层的力场系统，null表示不受力场影响
+   */
+  public setForceFields(system: ForceFieldSystem | null): void {
+    this.forceFields = system ?? undefined
+    this.simulation?.setForceFields(system ? system.uniforms : null)
+  }
+
+  /**
+   * 设置作用于本层的能量波系统，null表示不受能量波影响
+   */
+  public setEnergyWaves(system: EnergyWaveSystem | null): void {
+    this.energyWaveUniforms = system ? system.uniforms : EnergyWaveSystem.createUniforms()
+    if (this.material?.uniforms) {
+      Object.assign(this.material.uniforms, this.energyWaveUniforms)
+    }
+  }
+
+  /**
+   * 设置作用于本层的点击涟漪，null表示不受点击涟漪影响
+   */
+  public setClickRipples(system: ClickRippleSystem | null): void {
+    this.clickRippleUniforms = system ? system.uniforms : ClickRippleSystem.createUniforms()
+    if (this.material?.uniforms) {
+      Object.assign(this.material.uniforms, this.clickRippleUniforms)
+    }
+  }
+
+  /**
+   * 设置作用于本层的深度雾化系统，null表示不受雾化影响
+   */
+  public setDepthFog(system: DepthFogSystem | null): void {
+    this.depthFog = system ?? undefined
+    this.syncDepthFog()
+  }
+
+  /**
+   * 设置本层的雾化覆盖（距离、颜色、强度或单独关闭），替换之前的覆盖
+   */
+  public setFogOverrides(overrides: DepthFogOverrides): void {
+    this.fogOverrides = { ...overrides }
+    this.syncDepthFog()
+  }
+
+  public getFogOverrides(): DepthFogOverrides {
+    return { ...this.fogOverrides }
+  }
+
+  // 材质创建时并入depthFogUniforms，这里只改写其中的值
+  protected syncDepthFog(): void {
+    if (this.depthFog) {
+      this.depthFog.applyUniforms(this.depthFogUniforms, this.fogOverrides)
+    } else {
+      this.depthFogUniforms.fogEnabled.value = 0
+    }
+  }
+
+  /**
+   * CPU模拟 - 与模拟着色器相同的积分（轨道弹簧 + 力场 + 阻尼），结果写回粒子数据
+   */
+  protected stepCpuSimulation(deltaTime: number): void {
+    const { damping, returnStrength, maxSpeed, maxDeltaTime } = GPUSimulation.DEFAULT_CONFIG
+    const dt = Math.min(Math.max(deltaTime, 0), maxDeltaTime)
+    if (dt === 0) return
+
+    const { position, velocity, orbitalSpeed, phase } = this.particleData
+    if (!this.cpuOrigin || this.cpuOrigin.length < this.particleCount * 3) {
+      this.cpuOrigin = position.slice(0, this.particleCount * 3)
+    }
+
+    const origin = this.cpuOrigin
+    const time = this.material.uniforms.time.value
+    const dampingFactor = Math.pow(damping, dt * 60)
+    const applyForces = this.forceFields?.hasActiveFields() ?? false
+    const force = this.cpuForce
+
+    for (let i = 0; i < this.particleCount; i++) {
+      const i3 = i * 3
+      const px = position[i3]
+      const py = position[i3 + 1]
+      const pz = position[i3 + 2]
+
+      // 绕Y轴旋转的轨道目标点
+      const angle = time * orbitalSpeed[i]
+      const c = Math.cos(angle)
+      const s = Math.sin(angle)
+      let ax = (origin[i3] * c - origin[i3 + 2] * s - px) * returnStrength
+      let ay = (origin[i3 + 1] + Math.sin(time * 2 + phase[i]) * 0.5 - py) * returnStrength
+      let az = (origin[i3] * s + origin[i3 + 2] * c - pz) * returnStrength
+
+      if (applyForces) {
+        this.forceFields!.sampleForce(px, py, pz, force)
+        ax += force.x
+        ay += force.y
+        az += force.z
+      }
+
+      let vx = (velocity[i3] + ax * dt) * dampingFactor
+      let vy = (velocity[i3 + 1] + ay * dt) * dampingFactor
+      let vz = (velocity[i3 + 2] + az * dt) * dampingFactor
+
+      const speed = Math.sqrt(vx * vx + vy * vy + vz * vz)
+      if (speed > maxSpeed) {
+        const scale = maxSpeed / speed
+        vx *= scale
+        vy *= scale
+        vz *= scale
+      }
+
+      velocity[i3] = vx
+      velocity[i3 + 1] = vy
+      velocity[i3 + 2] = vz
+      position[i3] = px + vx * dt
+      position[i3 + 1] = py + vy * dt
+      position[i3 + 2] = pz + vz * dt
+    }
+
+    this.markParticleDataDirty(['position', 'velocity'])
+  }
+
+  /**
+   * 设置形状分布来源；层已创建时立即重新生成粒子
+   */
+  public setShape(source: ShapeSource, layout: Partial<ShapeLayout> = {}, samplerOptions: Partial<ShapeSamplerOptions> = {}): void {
+    this.shapeSource = source
+    this.shapeSamplerOptions = samplerOptions
+    this.shapeSample = ShapeSampler.sample(source, samplerOptions)
+    this.shapeLayout = { ...this.shapeLayout, ...layout }
+    this.spatialDistribution = SHAPE_DISTRIBUTIONS[source.type]
+
+    if (this.shapeSample.count === 0) {
+      console.warn(`Shape for layer ${this.name} has no opaque pixels, falling back to spherical distribution`)
+    }
+
+    if (this.geometry) {
+      this.regenerateParticles()
+    }
+  }
+
+  /**
+   * 异步加载图片并作为形状分布来源
+   */
+  public async loadShapeImage(url: string, layout: Partial<ShapeLayout> = {}, samplerOptions: Partial<ShapeSamplerOptions> = {}): Promise<void> {
+    const image = await ShapeSampler.loadImage(url)
+    this.setShape({ type: 'image', image }, layout, samplerOptions)
+  }
+
+  public isShapeDistribution(): boolean {
+    return Object.values(SHAPE_DISTRIBUTIONS).includes(this.spatialDistribution)
+  }
+
+  /**
+   * 粒子顺序是否与位置无关，是则任意前缀都是均匀子集，LOD可只绘制前面的粒子
+   * 螺旋、环形、旋臂和形状分布按索引取角度或像素，只有球形分布是随机顺序
+   */
+  public hasRandomOrder(): boolean {
+    return this.spatialDistribution === SpatialDistribution.SPHERICAL
+  }
+
+  /**
+   * 重新生成粒子数据并上传到已有几何体
+   */
+  protected regenerateParticles(): void {
+    this.generateParticles()
+
+    this.markParticleDataDirty()
+    this.updateBoundingSphere()
+
+    // 模拟纹理保存的是旧位置，下一帧按新数据重建
+    this.releaseSimulation()
+  }
+
+  /**
+   * 复制当前粒子数据、uniform和GPU模拟状态，用于快照
+   */
+  public captureState(): LayerSnapshot {
+    const data = this.createParticleData(this.particleCount)
+    for (const field of PARTICLE_DATA_FIELDS) {
+      data[field].set(this.particleData[field].subarray(0, data[field].length))
+    }
+
+    const snapshot: LayerSnapshot = {
+      name: this.name,
+      particleCount: this.particleCount,
+      data,
+      uniforms: this.material ? ParticleSnapshot.serializeUniforms(this.material.uniforms) : {}
+    }
+    if (this.simulation) {
+      snapshot.simulation = { textureSize: this.simulation.textureSize, ...this.simulation.readState() }
+    }
+    return snapshot
+  }
+
+  /**
+   * 恢复快照中的粒子数据和uniform，粒子数量不同时重建几何体
+   */
+  public restoreState(snapshot: LayerSnapshot): void {
+    this.morph?.resolve()
+    this.morph = undefined
+
+    const countChanged = snapshot.particleCount !== this.particleCount
+    this.particleCount = snapshot.particleCount
+
+    if (!this.geometry || countChanged) {
+      this.particleData = this.createParticleData(this.particleCount)
+    }
+    for (const field of PARTICLE_DATA_FIELDS) {
+      this.particleData[field].set(snapshot.data[field].subarray(0, this.particleData[field].length))
+    }
+
+    if (this.geometry) {
+      this.releaseSimulation()
+      if (countChanged) {
+        this.rebuildGeometry()
+      } else {
+        this.markParticleDataDirty()
+        this.updateBoundingSphere()
+      }
+      ParticleSnapshot.applyUniforms(this.material.uniforms, snapshot.uniforms)
+      // 快照可能保存于渐入过程中，恢复后层完全显示
+      this.layerOpacity.value = 1
+    }
+
+    this.pendingSimulationState = snapshot.simulation
+  }
+
+  /**
+   * 当前编队，可用于之后变形回来
+   */
+  public getFormation(): LayerFormation {
+    const formation: LayerFormation = {
+      distribution: this.spatialDistribution,
+      particleCount: this.particleCount
+    }
+    if (this.shapeSource && this.isShapeDistribution()) {
+      formation.shape = {
+        source: this.shapeSource,
+        layout: { ...this.shapeLayout },
+        samplerOptions: { ...this.shapeSamplerOptions }
+      }
+    }
+    return formation
+  }
+
+  /**
+   * 把所有粒子从当前位置过渡到新编队
+   * 目标数量较少时多余粒子缩小并汇入目标粒子，较多时新粒子从现有粒子处长出
+   * 返回的Promise在变形完成或被新的变形打断时resolve
+   */
+  public morphTo(formation: LayerFormation, options: Partial<MorphOptions> = {}): Promise<void> {
+    const { duration, easing } = { duration: 1500, easing: 'easeInOut' as MorphEasing, ...options }
+
+    // 尚未创建时直接切换编队
+    if (!this.geometry) {
+      this.applyFormation(formation)
+      this.initializeParticleData()
+      return Promise.resolve()
+    }
+
+    // 打断进行中的变形，从当前显示位置继续
+    this.morph?.resolve()
+    this.morph = undefined
+    this.releaseSimulation()
+
+    const source = this.particleData
+    const sourceCount = source.size.length
+
+    this.applyFormation(formation)
+    this.initializeParticleData()
+    this.generateParticles()
+    const target = this.particleData
+    const targetCount = this.particleCount
+
+    // 显示容量取两者较大值，扩容时重建几何体
+    const capacity = Math.max(sourceCount, targetCount)
+    const display = capacity === sourceCount ? source : this.createParticleData(capacity)
+    const start = this.createMorphFrame(capacity)
+    const end = this.createMorphFrame(capacity)
+
+    for (let i = 0; i < capacity; i++) {
+      const spawned = i >= sourceCount
+      const collapsed = i >= targetCount
+      const from = spawned ? Math.floor(this.random.next() * sourceCount) : i
+      const to = collapsed ? Math.floor(this.random.next() * targetCount) : i
+
+      for (let axis = 0; axis < 3; axis++) {
+        start.position[i * 3 + axis] = source.position[from * 3 + axis]
+        start.color[i * 3 + axis] = source.color[from * 3 + axis]
+        end.position[i * 3 + axis] = target.position[to * 3 + axis]
+        end.color[i * 3 + axis] = target.color[to * 3 + axis]
+        display.velocity[i * 3 + axis] = target.velocity[to * 3 + axis]
+      }
+      start.size[i] = spawned ? 0 : source.size[from]
+      start.depth[i] = source.depth[from]
+      end.size[i] = collapsed ? 0 : target.size[to]
+      end.depth[i] = target.depth[to]
+
+      display.phase[i] = target.phase[to]
+      display.orbitalSpeed[i] = target.orbitalSpeed[to]
+      display.type[i] = target.type[to]
+    }
+
+    this.particleData = display
+    if (display === source) {
+      this.markParticleDataDirty()
+    } else {
+      this.rebuildGeometry()
+    }
+
+    return new Promise(resolve => {
+      this.morph = {
+        start,
+        end,
+        target,
+        startTime: Date.now(),
+        duration: Math.max(duration, 1),
+        easing: typeof easing === 'function' ? easing : MORPH_EASINGS[easing],
+        resolve
+      }
+      this.updateMorph()
+    })
+  }
+
+  public isMorphing(): boolean {
+    return this.morph !== undefined
+  }
+
+  /**
+   * 推进变形插值，由管理器每帧调用
+   */
+  public updateMorph(): void {
+    const morph = this.morph
+    if (!morph) return
+
+    const progress = Math.min((Date.now() - morph.startTime) / morph.duration, 1)
+    const t = morph.easing(progress)
+    const { start, end } = morph
+    const display = this.particleData
+
+    for (let i = 0; i < start.position.length; i++) {
+      display.position[i] = start.position[i] + (end.position[i] - start.position[i]) * t
+      display.color[i] = start.color[i] + (end.color[i] - start.color[i]) * t
+    }
+    for (let i = 0; i < start.size.length; i++) {
+      display.size[i] = start.size[i] + (end.size[i] - start.size[i]) * t
+      display.depth[i] = start.depth[i] + (end.depth[i] - start.depth[i]) * t
+    }
+
+    this.markParticleDataDirty(['position', 'color', 'size', 'depth'])
+
+    if (progress < 1) return
+
+    // 完成：收缩到目标数量，丢弃已汇入的粒子
+    this.morph = undefined
+    if (display.size.length !== this.particleCount) {
+      this.particleData = morph.target
+      this.rebuildGeometry()
+    }
+    this.updateBoundingSphere()
+    morph.resolve()
+  }
+
+  protected applyFormation(formation: LayerFormation): void {
+    if (formation.particleCount !== undefined) {
+      this.particleCount = Math.max(1, Math.floor(formation.particleCount))
+    }
+
+    if (formation.shape) {
+      this.shapeSource = formation.shape.source
+      this.shapeSamplerOptions = formation.shape.samplerOptions ?? {}
+      this.shapeSample = ShapeSampler.sample(this.shapeSource, this.shapeSamplerOptions)
+      this.shapeLayout = { ...this.shapeLayout, ...formation.shape.layout }
+    }
+    this.spatialDistribution = formation.distribution
+  }
+
+  private createMorphFrame(capacity: number): MorphState['start'] {
+    return {
+      position: new Float32Array(capacity * 3),
+      color: new Float32Array(capacity * 3),
+      size: new Float32Array(capacity),
+      depth: new Float32Array(capacity)
+    }
+  }
+
+  /**
+   * 用当前粒子数据重建几何体（粒子容量变化时）
+   */
+  protected rebuildGeometry(): void {
+    const previousGeometry = this.geometry
+    this.createGeometry()
+    this.updateBoundingSphere()
+    this.points.geometry = this.geometry
+    previousGeometry.dispose()
+  }
+
+  /**
+   * 释放GPU模拟并换回无状态材质，保留当前uniform数值
+   */
+  protected releaseSimulation(): void {
+    // CPU模拟从新的粒子位置重新开始
+    this.cpuOrigin = undefined
+    if (!this.simulation) return
+
+    this.simulation.dispose()
+    this.simulation = undefined
+
+    const simulationMaterial = this.material
+    this.createMaterial()
+    for (const [key, uniform] of Object.entries(simulationMaterial.uniforms)) {
+      if (key !== 'positionTexture') {
+        this.material.uniforms[key] = uniform
+      }
+    }
+    this.points.material = this.material
+    simulationMaterial.dispose()
+  }
+
+  public isSimulated(): boolean {
+    return this.simulation !== undefined
+  }
+
+  protected initializeSimulation(renderer: THREE.WebGLRenderer): boolean {
+    if (this.isQuadRendering()) {
+      console.warn(`GPU simulation is not available for instanced quads, layer ${this.name} keeps stateless animation`)
+      this.simulationUnavailable = true
+      return false
+    }
+
+    if (!GPUSimulation.isSupported(renderer)) {
+      console.warn(`GPU simulation not supported, layer ${this.name} keeps stateless animation`)
+      this.simulationUnavailable = true
+      return false
+    }
+
+    this.simulation = new GPUSimulation(renderer, this.particleData, this.particleCount)
+    if (this.forceFields) {
+      this.simulation.setForceFields(this.forceFields.uniforms)
+    }
+    if (this.pendingSimulationState?.textureSize === this.simulation.textureSize) {
+      this.simulation.writeState(this.pendingSimulationState.position, this.pendingSimulationState.velocity)
+    }
+    this.pendingSimulationState = undefined
+    this.geometry.setAttribute('simUv', new THREE.BufferAttribute(this.simulation.createReferenceArray(), 2))
+
+    // 切换到读取模拟纹理的材质，沿用原有uniform数值
+    const previousMaterial = this.material
+    this.material = this.createSimulationMaterial(previousMaterial)
+    this.points.material = this.material
+    previousMaterial.dispose()
+
+    return true
+  }
+
+  protected createSimulationMaterial(baseMaterial: THREE.ShaderMaterial): THREE.ShaderMaterial {
+    // 基础着色器不读取模拟纹理，GPU模拟总是使用points程序
+    this.shaderProgram = 'points'
+    const { vertexShader, fragmentShader } = this.getShaderVariant()
+
+    return new THREE.ShaderMaterial({
+      uniforms: {
+        ...baseMaterial.uniforms,
+        positionTexture: { value: this.simulation!.getPositionTexture() }
+      },
+      vertexShader,
+      fragmentShader,
+      transparent: baseMaterial.transparent,
+      blending: baseMaterial.blending,
+      depthWrite: baseMaterial.depthWrite,
+      side: baseMaterial.side
+    })
   }
 
   public dispose(): void {
+    // 结束进行中的变形
+    this.morph?.resolve()
+    this.morph = undefined
+
+    // 清理GPU模拟资源
+    if (this.simulation) {
+      this.simulation.dispose()
+      this.simulation = undefined
+    }
+
     // 清理几何体
     if (this.geometry) {
       this.geometry.dispose()
@@ -106,7 +981,7 @@ export abstract class ParticleLayer implements IParticleLayer {
       this.particleData.depth[i] = this.layerConfig.depthBase + depthFactor * this.layerConfig.depthMultiplier
       
       // 生成颜色
-      const color = this.generateParticleColor(this.particleData.depth[i], normalizedDistance)
+      const color = this.resolveParticleColor(this.particleData.depth[i], normalizedDistance)
       this.particleData.color[i3] = color.r
       this.particleData.color[i3 + 1] = color.g
       this.particleData.color[i3 + 2] = color.b
@@ -115,16 +990,16 @@ export abstract class ParticleLayer implements IParticleLayer {
       this.particleData.size[i] = this.generateParticleSize(this.particleData.depth[i], normalizedDistance)
       
       // 生成轨道运动参数
-      const orbitalSpeed = (0.1 + Math.random() * 0.4) * (1.5 - this.particleData.depth[i])
+      const orbitalSpeed = (0.1 + this.random.next() * 0.4) * (1.5 - this.particleData.depth[i])
       this.particleData.orbitalSpeed[i] = orbitalSpeed * this.layerConfig.orbitalSpeedMultiplier
       
       // 生成速度
-      this.particleData.velocity[i3] = (Math.random() - 0.5) * this.layerConfig.velocityMultiplier
-      this.particleData.velocity[i3 + 1] = (Math.random() - 0.5) * (this.layerConfig.velocityMultiplier * 0.5)
-      this.particleData.velocity[i3 + 2] = (Math.random() - 0.5) * this.layerConfig.velocityMultiplier
+      this.particleData.velocity[i3] = (this.random.next() - 0.5) * this.layerConfig.velocityMultiplier
+      this.particleData.velocity[i3 + 1] = (this.random.next() - 0.5) * (this.layerConfig.velocityMultiplier * 0.5)
+      this.particleData.velocity[i3 + 2] = (this.random.next() - 0.5) * this.layerConfig.velocityMultiplier
       
       // 随机相位
-      this.particleData.phase[i] = Math.random() * Math.PI * 2
+      this.particleData.phase[i] = this.random.next() * Math.PI * 2
       
       // 粒子类型
       const particleType = this.generateParticleType()
@@ -133,15 +1008,22 @@ export abstract class ParticleLayer implements IParticleLayer {
   }
 
   protected createMaterial(): void {
+    this.shaderProgram = this.layerConfig.shaderProgram ?? 'simple'
+    const { vertexShader, fragmentShader } = this.getShaderVariant()
+
     this.material = new THREE.ShaderMaterial({
       uniforms: {
         time: { value: 0 },
         mouse: { value: new THREE.Vector2() },
         cameraPosition: { value: new THREE.Vector3() },
-        intensity: { value: this.layerConfig.intensity }
+        intensity: { value: this.layerConfig.intensity },
+        ...this.energyWaveUniforms,
+        ...this.clickRippleUniforms,
+        ...this.depthFogUniforms,
+        layerOpacity: this.layerOpacity
       },
-      vertexShader: EnhancedShaders.getSimpleVertexShader(),
-      fragmentShader: EnhancedShaders.getSimpleFragmentShader(),
+      vertexShader,
+      fragmentShader,
       transparent: true,
       blending: THREE.AdditiveBlending,
       depthWrite: false,
@@ -150,19 +1032,29 @@ export abstract class ParticleLayer implements IParticleLayer {
   }
 
   protected initializeParticleData(): void {
-    this.particleData = {
-      position: new Float32Array(this.particleCount * 3),
-      color: new Float32Array(this.particleCount * 3),
-      size: new Float32Array(this.particleCount),
-      velocity: new Float32Array(this.particleCount * 3),
-      phase: new Float32Array(this.particleCount),
-      depth: new Float32Array(this.particleCount),
-      orbitalSpeed: new Float32Array(this.particleCount),
-      type: new Float32Array(this.particleCount)
+    this.particleData = this.createParticleData(this.particleCount)
+  }
+
+  protected createParticleData(count: number): ParticleData {
+    return {
+      position: new Float32Array(count * 3),
+      color: new Float32Array(count * 3),
+      size: new Float32Array(count),
+      velocity: new Float32Array(count * 3),
+      phase: new Float32Array(count),
+      depth: new Float32Array(count),
+      orbitalSpeed: new Float32Array(count),
+      type: new Float32Array(count)
     }
   }
 
   protected createGeometry(): void {
+    if (this.isQuadRendering()) {
+      this.geometry = InstancedQuadRenderer.createGeometry(this.particleData, this.particleCount)
+      this.updateBoundingSphere()
+      return
+    }
+
     this.geometry = new THREE.BufferGeometry()
     
     // 设置属性
@@ -192,6 +1084,11 @@ export abstract class ParticleLayer implements IParticleLayer {
       case SpatialDistribution.GALAXY_ARM:
         position.copy(this.generateGalaxyArmPosition(index))
         break
+      case SpatialDistribution.IMAGE:
+      case SpatialDistribution.SVG_PATH:
+      case SpatialDistribution.TEXT:
+        position.copy(this.generateShapePosition(index))
+        break
       default:
         position.copy(this.generateSphericalPosition(index))
     }
@@ -201,30 +1098,30 @@ export abstract class ParticleLayer implements IParticleLayer {
 
   protected generateSpiralPosition(index: number): THREE.Vector3 {
     const t = (index / this.particleCount) * Math.PI * 4
-    const radius = (this.depthRange[0] + (this.depthRange[1] - this.depthRange[0]) * (index / this.particleCount)) * (0.5 + Math.random() * 0.5)
+    const radius = (this.depthRange[0] + (this.depthRange[1] - this.depthRange[0]) * (index / this.particleCount)) * (0.5 + this.random.next() * 0.5)
     
     return new THREE.Vector3(
-      Math.cos(t) * radius + (Math.random() - 0.5) * 5,
-      (Math.random() - 0.5) * 20,
-      Math.sin(t) * radius + (Math.random() - 0.5) * 5
+      Math.cos(t) * radius + (this.random.next() - 0.5) * 5,
+      (this.random.next() - 0.5) * 20,
+      Math.sin(t) * radius + (this.random.next() - 0.5) * 5
     )
   }
 
   protected generateRingPosition(_index: number): THREE.Vector3 {
     const angle = (_index / this.particleCount) * Math.PI * 2
-    const radius = this.depthRange[0] + (this.depthRange[1] - this.depthRange[0]) * (0.7 + Math.random() * 0.3)
+    const radius = this.depthRange[0] + (this.depthRange[1] - this.depthRange[0]) * (0.7 + this.random.next() * 0.3)
     
     return new THREE.Vector3(
       Math.cos(angle) * radius,
-      (Math.random() - 0.5) * 8,
+      (this.random.next() - 0.5) * 8,
       Math.sin(angle) * radius
     )
   }
 
   protected generateSphericalPosition(_index: number): THREE.Vector3 {
-    const theta = Math.random() * Math.PI * 2
-    const phi = Math.acos(2 * Math.random() - 1)
-    const radius = this.depthRange[0] + (this.depthRange[1] - this.depthRange[0]) * Math.random()
+    const theta = this.random.next() * Math.PI * 2
+    const phi = Math.acos(2 * this.random.next() - 1)
+    const radius = this.depthRange[0] + (this.depthRange[1] - this.depthRange[0]) * this.random.next()
     
     return new THREE.Vector3(
       radius * Math.sin(phi) * Math.cos(theta),
@@ -234,23 +1131,60 @@ export abstract class ParticleLayer implements IParticleLayer {
   }
 
   protected generateGalaxyArmPosition(index: number): THREE.Vector3 {
-    const armIndex = Math.floor(Math.random() * 3) // 3 arms
+    const armIndex = Math.floor(this.random.next() * 3) // 3 arms
     const armAngle = (armIndex * Math.PI * 2) / 3
     const spiralAngle = (index / this.particleCount) * Math.PI * 2 + armAngle
-    const radius = (this.depthRange[0] + (this.depthRange[1] - this.depthRange[0]) * Math.random()) * (0.3 + Math.random() * 0.7)
+    const radius = (this.depthRange[0] + (this.depthRange[1] - this.depthRange[0]) * this.random.next()) * (0.3 + this.random.next() * 0.7)
     
     return new THREE.Vector3(
-      Math.cos(spiralAngle) * radius + (Math.random() - 0.5) * 8,
-      (Math.random() - 0.5) * 15,
-      Math.sin(spiralAngle) * radius + (Math.random() - 0.5) * 8
+      Math.cos(spiralAngle) * radius + (this.random.next() - 0.5) * 8,
+      (this.random.next() - 0.5) * 15,
+      Math.sin(spiralAngle) * radius + (this.random.next() - 0.5) * 8
     )
   }
 
+  protected generateShapePosition(index: number): THREE.Vector3 {
+    const sample = this.shapeSample
+    if (!sample || sample.count === 0) {
+      this.currentShapePixel = -1
+      return this.generateSphericalPosition(index)
+    }
+
+    // 按索引分层取样，保证形状各部分都被覆盖
+    const pixel = Math.min(sample.count - 1, Math.floor(((index + this.random.next()) / this.particleCount) * sample.count))
+    this.currentShapePixel = pixel
+
+    const { width, center, depthJitter } = this.shapeLayout
+    const jitterX = (this.random.next() - 0.5) * sample.pixelSize
+    const jitterY = (this.random.next() - 0.5) * sample.pixelSize
+
+    return new THREE.Vector3(
+      center[0] + (sample.positions[pixel * 2] + jitterX) * width,
+      center[1] + (sample.positions[pixel * 2 + 1] + jitterY) * width,
+      center[2] + (this.random.next() - 0.5) * 2 * depthJitter
+    )
+  }
+
+  /**
+   * 形状分布且使用来源颜色时取像素颜色，否则交给generateParticleColor
+   */
+  protected resolveParticleColor(depth: number, distanceFromCenter: number): THREE.Color {
+    const sample = this.shapeSample
+    if (!sample || this.currentShapePixel < 0 || this.shapeLayout.colorMode !== 'source' || !this.isShapeDistribution()) {
+      return this.generateParticleColor(depth, distanceFromCenter)
+    }
+
+    const pixel = this.currentShapePixel
+    const color = new THREE.Color(sample.colors[pixel * 3], sample.colors[pixel * 3 + 1], sample.colors[pixel * 3 + 2])
+    color.multiplyScalar(this.layerConfig.brightnessBase + depth * this.layerConfig.brightnessMultiplier)
+    return color
+  }
+
   protected generateParticleColor(depth: number, _distanceFromCenter: number): THREE.Color {
     const color = new THREE.Color()
     
     // 根据深度和距离选择颜色
-    const colorIndex = Math.floor(Math.random() * this.colorPalette.length)
+    const colorIndex = Math.floor(this.random.next() * this.colorPalette.length)
     color.copy(this.colorPalette[colorIndex])
     
     // 根据深度调整亮度 - 使用配置参数
@@ -261,13 +1195,13 @@ export abstract class ParticleLayer implements IParticleLayer {
   }
 
   protected generateParticleSize(depth: number, _distanceFromCenter: number): number {
-    const baseSize = this.sizeRange[0] + (this.sizeRange[1] - this.sizeRange[0]) * Math.random()
+    const baseSize = this.sizeRange[0] + (this.sizeRange[1] - this.sizeRange[0]) * this.random.next()
     const depthFactor = 0.5 + depth * 0.5
     return baseSize * depthFactor
   }
 
   protected generateParticleType(): ParticleType {
-    const random = Math.random()
+    const random = this.random.next()
     if (random < 0.05) return ParticleType.SUPERNOVA
     if (random < 0.1) return ParticleType.PULSAR
     if (random < 0.2) return ParticleType.NEBULA
@@ -1,7 +1,8 @@
 import * as THREE from 'three'
-import type { ParticleLayer, ParticleSystemManager as IParticleSystemManager } from './types'
+import type { ParticleLayer, LayerAttachContext, ParticleSystemManager as IParticleSystemManager } from './types'
 import { QualityLevel } from './types'
-import { InteractionManager, type ClickEffect } from './interaction/InteractionManager'
+import { InteractionManager, type InteractionInput } from './interaction/InteractionManager'
+import { CameraRig, type CameraViewpoint } from './camera/CameraRig'
 import { PerformanceMonitor, type PerformanceMetrics } from './performance/PerformanceMonitor'
 import { RenderOptimizer } from './performance/RenderOptimizer'
 import { ResponsiveManager, DeviceType, type DeviceConfig, type TouchGesture } from './responsive/ResponsiveManager'
@@ -10,17 +11,54 @@ import { WebGLDetector, type CompatibilityReport } from './compatibility/WebGLDe
 import { CSSParticleSystem } from './compatibility/CSSParticleSystem'
 import { UXOptimizer } from './optimization'
 import type { UXOptimizationConfig, UXMetrics } from './optimization'
+import { SceneLoader } from './scene/SceneLoader'
+import type { SceneDescription, SceneLayerDescription } from './scene/SceneDescription'
+import { LayerRegistry, type LayerPlugin } from './plugins/LayerRegistry'
+import { BUILTIN_LAYER_PLUGINS } from './plugins/BuiltinLayerPlugins'
+import type { LayerFormation, MorphOptions, GeneratedParticles } from './ParticleLayer'
+import { ColorSystem } from './utils/ColorSystem'
+import { SeededRandom } from './utils/SeededRandom'
+import { Viewport } from './utils/Viewport'
+import { EmitterLayer } from './layers/EmitterLayer'
+import { EmitterPresets } from './emitters/EmitterPresets'
+import type { ParticleEmitter, EmitterConfig } from './emitters/ParticleEmitter'
+import { ForceFieldSystem } from './forces/ForceFieldSystem'
+import { DepthFogSystem, type DepthFogOverrides, type DepthFogPreset } from './effects/DepthFogSystem'
+import { ClickRippleSystem } from './effects/ClickRippleSystem'
+import { EnergyWaveSystem, type EnergyWave, type EnergyWaveConfig } from './effects/EnergyWaveSystem'
+import { ForceField, ForceFieldType, type ForceFieldConfig, type ForceFieldAnimation } from './forces/ForceField'
+import { PostProcessingPipeline } from './postprocessing/PostProcessingPipeline'
+import { ShaderCompileChecker } from './shaders/ShaderCompileChecker'
+import { ParticleGenerator } from './generation/ParticleGenerator'
+import { BloomPass } from './postprocessing/BloomPass'
+import { ChromaticAberrationPass } from './postprocessing/ChromaticAberrationPass'
+import { VignettePass } from './postprocessing/VignettePass'
+import { FilmGrainPass } from './postprocessing/FilmGrainPass'
+import { ScanlinePass } from './postprocessing/ScanlinePass'
+import type { ToneMappingConfig } from './postprocessing/ToneMappingPass'
+import { ParticleSnapshot, SNAPSHOT_FORMAT_VERSION, type ParticleSnapshotData, type LayerSnapshot } from './snapshot/ParticleSnapshot'
+
+// 已校验的场景及其创建好但尚未添加的层和力场
+interface PreparedScene {
+  scene: SceneDescription
+  layers: ParticleLayer[]
+  forceFields: ForceField[]
+}
 
 export class ParticleSystemManager implements IParticleSystemManager {
   public scene: THREE.Scene
   public particleLayers: ParticleLayer[] = []
   public qualityLevel: QualityLevel = QualityLevel.HIGH
 
+  private renderer?: THREE.WebGLRenderer
+  private camera?: THREE.PerspectiveCamera
+  private emitterLayer?: EmitterLayer
   private mouse: THREE.Vector2 = new THREE.Vector2()
   private cameraPosition: THREE.Vector3 = new THREE.Vector3()
   private time: number = 0
   private isInitialized: boolean = false
   private interactionManager?: InteractionManager
+  private cameraRig?: CameraRig
   private performanceMonitor: PerformanceMonitor
   private renderOptimizer?: RenderOptimizer
   private responsiveManager: ResponsiveManager
@@ -29,6 +67,35 @@ export class ParticleSystemManager implements IParticleSystemManager {
   private cssParticleSystem?: CSSParticleSystem
   private usingFallback: boolean = false
   private uxOptimizer: UXOptimizer
+  private currentScene?: SceneDescription
+  private seed: number = SeededRandom.createSeed()
+  private layerRegistry: LayerRegistry = new LayerRegistry(BUILTIN_LAYER_PLUGINS)
+  private forceFields: ForceFieldSystem = new ForceFieldSystem()
+  // 当前场景声明的力场，切换场景时移除
+  private sceneForceFieldNames: string[] = []
+  private depthFog: DepthFogSystem = new DepthFogSystem()
+  private energyWaves: EnergyWaveSystem = new EnergyWaveSystem()
+  private clickRipples: ClickRippleSystem = new ClickRippleSystem()
+  private postProcessing?: PostProcessingPipeline
+  private shaderChecker?: ShaderCompileChecker
+  // 着色器无法编译或已改用CSS粒子而禁用的层，视锥体剔除不能重新显示它们
+  private disabledLayers: WeakSet<ParticleLayer> = new WeakSet()
+  // 场景加载进度，清空层时代数递增，进行中的渐进加载随之作废
+  private loadGeneration: number = 0
+  private loadedLayers: number = 0
+  private totalLayers: number = 0
+  private layerFades: Map<ParticleLayer, { elapsed: number; duration: number }> = new Map()
+  // 渐进加载中正在预热着色器的层，就绪前保持隐藏
+  private warmingLayers: Set<ParticleLayer> = new Set()
+  private onLayerReady?: (layer: ParticleLayer, progress: number) => void
+  private onSceneReady?: (scene: SceneDescription) => void
+  private onFallback?: (report: CompatibilityReport) => void
+  // 粒子数据生成（Worker优先），以及重新生成所需的层描述和未经设备调整的粒子数
+  private particleGenerator: ParticleGenerator = new ParticleGenerator()
+  private layerDescriptions: WeakMap<ParticleLayer, SceneLayerDescription> = new WeakMap()
+  private baseParticleCounts: WeakMap<ParticleLayer, number> = new WeakMap()
+  private regeneratingLayers: Set<ParticleLayer> = new Set()
+  private postProcessingThemeCallback?: (progress: number, colors: ColorPalette) => void
 
   constructor(scene: THREE.Scene) {
     this.scene = scene
@@ -61,11 +128,7 @@ export class ParticleSystemManager implements IParticleSystemManager {
 
     // 初始化主题管理器
     this.themeManager = new ThemeManager('matrix')
-
-    // 设置主题过渡回调
-    this.themeManager.addTransitionCallback((_progress: number, colors: ColorPalette) => {
-      this.updateParticleColors(colors)
-    })
+    this.subscribeToTheme()
 
     // 初始化UX优化器
     this.uxOptimizer = new UXOptimizer()
@@ -84,12 +147,23 @@ export class ParticleSystemManager implements IParticleSystemManager {
     // 清理现有资源
     this.dispose()
 
+    // dispose会清空主题管理器的回调，需要重新订阅
+    this.subscribeToTheme()
+
     // 根据质量等级设置初始参数
     this.adjustQualitySettings()
 
     this.isInitialized = true
   }
 
+  // 主题过渡的每一帧更新粒子和雾化颜色
+  private subscribeToTheme(): void {
+    this.themeManager.addTransitionCallback((_progress: number, colors: ColorPalette) => {
+      this.updateParticleColors(colors)
+    })
+    this.depthFog.applyTheme(this.themeManager.getCurrentColors())
+  }
+
   private checkWebGLCompatibility(): void {
     const report = this.webglDetector.getCompatibilityReport()
 
@@ -119,6 +193,12 @@ export class ParticleSystemManager implements IParticleSystemManager {
   private initializeFallbackSystem(report: CompatibilityReport): void {
     this.usingFallback = true
 
+    if (this.onFallback) {
+      this.onFallback(report)
+    }
+    // 在Worker中渲染时没有页面，CSS粒子由主线程接管
+    if (typeof document === 'undefined') return
+
     try {
       // 获取当前主题颜色
       const currentColors = this.themeManager.getCurrentColors()
@@ -142,6 +222,7 @@ export class ParticleSystemManager implements IParticleSystemManager {
         enableAnimation: true
       })
 
+      this.cssParticleSystem.setDepthFog(this.depthFog)
       this.cssParticleSystem.start()
 
       // 显示用户友好的通知
@@ -222,10 +303,25 @@ export class ParticleSystemManager implements IParticleSystemManager {
     }, 10000)
   }
 
+  // GPU模拟等功能需要访问渲染器
+  public setRenderer(renderer: THREE.WebGLRenderer): void {
+    this.renderer = renderer
+
+    // 着色器编译错误经ErrorHandler上报，层创建时预先检查
+    if (this.shaderChecker) {
+      this.shaderChecker.dispose()
+    }
+    this.shaderChecker = new ShaderCompileChecker(renderer)
+  }
+
   public initializeInteraction(camera: THREE.PerspectiveCamera): void {
     if (this.interactionManager) {
       this.interactionManager.dispose()
     }
+    if (this.cameraRig) {
+      this.cameraRig.dispose()
+    }
+    this.camera = camera
 
     this.interactionManager = new InteractionManager(camera, {
       enableParallax: true,
@@ -237,6 +333,32 @@ export class ParticleSystemManager implements IParticleSystemManager {
       minZoom: 0.3,
       maxZoom: 2.5
     })
+
+    // 点击位置生成火花并发出能量波
+    this.interactionManager.setOnClick((x: number, y: number) => {
+      this.spawnClickSparks(x, y)
+      this.emitClickWave(x, y)
+    })
+
+    // 按住指针时光标处出现吸引子
+    const cursorField = this.forceFields.add({
+      name: 'cursor',
+      type: ForceFieldType.ATTRACTOR,
+      strength: 14,
+      radius: 12,
+      falloff: 1.5,
+      enabled: false
+    })
+    if (cursorField) {
+      this.interactionManager.setCursorForceField(cursorField, 8)
+    }
+
+    // 相机组件决定视点，交互管理器只提供视差和缩放偏移
+    this.cameraRig = new CameraRig(camera, {
+      parallaxScale: 1,
+      zoomDistance: camera.position.z
+    })
+    this.interactionManager.setCameraControl(false)
   }
 
   public initializeRenderOptimizer(camera: THREE.PerspectiveCamera): void {
@@ -251,6 +373,94 @@ export class ParticleSystemManager implements IParticleSystemManager {
       cullingMargin: 15,
       maxPoolSize: 30
     })
+
+    // LOD需要比已生成更多的粒子时按目标数量重新生成
+    this.renderOptimizer.setOnRegenerateLayer((layer, particleCount) => {
+      this.regenerateLayer(layer.name, particleCount).catch(error => {
+        console.error(`Failed to regenerate layer ${layer.name}:`, error)
+      })
+    })
+  }
+
+  /**
+   * 创建后期处理管线，需要先调用setRenderer；使用CSS降级系统时不创建
+   */
+  public initializePostProcessing(camera: THREE.PerspectiveCamera): PostProcessingPipeline | undefined {
+    if (this.usingFallback) return undefined
+    if (!this.renderer) {
+      console.warn('Post-processing requires a renderer, call setRenderer first')
+      return undefined
+    }
+    this.disposePostProcessing()
+    this.camera = camera
+
+    // 不支持浮点渲染目标时退回8位sRGB目标，超过1的亮度会被截断
+    const hdr = this.webglDetector.supportsHDR()
+    if (!hdr) {
+      console.warn('Float render targets not supported, post-processing falls back to LDR')
+    }
+
+    // 按管线顺序添加：辉光在最前，叠加类效果在最后
+    const pipeline = new PostProcessingPipeline(this.renderer, { hdr })
+    pipeline.addPass(new BloomPass())
+    pipeline.addPass(new ChromaticAberrationPass())
+    pipeline.addPass(new VignettePass())
+    pipeline.addPass(new FilmGrainPass())
+    pipeline.addPass(new ScanlinePass())
+
+    pipeline.setQuality(this.qualityLevel)
+    pipeline.setDeviceConfig(this.responsiveManager.getCurrentConfig())
+
+    const theme = this.themeManager.getCurrentTheme()
+    pipeline.applyTheme(theme.colors, theme.glowIntensity)
+    this.postProcessingThemeCallback = (_progress: number, colors: ColorPalette) => {
+      pipeline.applyTheme(colors, this.themeManager.getCurrentTheme().glowIntensity)
+    }
+    this.themeManager.addTransitionCallback(this.postProcessingThemeCallback)
+
+    this.postProcessing = pipeline
+    return pipeline
+  }
+
+  public getPostProcessingPipeline(): PostProcessingPipeline | undefined {
+    return this.postProcessing
+  }
+
+  /**
+   * 设置色调映射算子和曝光
+   */
+  public setToneMapping(config: Partial<ToneMappingConfig>): void {
+    if (this.postProcessing) {
+      this.postProcessing.setToneMapping(config)
+    }
+  }
+
+  public getToneMapping(): ToneMappingConfig | undefined {
+    return this.postProcessing?.getToneMapping()
+  }
+
+  /**
+   * 渲染一帧：有后期处理管线时经过管线，否则直接渲染场景
+   */
+  public render(deltaTime: number): void {
+    if (!this.renderer || !this.camera) return
+
+    if (this.postProcessing && !this.usingFallback) {
+      this.postProcessing.render(this.scene, this.camera, deltaTime)
+    } else {
+      this.renderer.render(this.scene, this.camera)
+    }
+  }
+
+  private disposePostProcessing(): void {
+    if (this.postProcessingThemeCallback) {
+      this.themeManager.removeTransitionCallback(this.postProcessingThemeCallback)
+      this.postProcessingThemeCallback = undefined
+    }
+    if (this.postProcessing) {
+      this.postProcessing.dispose()
+      this.postProcessing = undefined
+    }
   }
 
   public update(deltaTime: number): void {
@@ -268,6 +478,15 @@ export class ParticleSystemManager implements IParticleSystemManager {
       this.mouse = this.interactionManager.getNormalizedMouse()
     }
 
+    // 推进相机动画，叠加视差和缩放
+    if (this.cameraRig) {
+      this.cameraRig.update(deltaTime, {
+        parallax: this.interactionManager?.getParallaxOffset(),
+        zoom: this.interactionManager?.getCurrentZoom(),
+        idleTime: this.interactionManager?.getIdleTime()
+      })
+    }
+
     // 更新主题管理器
     this.themeManager.update()
 
@@ -277,14 +496,36 @@ export class ParticleSystemManager implements IParticleSystemManager {
       return
     }
 
+    // 推进力场动画、深度雾、能量波和层渐入
+    this.forceFields.update(deltaTime)
+    this.updateLayerFades(deltaTime)
+    this.depthFog.update(deltaTime)
+    this.energyWaves.update(deltaTime)
+    if (this.interactionManager) {
+      this.clickRipples.update(this.interactionManager.getClickEffects(), Viewport.getWidth(), Viewport.getHeight())
+    }
+
     // 更新所有粒子层
     for (const layer of this.particleLayers) {
+      // 已禁用和预热中的层保持隐藏，不再推进也不参与渲染优化
+      if (this.disabledLayers.has(layer) || this.warmingLayers.has(layer)) continue
+
       try {
         layer.updateUniforms(this.time, this.mouse)
 
-        // 更新点击效果uniform
-        if (this.interactionManager && layer.material.uniforms) {
-          this.updateClickEffectUniforms(layer, this.interactionManager.getClickEffects())
+        // 推进编队变形
+        if (layer.updateMorph) {
+          layer.updateMorph()
+        }
+
+        // 推进逐帧更新的层（发射器等）
+        if (layer.update) {
+          layer.update(deltaTime)
+        }
+
+        // 推进GPU模拟（仅对启用模拟的层生效）
+        if (this.renderer && layer.updateSimulation) {
+          layer.updateSimulation(this.renderer, deltaTime)
         }
 
         // 应用渲染优化
@@ -297,38 +538,13 @@ export class ParticleSystemManager implements IParticleSystemManager {
     }
   }
 
-  private updateClickEffectUniforms(layer: ParticleLayer, clickEffects: ClickEffect[]): void {
-    const uniforms = layer.material.uniforms
-
-    // 初始化点击效果uniform（如果不存在）
-    if (!uniforms.clickPositions) {
-      uniforms.clickPositions = { value: new Array(5).fill(new THREE.Vector2()) }
-      uniforms.clickIntensities = { value: new Array(5).fill(0) }
-      uniforms.clickRadii = { value: new Array(5).fill(0) }
-      uniforms.activeClickCount = { value: 0 }
-    }
-
-    // 更新点击效果数据
-    const maxEffects = Math.min(clickEffects.length, 5)
-    uniforms.activeClickCount.value = maxEffects
-
-    for (let i = 0; i < 5; i++) {
-      if (i < maxEffects) {
-        const effect = clickEffects[i]
-        uniforms.clickPositions.value[i].copy(effect.position)
-        uniforms.clickIntensities.value[i] = effect.intensity
-        uniforms.clickRadii.value[i] = effect.maxRadius
-      } else {
-        uniforms.clickPositions.value[i].set(0, 0)
-        uniforms.clickIntensities.value[i] = 0
-        uniforms.clickRadii.value[i] = 0
-      }
-    }
-  }
-
   public dispose(): void {
 
     // 清理交互管理器
+    if (this.cameraRig) {
+      this.cameraRig.dispose()
+      this.cameraRig = undefined
+    }
     if (this.interactionManager) {
       this.interactionManager.dispose()
       this.interactionManager = undefined
@@ -340,6 +556,13 @@ export class ParticleSystemManager implements IParticleSystemManager {
       this.renderOptimizer = undefined
     }
 
+    // 停止粒子生成Worker
+    this.particleGenerator.dispose()
+    this.regeneratingLayers.clear()
+
+    // 清理后期处理管线
+    this.disposePostProcessing()
+
     // 清理响应式管理器
     this.responsiveManager.dispose()
 
@@ -359,7 +582,22 @@ export class ParticleSystemManager implements IParticleSystemManager {
     this.uxOptimizer.dispose()
 
     // 清理所有粒子层
+    this.clearLayers()
+
+    // 清理力场
+    this.forceFields.clear()
+    this.sceneForceFieldNames = []
+    this.energyWaves.clear()
+    this.clickRipples.clear()
+
+    this.isInitialized = false
+  }
+
+  private clearLayers(): void {
     for (const layer of this.particleLayers) {
+      if (layer.onDetach) {
+        layer.onDetach()
+      }
       if (layer.points && layer.points.parent) {
         layer.points.parent.remove(layer.points)
       }
@@ -367,33 +605,185 @@ export class ParticleSystemManager implements IParticleSystemManager {
     }
 
     this.particleLayers = []
-    this.isInitialized = false
+    this.layerFades.clear()
+    this.warmingLayers.clear()
+    this.loadGeneration++
+    this.startLoading(0)
   }
 
   public setQuality(level: QualityLevel): void {
     if (this.qualityLevel === level) return
     
     this.qualityLevel = level
-    
-    // 重新初始化以应用新的质量设置
-    if (this.isInitialized) {
-      this.initialize()
+    this.adjustQualitySettings()
+
+    if (this.postProcessing) {
+      this.postProcessing.setQuality(level)
+    }
+
+    // 由各层自行应用新的质量设置，新的着色器变体同样需要检查
+    for (const layer of this.particleLayers) {
+      if (layer.onQualityChange) {
+        layer.onQualityChange(level)
+      }
+      this.checkLayerShaders(layer)
     }
   }
 
-  public addLayer(layer: ParticleLayer): void {
+  /**
+   * 注册层插件，之后场景和addLayer可按类型名使用
+   */
+  public registerLayerType(plugin: LayerPlugin): void {
+    this.layerRegistry.register(plugin)
+    console.log(`Layer type registered: ${plugin.type}`)
+  }
+
+  public unregisterLayerType(type: string): boolean {
+    return this.layerRegistry.unregister(type)
+  }
+
+  public getLayerTypes(): string[] {
+    return this.layerRegistry.getTypes()
+  }
+
+  public getLayerRegistry(): LayerRegistry {
+    return this.layerRegistry
+  }
+
+  /**
+   * 添加层：层实例，或按注册类型名描述的层（与场景中的层描述格式相同）
+   * 同名层会被替换，返回加入场景的层
+   */
+  public addLayer(source: ParticleLayer | SceneLayerDescription): ParticleLayer {
+    const layer: ParticleLayer = this.isLayerDescription(source)
+      ? SceneLoader.parseLayer(source, this.layerRegistry, { palettes: ColorSystem.getPaletteNames() })
+      : source
+    if (this.isLayerDescription(source)) {
+      this.layerDescriptions.set(layer, source)
+    }
+
+    this.insertLayer(layer)
+    this.finishLayer(layer)
+
+    return layer
+  }
+
+  // 生成层的粒子和材质，加入场景并接入共享的效果系统；warmUp时层在加入场景前隐藏并设为透明
+  private insertLayer(layer: ParticleLayer, warmUp: boolean = false): void {
     // 检查是否已存在同名层
     const existingIndex = this.particleLayers.findIndex(l => l.name === layer.name)
     if (existingIndex !== -1) {
       this.removeLayer(layer.name)
     }
     
+    // 每层的种子由主种子和层名派生
+    if (layer.setSeed) {
+      layer.setSeed(this.getLayerSeed(layer))
+    }
+
     // 创建新层
     layer.create()
+    this.baseParticleCounts.set(layer, layer.particleCount)
+
+    // 预热完成前不能被绘制，否则渲染时同步编译，且渐入前以完全不透明显示
+    if (warmUp) {
+      this.warmingLayers.add(layer)
+      layer.points.visible = false
+      if (layer.setOpacity) {
+        layer.setOpacity(0)
+      }
+    }
     
     // 添加到场景和管理器
     this.scene.add(layer.points)
     this.particleLayers.push(layer)
+
+    this.attachRenderHook(layer)
+    if (layer.setForceFields) {
+      layer.setForceFields(this.forceFields)
+    }
+    if (layer.setEnergyWaves) {
+      layer.setEnergyWaves(this.energyWaves)
+    }
+    if (layer.setClickRipples) {
+      layer.setClickRipples(this.clickRipples)
+    }
+    if (layer.setDepthFog) {
+      layer.setDepthFog(this.depthFog)
+    }
+    // 按当前质量等级选择着色器变体
+    if (layer.onQualityChange) {
+      layer.onQualityChange(this.qualityLevel)
+    }
+  }
+
+  private getLayerSeed(layer: ParticleLayer): number {
+    return SeededRandom.deriveSeed(this.seed, layer.name)
+  }
+
+  // 检查着色器后通知层已挂载
+  private finishLayer(layer: ParticleLayer): void {
+    this.checkLayerShaders(layer)
+    if (layer.onAttach) {
+      layer.onAttach(this.getLayerAttachContext())
+    }
+  }
+
+  // 检查层的着色器能否编译，失败时依次退回简化着色器和CSS粒子
+  private checkLayerShaders(layer: ParticleLayer): void {
+    if (this.usingFallback) {
+      // CSS粒子已接管，WebGL层不再显示
+      this.disableLayer(layer)
+      return
+    }
+
+    if (!this.verifyLayerShaders(layer)) {
+      this.fallBackToCSS(`Shaders of layer ${layer.name} failed to compile`)
+    }
+  }
+
+  // 返回false表示连简化着色器也无法编译
+  private verifyLayerShaders(layer: ParticleLayer): boolean {
+    if (!this.shaderChecker) return true
+
+    const camera = this.getCompileCamera()
+    const context = `Layer ${layer.name}`
+    if (!this.shaderChecker.check(layer.points, camera, this.scene, context)) return true
+
+    if (!layer.useSimpleShaders || !layer.useSimpleShaders()) {
+      // 没有简化版本的层（连线、星云、实例化四边形）只隐藏自身，其余层照常显示
+      console.warn(`Layer ${layer.name} has no simple shaders, hiding it`)
+      this.disableLayer(layer)
+      return true
+    }
+
+    console.warn(`Layer ${layer.name} falls back to simple shaders`)
+    return this.shaderChecker.check(layer.points, camera, this.scene, `${context} (simple shaders)`) === null
+  }
+
+  // 隐藏层并停止更新；只改visible会在下一帧被视锥体剔除恢复
+  private disableLayer(layer: ParticleLayer): void {
+    this.disabledLayers.add(layer)
+    layer.points.visible = false
+  }
+
+  // 相机在initializeInteraction之前可能还不存在，编译不依赖相机的具体参数
+  private getCompileCamera(): THREE.Camera {
+    return this.camera ?? new THREE.PerspectiveCamera()
+  }
+
+  // 隐藏全部WebGL层并改用CSS粒子系统
+  private fallBackToCSS(reason: string): void {
+    for (const layer of this.particleLayers) {
+      this.disableLayer(layer)
+    }
+
+    console.warn(`${reason}, switching to CSS particle fallback`)
+    this.initializeFallbackSystem({
+      ...this.webglDetector.getCompatibilityReport(),
+      recommendedFallback: 'css',
+      errors: [reason]
+    })
   }
 
   public removeLayer(name: string): void {
@@ -401,17 +791,547 @@ export class ParticleSystemManager implements IParticleSystemManager {
     if (index === -1) return
     
     const layer = this.particleLayers[index]
+
+    if (layer.onDetach) {
+      layer.onDetach()
+    }
     
     // 从场景中移除
     this.scene.remove(layer.points)
     
     // 释放资源
     layer.dispose()
+    this.layerFades.delete(layer)
+    this.disabledLayers.delete(layer)
+    this.warmingLayers.delete(layer)
     
     // 从数组中移除
     this.particleLayers.splice(index, 1)
   }
 
+  private isLayerDescription(source: ParticleLayer | SceneLayerDescription): source is SceneLayerDescription {
+    return typeof (source as ParticleLayer).create !== 'function'
+  }
+
+  private getLayerAttachContext(): LayerAttachContext {
+    return {
+      scene: this.scene,
+      renderer: this.renderer,
+      camera: this.camera,
+      qualityLevel: this.qualityLevel,
+      theme: this.themeManager.getCurrentTheme(),
+      depthFog: this.depthFog,
+      getLayer: (name: string) => this.getLayer(name)
+    }
+  }
+
+  // 把层的onBeforeRender挂到渲染对象上，保留对象已有的回调
+  private attachRenderHook(layer: ParticleLayer): void {
+    if (!layer.onBeforeRender) return
+
+    const object = layer.points
+    const previous = object.onBeforeRender
+    object.onBeforeRender = (renderer, scene, camera, geometry, material, group) => {
+      previous.call(object, renderer, scene, camera, geometry, material, group)
+      layer.onBeforeRender!(renderer, camera)
+    }
+  }
+
+  /**
+   * 发射器层，首次使用时按质量等级确定容量并加入场景
+   */
+  public getEmitterLayer(): EmitterLayer {
+    if (!this.emitterLayer || !this.particleLayers.includes(this.emitterLayer)) {
+      const capacity = {
+        [QualityLevel.LOW]: 512,
+        [QualityLevel.MEDIUM]: 1024,
+        [QualityLevel.HIGH]: 2048,
+        [QualityLevel.ULTRA]: 4096
+      }[this.qualityLevel]
+
+      this.emitterLayer = new EmitterLayer(capacity)
+      this.addLayer(this.emitterLayer)
+    }
+    return this.emitterLayer
+  }
+
+  /**
+   * 添加发射器（见EmitterPresets中的常用配置）
+   */
+  public emit(config: Partial<EmitterConfig> & Pick<EmitterConfig, 'name'>): ParticleEmitter | undefined {
+    if (this.usingFallback) return undefined
+    return this.getEmitterLayer().addEmitter(config)
+  }
+
+  private spawnClickSparks(screenX: number, screenY: number): void {
+    if (!this.camera || this.usingFallback) return
+
+    // 把屏幕坐标投射到相机前方固定距离处
+    const direction = new THREE.Vector3(
+      (screenX / Viewport.getWidth()) * 2 - 1,
+      -(screenY / Viewport.getHeight()) * 2 + 1,
+      0.5
+    ).unproject(this.camera).sub(this.camera.position).normalize()
+    const position = this.camera.position.clone().addScaledVector(direction, 8)
+
+    const accent = this.themeManager.getCurrentTheme().colors.accent
+    this.emit(EmitterPresets.clickSparks(position, accent))
+  }
+
+  // 点击处发出球面能量波，扫过后方的粒子层
+  private emitClickWave(screenX: number, screenY: number): void {
+    if (!this.camera || this.usingFallback) return
+
+    this.energyWaves.emitFromCamera(
+      this.camera,
+      (screenX / Viewport.getWidth()) * 2 - 1,
+      -(screenY / Viewport.getHeight()) * 2 + 1,
+      20,
+      {
+        speed: 120,
+        thickness: 8,
+        range: 400,
+        amplitude: 4,
+        color: this.themeManager.getCurrentTheme().colors.accent
+      }
+    )
+  }
+
+  public getSeed(): number {
+    return this.seed
+  }
+
+  /**
+   * 设置主种子，已加载场景时按新种子重新生成
+   */
+  public setSeed(seed: number): void {
+    this.seed = seed >>> 0
+    console.log(`Particle seed: ${this.seed}`)
+
+    if (this.currentScene) {
+      this.loadScene(this.currentScene)
+    }
+  }
+
+  /**
+   * 添加力场（同名替换），返回的力场可直接修改参数或设置动画
+   */
+  public addForceField(
+    source: ForceField | (Partial<ForceFieldConfig> & Pick<ForceFieldConfig, 'name' | 'type'>),
+    animation?: ForceFieldAnimation
+  ): ForceField | undefined {
+    return this.forceFields.add(source, animation)
+  }
+
+  public removeForceField(name: string): boolean {
+    return this.forceFields.remove(name)
+  }
+
+  public getForceField(name: string): ForceField | undefined {
+    return this.forceFields.get(name)
+  }
+
+  public getForceFieldSystem(): ForceFieldSystem {
+    return this.forceFields
+  }
+
+  /**
+   * 相机组件，initializeInteraction()之后可用
+   */
+  public getCameraRig(): CameraRig | undefined {
+    return this.cameraRig
+  }
+
+  /**
+   * 把相机平滑移动到预设或指定视点
+   */
+  public cameraGoTo(destination: string | CameraViewpoint, duration?: number): Promise<void> {
+    if (!this.cameraRig) {
+      return Promise.reject(new Error('Camera rig is not initialized'))
+    }
+    return this.cameraRig.goTo(destination, duration)
+  }
+
+  /**
+   * 触发一道能量波（球面或平面），所有层共享同一个波缓冲区
+   */
+  public emitEnergyWave(config: Partial<EnergyWaveConfig> = {}): EnergyWave | undefined {
+    if (this.usingFallback) return undefined
+    return this.energyWaves.emit(config)
+  }
+
+  /**
+   * 能量波系统，可连接音频节拍或在时间线上安排波
+   */
+  public getEnergyWaveSystem(): EnergyWaveSystem {
+    return this.energyWaves
+  }
+
+  /**
+   * 深度雾系统，体积星云等层按其距离参数融入远景
+   */
+  public getDepthFogSystem(): DepthFogSystem {
+    return this.depthFog
+  }
+
+  /**
+   * 切换雾化预设，各层在下一帧同步
+   */
+  public setFogPreset(preset: DepthFogPreset): void {
+    this.depthFog.applyPreset(preset)
+    this.cssParticleSystem?.refreshDepthFog()
+  }
+
+  public getFogPreset(): DepthFogPreset {
+    return this.depthFog.getPreset()
+  }
+
+  public setFogEnabled(enabled: boolean): void {
+    this.depthFog.setEnabled(enabled)
+    this.cssParticleSystem?.refreshDepthFog()
+  }
+
+  /**
+   * 设置单个层的雾化覆盖，传入空对象恢复使用全局雾化参数
+   */
+  public setLayerFog(name: string, overrides: DepthFogOverrides): boolean {
+    const layer = this.getLayer(name)
+    if (!layer || !layer.setFogOverrides) {
+      console.warn(`Layer ${name} does not support fog overrides`)
+      return false
+    }
+    layer.setFogOverrides(overrides)
+    return true
+  }
+
+  public getLayer(name: string): ParticleLayer | undefined {
+    return this.particleLayers.find(layer => layer.name === name)
+  }
+
+  /**
+   * 把指定层变形到新编队，完成后resolve
+   */
+  public morphLayer(name: string, formation: LayerFormation, options?: Partial<MorphOptions>): Promise<void> {
+    const layer = this.getLayer(name)
+    if (!layer || !layer.morphTo) {
+      return Promise.reject(new Error(`Layer cannot be morphed: ${name}`))
+    }
+    return layer.morphTo(formation, options)
+  }
+
+  /**
+   * 加载场景描述（对象或JSON字符串），替换当前所有粒子层
+   * 描述无效时抛出SceneValidationError，当前场景保持不变
+   */
+  public loadScene(source: unknown): SceneDescription {
+    return this.showScene(this.prepareScene(source))
+  }
+
+  // 同步创建已校验场景的全部层，层种子由当前主种子派生
+  private showScene({ scene, layers, forceFields }: PreparedScene): SceneDescription {
+    this.clearLayers()
+    this.startLoading(layers.length)
+    for (const layer of layers) {
+      this.addLayer(layer)
+      this.markLayerReady(layer)
+    }
+    this.applySceneSettings(scene, forceFields)
+
+    console.log(`Scene loaded: ${scene.name} (${layers.length} layers)`)
+    this.completeLoading(scene)
+
+    return scene
+  }
+
+  /**
+   * 渐进加载场景：能在Worker中重建的层在后台同时生成粒子数据，之后每帧创建一层；
+   * WebGLDetector报告支持KHR_parallel_shader_compile时在后台预编译着色器，各层就绪后在fadeDuration秒内渐入
+   * 加载过程中场景被替换或清空时，Promise以已作废的场景完成，不再继续添加层
+   */
+  public async loadSceneAsync(source: unknown, fadeDuration: number = 1.2): Promise<SceneDescription> {
+    const { scene, layers, forceFields } = this.prepareScene(source)
+
+    this.clearLayers()
+    const generation = this.loadGeneration
+    this.startLoading(layers.length)
+    this.applySceneSettings(scene, forceFields)
+
+    const pregenerated = layers.map(layer => this.pregenerateLayer(layer))
+
+    for (const [index, layer] of layers.entries()) {
+      // 让出一帧，避免所有层的生成和编译挤在同一帧
+      await this.nextFrame()
+      const generated = await pregenerated[index]
+      if (generation !== this.loadGeneration) return scene
+
+      if (generated && layer.applyGeneratedParticles) {
+        layer.applyGeneratedParticles(generated)
+      }
+      this.insertLayer(layer, true)
+      await this.warmUpShaders(layer)
+      if (generation !== this.loadGeneration) return scene
+
+      this.warmingLayers.delete(layer)
+      layer.points.visible = true
+      this.finishLayer(layer)
+      this.fadeInLayer(layer, fadeDuration)
+      this.markLayerReady(layer)
+    }
+
+    console.log(`Scene loaded progressively: ${scene.name} (${layers.length} layers)`)
+    this.completeLoading(scene)
+
+    return scene
+  }
+
+  /**
+   * 当前场景的加载进度（0-1）
+   */
+  public getLoadProgress(): number {
+    return this.totalLayers === 0 ? 1 : this.loadedLayers / this.totalLayers
+  }
+
+  public isSceneReady(): boolean {
+    return this.loadedLayers >= this.totalLayers
+  }
+
+  public setOnLayerReady(callback: (layer: ParticleLayer, progress: number) => void): void {
+    this.onLayerReady = callback
+  }
+
+  public setOnSceneReady(callback: (scene: SceneDescription) => void): void {
+    this.onSceneReady = callback
+  }
+
+  /**
+   * 以新的粒子数量重新生成层的粒子（种子不变），能在Worker中重建的层在后台生成
+   * 层不支持重新生成、正在生成或生成期间被移除时返回false
+   */
+  public async regenerateLayer(name: string, particleCount?: number): Promise<boolean> {
+    const layer = this.getLayer(name)
+    if (!layer || !layer.applyGeneratedParticles || !layer.canRegenerate || !layer.canRegenerate()) return false
+    if (this.regeneratingLayers.has(layer)) return false
+
+    const count = Math.max(1, Math.floor(particleCount ?? layer.particleCount))
+    this.regeneratingLayers.add(layer)
+    try {
+      const generated = await this.particleGenerator.generate(layer, count, this.getWorkerDescription(layer))
+      // 生成期间层可能已被移除或替换
+      if (!this.particleLayers.includes(layer)) return false
+
+      layer.applyGeneratedParticles(generated)
+      console.log(`Layer ${name} regenerated with ${count} particles`)
+      return true
+    } finally {
+      this.regeneratingLayers.delete(layer)
+    }
+  }
+
+  // 解析场景并构造全部层，避免构造失败时留下半个场景
+  private prepareScene(source: unknown): PreparedScene {
+    if (ColorSystem.getPaletteNames().length === 0) {
+      ColorSystem.initialize()
+    }
+
+    const scene = SceneLoader.parse(source, this.layerRegistry, {
+      themes: this.getAvailableThemes(),
+      palettes: ColorSystem.getPaletteNames()
+    })
+
+    const layers = SceneLoader.createLayers(scene, this.layerRegistry)
+    layers.forEach((layer, index) => this.layerDescriptions.set(layer, scene.layers[index]))
+
+    return {
+      scene,
+      layers,
+      forceFields: SceneLoader.createForceFields(scene)
+    }
+  }
+
+  // 为能在Worker中重建的层提前生成粒子数据，其余层在create()中同步生成
+  private pregenerateLayer(layer: ParticleLayer): Promise<GeneratedParticles | undefined> {
+    const description = this.getWorkerDescription(layer)
+    if (!description || !layer.setSeed) return Promise.resolve(undefined)
+
+    layer.setSeed(this.getLayerSeed(layer))
+    return this.particleGenerator.generate(layer, layer.particleCount, description).catch(error => {
+      console.warn(`Failed to pregenerate layer ${layer.name}:`, error)
+      return undefined
+    })
+  }
+
+  // Worker按描述重建层：只支持内置类型，分布取层当前的分布，形状需要DOM取样，由canGenerateInWorker排除
+  private getWorkerDescription(layer: ParticleLayer): SceneLayerDescription | undefined {
+    const description = this.layerDescriptions.get(layer)
+    if (!description || !ParticleGenerator.isSupported()) return undefined
+    if (!layer.canGenerateInWorker || !layer.canGenerateInWorker()) return undefined
+
+    const plugin = this.layerRegistry.get(description.type)
+    if (!plugin || !BUILTIN_LAYER_PLUGINS.includes(plugin)) return undefined
+
+    return {
+      ...description,
+      shape: undefined,
+      distribution: layer.getFormation ? layer.getFormation().distribution : description.distribution
+    }
+  }
+
+  private applySceneSettings(scene: SceneDescription, forceFields: ForceField[]): void {
+    // 替换上一个场景声明的力场
+    this.sceneForceFieldNames.forEach(name => this.forceFields.remove(name))
+    this.sceneForceFieldNames = forceFields
+      .filter(field => this.forceFields.add(field) !== undefined)
+      .map(field => field.name)
+
+    if (scene.theme) {
+      this.setTheme(scene.theme)
+    }
+
+    this.currentScene = scene
+  }
+
+  private startLoading(total: number): void {
+    this.loadedLayers = 0
+    this.totalLayers = total
+  }
+
+  private markLayerReady(layer: ParticleLayer): void {
+    this.loadedLayers++
+    if (this.onLayerReady) {
+      this.onLayerReady(layer, this.getLoadProgress())
+    }
+  }
+
+  private completeLoading(scene: SceneDescription): void {
+    if (this.onSceneReady) {
+      this.onSceneReady(scene)
+    }
+  }
+
+  // 部分浏览器的Worker没有requestAnimationFrame
+  private nextFrame(): Promise<void> {
+    if (typeof requestAnimationFrame === 'undefined') {
+      return new Promise(resolve => setTimeout(resolve, 16))
+    }
+    return new Promise(resolve => requestAnimationFrame(() => resolve()))
+  }
+
+  // 支持并行编译时在后台编译本层的着色器，否则由随后的编译检查同步完成
+  private async warmUpShaders(layer: ParticleLayer): Promise<void> {
+    if (!this.renderer || this.usingFallback || !this.webglDetector.supportsParallelShaderCompile()) return
+
+    await this.renderer.compileAsync(layer.points, this.getCompileCamera(), this.scene)
+  }
+
+  private fadeInLayer(layer: ParticleLayer, duration: number): void {
+    if (!layer.setOpacity) return
+
+    if (duration <= 0) {
+      layer.setOpacity(1)
+      return
+    }
+    layer.setOpacity(0)
+    this.layerFades.set(layer, { elapsed: 0, duration })
+  }
+
+  // 推进层的渐入，使用smoothstep曲线
+  private updateLayerFades(deltaTime: number): void {
+    this.layerFades.forEach((fade, layer) => {
+      fade.elapsed += deltaTime
+      const t = Math.min(1, fade.elapsed / fade.duration)
+      layer.setOpacity!(t * t * (3 - 2 * t))
+      if (t >= 1) {
+        this.layerFades.delete(layer)
+      }
+    })
+  }
+
+  public getCurrentScene(): SceneDescription | undefined {
+    return this.currentScene
+  }
+
+  /**
+   * 把当前画面（各层粒子数据、uniform、主题、相机和时间）编码为二进制快照
+   */
+  public snapshot(): ArrayBuffer {
+    const layers: LayerSnapshot[] = []
+    for (const layer of this.particleLayers) {
+      if (layer.captureState) {
+        layers.push(layer.captureState())
+      }
+    }
+
+    const data: ParticleSnapshotData = {
+      version: SNAPSHOT_FORMAT_VERSION,
+      createdAt: Date.now(),
+      seed: this.seed,
+      time: this.time,
+      scene: this.currentScene,
+      theme: ParticleSnapshot.captureTheme(this.themeManager.getCurrentTheme()),
+      camera: this.camera ? ParticleSnapshot.captureCamera(this.camera, this.cameraRig?.getViewpoint()) : undefined,
+      layers
+    }
+
+    const buffer = ParticleSnapshot.encode(data)
+    console.log(`Snapshot created: ${layers.length} layers, ${(buffer.byteLength / 1024).toFixed(1)} KB`)
+    return buffer
+  }
+
+  /**
+   * 恢复快照：重新加载快照中的场景，再覆盖各层数据、主题、相机和时间
+   * 格式无效时抛出SnapshotError，当前画面保持不变
+   */
+  public restore(source: ArrayBuffer | Uint8Array): ParticleSnapshotData {
+    const snapshot = ParticleSnapshot.decode(source)
+
+    // 场景校验失败时保留当前种子和画面
+    if (snapshot.scene) {
+      const prepared = this.prepareScene(snapshot.scene)
+      this.seed = snapshot.seed >>> 0
+      this.showScene(prepared)
+    }
+
+    // 主题立即切换，快照中未注册的主题按保存的颜色注册
+    if (!this.getAvailableThemes().includes(snapshot.theme.name)) {
+      this.themeManager.registerTheme(ParticleSnapshot.toThemeConfig(snapshot.theme))
+    }
+    this.themeManager.setTheme(snapshot.theme.name, 0)
+
+    const missingLayers: string[] = []
+    for (const layerSnapshot of snapshot.layers) {
+      const layer = this.getLayer(layerSnapshot.name)
+      if (layer && layer.restoreState) {
+        layer.restoreState(layerSnapshot)
+      } else {
+        missingLayers.push(layerSnapshot.name)
+      }
+    }
+    if (missingLayers.length > 0) {
+      console.warn(`Snapshot layers not restored: ${missingLayers.join(', ')}`)
+    }
+
+    // 有相机组件时通过它立即切换视点，否则下一帧会被组件的视点覆盖
+    if (this.cameraRig && snapshot.camera) {
+      const current = this.cameraRig.getViewpoint()
+      this.cameraRig.goTo(ParticleSnapshot.toViewpoint(snapshot.camera, current.position.distanceTo(current.target)), 0)
+    } else if (this.camera && snapshot.camera) {
+      ParticleSnapshot.applyCamera(this.camera, snapshot.camera)
+    }
+    this.time = snapshot.time
+
+    console.log(`Snapshot restored from ${new Date(snapshot.createdAt).toISOString()}`)
+    return snapshot
+  }
+
+  /**
+   * 交给交互管理器处理一次输入（Worker中由主线程转发的事件调用）
+   */
+  public handleInteractionInput(input: InteractionInput): void {
+    if (this.interactionManager) {
+      this.interactionManager.handleInput(input)
+    }
+  }
+
   public updateMouse(x: number, y: number): void {
     this.mouse.set(x, y)
   }
@@ -454,11 +1374,22 @@ export class ParticleSystemManager implements IParticleSystemManager {
     // 根据设备配置调整质量等级
     this.setQuality(config.qualityLevel)
 
-    // 调整粒子数量
+    if (this.postProcessing) {
+      this.postProcessing.setDeviceConfig(config)
+    }
+
+    // 按设备的粒子倍率重新生成层，以层创建时的数量为基准，避免多次切换后逐渐减少
     for (const layer of this.particleLayers) {
-      const adaptedCount = this.responsiveManager.adaptParticleCount(layer.particleCount)
-      if (adaptedCount !== layer.particleCount) {
-        // 这里可以实现动态调整粒子数量的逻辑
+      if (!layer.canRegenerate || !layer.canRegenerate()) continue
+
+      const adaptedCount = this.responsiveManager.adaptParticleCount(this.baseParticleCounts.get(layer) ?? layer.particleCount)
+      if (adaptedCount > 0 && adaptedCount !== layer.particleCount) {
+        if (this.renderOptimizer) {
+          this.renderOptimizer.setBaseParticleCount(layer, adaptedCount)
+        }
+        this.regenerateLayer(layer.name, adaptedCount).catch(error => {
+          console.error(`Failed to regenerate layer ${layer.name}:`, error)
+        })
       }
     }
   }
@@ -470,8 +1401,8 @@ export class ParticleSystemManager implements IParticleSystemManager {
         if (this.interactionManager) {
           // 将触摸平移转换为鼠标移动
           const normalizedDelta = gesture.deltaPosition.clone()
-          normalizedDelta.x = (normalizedDelta.x / window.innerWidth) * 2
-          normalizedDelta.y = -(normalizedDelta.y / window.innerHeight) * 2
+          normalizedDelta.x = (normalizedDelta.x / Viewport.getWidth()) * 2
+          normalizedDelta.y = -(normalizedDelta.y / Viewport.getHeight()) * 2
         }
         break
 
@@ -497,6 +1428,8 @@ export class ParticleSystemManager implements IParticleSystemManager {
   }
 
   private updateParticleColors(colors: ColorPalette): void {
+    this.depthFog.applyTheme(colors)
+
     // 如果使用CSS粒子系统，更新CSS粒子颜色
     if (this.usingFallback && this.cssParticleSystem) {
       const colorStrings = [
@@ -508,56 +1441,11 @@ export class ParticleSystemManager implements IParticleSystemManager {
       return
     }
 
-    // 更新所有粒子层的颜色
+    // 由各层按自身层次选择主题颜色
+    const theme = this.themeManager.getCurrentTheme()
     for (const layer of this.particleLayers) {
-      if (layer.material.uniforms) {
-        // 根据层的类型应用不同的颜色
-        switch (layer.name) {
-          case 'foreground':
-            if (layer.material.uniforms.color) {
-              layer.material.uniforms.color.value = colors.primary
-            }
-            if (layer.material.uniforms.glowColor) {
-              layer.material.uniforms.glowColor.value = colors.glow
-            }
-            break
-
-          case 'midground':
-            if (layer.material.uniforms.color) {
-              layer.material.uniforms.color.value = colors.secondary
-            }
-            if (layer.material.uniforms.glowColor) {
-              layer.material.uniforms.glowColor.value = colors.accent
-            }
-            break
-
-          case 'background':
-            if (layer.material.uniforms.color) {
-              layer.material.uniforms.color.value = colors.background
-            }
-            if (layer.material.uniforms.glowColor) {
-              layer.material.uniforms.glowColor.value = colors.foreground
-            }
-            break
-
-          default:
-            // 默认使用主色调
-            if (layer.material.uniforms.color) {
-              layer.material.uniforms.color.value = colors.primary
-            }
-            if (layer.material.uniforms.glowColor) {
-              layer.material.uniforms.glowColor.value = colors.glow
-            }
-        }
-
-        // 更新透明度和强度
-        const theme = this.themeManager.getCurrentTheme()
-        if (layer.material.uniforms.opacity) {
-          layer.material.uniforms.opacity.value = theme.particleOpacity
-        }
-        if (layer.material.uniforms.intensity) {
-          layer.material.uniforms.intensity.value = theme.glowIntensity
-        }
+      if (layer.onThemeChange) {
+        layer.onThemeChange(colors, theme)
       }
     }
   }
@@ -604,6 +1492,11 @@ export class ParticleSystemManager implements IParticleSystemManager {
       this.renderOptimizer.onWindowResize(width, height)
     }
 
+    // 离屏渲染目标跟随画布尺寸
+    if (this.postProcessing) {
+      this.postProcessing.setSize(width, height)
+    }
+
     // 更新所有粒子层
     this.particleLayers.forEach(layer => {
       if (layer.onWindowResize) {
@@ -646,6 +1539,14 @@ export class ParticleSystemManager implements IParticleSystemManager {
     return this.usingFallback
   }
 
+  /**
+   * WebGL不可用或着色器无法编译、切换到降级模式时回调
+   * 构造时就不支持WebGL的情况在设置回调之前发生，需要检查isUsingFallback
+   */
+  public setOnFallback(callback: (report: CompatibilityReport) => void): void {
+    this.onFallback = callback
+  }
+
   public isWebGLSupported(): boolean {
     return this.webglDetector.isWebGLSupported()
   }
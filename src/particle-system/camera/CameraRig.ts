@@ -0,0 +1,396 @@
+import * as THREE from 'three'
+
+/**
+ * 相机视点：位置、注视点和可选的视场角
+ */
+export interface CameraViewpoint {
+  position: THREE.Vector3
+  target: THREE.Vector3
+  fov?: number
+}
+
+/**
+ * 相机路径播放参数
+ */
+export interface CameraPathOptions {
+  duration: number          // 走完整条路径的时间（秒）
+  loop: boolean             // 闭合路径并循环播放
+  fromCurrent: boolean      // 以当前视点作为路径起点，避免跳变
+}
+
+/**
+ * 相机组件配置
+ */
+export interface CameraRigConfig {
+  transitionDuration: number  // 预设间过渡的默认时长（秒）
+  autoCruise: boolean         // 空闲时自动巡航
+  idleTimeout: number         // 无输入多少秒后开始巡航
+  cruiseDuration: number      // 巡航一圈的时间（秒）
+  cruisePresets: string[]     // 巡航经过的预设，为空时使用全部预设
+  parallaxScale: number       // 视差偏移（交互管理器给出的偏移）的缩放
+  zoomDistance: number        // 缩放为2时沿视线前推zoomDistance/2
+}
+
+/**
+ * 每帧来自交互层的输入
+ */
+export interface CameraRigInput {
+  parallax?: THREE.Vector2    // 视差偏移（相机局部的右、上方向）
+  zoom?: number               // 缩放倍数，1为不缩放
+  idleTime?: number           // 距离上次用户输入的秒数
+}
+
+export type CameraRigMode = 'idle' | 'transition' | 'path' | 'cruise'
+
+/**
+ * 终端的相机命令，不含three对象，可在Worker间传递
+ */
+export type CameraRigCommand =
+  | { action: 'goto'; target: string }
+  | { action: 'tour' }
+  | { action: 'cruise'; enabled: boolean }
+  | { action: 'stop' }
+
+interface CameraMotion {
+  positions: THREE.CatmullRomCurve3
+  targets: THREE.CatmullRomCurve3
+  fovs: number[]
+  duration: number
+  elapsed: number
+  loop: boolean
+  ease: boolean
+  resolve?: () => void
+}
+
+/**
+ * 内置视点预设，与默认场景中的天体位置对应
+ */
+export const CAMERA_PRESETS: Record<string, CameraViewpoint> = {
+  home: { position: new THREE.Vector3(0, 0, 5), target: new THREE.Vector3(0, 0, -100) },
+  nebula: { position: new THREE.Vector3(10, 12, -30), target: new THREE.Vector3(0, 5, -110) },
+  galaxy: { position: new THREE.Vector3(-140, 70, -300), target: new THREE.Vector3(-220, 110, -480) },
+  edgeon: { position: new THREE.Vector3(180, -30, -340), target: new THREE.Vector3(260, -60, -520) },
+  overview: { position: new THREE.Vector3(0, 60, 140), target: new THREE.Vector3(0, 0, -200) }
+}
+
+/**
+ * 相机组件 - 命名视点预设、预设间的平滑过渡、Catmull-Rom关键帧路径和空闲自动巡航
+ * 组件决定相机的基础视点，交互管理器的视差和缩放作为偏移叠加在其上
+ */
+export class CameraRig {
+  private camera: THREE.PerspectiveCamera
+  private config: CameraRigConfig
+  private presets: Map<string, CameraViewpoint> = new Map()
+  private mode: CameraRigMode = 'idle'
+  private motion?: CameraMotion
+  private onModeChangeCallback?: (mode: CameraRigMode) => void
+  // 上一帧的空闲时间，变小说明有新的用户输入
+  private lastIdleTime: number = 0
+
+  // 当前基础视点（不含视差和缩放）
+  private position: THREE.Vector3 = new THREE.Vector3()
+  private target: THREE.Vector3 = new THREE.Vector3()
+  private fov: number
+  private defaultFov: number
+
+  private readonly scratchForward = new THREE.Vector3()
+  private readonly scratchRight = new THREE.Vector3()
+  private readonly scratchUp = new THREE.Vector3()
+  private readonly scratchOffset = new THREE.Vector3()
+
+  constructor(camera: THREE.PerspectiveCamera, config: Partial<CameraRigConfig> = {}) {
+    this.camera = camera
+    this.config = {
+      transitionDuration: 2.5,
+      autoCruise: true,
+      idleTimeout: 45,
+      cruiseDuration: 120,
+      cruisePresets: [],
+      parallaxScale: 1,
+      zoomDistance: 5,
+      ...config
+    }
+
+    this.defaultFov = camera.fov
+    this.fov = camera.fov
+    this.position.copy(camera.position)
+    camera.getWorldDirection(this.target).multiplyScalar(100).add(camera.position)
+
+    for (const [name, viewpoint] of Object.entries(CAMERA_PRESETS)) {
+      this.addPreset(name, viewpoint)
+    }
+    // home以相机初始视点为准
+    this.addPreset('home', { position: this.position, target: this.target })
+
+    console.log('CameraRig initialized with presets:', this.getPresetNames().join(', '))
+  }
+
+  public addPreset(name: string, viewpoint: CameraViewpoint): void {
+    this.presets.set(name.toLowerCase(), {
+      position: viewpoint.position.clone(),
+      target: viewpoint.target.clone(),
+      fov: viewpoint.fov
+    })
+  }
+
+  public removePreset(name: string): boolean {
+    return this.presets.delete(name.toLowerCase())
+  }
+
+  public getPreset(name: string): CameraViewpoint | undefined {
+    return this.presets.get(name.toLowerCase())
+  }
+
+  public getPresetNames(): string[] {
+    return [...this.presets.keys()]
+  }
+
+  public getMode(): CameraRigMode {
+    return this.mode
+  }
+
+  public getConfig(): CameraRigConfig {
+    return { ...this.config, cruisePresets: [...this.config.cruisePresets] }
+  }
+
+  public updateConfig(config: Partial<CameraRigConfig>): void {
+    this.config = { ...this.config, ...config }
+    if (!this.config.autoCruise && this.mode === 'cruise') {
+      this.stop()
+    }
+  }
+
+  // 设置模式切换回调（开始巡航、到达视点等）
+  public setOnModeChange(callback: (mode: CameraRigMode) => void): void {
+    this.onModeChangeCallback = callback
+  }
+
+  /**
+   * 当前基础视点的副本
+   */
+  public getViewpoint(): CameraViewpoint {
+    return { position: this.position.clone(), target: this.target.clone(), fov: this.fov }
+  }
+
+  /**
+   * 平滑移动到预设或指定视点，到达或被其他动画打断时resolve；未知预设名会reject
+   */
+  public goTo(destination: string | CameraViewpoint, duration: number = this.config.transitionDuration): Promise<void> {
+    const viewpoint = typeof destination === 'string' ? this.getPreset(destination) : destination
+    if (!viewpoint) {
+      return Promise.reject(new Error(`Unknown camera preset: ${destination} (available: ${this.getPresetNames().join(', ')})`))
+    }
+
+    if (duration <= 0) {
+      this.stop()
+      this.applyViewpoint(viewpoint)
+      return Promise.resolve()
+    }
+
+    // 两点之间的Catmull-Rom曲线即直线，缓动由时间曲线提供
+    return this.startMotion([this.getViewpoint(), viewpoint], 'transition', duration, false, true)
+  }
+
+  /**
+   * 沿关键帧播放Catmull-Rom飞行路径，关键帧可以是预设名
+   * 非循环路径播放完毕时resolve
+   */
+  public playPath(keyframes: (string | CameraViewpoint)[], options: Partial<CameraPathOptions> = {}): Promise<void> {
+    const resolved: CameraPathOptions = {
+      duration: Math.max(keyframes.length - 1, 1) * this.config.transitionDuration * 1.5,
+      loop: false,
+      fromCurrent: true,
+      ...options
+    }
+
+    const viewpoints: CameraViewpoint[] = []
+    for (const keyframe of keyframes) {
+      const viewpoint = typeof keyframe === 'string' ? this.getPreset(keyframe) : keyframe
+      if (!viewpoint) {
+        return Promise.reject(new Error(`Unknown camera preset: ${keyframe}`))
+      }
+      viewpoints.push(viewpoint)
+    }
+    if (resolved.fromCurrent) {
+      viewpoints.unshift(this.getViewpoint())
+    }
+    if (viewpoints.length < 2) {
+      return Promise.reject(new Error('A camera path needs at least two keyframes'))
+    }
+
+    return this.startMotion(viewpoints, 'path', resolved.duration, resolved.loop, false)
+  }
+
+  /**
+   * 立即开始巡航（通常由空闲计时自动触发），有新的用户输入时停止
+   */
+  public startCruise(): void {
+    const names = this.config.cruisePresets.length > 0 ? this.config.cruisePresets : this.getPresetNames()
+    const viewpoints = names
+      .map(name => this.getPreset(name))
+      .filter((viewpoint): viewpoint is CameraViewpoint => viewpoint !== undefined)
+    if (viewpoints.length < 2) return
+
+    // 从离当前视点最近的预设开始，首段不跳变
+    const nearest = viewpoints.reduce((best, viewpoint, index) =>
+      viewpoint.position.distanceToSquared(this.position) < viewpoints[best].position.distanceToSquared(this.position) ? index : best, 0)
+    const ordered = [...viewpoints.slice(nearest), ...viewpoints.slice(0, nearest)]
+
+    void this.startMotion([this.getViewpoint(), ...ordered.slice(1), ordered[0]], 'cruise', this.config.cruiseDuration, true, false)
+  }
+
+  /**
+   * 停在当前视点
+   */
+  public stop(): void {
+    const motion = this.motion
+    this.motion = undefined
+    this.setMode('idle')
+    motion?.resolve?.()
+  }
+
+  /**
+   * 执行相机命令，飞行动画结束时resolve；未知预设名会reject
+   */
+  public runCommand(command: CameraRigCommand): Promise<void> {
+    switch (command.action) {
+      case 'goto':
+        return this.goTo(command.target)
+
+      // 依次经过所有预设后回到起点
+      case 'tour':
+        return this.playPath([...this.getPresetNames().filter(name => name !== 'home'), 'home'])
+
+      case 'cruise':
+        this.updateConfig({ autoCruise: command.enabled })
+        if (command.enabled) {
+          this.startCruise()
+        } else {
+          this.stop()
+        }
+        return Promise.resolve()
+
+      case 'stop':
+        this.stop()
+        return Promise.resolve()
+    }
+  }
+
+  /**
+   * 推进动画并把基础视点、视差和缩放写入相机
+   */
+  public update(deltaTime: number, input: CameraRigInput = {}): void {
+    const idleTime = input.idleTime ?? 0
+    const hadInput = idleTime < this.lastIdleTime
+    this.lastIdleTime = idleTime
+
+    if (this.mode === 'cruise' && hadInput) {
+      // 用户重新操作时停在巡航途中的位置
+      this.stop()
+    } else if (this.mode === 'idle' && this.config.autoCruise && idleTime >= this.config.idleTimeout) {
+      this.startCruise()
+    }
+
+    this.advanceMotion(deltaTime)
+    this.writeCamera(input)
+  }
+
+  public dispose(): void {
+    this.stop()
+    this.presets.clear()
+    this.onModeChangeCallback = undefined
+  }
+
+  private startMotion(
+    viewpoints: CameraViewpoint[],
+    mode: CameraRigMode,
+    duration: number,
+    loop: boolean,
+    ease: boolean
+  ): Promise<void> {
+    this.stop()
+
+    return new Promise(resolve => {
+      this.motion = {
+        positions: new THREE.CatmullRomCurve3(viewpoints.map(viewpoint => viewpoint.position.clone()), loop, 'centripetal'),
+        targets: new THREE.CatmullRomCurve3(viewpoints.map(viewpoint => viewpoint.target.clone()), loop, 'centripetal'),
+        fovs: viewpoints.map(viewpoint => viewpoint.fov ?? this.defaultFov),
+        duration: Math.max(duration, 0.01),
+        elapsed: 0,
+        loop,
+        ease,
+        resolve
+      }
+      this.setMode(mode)
+    })
+  }
+
+  private advanceMotion(deltaTime: number): void {
+    const motion = this.motion
+    if (!motion) return
+
+    motion.elapsed += deltaTime
+    let t = motion.elapsed / motion.duration
+    const finished = !motion.loop && t >= 1
+    t = motion.loop ? t % 1 : Math.min(t, 1)
+    if (motion.ease) {
+      // 三次缓入缓出
+      t = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+    }
+
+    motion.positions.getPoint(t, this.position)
+    motion.targets.getPoint(t, this.target)
+
+    // 视场角按关键帧线性插值
+    const segments = motion.loop ? motion.fovs.length : motion.fovs.length - 1
+    const scaled = t * segments
+    const index = Math.min(Math.floor(scaled), segments - 1)
+    const next = (index + 1) % motion.fovs.length
+    this.fov = THREE.MathUtils.lerp(motion.fovs[index], motion.fovs[next], scaled - index)
+
+    if (finished) {
+      this.motion = undefined
+      this.setMode('idle')
+      motion.resolve?.()
+    }
+  }
+
+  private applyViewpoint(viewpoint: CameraViewpoint): void {
+    this.position.copy(viewpoint.position)
+    this.target.copy(viewpoint.target)
+    this.fov = viewpoint.fov ?? this.defaultFov
+  }
+
+  // 视差沿相机的右、上方向平移位置和注视点，缩放沿视线推拉
+  private writeCamera(input: CameraRigInput): void {
+    const forward = this.scratchForward.copy(this.target).sub(this.position)
+    if (forward.lengthSq() < 1e-8) forward.set(0, 0, -1)
+    forward.normalize()
+    const right = this.scratchRight.crossVectors(forward, this.camera.up).normalize()
+    const up = this.scratchUp.crossVectors(right, forward)
+
+    const offset = this.scratchOffset.set(0, 0, 0)
+    if (input.parallax) {
+      offset.addScaledVector(right, input.parallax.x * this.config.parallaxScale)
+      offset.addScaledVector(up, input.parallax.y * this.config.parallaxScale)
+    }
+    const zoom = input.zoom ?? 1
+    offset.addScaledVector(forward, this.config.zoomDistance * (1 - 1 / Math.max(zoom, 1e-3)))
+
+    this.camera.position.copy(this.position).add(offset)
+    this.camera.lookAt(this.target.x + offset.x, this.target.y + offset.y, this.target.z + offset.z)
+
+    if (Math.abs(this.camera.fov - this.fov) > 1e-4) {
+      this.camera.fov = this.fov
+      this.camera.updateProjectionMatrix()
+    }
+  }
+
+  private setMode(mode: CameraRigMode): void {
+    if (this.mode === mode) return
+    this.mode = mode
+    if (this.onModeChangeCallback) {
+      this.onModeChangeCallback(mode)
+    }
+  }
+}
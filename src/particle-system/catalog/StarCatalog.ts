@@ -0,0 +1,189 @@
+import * as THREE from 'three'
+
+/**
+ * 星表条目 - HYG星表字段的子集
+ */
+export interface StarCatalogEntry {
+  id: string
+  name: string            // 专名，没有时为空
+  ra: number              // 赤经（小时，0-24）
+  dec: number             // 赤纬（度，-90到90）
+  distance: number        // 距离（秒差距），未知时为0
+  magnitude: number       // 视星等
+  spectralClass: string   // 光谱型，如 "B8Ia"
+  constellation: string   // 所属星座缩写
+}
+
+/**
+ * 观测地点和时间，用于把星空转到地平坐标
+ */
+export interface SkyOrientation {
+  date: Date
+  latitude: number        // 度，北纬为正
+  longitude: number       // 度，东经为正
+}
+
+// 各字段可接受的列名（不区分大小写），兼容HYG和常见星表导出格式
+const COLUMN_ALIASES: Record<keyof StarCatalogEntry, string[]> = {
+  id: ['id', 'hip', 'hr'],
+  name: ['proper', 'name'],
+  ra: ['ra'],
+  dec: ['dec'],
+  distance: ['dist', 'distance'],
+  magnitude: ['mag', 'vmag'],
+  spectralClass: ['spect', 'spectral', 'sp'],
+  constellation: ['con', 'constellation']
+}
+
+const REQUIRED_COLUMNS: (keyof StarCatalogEntry)[] = ['ra', 'dec', 'magnitude']
+
+// HYG用100000表示距离未知
+const UNKNOWN_DISTANCE = 100000
+
+// J2000.0历元的儒略日
+const J2000 = 2451545.0
+
+/**
+ * 星表工具 - 解析CSV星表，把赤道坐标转换为天球上的位置
+ *
+ * 世界坐标约定：天球坐标下北天极朝+Y，赤经0h朝-Z（相机前方），赤经向东增大时朝-X，
+ * 即从天球内部看到的星空方向；地平坐标下天顶朝+Y，正北朝-Z，正东朝+X
+ */
+export class StarCatalog {
+  /**
+   * 解析HYG风格的CSV星表，按视星等从亮到暗排序
+   * 缺少赤经、赤纬或星等列时抛出错误，数值无效的行被跳过
+   */
+  static parse(text: string): StarCatalogEntry[] {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '')
+    if (lines.length === 0) return []
+
+    const header = StarCatalog.splitLine(lines[0]).map(column => column.trim().toLowerCase())
+    const columns = {} as Record<keyof StarCatalogEntry, number>
+    for (const field of Object.keys(COLUMN_ALIASES) as (keyof StarCatalogEntry)[]) {
+      columns[field] = header.findIndex(column => COLUMN_ALIASES[field].includes(column))
+    }
+
+    for (const field of REQUIRED_COLUMNS) {
+      if (columns[field] < 0) {
+        throw new Error(`Star catalog is missing the "${COLUMN_ALIASES[field][0]}" column`)
+      }
+    }
+
+    const entries: StarCatalogEntry[] = []
+    let skipped = 0
+
+    for (let row = 1; row < lines.length; row++) {
+      const values = StarCatalog.splitLine(lines[row])
+      const read = (field: keyof StarCatalogEntry): string => {
+        const index = columns[field]
+        return index >= 0 && index < values.length ? values[index].trim() : ''
+      }
+
+      const ra = parseFloat(read('ra'))
+      const dec = parseFloat(read('dec'))
+      const magnitude = parseFloat(read('magnitude'))
+      if (!Number.isFinite(ra) || !Number.isFinite(dec) || !Number.isFinite(magnitude) || ra < 0 || ra >= 24 || Math.abs(dec) > 90) {
+        skipped++
+        continue
+      }
+
+      const distance = parseFloat(read('distance'))
+      entries.push({
+        id: read('id') || String(row),
+        name: read('name'),
+        ra,
+        dec,
+        distance: Number.isFinite(distance) && distance > 0 && distance < UNKNOWN_DISTANCE ? distance : 0,
+        magnitude,
+        spectralClass: read('spectralClass'),
+        constellation: read('constellation')
+      })
+    }
+
+    if (skipped > 0) {
+      console.warn(`Skipped ${skipped} star catalog rows with invalid coordinates or magnitude`)
+    }
+
+    return entries.sort((a, b) => a.magnitude - b.magnitude)
+  }
+
+  /**
+   * 赤道坐标转为天球上的位置（北天极朝上）
+   */
+  static equatorialToVector(ra: number, dec: number, radius: number, target: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    const alpha = ra * Math.PI / 12
+    const delta = THREE.MathUtils.degToRad(dec)
+    const cosDelta = Math.cos(delta)
+
+    return target.set(
+      -cosDelta * Math.sin(alpha) * radius,
+      Math.sin(delta) * radius,
+      -cosDelta * Math.cos(alpha) * radius
+    )
+  }
+
+  /**
+   * 赤道坐标转为地平坐标下的位置（天顶朝上，面向正北）
+   * @param siderealTime 地方恒星时（小时）
+   */
+  static equatorialToHorizontal(
+    ra: number,
+    dec: number,
+    siderealTime: number,
+    latitude: number,
+    radius: number,
+    target: THREE.Vector3 = new THREE.Vector3()
+  ): THREE.Vector3 {
+    const hourAngle = (siderealTime - ra) * Math.PI / 12
+    const delta = THREE.MathUtils.degToRad(dec)
+    const phi = THREE.MathUtils.degToRad(latitude)
+
+    const east = -Math.cos(delta) * Math.sin(hourAngle)
+    const north = Math.cos(phi) * Math.sin(delta) - Math.sin(phi) * Math.cos(delta) * Math.cos(hourAngle)
+    const up = Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.cos(hourAngle)
+
+    return target.set(east * radius, up * radius, -north * radius)
+  }
+
+  /**
+   * 地方恒星时（小时，0-24），使用格林尼治平恒星时的线性近似
+   */
+  static getLocalSiderealTime(date: Date, longitude: number): number {
+    const julianDate = date.getTime() / 86400000 + 2440587.5
+    const greenwich = 18.697374558 + 24.06570982441908 * (julianDate - J2000)
+    const local = greenwich + longitude / 15
+    return ((local % 24) + 24) % 24
+  }
+
+  // 按逗号拆分一行，支持双引号包裹的字段和 "" 转义
+  private static splitLine(line: string): string[] {
+    const values: string[] = []
+    let current = ''
+    let quoted = false
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i]
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          current += '"'
+          i++
+        } else if (char === '"') {
+          quoted = false
+        } else {
+          current += char
+        }
+      } else if (char === '"') {
+        quoted = true
+      } else if (char === ',') {
+        values.push(current)
+        current = ''
+      } else {
+        current += char
+      }
+    }
+
+    values.push(current)
+    return values
+  }
+}
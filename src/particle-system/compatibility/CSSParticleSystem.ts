@@ -1,3 +1,6 @@
+import * as THREE from 'three'
+import type { DepthFogSystem } from '../effects/DepthFogSystem'
+
 export interface CSSParticle {
   id: string
   element: HTMLElement
@@ -22,6 +25,8 @@ export interface CSSParticleConfig {
   speedRange: [number, number]
   lifeRange: [number, number]
   enableAnimation: boolean
+  fogDepthScale: number    // 粒子z值（0-1000）换算为雾化距离的比例
+  maxFogBlur: number       // 完全处在雾中的粒子的模糊半径（像素）
 }
 
 export class CSSParticleSystem {
@@ -31,6 +36,9 @@ export class CSSParticleSystem {
   private animationId?: number
   private isRunning: boolean = false
   private lastTime: number = 0
+  private depthFog?: DepthFogSystem
+  private fogColor: THREE.Color = new THREE.Color()
+  private glowColor: THREE.Color = new THREE.Color()
 
   constructor(config: Partial<CSSParticleConfig>) {
     this.config = {
@@ -41,6 +49,8 @@ export class CSSParticleSystem {
       speedRange: [0.1, 0.5],
       lifeRange: [3000, 8000],
       enableAnimation: true,
+      fogDepthScale: 0.3,
+      maxFogBlur: 3,
       ...config
     }
 
@@ -93,10 +103,10 @@ export class CSSParticleSystem {
           opacity: 0;
         }
         10% {
-          opacity: 1;
+          opacity: var(--particle-opacity, 1);
         }
         90% {
-          opacity: 1;
+          opacity: var(--particle-opacity, 1);
         }
         100% {
           transform: translate3d(var(--dx), var(--dy), 0) scale(0.5);
@@ -154,9 +164,8 @@ export class CSSParticleSystem {
     element.style.top = `${y}px`
     element.style.width = `${size}px`
     element.style.height = `${size}px`
-    element.style.opacity = opacity.toString()
     element.style.backgroundColor = color
-    element.style.color = color
+    this.applyParticleFog(particle, opacity)
 
     if (this.config.enableAnimation) {
       const dx = particle.vx * (particle.maxLife / 1000)
@@ -172,6 +181,22 @@ export class CSSParticleSystem {
     }
   }
 
+  // 近似深度雾化：按z值取雾化量，越远越透明、越模糊，光晕染向雾色
+  private applyParticleFog(particle: CSSParticle, opacity: number): void {
+    const fog = this.depthFog
+      ? this.depthFog.sample(particle.z * this.config.fogDepthScale, this.fogColor)
+      : 0
+    const style = particle.element.style
+    const fogOpacity = (opacity * (1 - fog * 0.5)).toString()
+
+    style.opacity = fogOpacity
+    style.setProperty('--particle-opacity', fogOpacity)
+    style.filter = fog > 0.01 ? `blur(${(fog * this.config.maxFogBlur).toFixed(2)}px)` : ''
+
+    this.glowColor.set(particle.color).lerp(this.fogColor, fog * 0.6)
+    style.color = `#${this.glowColor.getHexString()}`
+  }
+
   private updateParticle(particle: CSSParticle, deltaTime: number): void {
     particle.life += deltaTime
 
@@ -255,7 +280,21 @@ export class CSSParticleSystem {
     this.particles.forEach(particle => {
       particle.color = colors[Math.floor(Math.random() * colors.length)]
       particle.element.style.backgroundColor = particle.color
-      particle.element.style.color = particle.color
+      this.applyParticleFog(particle, particle.opacity)
+    })
+  }
+
+  /**
+   * 设置深度雾化系统，null表示不做雾化；雾化参数或主题变化后调用refreshDepthFog
+   */
+  public setDepthFog(fog: DepthFogSystem | null): void {
+    this.depthFog = fog ?? undefined
+    this.refreshDepthFog()
+  }
+
+  public refreshDepthFog(): void {
+    this.particles.forEach(particle => {
+      this.applyParticleFog(particle, particle.opacity)
     })
   }
 
@@ -7,6 +7,8 @@ export interface WebGLCapabilities {
   maxVaryingVectors: number
   maxVertexAttributes: number
   maxDrawBuffers: number
+  floatRenderTargets: boolean  // 能否渲染到半浮点/浮点纹理（HDR渲染需要）
+  parallelShaderCompile: boolean  // KHR_parallel_shader_compile，着色器可在后台编译
   extensions: string[]
   renderer: string
   vendor: string
@@ -39,7 +41,10 @@ export class WebGLDetector {
 
   private detectCapabilities(): void {
     try {
-      const canvas = document.createElement('canvas')
+      // Worker中没有document，用OffscreenCanvas检测（getContext的用法相同）
+      const canvas = typeof document !== 'undefined'
+        ? document.createElement('canvas')
+        : new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement
       const gl = this.getWebGLContext(canvas)
 
       if (!gl) {
@@ -108,6 +113,8 @@ export class WebGLDetector {
       maxVaryingVectors: gl.getParameter(gl.MAX_VARYING_VECTORS),
       maxVertexAttributes: gl.getParameter(gl.MAX_VERTEX_ATTRIBS),
       maxDrawBuffers: gl instanceof WebGL2RenderingContext ? gl.getParameter(gl.MAX_DRAW_BUFFERS) : 1,
+      floatRenderTargets: extensions.includes('EXT_color_buffer_float') || extensions.includes('EXT_color_buffer_half_float'),
+      parallelShaderCompile: extensions.includes('KHR_parallel_shader_compile'),
       extensions,
       renderer: debugInfo ? gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL) : 'Unknown',
       vendor: debugInfo ? gl.getParameter(debugInfo.UNMASKED_VENDOR_WEBGL) : 'Unknown',
@@ -212,6 +219,20 @@ export class WebGLDetector {
     return this.capabilities
   }
 
+  /**
+   * 是否支持HDR渲染目标，不支持时后期处理退回8位sRGB目标
+   */
+  public supportsHDR(): boolean {
+    return this.capabilities?.floatRenderTargets ?? false
+  }
+
+  /**
+   * 是否支持后台编译着色器，支持时渐进加载用compileAsync预热各层
+   */
+  public supportsParallelShaderCompile(): boolean {
+    return this.capabilities?.parallelShaderCompile ?? false
+  }
+
   public getRecommendedFallback(): 'css' | 'canvas' | 'none' {
     return this.report?.recommendedFallback ?? 'css'
   }
@@ -242,6 +263,8 @@ export class WebGLDetector {
       report += `- Max Texture Size: ${this.capabilities.maxTextureSize}\n`
       report += `- Max Vertex Uniforms: ${this.capabilities.maxVertexUniforms}\n`
       report += `- Max Fragment Uniforms: ${this.capabilities.maxFragmentUniforms}\n`
+      report += `- HDR Render Targets: ${this.capabilities.floatRenderTargets ? 'Yes' : 'No'}\n`
+      report += `- Parallel Shader Compile: ${this.capabilities.parallelShaderCompile ? 'Yes' : 'No'}\n`
       report += `- Renderer: ${this.capabilities.renderer}\n`
       report += `- Vendor: ${this.capabilities.vendor}\n`
       report += `- Version: ${this.capabilities.version}\n\n`
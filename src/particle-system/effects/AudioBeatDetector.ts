@@ -0,0 +1,73 @@
+/**
+ * 节拍检测配置
+ */
+export interface AudioBeatConfig {
+  lowFrequencyRatio: number  // 参与检测的低频段占频谱的比例
+  sensitivity: number        // 能量超过近期平均的倍数才算节拍
+  minEnergy: number          // 低于该能量（0-1）的帧不算节拍
+  minInterval: number        // 两次节拍的最小间隔（秒）
+  historySize: number        // 计算近期平均能量的帧数
+}
+
+/**
+ * 音频节拍检测 - 比较低频能量与近期平均值，突增时判定为节拍
+ */
+export class AudioBeatDetector {
+  private analyser: AnalyserNode
+  private config: AudioBeatConfig
+  private spectrum: Uint8Array<ArrayBuffer>
+  private history: number[] = []
+  private cooldown: number = 0
+
+  constructor(analyser: AnalyserNode, config: Partial<AudioBeatConfig> = {}) {
+    this.analyser = analyser
+    this.config = {
+      lowFrequencyRatio: 0.12,
+      sensitivity: 1.35,
+      minEnergy: 0.15,
+      minInterval: 0.25,
+      historySize: 43,
+      ...config
+    }
+    this.spectrum = new Uint8Array(analyser.frequencyBinCount)
+  }
+
+  /**
+   * 读取当前频谱，检测到节拍时返回强度（约0-2），否则返回0
+   */
+  public update(deltaTime: number): number {
+    this.cooldown = Math.max(0, this.cooldown - deltaTime)
+    this.analyser.getByteFrequencyData(this.spectrum)
+
+    const bins = Math.max(1, Math.floor(this.spectrum.length * this.config.lowFrequencyRatio))
+    let sum = 0
+    for (let i = 0; i < bins; i++) {
+      sum += this.spectrum[i]
+    }
+    const energy = sum / (bins * 255)
+
+    const average = this.history.length > 0
+      ? this.history.reduce((total, value) => total + value, 0) / this.history.length
+      : energy
+    this.history.push(energy)
+    if (this.history.length > this.config.historySize) {
+      this.history.shift()
+    }
+
+    if (this.cooldown > 0 || energy < this.config.minEnergy || energy <= average * this.config.sensitivity) {
+      return 0
+    }
+
+    this.cooldown = this.config.minInterval
+    return Math.min(2, energy / Math.max(average, 1e-3) - 1 + 0.5)
+  }
+
+  public reset(): void {
+    this.history = []
+    this.cooldown = 0
+  }
+
+  public getConfig(): AudioBeatConfig {
+    return { ...this.config }
+  }
+}
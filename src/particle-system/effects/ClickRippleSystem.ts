@@ -0,0 +1,49 @@
+import * as THREE from 'three'
+import type { ClickEffect } from '../interaction/InteractionManager'
+
+// 与ShaderChunks中click_ripples的uniform一一对应
+export interface ClickRippleUniforms {
+  [uniform: string]: THREE.IUniform
+  clickRippleCount: THREE.IUniform<number>
+  clickRipples: THREE.IUniform<THREE.Vector4[]>   // xy 点击位置（CSS像素）, z 当前半径, w 强度
+  clickRippleViewport: THREE.IUniform<THREE.Vector2>
+}
+
+/**
+ * 点击涟漪 - 把交互管理器中的点击效果写入共享uniform，粒子被扩散的圆环扫过时变大变亮
+ */
+export class ClickRippleSystem {
+  // 与ShaderChunks中的MAX_CLICK_RIPPLES一致
+  static readonly MAX_RIPPLES = 5
+
+  public readonly uniforms: ClickRippleUniforms = ClickRippleSystem.createUniforms()
+
+  /**
+   * 创建一组空的点击涟漪uniform，供还没有接入涟漪系统的材质使用
+   */
+  static createUniforms(): ClickRippleUniforms {
+    return {
+      clickRippleCount: { value: 0 },
+      clickRipples: { value: Array.from({ length: ClickRippleSystem.MAX_RIPPLES }, () => new THREE.Vector4()) },
+      clickRippleViewport: { value: new THREE.Vector2(1, 1) }
+    }
+  }
+
+  /**
+   * 同步点击效果，半径随效果的衰减从0扩大到maxRadius
+   */
+  update(effects: ClickEffect[], width: number, height: number): void {
+    const ripples = this.uniforms.clickRipples.value
+    const active = effects.slice(-ClickRippleSystem.MAX_RIPPLES)
+
+    active.forEach((effect, i) => {
+      ripples[i].set(effect.position.x, effect.position.y, effect.maxRadius * (1 - effect.intensity), effect.intensity)
+    })
+    this.uniforms.clickRippleCount.value = active.length
+    this.uniforms.clickRippleViewport.value.set(width, height)
+  }
+
+  clear(): void {
+    this.uniforms.clickRippleCount.value = 0
+  }
+}
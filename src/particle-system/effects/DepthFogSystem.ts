@@ -1,4 +1,5 @@
 import * as THREE from 'three'
+import type { ColorPalette } from '../theme/ThemeManager'
 
 /**
  * 深度雾化配置
@@ -13,14 +14,94 @@ export interface DepthFogConfig {
   intensity: number         // 雾化强度
   scatteringFrequency: number // 大气散射频率
   enabled: boolean          // 是否启用雾化
+  themeMix: number          // 雾色向主题颜色混合的比例（0为只用预设颜色）
+}
+
+/**
+ * 单个层的雾化覆盖，未给出的字段使用雾化系统的全局值
+ * enabled为false时本层不受雾化影响；全局关闭时覆盖无法重新开启
+ */
+export type DepthFogOverrides = Partial<Pick<DepthFogConfig,
+  'enabled' | 'intensity' | 'nearDistance' | 'farDistance' | 'deepDistance' | 'nearColor' | 'farColor' | 'deepColor'
+>>
+
+/**
+ * 层材质中的雾化uniform，与ShaderChunks中depth_fog的声明一致
+ */
+export interface DepthFogUniforms {
+  [uniform: string]: THREE.IUniform
+  fogNearDistance: THREE.IUniform<number>
+  fogFarDistance: THREE.IUniform<number>
+  fogDeepDistance: THREE.IUniform<number>
+  fogNearColor: THREE.IUniform<THREE.Color>
+  fogFarColor: THREE.IUniform<THREE.Color>
+  fogDeepColor: THREE.IUniform<THREE.Color>
+  fogIntensity: THREE.IUniform<number>
+  fogEnabled: THREE.IUniform<number>
+}
+
+export type DepthFogPreset = 'subtle' | 'normal' | 'heavy' | 'deep_space'
+
+type DepthFogPresetConfig = Pick<DepthFogConfig,
+  'intensity' | 'nearDistance' | 'farDistance' | 'deepDistance' | 'nearColor' | 'farColor' | 'deepColor'
+>
+
+/**
+ * 雾化预设
+ */
+export const DEPTH_FOG_PRESETS: Record<DepthFogPreset, DepthFogPresetConfig> = {
+  subtle: {
+    intensity: 0.5,
+    nearDistance: 80,
+    farDistance: 150,
+    deepDistance: 300,
+    nearColor: new THREE.Color(0.08, 0.12, 0.25),
+    farColor: new THREE.Color(0.04, 0.06, 0.15),
+    deepColor: new THREE.Color(0.01, 0.02, 0.08)
+  },
+  normal: {
+    intensity: 1.0,
+    nearDistance: 50,
+    farDistance: 100,
+    deepDistance: 200,
+    nearColor: new THREE.Color(0.1, 0.15, 0.3),
+    farColor: new THREE.Color(0.05, 0.08, 0.2),
+    deepColor: new THREE.Color(0.02, 0.03, 0.1)
+  },
+  heavy: {
+    intensity: 1.5,
+    nearDistance: 30,
+    farDistance: 70,
+    deepDistance: 150,
+    nearColor: new THREE.Color(0.15, 0.2, 0.35),
+    farColor: new THREE.Color(0.08, 0.12, 0.25),
+    deepColor: new THREE.Color(0.03, 0.05, 0.15)
+  },
+  deep_space: {
+    intensity: 2.0,
+    nearDistance: 20,
+    farDistance: 50,
+    deepDistance: 100,
+    nearColor: new THREE.Color(0.05, 0.05, 0.15),
+    farColor: new THREE.Color(0.02, 0.02, 0.08),
+    deepColor: new THREE.Color(0.01, 0.01, 0.03)
+  }
 }
 
 /**
  * 深度雾化系统 - 管理3D空间中的雾化效果
+ * 各层材质持有自己的雾化uniform，每帧由层调用applyUniforms同步（可带层覆盖）
  */
 export class DepthFogSystem {
   private config: DepthFogConfig
   private time: number = 0
+  private preset: DepthFogPreset = 'normal'
+  // 主题的近/远/深空目标颜色，未设置主题时为空
+  private themeColors: THREE.Color[] | null = null
+  // 预设颜色按themeMix混合主题后的实际雾色
+  private nearColor: THREE.Color = new THREE.Color()
+  private farColor: THREE.Color = new THREE.Color()
+  private deepColor: THREE.Color = new THREE.Color()
 
   constructor(config: Partial<DepthFogConfig> = {}) {
     this.config = {
@@ -33,8 +114,10 @@ export class DepthFogSystem {
       intensity: 1.0,
       scatteringFrequency: 0.01,
       enabled: true,
+      themeMix: 0.5,
       ...config
     }
+    this.updateColors()
 
     console.log('DepthFogSystem initialized with config:', this.config)
   }
@@ -46,6 +129,22 @@ export class DepthFogSystem {
     this.time += deltaTime
   }
 
+  /**
+   * 创建一组未启用的雾化uniform，供还没有接入雾化系统的材质使用
+   */
+  static createUniforms(): DepthFogUniforms {
+    return {
+      fogNearDistance: { value: 50 },
+      fogFarDistance: { value: 100 },
+      fogDeepDistance: { value: 200 },
+      fogNearColor: { value: new THREE.Color() },
+      fogFarColor: { value: new THREE.Color() },
+      fogDeepColor: { value: new THREE.Color() },
+      fogIntensity: { value: 0 },
+      fogEnabled: { value: 0 }
+    }
+  }
+
   /**
    * 获取雾化参数，用于着色器
    */
@@ -54,9 +153,9 @@ export class DepthFogSystem {
       fogNearDistance: { value: this.config.nearDistance },
       fogFarDistance: { value: this.config.farDistance },
       fogDeepDistance: { value: this.config.deepDistance },
-      fogNearColor: { value: this.config.nearColor },
-      fogFarColor: { value: this.config.farColor },
-      fogDeepColor: { value: this.config.deepColor },
+      fogNearColor: { value: this.nearColor.clone() },
+      fogFarColor: { value: this.farColor.clone() },
+      fogDeepColor: { value: this.deepColor.clone() },
       fogIntensity: { value: this.config.intensity },
       fogScatteringFreq: { value: this.config.scatteringFrequency },
       fogEnabled: { value: this.config.enabled ? 1.0 : 0.0 },
@@ -64,6 +163,68 @@ export class DepthFogSystem {
     }
   }
 
+  /**
+   * 把当前雾化参数写入已有的uniform对象（只写入其中存在的字段），供材质逐帧同步
+   * overrides中给出的字段替换全局值
+   */
+  applyUniforms(uniforms: { [key: string]: THREE.IUniform }, overrides: DepthFogOverrides = {}): void {
+    const enabled = this.config.enabled && overrides.enabled !== false
+    const values: { [key: string]: number | THREE.Color } = {
+      fogNearDistance: overrides.nearDistance ?? this.config.nearDistance,
+      fogFarDistance: overrides.farDistance ?? this.config.farDistance,
+      fogDeepDistance: overrides.deepDistance ?? this.config.deepDistance,
+      fogNearColor: overrides.nearColor ?? this.nearColor,
+      fogFarColor: overrides.farColor ?? this.farColor,
+      fogDeepColor: overrides.deepColor ?? this.deepColor,
+      fogIntensity: overrides.intensity ?? this.config.intensity,
+      fogScatteringFreq: this.config.scatteringFrequency,
+      fogEnabled: enabled ? 1.0 : 0.0,
+      fogTime: this.time
+    }
+
+    for (const key of Object.keys(values)) {
+      if (!uniforms[key]) continue
+
+      const value = values[key]
+      if (value instanceof THREE.Color) {
+        uniforms[key].value.copy(value)
+      } else {
+        uniforms[key].value = value
+      }
+    }
+  }
+
+  /**
+   * 在CPU上计算与着色器相同的雾化量（0-1），并把该距离处的雾色写入target
+   * 供无法运行着色器的降级渲染近似雾化
+   */
+  sample(viewDistance: number, target: THREE.Color): number {
+    const { nearDistance, farDistance, deepDistance, intensity, enabled } = this.config
+    const smoothstep = THREE.MathUtils.smoothstep
+
+    target.copy(this.nearColor).lerp(this.farColor, smoothstep(viewDistance, nearDistance, farDistance))
+    target.lerp(this.deepColor, smoothstep(viewDistance, farDistance, deepDistance))
+
+    if (!enabled) return 0
+    return THREE.MathUtils.clamp(intensity * smoothstep(viewDistance, nearDistance, deepDistance), 0, 1)
+  }
+
+  /**
+   * 雾色跟随主题：近雾取主色、远雾取次色、深空雾取背景色的色相，亮度保持预设值
+   */
+  applyTheme(colors: ColorPalette): void {
+    this.themeColors = [colors.primary.clone(), colors.secondary.clone(), colors.background.clone()]
+    this.updateColors()
+  }
+
+  /**
+   * 设置雾色向主题颜色混合的比例
+   */
+  setThemeMix(mix: number): void {
+    this.config.themeMix = Math.max(0, Math.min(1, mix))
+    this.updateColors()
+  }
+
   /**
    * 设置雾化强度
    */
@@ -87,6 +248,7 @@ export class DepthFogSystem {
     this.config.nearColor.copy(near)
     this.config.farColor.copy(far)
     this.config.deepColor.copy(deep)
+    this.updateColors()
   }
 
   /**
@@ -106,60 +268,57 @@ export class DepthFogSystem {
   /**
    * 应用预设配置
    */
-  applyPreset(preset: 'subtle' | 'normal' | 'heavy' | 'deep_space'): void {
-    switch (preset) {
-      case 'subtle':
-        this.config.intensity = 0.5
-        this.setDistances(80, 150, 300)
-        this.setColors(
-          new THREE.Color(0.08, 0.12, 0.25),
-          new THREE.Color(0.04, 0.06, 0.15),
-          new THREE.Color(0.01, 0.02, 0.08)
-        )
-        break
-      case 'normal':
-        this.config.intensity = 1.0
-        this.setDistances(50, 100, 200)
-        this.setColors(
-          new THREE.Color(0.1, 0.15, 0.3),
-          new THREE.Color(0.05, 0.08, 0.2),
-          new THREE.Color(0.02, 0.03, 0.1)
-        )
-        break
-      case 'heavy':
-        this.config.intensity = 1.5
-        this.setDistances(30, 70, 150)
-        this.setColors(
-          new THREE.Color(0.15, 0.2, 0.35),
-          new THREE.Color(0.08, 0.12, 0.25),
-          new THREE.Color(0.03, 0.05, 0.15)
-        )
-        break
-      case 'deep_space':
-        this.config.intensity = 2.0
-        this.setDistances(20, 50, 100)
-        this.setColors(
-          new THREE.Color(0.05, 0.05, 0.15),
-          new THREE.Color(0.02, 0.02, 0.08),
-          new THREE.Color(0.01, 0.01, 0.03)
-        )
-        break
+  applyPreset(preset: DepthFogPreset): void {
+    const config = DEPTH_FOG_PRESETS[preset]
+    if (!config) {
+      console.warn(`Unknown fog preset: ${preset}`)
+      return
     }
 
+    this.config.intensity = config.intensity
+    this.setDistances(config.nearDistance, config.farDistance, config.deepDistance)
+    this.setColors(config.nearColor, config.farColor, config.deepColor)
+    this.preset = preset
+
     console.log(`Applied fog preset: ${preset}`)
   }
 
+  /**
+   * 最近一次应用的预设
+   */
+  getPreset(): DepthFogPreset {
+    return this.preset
+  }
+
+  // 按themeMix把预设颜色的色相和饱和度向主题颜色靠拢，保持预设的亮度
+  private updateColors(): void {
+    const bases = [this.config.nearColor, this.config.farColor, this.config.deepColor]
+    const targets = [this.nearColor, this.farColor, this.deepColor]
+    const hsl = { h: 0, s: 0, l: 0 }
+
+    bases.forEach((base, i) => {
+      targets[i].copy(base)
+      if (!this.themeColors || this.config.themeMix <= 0) return
+
+      const lightness = base.getHSL(hsl).l
+      this.themeColors[i].getHSL(hsl)
+      const themed = new THREE.Color().setHSL(hsl.h, hsl.s, lightness)
+      targets[i].lerp(themed, this.config.themeMix)
+    })
+  }
+
   /**
    * 调试信息
    */
   debugInfo(): void {
     console.log('DepthFogSystem Debug Info:')
-    console.log(`- Enabled: ${this.config.enabled}`)
+    console.log(`- Enabled: ${this.config.enabled}, preset: ${this.preset}`)
     console.log(`- Intensity: ${this.config.intensity}`)
     console.log(`- Distances: near=${this.config.nearDistance}, far=${this.config.farDistance}, deep=${this.config.deepDistance}`)
-    console.log(`- Near color: rgb(${this.config.nearColor.r.toFixed(2)}, ${this.config.nearColor.g.toFixed(2)}, ${this.config.nearColor.b.toFixed(2)})`)
-    console.log(`- Far color: rgb(${this.config.farColor.r.toFixed(2)}, ${this.config.farColor.g.toFixed(2)}, ${this.config.farColor.b.toFixed(2)})`)
-    console.log(`- Deep color: rgb(${this.config.deepColor.r.toFixed(2)}, ${this.config.deepColor.g.toFixed(2)}, ${this.config.deepColor.b.toFixed(2)})`)
+    console.log(`- Near color: rgb(${this.nearColor.r.toFixed(2)}, ${this.nearColor.g.toFixed(2)}, ${this.nearColor.b.toFixed(2)})`)
+    console.log(`- Far color: rgb(${this.farColor.r.toFixed(2)}, ${this.farColor.g.toFixed(2)}, ${this.farColor.b.toFixed(2)})`)
+    console.log(`- Deep color: rgb(${this.deepColor.r.toFixed(2)}, ${this.deepColor.g.toFixed(2)}, ${this.deepColor.b.toFixed(2)})`)
+    console.log(`- Theme mix: ${this.config.themeMix}`)
     console.log(`- Time: ${this.time.toFixed(2)}s`)
   }
 }
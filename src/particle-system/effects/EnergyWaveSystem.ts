@@ -0,0 +1,324 @@
+import * as THREE from 'three'
+import { AudioBeatDetector, type AudioBeatConfig } from './AudioBeatDetector'
+
+/**
+ * 波前形状
+ */
+export enum EnergyWaveShape {
+  SPHERICAL = 'spherical',  // 从起点向四周扩张的球壳
+  PLANAR = 'planar'         // 沿传播方向推进的平面
+}
+
+// 与ShaderChunks中energy_waves的形状编号一致
+const ENERGY_WAVE_SHAPE_CODES: Record<EnergyWaveShape, number> = {
+  [EnergyWaveShape.SPHERICAL]: 0,
+  [EnergyWaveShape.PLANAR]: 1
+}
+
+/**
+ * 能量波配置
+ */
+export interface EnergyWaveConfig {
+  shape: EnergyWaveShape
+  origin: THREE.Vector3     // 球面波中心，平面波起始平面上的一点
+  direction: THREE.Vector3  // 平面波传播方向（球面波忽略）
+  speed: number             // 波前推进速度（单位/秒）
+  thickness: number         // 波前厚度
+  falloff: number           // 强度随传播距离衰减的指数
+  range: number             // 最大传播距离，到达后波消失
+  amplitude: number         // 把粒子推离波源的最大位移
+  brightness: number        // 波前处的增亮系数
+  color: THREE.Color        // 波前叠加到粒子上的颜色
+}
+
+/**
+ * 正在传播的能量波
+ */
+export interface EnergyWave {
+  id: number
+  config: EnergyWaveConfig
+  radius: number            // 波前已传播的距离
+  strength: number          // 当前强度（0-1）
+}
+
+/**
+ * 时间线事件 - 延迟触发能量波，可按间隔重复
+ */
+export interface EnergyWaveTimelineEvent {
+  at: number                // 距离现在的秒数
+  wave?: Partial<EnergyWaveConfig>
+  interval?: number         // 重复间隔（秒）
+  count?: number            // 触发次数，默认1次，Infinity表示一直重复
+}
+
+interface ScheduledWave {
+  id: number
+  time: number
+  wave: Partial<EnergyWaveConfig>
+  interval: number
+  remaining: number
+}
+
+// 与ShaderChunks中energy_waves的uniform一一对应
+export interface EnergyWaveUniforms {
+  [uniform: string]: THREE.IUniform
+  energyWaveCount: THREE.IUniform<number>
+  energyWaveA: THREE.IUniform<THREE.Vector4[]>  // xyz 起点, w 当前半径
+  energyWaveB: THREE.IUniform<THREE.Vector4[]>  // xyz 传播方向, w 形状编号
+  energyWaveC: THREE.IUniform<THREE.Vector4[]>  // rgb 颜色, a 当前强度
+  energyWaveD: THREE.IUniform<THREE.Vector4[]>  // 厚度, 位移幅度, 增亮, 未使用
+}
+
+/**
+ * 能量波系统 - 球面和平面冲击波扫过粒子时把粒子推开并提亮
+ * 波缓冲区以共享uniform提供给所有层，触发来源包括代码、点击、音频节拍和时间线
+ */
+export class EnergyWaveSystem {
+  static readonly MAX_WAVES = 8
+
+  public readonly uniforms: EnergyWaveUniforms = EnergyWaveSystem.createUniforms()
+
+  private defaults: EnergyWaveConfig
+  private beatWave: Partial<EnergyWaveConfig> = {}
+  private waves: EnergyWave[] = []
+  private schedule: ScheduledWave[] = []
+  private beatDetector?: AudioBeatDetector
+  private time: number = 0
+  private nextId: number = 1
+
+  constructor(defaults: Partial<EnergyWaveConfig> = {}) {
+    this.defaults = {
+      shape: EnergyWaveShape.SPHERICAL,
+      origin: new THREE.Vector3(),
+      direction: new THREE.Vector3(0, 0, -1),
+      speed: 60,
+      thickness: 4,
+      falloff: 1.5,
+      range: 300,
+      amplitude: 3,
+      brightness: 0.8,
+      color: new THREE.Color(0.5, 0.8, 1.0),
+      ...defaults
+    }
+
+    console.log('EnergyWaveSystem initialized')
+  }
+
+  /**
+   * 空的能量波uniform（未连接能量波系统的材质使用）
+   */
+  static createUniforms(): EnergyWaveUniforms {
+    const vectors = () => Array.from({ length: EnergyWaveSystem.MAX_WAVES }, () => new THREE.Vector4())
+    return {
+      energyWaveCount: { value: 0 },
+      energyWaveA: { value: vectors() },
+      energyWaveB: { value: vectors() },
+      energyWaveC: { value: vectors() },
+      energyWaveD: { value: vectors() }
+    }
+  }
+
+  /**
+   * 触发一道能量波，缓冲区已满时替换最早的波
+   */
+  public emit(config: Partial<EnergyWaveConfig> = {}): EnergyWave {
+    const resolved: EnergyWaveConfig = {
+      ...this.defaults,
+      ...config,
+      origin: (config.origin ?? this.defaults.origin).clone(),
+      direction: (config.direction ?? this.defaults.direction).clone().normalize(),
+      color: (config.color ?? this.defaults.color).clone()
+    }
+    if (resolved.direction.lengthSq() === 0) {
+      resolved.direction.set(0, 0, -1)
+    }
+
+    if (this.waves.length >= EnergyWaveSystem.MAX_WAVES) {
+      this.waves.shift()
+    }
+
+    const wave: EnergyWave = { id: this.nextId++, config: resolved, radius: 0, strength: 1 }
+    this.waves.push(wave)
+    this.writeUniforms()
+    return wave
+  }
+
+  /**
+   * 从相机视线上触发能量波
+   * @param x 归一化设备坐标（-1到1）
+   * @param y 归一化设备坐标（-1到1）
+   * @param distance 波源到相机的距离
+   */
+  public emitFromCamera(
+    camera: THREE.Camera,
+    x: number,
+    y: number,
+    distance: number,
+    config: Partial<EnergyWaveConfig> = {}
+  ): EnergyWave {
+    const direction = new THREE.Vector3(x, y, 0.5).unproject(camera).sub(camera.position).normalize()
+    const origin = camera.position.clone().addScaledVector(direction, distance)
+    return this.emit({ direction, ...config, origin })
+  }
+
+  /**
+   * 设置节拍触发的波，幅度和增亮按节拍强度缩放
+   */
+  public setBeatWave(config: Partial<EnergyWaveConfig>): void {
+    this.beatWave = { ...config }
+  }
+
+  /**
+   * 按节拍触发能量波，strength为1时使用节拍波的原始幅度
+   */
+  public triggerBeat(strength: number = 1): EnergyWave {
+    const amplitude = this.beatWave.amplitude ?? this.defaults.amplitude
+    const brightness = this.beatWave.brightness ?? this.defaults.brightness
+    return this.emit({
+      ...this.beatWave,
+      amplitude: amplitude * strength,
+      brightness: brightness * strength
+    })
+  }
+
+  /**
+   * 连接音频分析节点，检测到节拍时自动触发节拍波
+   */
+  public connectAudio(analyser: AnalyserNode, config: Partial<AudioBeatConfig> = {}): void {
+    this.beatDetector = new AudioBeatDetector(analyser, config)
+  }
+
+  public disconnectAudio(): void {
+    this.beatDetector = undefined
+  }
+
+  /**
+   * 在时间线上安排能量波，返回可用于取消的编号
+   */
+  public scheduleWave(event: EnergyWaveTimelineEvent): number {
+    const id = this.nextId++
+    this.schedule.push({
+      id,
+      time: this.time + Math.max(0, event.at),
+      wave: { ...event.wave },
+      interval: Math.max(0, event.interval ?? 0),
+      remaining: Math.max(1, event.count ?? 1)
+    })
+    return id
+  }
+
+  public cancelScheduledWave(id: number): boolean {
+    const index = this.schedule.findIndex(entry => entry.id === id)
+    if (index === -1) return false
+
+    this.schedule.splice(index, 1)
+    return true
+  }
+
+  public getWaves(): EnergyWave[] {
+    return [...this.waves]
+  }
+
+  public getTime(): number {
+    return this.time
+  }
+
+  /**
+   * 清除正在传播的波和时间线
+   */
+  public clear(): void {
+    this.waves = []
+    this.schedule = []
+    this.writeUniforms()
+  }
+
+  public update(deltaTime: number): void {
+    this.time += deltaTime
+
+    this.fireScheduledWaves()
+
+    if (this.beatDetector) {
+      const beat = this.beatDetector.update(deltaTime)
+      if (beat > 0) {
+        this.triggerBeat(beat)
+      }
+    }
+
+    for (const wave of this.waves) {
+      wave.radius += wave.config.speed * deltaTime
+      const progress = wave.config.range > 0 ? wave.radius / wave.config.range : 1
+      wave.strength = progress >= 1 ? 0 : Math.pow(1 - progress, wave.config.falloff)
+    }
+    this.waves = this.waves.filter(wave => wave.strength > 0)
+
+    this.writeUniforms()
+  }
+
+  /**
+   * 计算(x, y, z)处的波前位移，返回所有波叠加后的增亮量，与着色器公式一致
+   */
+  public sample(x: number, y: number, z: number, displacement: THREE.Vector3 = new THREE.Vector3()): number {
+    displacement.set(0, 0, 0)
+    let glow = 0
+
+    for (const wave of this.waves) {
+      const { origin, direction, thickness, amplitude, brightness } = wave.config
+      const dx = x - origin.x
+      const dy = y - origin.y
+      const dz = z - origin.z
+
+      let distance: number
+      let pushX = direction.x
+      let pushY = direction.y
+      let pushZ = direction.z
+      if (wave.config.shape === EnergyWaveShape.PLANAR) {
+        distance = dx * direction.x + dy * direction.y + dz * direction.z
+      } else {
+        distance = Math.sqrt(dx * dx + dy * dy + dz * dz)
+        const inverse = distance > 1e-4 ? 1 / distance : 0
+        pushX = dx * inverse
+        pushY = dy * inverse
+        pushZ = dz * inverse
+      }
+
+      const shell = (distance - wave.radius) / Math.max(thickness, 1e-4)
+      const profile = Math.exp(-shell * shell) * wave.strength
+      displacement.x += pushX * profile * amplitude
+      displacement.y += pushY * profile * amplitude
+      displacement.z += pushZ * profile * amplitude
+      glow += profile * brightness
+    }
+
+    return glow
+  }
+
+  private fireScheduledWaves(): void {
+    for (const entry of [...this.schedule]) {
+      while (entry.remaining > 0 && entry.time <= this.time) {
+        this.emit(entry.wave)
+        entry.remaining--
+        // 没有间隔的重复事件每帧触发一次
+        if (entry.interval <= 0) break
+        entry.time += entry.interval
+      }
+      if (entry.remaining <= 0) {
+        this.cancelScheduledWave(entry.id)
+      }
+    }
+  }
+
+  // 按触发顺序上传，着色器按energyWaveCount提前结束循环
+  private writeUniforms(): void {
+    this.waves.forEach((wave, index) => {
+      const { origin, direction, color } = wave.config
+      this.uniforms.energyWaveA.value[index].set(origin.x, origin.y, origin.z, wave.radius)
+      this.uniforms.energyWaveB.value[index].set(
+        direction.x, direction.y, direction.z, ENERGY_WAVE_SHAPE_CODES[wave.config.shape]
+      )
+      this.uniforms.energyWaveC.value[index].set(color.r, color.g, color.b, wave.strength)
+      this.uniforms.energyWaveD.value[index].set(wave.config.thickness, wave.config.amplitude, wave.config.brightness, 0)
+    })
+
+    this.uniforms.energyWaveCount.value = this.waves.length
+  }
+}
@@ -0,0 +1,101 @@
+import * as THREE from 'three'
+import { ParticleType } from '../types'
+import { ColorSystem } from '../utils/ColorSystem'
+import type { EmitterConfig } from './ParticleEmitter'
+
+type EmitterPreset = Partial<EmitterConfig> & Pick<EmitterConfig, 'name'>
+
+let presetCounter = 0
+
+// 预设发射器名称带序号，避免同时存在的同类发射器重名
+function uniqueName(prefix: string): string {
+  presetCounter = (presetCounter + 1) % 1000000
+  return `${prefix}-${presetCounter}`
+}
+
+/**
+ * 常用发射器配置
+ */
+export class EmitterPresets {
+  /**
+   * 超新星爆发：一次性球形爆发，由蓝白高温逐渐冷却为红色
+   */
+  static supernova(position: THREE.Vector3, scale: number = 1): EmitterPreset {
+    return {
+      name: uniqueName('supernova'),
+      position: position.clone(),
+      rate: 0,
+      burst: { count: Math.round(400 * scale), interval: 0 },
+      duration: 0,
+      lifetime: [2.5, 4.5],
+      speed: [1.5 * scale, 6 * scale],
+      spread: Math.PI,
+      size: [3, 7],
+      sizeOverLife: [
+        { t: 0, value: 1.6 },
+        { t: 0.2, value: 1 },
+        { t: 1, value: 0.2 }
+      ],
+      colorOverLife: [
+        { t: 0, color: ColorSystem.temperatureToColor(30000).multiplyScalar(2), alpha: 1 },
+        { t: 0.3, color: ColorSystem.temperatureToColor(9000), alpha: 0.9 },
+        { t: 0.7, color: new THREE.Color(0xff6347), alpha: 0.5 },
+        { t: 1, color: new THREE.Color(0xdc143c), alpha: 0 }
+      ],
+      drag: 0.6,
+      particleType: ParticleType.SUPERNOVA
+    }
+  }
+
+  /**
+   * 流星：移动的发射器沿途留下快速消散的尾迹
+   */
+  static shootingStar(start: THREE.Vector3, velocity: THREE.Vector3, duration: number = 1.2): EmitterPreset {
+    return {
+      name: uniqueName('shooting-star'),
+      position: start.clone(),
+      velocity: velocity.clone(),
+      rate: 160,
+      duration,
+      lifetime: [0.3, 0.8],
+      speed: [0.05, 0.3],
+      direction: velocity.clone().negate(),
+      spread: 0.25,
+      inheritVelocity: 0.1,
+      size: [2, 4],
+      sizeOverLife: [{ t: 0, value: 1 }, { t: 1, value: 0.1 }],
+      colorOverLife: [
+        { t: 0, color: new THREE.Color(1, 1, 1), alpha: 1 },
+        { t: 0.4, color: ColorSystem.temperatureToColor(12000), alpha: 0.6 },
+        { t: 1, color: new THREE.Color(0x4169e1), alpha: 0 }
+      ],
+      particleType: ParticleType.STAR
+    }
+  }
+
+  /**
+   * 点击火花：小规模爆发，带轻微下坠
+   */
+  static clickSparks(position: THREE.Vector3, color: THREE.Color = new THREE.Color(0x00ffff)): EmitterPreset {
+    return {
+      name: uniqueName('click-sparks'),
+      position: position.clone(),
+      rate: 0,
+      burst: { count: 40, interval: 0 },
+      duration: 0,
+      lifetime: [0.4, 0.9],
+      speed: [0.8, 2.5],
+      spread: Math.PI,
+      size: [2, 4],
+      sizeOverLife: [{ t: 0, value: 1 }, { t: 1, value: 0 }],
+      colorOverLife: [
+        { t: 0, color: new THREE.Color(1, 1, 1), alpha: 1 },
+        { t: 0.3, color: color.clone(), alpha: 0.9 },
+        { t: 1, color: color.clone().multiplyScalar(0.5), alpha: 0 }
+      ],
+      drag: 2.5,
+      gravity: new THREE.Vector3(0, -1.5, 0),
+      particleType: ParticleType.ENERGY_FIELD
+    }
+  }
+}
@@ -0,0 +1,232 @@
+import * as THREE from 'three'
+import { ParticleType } from '../types'
+import type { RandomSource } from '../utils/SeededRandom'
+
+// 生命周期颜色节点：t为归一化年龄 (0=出生, 1=死亡)
+export interface EmitterColorStop {
+  t: number
+  color: THREE.Color
+  alpha: number
+}
+
+// 生命周期数值节点（如大小倍数）
+export interface EmitterCurveStop {
+  t: number
+  value: number
+}
+
+export interface EmitterBurst {
+  count: number       // 每次爆发的粒子数
+  interval: number    // 爆发间隔（秒），0表示只爆发一次
+}
+
+/**
+ * 发射器配置
+ */
+export interface EmitterConfig {
+  name: string
+  position: THREE.Vector3
+  velocity: THREE.Vector3          // 发射器自身的移动速度（流星头部等）
+  rate: number                     // 持续发射速率（粒子/秒），0表示只爆发
+  burst?: EmitterBurst
+  duration: number                 // 发射持续时间（秒），Infinity表示一直发射
+  lifetime: [number, number]       // 粒子寿命范围（秒）
+  speed: [number, number]          // 初速度大小范围
+  direction: THREE.Vector3         // 速度锥中心方向
+  spread: number                   // 速度锥半角（弧度），Math.PI为全方向
+  inheritVelocity: number          // 继承发射器速度的比例
+  spawnRadius: number              // 出生位置的随机半径
+  size: [number, number]           // 初始大小范围
+  sizeOverLife: EmitterCurveStop[]
+  colorOverLife: EmitterColorStop[]
+  drag: number                     // 速度阻尼（每秒）
+  gravity: THREE.Vector3
+  particleType: ParticleType
+}
+
+/**
+ * 粒子发射器 - 只负责决定何时、何处、以何种初速度生成粒子
+ * 粒子槽位的分配和回收由EmitterLayer完成
+ */
+export class ParticleEmitter {
+  private static readonly forward = new THREE.Vector3(0, 0, 1)
+  private static readonly alignment = new THREE.Quaternion()
+
+  public readonly config: EmitterConfig
+  public readonly position: THREE.Vector3
+  public active: boolean = true
+
+  private age: number = 0
+  private rateAccumulator: number = 0
+  private burstTimer: number = 0
+  private burstFired: boolean = false
+
+  constructor(config: Partial<EmitterConfig> & Pick<EmitterConfig, 'name'>) {
+    this.config = {
+      position: new THREE.Vector3(),
+      velocity: new THREE.Vector3(),
+      rate: 50,
+      duration: Infinity,
+      lifetime: [1, 2],
+      speed: [1, 2],
+      direction: new THREE.Vector3(0, 1, 0),
+      spread: Math.PI,
+      inheritVelocity: 0,
+      spawnRadius: 0,
+      size: [2, 4],
+      sizeOverLife: [{ t: 0, value: 1 }, { t: 1, value: 0 }],
+      colorOverLife: [
+        { t: 0, color: new THREE.Color(1, 1, 1), alpha: 1 },
+        { t: 1, color: new THREE.Color(1, 1, 1), alpha: 0 }
+      ],
+      drag: 0,
+      gravity: new THREE.Vector3(),
+      particleType: ParticleType.STAR,
+      ...config
+    }
+    this.config.direction = this.config.direction.clone().normalize()
+    this.config.sizeOverLife = [...this.config.sizeOverLife].sort((a, b) => a.t - b.t)
+    this.config.colorOverLife = [...this.config.colorOverLife].sort((a, b) => a.t - b.t)
+    this.position = this.config.position.clone()
+  }
+
+  get name(): string {
+    return this.config.name
+  }
+
+  /**
+   * 推进发射器，返回本帧需要生成的粒子数
+   */
+  public update(deltaTime: number): number {
+    if (!this.active) return 0
+
+    this.position.addScaledVector(this.config.velocity, deltaTime)
+    this.age += deltaTime
+
+    let spawnCount = 0
+
+    // 持续发射：累计小数部分，避免低帧率下丢失粒子
+    if (this.config.rate > 0) {
+      this.rateAccumulator += this.config.rate * deltaTime
+      spawnCount += Math.floor(this.rateAccumulator)
+      this.rateAccumulator -= Math.floor(this.rateAccumulator)
+    }
+
+    // 爆发
+    const burst = this.config.burst
+    if (burst) {
+      if (!this.burstFired) {
+        spawnCount += burst.count
+        this.burstFired = true
+      } else if (burst.interval > 0) {
+        this.burstTimer += deltaTime
+        while (this.burstTimer >= burst.interval) {
+          spawnCount += burst.count
+          this.burstTimer -= burst.interval
+        }
+      }
+    }
+
+    if (this.age >= this.config.duration) {
+      this.active = false
+    }
+
+    return spawnCount
+  }
+
+  /**
+   * 在速度锥内取一个初速度
+   */
+  public sampleVelocity(random: RandomSource, target: THREE.Vector3): THREE.Vector3 {
+    const { direction, spread, speed, inheritVelocity, velocity } = this.config
+
+    // 球冠上均匀分布
+    const cosTheta = 1 - random() * (1 - Math.cos(spread))
+    const sinTheta = Math.sqrt(Math.max(0, 1 - cosTheta * cosTheta))
+    const phi = random() * Math.PI * 2
+
+    target.set(Math.cos(phi) * sinTheta, Math.sin(phi) * sinTheta, cosTheta)
+    target.applyQuaternion(ParticleEmitter.alignToDirection(direction))
+    target.multiplyScalar(speed[0] + (speed[1] - speed[0]) * random())
+
+    return target.addScaledVector(velocity, inheritVelocity)
+  }
+
+  /**
+   * 出生位置：发射器位置加球内随机偏移
+   */
+  public samplePosition(random: RandomSource, target: THREE.Vector3): THREE.Vector3 {
+    target.copy(this.position)
+    if (this.config.spawnRadius <= 0) return target
+
+    const theta = random() * Math.PI * 2
+    const phi = Math.acos(2 * random() - 1)
+    const radius = this.config.spawnRadius * Math.cbrt(random())
+    return target.add(new THREE.Vector3(
+      radius * Math.sin(phi) * Math.cos(theta),
+      radius * Math.sin(phi) * Math.sin(theta),
+      radius * Math.cos(phi)
+    ))
+  }
+
+  /**
+   * 发射结束（粒子可能仍然存活）
+   */
+  public isFinished(): boolean {
+    return !this.active
+  }
+
+  public stop(): void {
+    this.active = false
+  }
+
+  private static alignToDirection(direction: THREE.Vector3): THREE.Quaternion {
+    return this.alignment.setFromUnitVectors(this.forward, direction)
+  }
+}
+
+/**
+ * 按生命周期曲线取值
+ */
+export function sampleCurve(stops: EmitterCurveStop[], t: number): number {
+  if (stops.length === 0) return 1
+  if (t <= stops[0].t) return stops[0].value
+
+  for (let i = 1; i < stops.length; i++) {
+    if (t <= stops[i].t) {
+      const previous = stops[i - 1]
+      const span = stops[i].t - previous.t
+      const local = span > 0 ? (t - previous.t) / span : 1
+      return previous.value + (stops[i].value - previous.value) * local
+    }
+  }
+  return stops[stops.length - 1].value
+}
+
+/**
+ * 按生命周期颜色节点取颜色和透明度
+ */
+export function sampleColor(stops: EmitterColorStop[], t: number, target: THREE.Color): number {
+  if (stops.length === 0) {
+    target.setRGB(1, 1, 1)
+    return 1
+  }
+  if (t <= stops[0].t) {
+    target.copy(stops[0].color)
+    return stops[0].alpha
+  }
+
+  for (let i = 1; i < stops.length; i++) {
+    if (t <= stops[i].t) {
+      const previous = stops[i - 1]
+      const span = stops[i].t - previous.t
+      const local = span > 0 ? (t - previous.t) / span : 1
+      target.copy(previous.color).lerp(stops[i].color, local)
+      return previous.alpha + (stops[i].alpha - previous.alpha) * local
+    }
+  }
+
+  const last = stops[stops.length - 1]
+  target.copy(last.color)
+  return last.alpha
+}
@@ -0,0 +1,197 @@
+import * as THREE from 'three'
+
+// 力场类型
+export enum ForceFieldType {
+  ATTRACTOR = 'attractor',   // 指向中心的吸引力
+  REPULSOR = 'repulsor',     // 背离中心的排斥力
+  VORTEX = 'vortex',         // 绕轴旋转的切向力
+  WIND = 'wind',             // 固定方向的均匀力
+  CURL_NOISE = 'curl_noise'  // 无散度的旋度噪声流场
+}
+
+// 着色器中的类型编号
+export const FORCE_FIELD_TYPE_CODES: Record<ForceFieldType, number> = {
+  [ForceFieldType.ATTRACTOR]: 0,
+  [ForceFieldType.REPULSOR]: 1,
+  [ForceFieldType.VORTEX]: 2,
+  [ForceFieldType.WIND]: 3,
+  [ForceFieldType.CURL_NOISE]: 4
+}
+
+/**
+ * 力场配置
+ */
+export interface ForceFieldConfig {
+  name: string
+  type: ForceFieldType
+  position: THREE.Vector3    // 中心；风和旋度噪声只用于半径衰减
+  direction: THREE.Vector3   // 风向或涡旋轴
+  strength: number           // 加速度（单位/秒²）
+  radius: number             // 作用半径，0表示不衰减
+  falloff: number            // 半径内的衰减指数
+  frequency: number          // 旋度噪声的空间频率
+  speed: number              // 旋度噪声随时间变化的速度
+  enabled: boolean
+}
+
+// 逐帧修改力场参数的动画函数
+export type ForceFieldAnimation = (field: ForceField, time: number, deltaTime: number) => void
+
+/**
+ * 单个力场 - 参数可直接修改或通过动画函数随时间变化
+ */
+export class ForceField implements ForceFieldConfig {
+  public readonly name: string
+  public type: ForceFieldType
+  public position: THREE.Vector3
+  public direction: THREE.Vector3
+  public strength: number
+  public radius: number
+  public falloff: number
+  public frequency: number
+  public speed: number
+  public enabled: boolean
+  public animation?: ForceFieldAnimation
+
+  constructor(config: Partial<ForceFieldConfig> & Pick<ForceFieldConfig, 'name' | 'type'>, animation?: ForceFieldAnimation) {
+    const settings: ForceFieldConfig = {
+      position: new THREE.Vector3(),
+      direction: new THREE.Vector3(0, 1, 0),
+      strength: 1,
+      radius: 0,
+      falloff: 1,
+      frequency: 0.15,
+      speed: 0.3,
+      enabled: true,
+      ...config
+    }
+
+    this.name = settings.name
+    this.type = settings.type
+    this.position = settings.position.clone()
+    this.direction = settings.direction.clone().normalize()
+    this.strength = settings.strength
+    this.radius = settings.radius
+    this.falloff = settings.falloff
+    this.frequency = settings.frequency
+    this.speed = settings.speed
+    this.enabled = settings.enabled
+    this.animation = animation
+  }
+
+  public update(time: number, deltaTime: number): void {
+    if (this.animation) {
+      this.animation(this, time, deltaTime)
+    }
+  }
+
+  /**
+   * 把本力场在(x, y, z)处的加速度累加到target（与着色器中的computeForceField一致）
+   */
+  public accumulate(x: number, y: number, z: number, time: number, target: THREE.Vector3): void {
+    if (!this.enabled || this.strength === 0) return
+
+    const dx = this.position.x - x
+    const dy = this.position.y - y
+    const dz = this.position.z - z
+    const distance = Math.sqrt(dx * dx + dy * dy + dz * dz)
+    const axis = this.direction
+
+    switch (this.type) {
+      case ForceFieldType.ATTRACTOR:
+      case ForceFieldType.REPULSOR: {
+        const sign = this.type === ForceFieldType.ATTRACTOR ? 1 : -1
+        const scale = sign * this.strength * this.attenuation(distance) / Math.max(distance, 0.001)
+        target.x += dx * scale
+        target.y += dy * scale
+        target.z += dz * scale
+        break
+      }
+
+      case ForceFieldType.VORTEX: {
+        // 去掉沿轴分量后的径向向量，切向 = axis × radial
+        const along = -(dx * axis.x + dy * axis.y + dz * axis.z)
+        const rx = -dx - axis.x * along
+        const ry = -dy - axis.y * along
+        const rz = -dz - axis.z * along
+        const radialDistance = Math.sqrt(rx * rx + ry * ry + rz * rz)
+        if (radialDistance <= 0.001) break
+
+        const scale = this.strength * this.attenuation(radialDistance) / radialDistance
+        target.x += (axis.y * rz - axis.z * ry) * scale
+        target.y += (axis.z * rx - axis.x * rz) * scale
+        target.z += (axis.x * ry - axis.y * rx) * scale
+        break
+      }
+
+      case ForceFieldType.WIND: {
+        const scale = this.strength * this.attenuation(distance)
+        target.x += axis.x * scale
+        target.y += axis.y * scale
+        target.z += axis.z * scale
+        break
+      }
+
+      case ForceFieldType.CURL_NOISE: {
+        const scale = this.strength * this.attenuation(distance)
+        const px = x * this.frequency
+        const py = y * this.frequency
+        const pz = z * this.frequency
+        const t = time * this.speed
+        target.x += (-Math.sin(px + t) * Math.sin(py) - Math.cos(pz + t) * Math.cos(px)) * scale
+        target.y += (-Math.sin(py + t) * Math.sin(pz) - Math.cos(px + t) * Math.cos(py)) * scale
+        target.z += (-Math.sin(pz + t) * Math.sin(px) - Math.cos(py + t) * Math.cos(pz)) * scale
+        break
+      }
+    }
+  }
+
+  private attenuation(distance: number): number {
+    if (this.radius <= 0) return 1
+    const x = 1 - distance / this.radius
+    return x <= 0 ? 0 : Math.pow(x, this.falloff)
+  }
+}
+
+/**
+ * 常用力场动画
+ */
+export class ForceFieldAnimations {
+  /**
+   * 力场中心绕axis轴做圆周运动
+   */
+  static orbit(center: THREE.Vector3, radius: number, period: number, axis: THREE.Vector3 = new THREE.Vector3(0, 1, 0)): ForceFieldAnimation {
+    const normal = axis.clone().normalize()
+    const tangent = new THREE.Vector3(1, 0, 0)
+    if (Math.abs(normal.dot(tangent)) > 0.9) tangent.set(0, 0, 1)
+    const u = tangent.cross(normal).normalize()
+    const v = normal.clone().cross(u)
+    const origin = center.clone()
+
+    return (field, time) => {
+      const angle = (time / period) * Math.PI * 2
+      field.position.copy(origin)
+        .addScaledVector(u, Math.cos(angle) * radius)
+        .addScaledVector(v, Math.sin(angle) * radius)
+    }
+  }
+
+  /**
+   * 强度在 base ± amplitude 之间正弦变化
+   */
+  static pulse(base: number, amplitude: number, period: number): ForceFieldAnimation {
+    return (field, time) => {
+      field.strength = base + Math.sin((time / period) * Math.PI * 2) * amplitude
+    }
+  }
+
+  /**
+   * 风向绕axis轴匀速旋转
+   */
+  static rotateDirection(period: number, axis: THREE.Vector3 = new THREE.Vector3(0, 1, 0)): ForceFieldAnimation {
+    const normal = axis.clone().normalize()
+    return (field, _time, deltaTime) => {
+      field.direction.applyAxisAngle(normal, (deltaTime / period) * Math.PI * 2).normalize()
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import * as THREE from 'three'
+import { ForceField, FORCE_FIELD_TYPE_CODES } from './ForceField'
+import type { ForceFieldConfig, ForceFieldAnimation } from './ForceField'
+
+// 与SimulationShaders.getForceFieldChunk()中的uniform一一对应
+export interface ForceFieldUniforms {
+  [uniform: string]: THREE.IUniform
+  forceFieldCount: THREE.IUniform<number>
+  forceFieldTime: THREE.IUniform<number>
+  forceFieldA: THREE.IUniform<THREE.Vector4[]>  // xyz 中心, w 类型编号
+  forceFieldB: THREE.IUniform<THREE.Vector4[]>  // xyz 方向, w 强度
+  forceFieldC: THREE.IUniform<THREE.Vector4[]>  // 半径, 衰减指数, 噪声频率, 噪声速度
+}
+
+/**
+ * 力场系统 - 管理全部力场，逐帧推进动画并同步到共享uniform
+ * GPU模拟在速度着色器中读取uniform，CPU路径调用sampleForce/applyForces，两者公式一致
+ */
+export class ForceFieldSystem {
+  static readonly MAX_FIELDS = 8
+
+  public readonly uniforms: ForceFieldUniforms = ForceFieldSystem.createUniforms()
+
+  private fields: ForceField[] = []
+  private time: number = 0
+
+  /**
+   * 空的力场uniform（未连接力场系统的材质使用）
+   */
+  static createUniforms(): ForceFieldUniforms {
+    const vectors = () => Array.from({ length: ForceFieldSystem.MAX_FIELDS }, () => new THREE.Vector4())
+    return {
+      forceFieldCount: { value: 0 },
+      forceFieldTime: { value: 0 },
+      forceFieldA: { value: vectors() },
+      forceFieldB: { value: vectors() },
+      forceFieldC: { value: vectors() }
+    }
+  }
+
+  /**
+   * 添加力场，同名力场会被替换；超过上限时返回undefined
+   */
+  public add(
+    source: ForceField | (Partial<ForceFieldConfig> & Pick<ForceFieldConfig, 'name' | 'type'>),
+    animation?: ForceFieldAnimation
+  ): ForceField | undefined {
+    const field = source instanceof ForceField ? source : new ForceField(source, animation)
+    this.remove(field.name)
+
+    if (this.fields.length >= ForceFieldSystem.MAX_FIELDS) {
+      console.warn(`Force field limit (${ForceFieldSystem.MAX_FIELDS}) reached, "${field.name}" was not added`)
+      return undefined
+    }
+
+    this.fields.push(field)
+    this.writeUniforms()
+    return field
+  }
+
+  public remove(name: string): boolean {
+    const index = this.fields.findIndex(field => field.name === name)
+    if (index === -1) return false
+
+    this.fields.splice(index, 1)
+    this.writeUniforms()
+    return true
+  }
+
+  public get(name: string): ForceField | undefined {
+    return this.fields.find(field => field.name === name)
+  }
+
+  public getFields(): ForceField[] {
+    return [...this.fields]
+  }
+
+  public clear(): void {
+    this.fields = []
+    this.writeUniforms()
+  }
+
+  public hasActiveFields(): boolean {
+    return this.fields.some(field => field.enabled && field.strength !== 0)
+  }
+
+  public getTime(): number {
+    return this.time
+  }
+
+  public update(deltaTime: number): void {
+    this.time += deltaTime
+    this.fields.forEach(field => field.update(this.time, deltaTime))
+    this.writeUniforms()
+  }
+
+  /**
+   * 计算(x, y, z)处所有力场的合加速度
+   */
+  public sampleForce(x: number, y: number, z: number, target: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    target.set(0, 0, 0)
+    for (const field of this.fields) {
+      field.accumulate(x, y, z, this.time, target)
+    }
+    return target
+  }
+
+  /**
+   * 把力场加速度积分到速度数组（xyz交错存放）
+   */
+  public applyForces(positions: Float32Array, velocities: Float32Array, count: number, deltaTime: number): void {
+    if (!this.hasActiveFields()) return
+
+    const force = new THREE.Vector3()
+    for (let i = 0; i < count; i++) {
+      const i3 = i * 3
+      this.sampleForce(positions[i3], positions[i3 + 1], positions[i3 + 2], force)
+      velocities[i3] += force.x * deltaTime
+      velocities[i3 + 1] += force.y * deltaTime
+      velocities[i3 + 2] += force.z * deltaTime
+    }
+  }
+
+  // 只上传启用的力场，着色器按forceFieldCount提前结束循环
+  private writeUniforms(): void {
+    let count = 0
+    for (const field of this.fields) {
+      if (!field.enabled || field.strength === 0) continue
+
+      this.uniforms.forceFieldA.value[count].set(
+        field.position.x, field.position.y, field.position.z, FORCE_FIELD_TYPE_CODES[field.type]
+      )
+      this.uniforms.forceFieldB.value[count].set(
+        field.direction.x, field.direction.y, field.direction.z, field.strength
+      )
+      this.uniforms.forceFieldC.value[count].set(field.radius, field.falloff, field.frequency, field.speed)
+      count++
+    }
+
+    this.uniforms.forceFieldCount.value = count
+    this.uniforms.forceFieldTime.value = this.time
+  }
+}
@@ -0,0 +1,28 @@
+import { ColorSystem } from '../utils/ColorSystem'
+import { LayerRegistry } from '../plugins/LayerRegistry'
+import { BUILTIN_LAYER_PLUGINS } from '../plugins/BuiltinLayerPlugins'
+import { SceneLoader } from '../scene/SceneLoader'
+import { Viewport } from '../utils/Viewport'
+import type { ParticleGenerationRequest, ParticleGenerationResponse } from './ParticleGenerator'
+
+// 粒子生成Worker - 按层描述重建内置层，用主线程给出的种子和数量生成粒子数据
+
+const registry = new LayerRegistry(BUILTIN_LAYER_PLUGINS)
+ColorSystem.initialize()
+
+self.onmessage = (event: MessageEvent<ParticleGenerationRequest>) => {
+  const { id, description, seed, particleCount, viewport } = event.data
+  // 内置层构造函数按视口宽度选择默认粒子数
+  Viewport.setSize(viewport.width, viewport.height)
+
+  try {
+    const layer = SceneLoader.createLayer({ ...description, particleCount }, registry)
+    layer.setSeed(seed)
+
+    const result = layer.generateData(particleCount)
+    const transfer = Object.values(result.data).map((array: Float32Array) => array.buffer)
+    self.postMessage({ id, result } satisfies ParticleGenerationResponse, { transfer })
+  } catch (error) {
+    self.postMessage({ id, error: (error as Error).message } satisfies ParticleGenerationResponse)
+  }
+}
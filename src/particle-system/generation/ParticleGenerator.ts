@@ -0,0 +1,121 @@
+import { Viewport } from '../utils/Viewport'
+import type { ParticleLayer } from '../types'
+import type { GeneratedParticles } from '../ParticleLayer'
+import type { SceneLayerDescription } from '../scene/SceneDescription'
+import ParticleGenerationWorker from './ParticleGenerationWorker?worker&inline'
+
+// 主线程发给Worker的生成请求
+export interface ParticleGenerationRequest {
+  id: number
+  description: SceneLayerDescription
+  seed: number
+  particleCount: number
+  viewport: { width: number; height: number }   // Worker中没有window，内置层按它选择默认值
+}
+
+export type ParticleGenerationResponse =
+  | { id: number; result: GeneratedParticles }
+  | { id: number; error: string }
+
+interface PendingGeneration {
+  resolve: (result: GeneratedParticles) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * 粒子生成器 - 在Web Worker中按层描述生成粒子数据，数组以可转移对象返回
+ * 不支持Worker、层无法在Worker中重建或Worker出错时，在主线程生成
+ */
+export class ParticleGenerator {
+  private worker: Worker | null = null
+  private workerFailed: boolean = false
+  private nextId: number = 1
+  private pending: Map<number, PendingGeneration> = new Map()
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined'
+  }
+
+  /**
+   * 按层当前的种子生成指定数量的粒子数据，不修改层；提供层描述时尝试在Worker中生成
+   */
+  async generate(layer: ParticleLayer, particleCount: number, description?: SceneLayerDescription): Promise<GeneratedParticles> {
+    if (!layer.generateData) {
+      throw new Error(`Layer ${layer.name} cannot generate particle data`)
+    }
+
+    if (description && layer.getSeed && layer.canGenerateInWorker && layer.canGenerateInWorker() && this.canUseWorker()) {
+      try {
+        return await this.request({ description, seed: layer.getSeed(), particleCount })
+      } catch (error) {
+        console.warn(`Worker generation failed for layer ${layer.name}, generating on main thread:`, error)
+      }
+    }
+
+    return layer.generateData(particleCount)
+  }
+
+  isUsingWorker(): boolean {
+    return this.worker !== null
+  }
+
+  dispose(): void {
+    this.worker?.terminate()
+    this.worker = null
+    this.rejectPending(new Error('Particle generator disposed'))
+  }
+
+  private canUseWorker(): boolean {
+    return ParticleGenerator.isSupported() && !this.workerFailed
+  }
+
+  private request(request: Omit<ParticleGenerationRequest, 'id' | 'viewport'>): Promise<GeneratedParticles> {
+    const worker = this.getWorker()
+    const id = this.nextId++
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject })
+      worker.postMessage({
+        ...request,
+        id,
+        viewport: { width: Viewport.getWidth(), height: Viewport.getHeight() }
+      } satisfies ParticleGenerationRequest)
+    })
+  }
+
+  // 首次使用时创建Worker
+  private getWorker(): Worker {
+    if (this.worker) return this.worker
+
+    const worker = new ParticleGenerationWorker({ name: 'particle-generation' })
+    worker.onmessage = (event: MessageEvent<ParticleGenerationResponse>) => {
+      const response = event.data
+      const pending = this.pending.get(response.id)
+      if (!pending) return
+
+      this.pending.delete(response.id)
+      if ('error' in response) {
+        pending.reject(new Error(response.error))
+      } else {
+        pending.resolve(response.result)
+      }
+    }
+    // 脚本加载或初始化失败后不再使用Worker
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault()
+      this.workerFailed = true
+      this.worker?.terminate()
+      this.worker = null
+      this.rejectPending(new Error(event.message || 'Particle generation worker failed'))
+    }
+
+    this.worker = worker
+    console.log('Particle generation worker started')
+    return worker
+  }
+
+  private rejectPending(error: Error): void {
+    this.pending.forEach(pending => pending.reject(error))
+    this.pending.clear()
+  }
+}
@@ -1,4 +1,6 @@
 import * as THREE from 'three'
+import { Viewport } from '../utils/Viewport'
+import type { ForceField } from '../forces/ForceField'
 
 export interface InteractionConfig {
   enableParallax: boolean
@@ -19,6 +21,19 @@ export interface ClickEffect {
   intensity: number
 }
 
+// 光标力场的激活方式：按住指针时，或始终跟随光标
+export type CursorForceMode = 'press' | 'hover'
+
+// 与DOM无关的输入（屏幕坐标），可在Worker间传递；多指触摸时触摸事件没有坐标
+export type InteractionInput =
+  | { type: 'move'; x: number; y: number }
+  | { type: 'click'; x: number; y: number }
+  | { type: 'wheel'; deltaY: number }
+  | { type: 'touchStart'; x?: number; y?: number }
+  | { type: 'touchMove'; x?: number; y?: number }
+  | { type: 'pointerDown'; x: number; y: number }
+  | { type: 'pointerUp' }
+
 export class InteractionManager {
   private camera: THREE.PerspectiveCamera
   private mouse: THREE.Vector2 = new THREE.Vector2()
@@ -30,17 +45,28 @@ export class InteractionManager {
   // 视差效果相关
   private targetCameraPosition: THREE.Vector3 = new THREE.Vector3()
   private originalCameraPosition: THREE.Vector3 = new THREE.Vector3()
+  // 平滑后的视差偏移，相机组件接管相机时由其叠加到视点上
+  private parallaxOffset: THREE.Vector2 = new THREE.Vector2()
+  private controlsCamera: boolean = true
+
+  // 最近一次用户输入的时间，用于空闲巡航
+  private lastInputTime: number = Date.now()
 
   // 缩放控制相关
   private currentZoom: number = 1.0
   private targetZoom: number = 1.0
 
-  // 事件监听器引用
-  private mouseMoveHandler?: (event: MouseEvent) => void
-  private clickHandler?: (event: MouseEvent) => void
-  private wheelHandler?: (event: WheelEvent) => void
-  private touchStartHandler?: (event: TouchEvent) => void
-  private touchMoveHandler?: (event: TouchEvent) => void
+  // 光标力场相关
+  private cursorForceField?: ForceField
+  private cursorForceDepth: number = 8
+  private cursorForceMode: CursorForceMode = 'press'
+  private isPointerDown: boolean = false
+
+  // 移除窗口事件监听
+  private removeEventListeners?: () => void
+
+  // 点击回调（屏幕坐标）
+  private onClickCallback?: (x: number, y: number) => void
 
   constructor(camera: THREE.PerspectiveCamera, config?: Partial<InteractionConfig>) {
     this.camera = camera
@@ -63,77 +89,136 @@ export class InteractionManager {
   }
 
   private setupEventListeners(): void {
-    // 鼠标移动事件
-    this.mouseMoveHandler = (event: MouseEvent) => {
-      if (!this.isEnabled || !this.config.enableParallax) return
-
-      this.mouse.x = event.clientX
-      this.mouse.y = event.clientY
+    // Worker中没有窗口事件，输入由主线程转发给handleInput
+    if (typeof window === 'undefined') return
 
-      // 标准化鼠标坐标到 [-1, 1] 范围
-      this.normalizedMouse.x = (event.clientX / window.innerWidth) * 2 - 1
-      this.normalizedMouse.y = -(event.clientY / window.innerHeight) * 2 + 1
+    this.removeEventListeners = InteractionManager.listen(
+      input => this.handleInput(input),
+      () => this.isEnabled && this.config.enableZoomControl
+    )
+  }
 
-      this.updateParallaxEffect()
+  /**
+   * 把窗口的鼠标、滚轮、触摸和指针事件转换为InteractionInput，返回移除监听的函数
+   * preventWheel返回true时阻止滚轮的默认滚动
+   */
+  static listen(onInput: (input: InteractionInput) => void, preventWheel: () => boolean = () => true): () => void {
+    const mouseMoveHandler = (event: MouseEvent) => {
+      onInput({ type: 'move', x: event.clientX, y: event.clientY })
     }
 
-    // 鼠标点击事件
-    this.clickHandler = (event: MouseEvent) => {
-      if (!this.isEnabled || !this.config.enableClickEffects) return
+    const clickHandler = (event: MouseEvent) => {
+      onInput({ type: 'click', x: event.clientX, y: event.clientY })
+    }
 
-      this.createClickEffect(event.clientX, event.clientY)
+    const wheelHandler = (event: WheelEvent) => {
+      if (preventWheel()) {
+        event.preventDefault()
+      }
+      onInput({ type: 'wheel', deltaY: event.deltaY })
     }
 
-    // 滚轮缩放事件
-    this.wheelHandler = (event: WheelEvent) => {
-      if (!this.isEnabled || !this.config.enableZoomControl) return
+    // 只处理单指触摸
+    const touchStartHandler = (event: TouchEvent) => {
+      const touch = event.touches.length === 1 ? event.touches[0] : undefined
+      onInput({ type: 'touchStart', x: touch?.clientX, y: touch?.clientY })
+    }
 
-      event.preventDefault()
+    const touchMoveHandler = (event: TouchEvent) => {
+      const touch = event.touches.length === 1 ? event.touches[0] : undefined
+      onInput({ type: 'touchMove', x: touch?.clientX, y: touch?.clientY })
+    }
 
-      const delta = event.deltaY > 0 ? 1 : -1
-      this.targetZoom += delta * this.config.zoomSensitivity
-      this.targetZoom = Math.max(this.config.minZoom, Math.min(this.config.maxZoom, this.targetZoom))
+    const pointerDownHandler = (event: PointerEvent) => {
+      onInput({ type: 'pointerDown', x: event.clientX, y: event.clientY })
     }
 
-    // 触摸事件支持
-    this.touchStartHandler = (event: TouchEvent) => {
-      if (!this.isEnabled) return
+    const pointerUpHandler = () => {
+      onInput({ type: 'pointerUp' })
+    }
 
-      if (event.touches.length === 1) {
-        const touch = event.touches[0]
-        this.mouse.x = touch.clientX
-        this.mouse.y = touch.clientY
+    window.addEventListener('mousemove', mouseMoveHandler)
+    window.addEventListener('click', clickHandler)
+    window.addEventListener('wheel', wheelHandler, { passive: false })
+    window.addEventListener('touchstart', touchStartHandler)
+    window.addEventListener('touchmove', touchMoveHandler)
+    window.addEventListener('pointerdown', pointerDownHandler)
+    window.addEventListener('pointerup', pointerUpHandler)
+    window.addEventListener('pointercancel', pointerUpHandler)
+
+    return () => {
+      window.removeEventListener('mousemove', mouseMoveHandler)
+      window.removeEventListener('click', clickHandler)
+      window.removeEventListener('wheel', wheelHandler)
+      window.removeEventListener('touchstart', touchStartHandler)
+      window.removeEventListener('touchmove', touchMoveHandler)
+      window.removeEventListener('pointerdown', pointerDownHandler)
+      window.removeEventListener('pointerup', pointerUpHandler)
+      window.removeEventListener('pointercancel', pointerUpHandler)
+    }
+  }
 
-        this.normalizedMouse.x = (touch.clientX / window.innerWidth) * 2 - 1
-        this.normalizedMouse.y = -(touch.clientY / window.innerHeight) * 2 + 1
+  /**
+   * 处理一次输入（屏幕坐标）：主线程来自窗口事件，Worker中来自主线程转发的消息
+   */
+  public handleInput(input: InteractionInput): void {
+    this.lastInputTime = Date.now()
+
+    switch (input.type) {
+      // 鼠标移动：视差
+      case 'move':
+        if (!this.isEnabled || !this.config.enableParallax) return
+        this.setPointer(input.x, input.y)
+        this.updateParallaxEffect()
+        break
+
+      // 鼠标点击：点击效果
+      case 'click':
+        if (!this.isEnabled || !this.config.enableClickEffects) return
+        this.createClickEffect(input.x, input.y)
+        break
+
+      // 滚轮缩放
+      case 'wheel': {
+        if (!this.isEnabled || !this.config.enableZoomControl) return
+        const delta = input.deltaY > 0 ? 1 : -1
+        this.targetZoom += delta * this.config.zoomSensitivity
+        this.targetZoom = Math.max(this.config.minZoom, Math.min(this.config.maxZoom, this.targetZoom))
+        break
+      }
 
+      // 触摸开始：位置和点击效果
+      case 'touchStart':
+        if (!this.isEnabled || input.x === undefined || input.y === undefined) return
+        this.setPointer(input.x, input.y)
         if (this.config.enableClickEffects) {
-          this.createClickEffect(touch.clientX, touch.clientY)
+          this.createClickEffect(input.x, input.y)
         }
-      }
-    }
+        break
 
-    this.touchMoveHandler = (event: TouchEvent) => {
-      if (!this.isEnabled || !this.config.enableParallax) return
-
-      if (event.touches.length === 1) {
-        const touch = event.touches[0]
-        this.mouse.x = touch.clientX
-        this.mouse.y = touch.clientY
+      case 'touchMove':
+        if (!this.isEnabled || !this.config.enableParallax || input.x === undefined || input.y === undefined) return
+        this.setPointer(input.x, input.y)
+        this.updateParallaxEffect()
+        break
 
-        this.normalizedMouse.x = (touch.clientX / window.innerWidth) * 2 - 1
-        this.normalizedMouse.y = -(touch.clientY / window.innerHeight) * 2 + 1
+      // 指针按下状态（鼠标和触摸），用于光标力场
+      case 'pointerDown':
+        this.isPointerDown = true
+        this.setPointer(input.x, input.y)
+        break
 
-        this.updateParallaxEffect()
-      }
+      case 'pointerUp':
+        this.isPointerDown = false
+        break
     }
+  }
 
-    // 添加事件监听器
-    window.addEventListener('mousemove', this.mouseMoveHandler)
-    window.addEventListener('click', this.clickHandler)
-    window.addEventListener('wheel', this.wheelHandler, { passive: false })
-    window.addEventListener('touchstart', this.touchStartHandler)
-    window.addEventListener('touchmove', this.touchMoveHandler)
+  // 记录屏幕坐标并标准化到 [-1, 1] 范围
+  private setPointer(x: number, y: number): void {
+    this.mouse.set(x, y)
+    this.normalizedMouse.x = (x / Viewport.getWidth()) * 2 - 1
+    this.normalizedMouse.y = -(y / Viewport.getHeight()) * 2 + 1
   }
 
   private updateParallaxEffect(): void {
@@ -157,6 +242,10 @@ export class InteractionManager {
 
     this.clickEffects.push(effect)
 
+    if (this.onClickCallback) {
+      this.onClickCallback(x, y)
+    }
+
     // 限制同时存在的点击效果数量
     if (this.clickEffects.length > 5) {
       this.clickEffects.shift()
@@ -166,19 +255,65 @@ export class InteractionManager {
   public update(deltaTime: number): void {
     if (!this.isEnabled) return
 
-    // 更新相机位置（平滑插值）
+    // 更新视差偏移（平滑插值）
     if (this.config.enableParallax) {
-      this.camera.position.lerp(this.targetCameraPosition, deltaTime * 5)
+      this.parallaxOffset.lerp(
+        new THREE.Vector2(
+          this.targetCameraPosition.x - this.originalCameraPosition.x,
+          this.targetCameraPosition.y - this.originalCameraPosition.y
+        ),
+        Math.min(deltaTime * 5, 1)
+      )
+      if (this.controlsCamera) {
+        this.camera.position.lerp(this.targetCameraPosition, deltaTime * 5)
+      }
     }
 
     // 更新缩放（平滑插值）
     if (this.config.enableZoomControl) {
       this.currentZoom = THREE.MathUtils.lerp(this.currentZoom, this.targetZoom, deltaTime * 3)
-      this.camera.position.z = this.originalCameraPosition.z / this.currentZoom
+      if (this.controlsCamera) {
+        this.camera.position.z = this.originalCameraPosition.z / this.currentZoom
+      }
     }
 
     // 更新点击效果
     this.updateClickEffects()
+
+    // 光标力场跟随指针
+    this.updateCursorForceField()
+  }
+
+  /**
+   * 把力场绑定到光标：力场中心位于光标方向、相机前方depth处
+   * press模式下仅在按住指针时启用
+   */
+  public setCursorForceField(field: ForceField | null, depth: number = 8, mode: CursorForceMode = 'press'): void {
+    if (this.cursorForceField && this.cursorForceField !== field) {
+      this.cursorForceField.enabled = false
+    }
+    this.cursorForceField = field ?? undefined
+    this.cursorForceDepth = depth
+    this.cursorForceMode = mode
+    this.updateCursorForceField()
+  }
+
+  public getCursorForceField(): ForceField | undefined {
+    return this.cursorForceField
+  }
+
+  private updateCursorForceField(): void {
+    const field = this.cursorForceField
+    if (!field) return
+
+    field.enabled = this.isEnabled && (this.cursorForceMode === 'hover' || this.isPointerDown)
+    if (!field.enabled) return
+
+    const direction = new THREE.Vector3(this.normalizedMouse.x, this.normalizedMouse.y, 0.5)
+      .unproject(this.camera)
+      .sub(this.camera.position)
+      .normalize()
+    field.position.copy(this.camera.position).addScaledVector(direction, this.cursorForceDepth)
   }
 
   private updateClickEffects(): void {
@@ -208,11 +343,34 @@ export class InteractionManager {
     return [...this.clickEffects]
   }
 
+  // 设置点击回调
+  public setOnClick(callback: (x: number, y: number) => void): void {
+    this.onClickCallback = callback
+  }
+
   // 获取当前缩放级别
   public getCurrentZoom(): number {
     return this.currentZoom
   }
 
+  // 获取平滑后的视差偏移
+  public getParallaxOffset(): THREE.Vector2 {
+    return this.parallaxOffset.clone()
+  }
+
+  // 距离上次用户输入的秒数
+  public getIdleTime(): number {
+    return (Date.now() - this.lastInputTime) / 1000
+  }
+
+  /**
+   * 设置是否由交互管理器直接移动相机
+   * 关闭后只计算视差偏移和缩放，由相机组件叠加到当前视点上
+   */
+  public setCameraControl(enabled: boolean): void {
+    this.controlsCamera = enabled
+  }
+
   // 设置配置
   public updateConfig(newConfig: Partial<InteractionConfig>): void {
     this.config = { ...this.config, ...newConfig }
@@ -221,6 +379,7 @@ export class InteractionManager {
   // 启用/禁用交互
   public setEnabled(enabled: boolean): void {
     this.isEnabled = enabled
+    this.updateCursorForceField()
   }
 
   // 重置相机位置
@@ -231,20 +390,13 @@ export class InteractionManager {
 
   // 清理资源
   public dispose(): void {
-    if (this.mouseMoveHandler) {
-      window.removeEventListener('mousemove', this.mouseMoveHandler)
-    }
-    if (this.clickHandler) {
-      window.removeEventListener('click', this.clickHandler)
-    }
-    if (this.wheelHandler) {
-      window.removeEventListener('wheel', this.wheelHandler)
-    }
-    if (this.touchStartHandler) {
-      window.removeEventListener('touchstart', this.touchStartHandler)
+    if (this.removeEventListeners) {
+      this.removeEventListeners()
+      this.removeEventListeners = undefined
     }
-    if (this.touchMoveHandler) {
-      window.removeEventListener('touchmove', this.touchMoveHandler)
+    if (this.cursorForceField) {
+      this.cursorForceField.enabled = false
+      this.cursorForceField = undefined
     }
 
     this.clickEffects = []
@@ -1,12 +1,14 @@
 import * as THREE from 'three'
 import { ParticleLayer } from '../ParticleLayer'
-import type { LayerConfiguration } from '../ParticleLayer'
+import type { LayerConfiguration, LayerOverrides } from '../ParticleLayer'
 import { SpatialDistribution, ParticleType } from '../types'
 import { ColorSystem } from '../utils/ColorSystem'
+import type { ColorPalette } from '../theme/ThemeManager'
+import { Viewport } from '../utils/Viewport'
 
 export class BackgroundLayer extends ParticleLayer {
-  constructor() {
-    const particleCount = window.innerWidth < 640 ? 2000 : 3000
+  constructor(overrides: LayerOverrides = {}) {
+    const particleCount = Viewport.isCompact() ? 2000 : 3000
     const depthRange: [number, number] = [120, 300]
     const sizeRange: [number, number] = [0.5, 3.0]
     
@@ -40,19 +42,19 @@ export class BackgroundLayer extends ParticleLayer {
     }
     
     super(
-      'background',
-      particleCount,
-      depthRange,
-      sizeRange,
-      colorPalette,
-      SpatialDistribution.SPHERICAL,
-      layerConfig
+      overrides.name ?? 'background',
+      overrides.particleCount ?? particleCount,
+      overrides.depthRange ?? depthRange,
+      overrides.sizeRange ?? sizeRange,
+      overrides.colorPalette ?? colorPalette,
+      overrides.spatialDistribution ?? SpatialDistribution.SPHERICAL,
+      { ...layerConfig, ...overrides.layerConfig }
     )
   }
 
   // 背景层的粒子类型分布与默认不同
   protected generateParticleType(): ParticleType {
-    const random = Math.random()
+    const random = this.random.next()
     if (random < 0.02) return ParticleType.NEBULA        // 2% 微弱星云
     if (random < 0.04) return ParticleType.ENERGY_FIELD  // 2% 能量场
     if (random < 0.045) return ParticleType.SUPERNOVA    // 0.5% 超新星
@@ -63,7 +65,7 @@ export class BackgroundLayer extends ParticleLayer {
   // 背景层使用真实恒星颜色并应用星际红化效应
   protected generateParticleColor(depth: number, distanceFromCenter: number): THREE.Color {
     // 生成基础恒星颜色
-    let color = ColorSystem.getRealisticStellarColor()
+    let color = ColorSystem.getRealisticStellarColor(this.random.next)
     
     // 应用星际红化效应 - 距离越远红化越明显
     const distance = distanceFromCenter * 100 // 转换为合适的距离单位
@@ -74,4 +76,9 @@ export class BackgroundLayer extends ParticleLayer {
     
     return color
   }
+
+  // 背景层使用背景色，前景色发光
+  protected getThemeColors(colors: ColorPalette): { color: THREE.Color; glowColor: THREE.Color } {
+    return { color: colors.background, glowColor: colors.foreground }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,382 @@
+import * as THREE from 'three'
+import { ParticleLayer } from '../ParticleLayer'
+import type { LayerConfiguration } from '../ParticleLayer'
+import type { ParticleLayer as IParticleLayer, ParticleData, LayerAttachContext } from '../types'
+import { QualityLevel, SpatialDistribution } from '../types'
+import type { ColorPalette, ThemeConfig } from '../theme/ThemeManager'
+import type { LayerSnapshot } from '../snapshot/ParticleSnapshot'
+import { SpatialHash } from '../utils/SpatialHash'
+import { Viewport } from '../utils/Viewport'
+
+/**
+ * 星座连线配置
+ */
+export interface ConstellationConfig {
+  sources: string[]          // 取星的层名称
+  maxStars: number           // 参与连线的最亮粒子数量
+  maxDistance: number        // 连线最大长度（世界单位）
+  maxConnections: number     // 每颗星最多连线数
+  rebuildInterval: number    // 重新计算近邻的间隔（秒）
+  fadeDuration: number       // 连线淡入淡出时间（秒）
+  lineOpacity: number
+  cursorRadius: number       // 光标高亮半径（标准化屏幕坐标）
+}
+
+// 各质量等级的连线密度
+const QUALITY_PRESETS: Record<QualityLevel, Pick<ConstellationConfig, 'maxStars' | 'maxDistance' | 'maxConnections'>> = {
+  [QualityLevel.LOW]: { maxStars: 60, maxDistance: 9, maxConnections: 1 },
+  [QualityLevel.MEDIUM]: { maxStars: 120, maxDistance: 11, maxConnections: 2 },
+  [QualityLevel.HIGH]: { maxStars: 200, maxDistance: 13, maxConnections: 3 },
+  [QualityLevel.ULTRA]: { maxStars: 320, maxDistance: 15, maxConnections: 3 }
+}
+
+// 连线端点：来源层粒子数据中的一颗星
+interface StarReference {
+  data: ParticleData
+  index: number
+  brightness: number
+}
+
+interface ConstellationSegment {
+  from: StarReference
+  to: StarReference
+  fade: number       // 0-1，淡入淡出进度
+  visible: boolean   // 最近一次重建中是否仍为近邻
+}
+
+/**
+ * 星座连线层 - 用空间哈希在前景/中景的亮星之间寻找近邻，绘制渐隐的线段
+ * 线段颜色取主题强调色，密度随质量等级变化，靠近光标的线段被点亮
+ */
+export class ConstellationLayer extends ParticleLayer {
+  static readonly MAX_SEGMENTS = 2048
+
+  static readonly DEFAULT_CONFIGURATION: LayerConfiguration = {
+    intensity: 1.0,
+    depthBase: 1.0,
+    depthMultiplier: 0,
+    orbitalSpeedMultiplier: 0,
+    velocityMultiplier: 0,
+    brightnessBase: 1.0,
+    brightnessMultiplier: 0
+  }
+
+  private config: ConstellationConfig
+  // 调用方显式指定的参数，切换质量等级时保留
+  private configOverrides: Partial<ConstellationConfig>
+  private segments: Map<string, ConstellationSegment> = new Map()
+  private spatialHash: SpatialHash = new SpatialHash()
+  private alpha!: Float32Array
+  private rebuildTimer: number = 0
+  private getLayer?: (name: string) => IParticleLayer | undefined
+  // 来源层的粒子数据数组在重新生成前保持不变，用作线段键中的层标识
+  private layerKeys: WeakMap<ParticleData, number> = new WeakMap()
+  private nextLayerKey: number = 0
+
+  constructor(config: Partial<ConstellationConfig> = {}, name: string = 'constellations') {
+    // 每条线段占两个顶点
+    super(
+      name,
+      ConstellationLayer.MAX_SEGMENTS * 2,
+      [0, 1],
+      [1, 1],
+      [new THREE.Color(1, 1, 1)],
+      SpatialDistribution.SPHERICAL,
+      ConstellationLayer.DEFAULT_CONFIGURATION
+    )
+
+    this.configOverrides = config
+    this.config = {
+      sources: ['foreground', 'midground'],
+      rebuildInterval: 1.5,
+      fadeDuration: 1.2,
+      lineOpacity: 0.35,
+      cursorRadius: 0.25,
+      ...QUALITY_PRESETS[QualityLevel.HIGH],
+      ...config
+    }
+  }
+
+  public create(): void {
+    this.generateParticles()
+    this.createGeometry()
+    this.createMaterial()
+
+    this.points = new THREE.LineSegments(this.geometry, this.material)
+    this.points.name = this.name
+    this.points.frustumCulled = false
+    this.updateBoundingSphere()
+
+    this.segments.clear()
+    this.rebuildTimer = 0
+  }
+
+  public getConfig(): ConstellationConfig {
+    return { ...this.config, sources: [...this.config.sources] }
+  }
+
+  public updateConfig(config: Partial<ConstellationConfig>): void {
+    this.configOverrides = { ...this.configOverrides, ...config }
+    this.config = { ...this.config, ...config }
+    if (this.material) {
+      this.material.uniforms.lineOpacity.value = this.config.lineOpacity
+      this.material.uniforms.cursorRadius.value = this.config.cursorRadius
+    }
+    this.rebuildTimer = 0
+  }
+
+  public getSegmentCount(): number {
+    return this.segments.size
+  }
+
+  public onAttach(context: LayerAttachContext): void {
+    this.getLayer = context.getLayer
+    this.onQualityChange(context.qualityLevel)
+    this.onThemeChange(context.theme.colors, context.theme)
+  }
+
+  public onDetach(): void {
+    this.getLayer = undefined
+    this.segments.clear()
+  }
+
+  public onQualityChange(level: QualityLevel): void {
+    super.onQualityChange(level)
+    this.config = { ...this.config, ...QUALITY_PRESETS[level], ...this.configOverrides }
+    this.rebuildTimer = 0
+  }
+
+  public onThemeChange(colors: ColorPalette, theme: ThemeConfig): void {
+    super.onThemeChange(colors, theme)
+    // 线条亮度由lineOpacity控制，不随主题发光强度变化
+    this.material.uniforms.intensity.value = 1.0
+  }
+
+  protected getThemeColors(colors: ColorPalette): { color: THREE.Color; glowColor: THREE.Color } {
+    return { color: colors.accent, glowColor: colors.glow }
+  }
+
+  public onWindowResize(width: number, height: number): void {
+    if (this.material) {
+      this.material.uniforms.aspect.value = width / Math.max(height, 1)
+    }
+  }
+
+  /**
+   * 定期重建近邻关系，每帧更新端点位置和淡入淡出
+   */
+  public update(deltaTime: number): void {
+    if (!this.geometry || deltaTime <= 0) return
+
+    this.rebuildTimer -= deltaTime
+    if (this.rebuildTimer <= 0) {
+      this.rebuildTimer = this.config.rebuildInterval
+      this.rebuildConnections()
+    }
+
+    this.updateSegments(deltaTime)
+  }
+
+  // 连线由来源层决定，不支持变形
+  public morphTo(): Promise<void> {
+    console.warn(`Layer ${this.name} follows its source layers and cannot be morphed`)
+    return Promise.resolve()
+  }
+
+  public restoreState(snapshot: LayerSnapshot): void {
+    super.restoreState(snapshot)
+    this.segments.clear()
+    this.rebuildTimer = 0
+  }
+
+  public dispose(): void {
+    this.segments.clear()
+    this.getLayer = undefined
+    super.dispose()
+  }
+
+  // 连线每帧按其他层的恒星构建，不使用生成的粒子数据
+  public canRegenerate(): boolean {
+    return false
+  }
+
+  protected generateParticles(): void {
+    this.particleData.position.fill(0)
+    this.particleData.depth.fill(0)
+  }
+
+  protected createGeometry(): void {
+    this.geometry = new THREE.BufferGeometry()
+    this.alpha = new Float32Array(this.particleCount)
+
+    const position = new THREE.BufferAttribute(this.particleData.position, 3).setUsage(THREE.DynamicDrawUsage)
+    const depth = new THREE.BufferAttribute(this.particleData.depth, 1).setUsage(THREE.DynamicDrawUsage)
+    const alpha = new THREE.BufferAttribute(this.alpha, 1).setUsage(THREE.DynamicDrawUsage)
+    this.geometry.setAttribute('position', position)
+    this.geometry.setAttribute('depth', depth)
+    this.geometry.setAttribute('alpha', alpha)
+    this.geometry.setDrawRange(0, 0)
+  }
+
+  protected createMaterial(): void {
+    this.shaderProgram = 'constellation'
+    const { vertexShader, fragmentShader } = this.getShaderVariant()
+
+    this.material = new THREE.ShaderMaterial({
+      uniforms: {
+        time: { value: 0 },
+        mouse: { value: new THREE.Vector2() },
+        color: { value: new THREE.Color(0x00ffcc) },
+        opacity: { value: 1.0 },
+        lineOpacity: { value: this.config.lineOpacity },
+        intensity: { value: 1.0 },
+        aspect: { value: Viewport.getAspect() },
+        cursorRadius: { value: this.config.cursorRadius },
+        ...this.depthFogUniforms,
+        layerOpacity: this.layerOpacity
+      },
+      vertexShader,
+      fragmentShader,
+      transparent: true,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false
+    })
+  }
+
+  // 端点随来源层变化，不参与视锥剔除
+  protected updateBoundingSphere(): void {
+    this.geometry.boundingSphere = new THREE.Sphere(new THREE.Vector3(), Infinity)
+  }
+
+  /**
+   * 取各来源层中最亮的粒子（大小 × 颜色亮度 × 深度因子）
+   */
+  private collectBrightStars(): StarReference[] {
+    const stars: StarReference[] = []
+
+    for (const name of this.config.sources) {
+      const layer = this.getLayer?.(name)
+      if (!layer || layer === this || !layer.getParticleData) continue
+
+      const data = layer.getParticleData()
+      if (!data) continue
+
+      const count = Math.min(layer.particleCount, data.size.length)
+      for (let i = 0; i < count; i++) {
+        if (data.size[i] <= 0) continue
+        const luminance = Math.max(data.color[i * 3], data.color[i * 3 + 1], data.color[i * 3 + 2])
+        stars.push({ data, index: i, brightness: data.size[i] * luminance * data.depth[i] })
+      }
+    }
+
+    stars.sort((a, b) => b.brightness - a.brightness)
+    return stars.slice(0, this.config.maxStars)
+  }
+
+  /**
+   * 按近邻关系更新线段集合：新近邻淡入，不再相邻的线段淡出
+   */
+  private rebuildConnections(): void {
+    const stars = this.collectBrightStars()
+    const { maxDistance, maxConnections } = this.config
+
+    this.spatialHash.clear(maxDistance)
+    stars.forEach((star, i) => {
+      const i3 = star.index * 3
+      this.spatialHash.insert(i, star.data.position[i3], star.data.position[i3 + 1], star.data.position[i3 + 2])
+    })
+
+    const connections = new Uint8Array(stars.length)
+    const keys = stars.map(star => `${this.getLayerKey(star.data)}:${star.index}`)
+    const active = new Set<string>()
+
+    for (let i = 0; i < stars.length; i++) {
+      if (connections[i] >= maxConnections) continue
+
+      const i3 = stars[i].index * 3
+      const position = stars[i].data.position
+      const neighbours = this.spatialHash.query(position[i3], position[i3 + 1], position[i3 + 2], maxDistance)
+
+      for (const [j] of neighbours) {
+        if (connections[i] >= maxConnections) break
+        if (j === i || connections[j] >= maxConnections) continue
+
+        const key = keys[i] < keys[j] ? `${keys[i]}|${keys[j]}` : `${keys[j]}|${keys[i]}`
+        if (active.has(key)) continue
+
+        active.add(key)
+        connections[i]++
+        connections[j]++
+
+        if (!this.segments.has(key) && this.segments.size < ConstellationLayer.MAX_SEGMENTS) {
+          this.segments.set(key, { from: stars[i], to: stars[j], fade: 0, visible: true })
+        }
+      }
+    }
+
+    this.segments.forEach((segment, key) => {
+      segment.visible = active.has(key)
+    })
+  }
+
+  private getLayerKey(data: ParticleData): number {
+    let key = this.layerKeys.get(data)
+    if (key === undefined) {
+      key = this.nextLayerKey++
+      this.layerKeys.set(data, key)
+    }
+    return key
+  }
+
+  /**
+   * 推进淡入淡出，并把端点当前位置写入几何体
+   */
+  private updateSegments(deltaTime: number): void {
+    const step = this.config.fadeDuration > 0 ? deltaTime / this.config.fadeDuration : 1
+    const maxDistance = this.config.maxDistance
+    let vertex = 0
+
+    for (const [key, segment] of this.segments) {
+      segment.fade = Math.min(1, Math.max(0, segment.fade + (segment.visible ? step : -step)))
+      if (!segment.visible && segment.fade <= 0) {
+        this.segments.delete(key)
+        continue
+      }
+
+      // 来源层重新生成后粒子数量可能变少
+      if (!this.writeEndpoint(segment.from, vertex) || !this.writeEndpoint(segment.to, vertex + 1)) {
+        this.segments.delete(key)
+        continue
+      }
+
+      // 越长的线越淡
+      const position = this.particleData.position
+      const dx = position[vertex * 3] - position[vertex * 3 + 3]
+      const dy = position[vertex * 3 + 1] - position[vertex * 3 + 4]
+      const dz = position[vertex * 3 + 2] - position[vertex * 3 + 5]
+      const lengthFactor = Math.max(0, 1 - Math.sqrt(dx * dx + dy * dy + dz * dz) / (maxDistance * 1.25))
+      const alpha = segment.fade * lengthFactor
+
+      this.alpha[vertex] = alpha
+      this.alpha[vertex + 1] = alpha
+      vertex += 2
+    }
+
+    this.geometry.setDrawRange(0, vertex)
+    this.markParticleDataDirty(['position', 'depth'])
+    this.geometry.getAttribute('alpha').needsUpdate = true
+  }
+
+  private writeEndpoint(star: StarReference, vertex: number): boolean {
+    const source = star.data.position
+    const i3 = star.index * 3
+    if (i3 + 2 >= source.length) return false
+
+    const position = this.particleData.position
+    position[vertex * 3] = source[i3]
+    position[vertex * 3 + 1] = source[i3 + 1]
+    position[vertex * 3 + 2] = source[i3 + 2]
+    this.particleData.depth[vertex] = star.data.depth[star.index]
+    return true
+  }
+}
@@ -0,0 +1,40 @@
+import * as THREE from 'three'
+import { ParticleLayer } from '../ParticleLayer'
+import type { LayerConfiguration } from '../ParticleLayer'
+import { SpatialDistribution } from '../types'
+
+/**
+ * 通用粒子层 - 所有参数由调用方（通常是场景描述）提供
+ */
+export class CustomLayer extends ParticleLayer {
+  // 场景中未指定的配置项使用的默认值
+  static readonly DEFAULT_CONFIGURATION: LayerConfiguration = {
+    intensity: 0.8,
+    depthBase: 0.5,
+    depthMultiplier: 0.4,
+    orbitalSpeedMultiplier: 0.08,
+    velocityMultiplier: 0.012,
+    brightnessBase: 0.6,
+    brightnessMultiplier: 0.3
+  }
+
+  constructor(
+    name: string,
+    particleCount: number,
+    depthRange: [number, number],
+    sizeRange: [number, number],
+    colorPalette: THREE.Color[],
+    spatialDistribution: SpatialDistribution = SpatialDistribution.SPHERICAL,
+    layerConfig: Partial<LayerConfiguration> = {}
+  ) {
+    super(
+      name,
+      particleCount,
+      depthRange,
+      sizeRange,
+      colorPalette,
+      spatialDistribution,
+      { ...CustomLayer.DEFAULT_CONFIGURATION, ...layerConfig }
+    )
+  }
+}
@@ -1,16 +1,17 @@
 import * as THREE from 'three'
 import { ParticleLayer } from '../ParticleLayer'
-import type { LayerConfiguration } from '../ParticleLayer'
+import type { LayerConfiguration, LayerOverrides } from '../ParticleLayer'
 import { SpatialDistribution, ParticleType } from '../types'
 import { ColorSystem } from '../utils/ColorSystem'
+import { Viewport } from '../utils/Viewport'
 
 /**
  * 深空背景层 - 创造最远层次的宇宙背景
  * 模拟极远距离的星系、类星体和宇宙背景辐射
  */
 export class DeepSpaceLayer extends ParticleLayer {
-  constructor() {
-    const particleCount = window.innerWidth < 640 ? 4000 : 6000
+  constructor(overrides: LayerOverrides = {}) {
+    const particleCount = Viewport.isCompact() ? 4000 : 6000
     const depthRange: [number, number] = [300, 800]
     const sizeRange: [number, number] = [0.2, 1.5]
     
@@ -40,13 +41,13 @@ export class DeepSpaceLayer extends ParticleLayer {
     }
     
     super(
-      'deepSpace',
-      particleCount,
-      depthRange,
-      sizeRange,
-      colorPalette,
-      SpatialDistribution.SPHERICAL,
-      layerConfig
+      overrides.name ?? 'deepSpace',
+      overrides.particleCount ?? particleCount,
+      overrides.depthRange ?? depthRange,
+      overrides.sizeRange ?? sizeRange,
+      overrides.colorPalette ?? colorPalette,
+      overrides.spatialDistribution ?? SpatialDistribution.SPHERICAL,
+      { ...layerConfig, ...overrides.layerConfig }
     )
   }
 
@@ -76,15 +77,15 @@ export class DeepSpaceLayer extends ParticleLayer {
       this.particleData.size[i] = this.generateParticleSize(this.particleData.depth[i], normalizedDistance)
       
       // 极慢的运动
-      this.particleData.orbitalSpeed[i] = (0.1 + Math.random() * 0.2) * 0.01
+      this.particleData.orbitalSpeed[i] = (0.1 + this.random.next() * 0.2) * 0.01
       
       // 几乎静止的速度
-      this.particleData.velocity[i3] = (Math.random() - 0.5) * 0.001
-      this.particleData.velocity[i3 + 1] = (Math.random() - 0.5) * 0.0005
-      this.particleData.velocity[i3 + 2] = (Math.random() - 0.5) * 0.001
+      this.particleData.velocity[i3] = (this.random.next() - 0.5) * 0.001
+      this.particleData.velocity[i3 + 1] = (this.random.next() - 0.5) * 0.0005
+      this.particleData.velocity[i3 + 2] = (this.random.next() - 0.5) * 0.001
       
       // 随机相位
-      this.particleData.phase[i] = Math.random() * Math.PI * 2
+      this.particleData.phase[i] = this.random.next() * Math.PI * 2
       
       // 主要是古老恒星和远距离星系
       this.particleData.type[i] = this.generateDeepSpaceType()
@@ -96,13 +97,13 @@ export class DeepSpaceLayer extends ParticleLayer {
    */
   private generateDeepSpacePosition(): THREE.Vector3 {
     // 使用更均匀的球形分布
-    const phi = Math.acos(1 - 2 * Math.random()) // 0 到 π
-    const theta = 2 * Math.PI * Math.random()    // 0 到 2π
+    const phi = Math.acos(1 - 2 * this.random.next()) // 0 到 π
+    const theta = 2 * Math.PI * this.random.next()    // 0 到 2π
     
     // 距离随机分布，偏向更远的距离
     const minRadius = this.depthRange[0]
     const maxRadius = this.depthRange[1]
-    const u = Math.random()
+    const u = this.random.next()
     const radius = minRadius + (maxRadius - minRadius) * Math.pow(u, 0.3) // 偏向更远距离
     
     // 转换为笛卡尔坐标
@@ -117,7 +118,7 @@ export class DeepSpaceLayer extends ParticleLayer {
    * 生成深空粒子类型
    */
   private generateDeepSpaceType(): ParticleType {
-    const random = Math.random()
+    const random = this.random.next()
     if (random < 0.85) return ParticleType.STAR        // 85% 古老恒星
     if (random < 0.95) return ParticleType.NEBULA      // 10% 远距离星云
     if (random < 0.98) return ParticleType.ENERGY_FIELD // 3% 类星体/活跃星系核
@@ -155,7 +156,7 @@ export class DeepSpaceLayer extends ParticleLayer {
         
       default: // ParticleType.STAR 和 PULSAR
         // 古老的低质量恒星
-        const temp = 2000 + Math.random() * 2000 // 低温恒星
+        const temp = 2000 + this.random.next() * 2000 // 低温恒星
         color = ColorSystem.temperatureToColor(temp)
         break
     }
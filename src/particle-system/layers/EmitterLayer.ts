@@ -0,0 +1,261 @@
+import * as THREE from 'three'
+import { ParticleLayer } from '../ParticleLayer'
+import type { LayerConfiguration } from '../ParticleLayer'
+import { SpatialDistribution } from '../types'
+import { ParticleEmitter, sampleColor, sampleCurve } from '../emitters/ParticleEmitter'
+import type { EmitterConfig } from '../emitters/ParticleEmitter'
+import type { LayerSnapshot } from '../snapshot/ParticleSnapshot'
+
+/**
+ * 发射器粒子层 - 固定容量的缓冲区，粒子按发射器生成、按寿命死亡
+ * 死亡粒子的槽位进入空闲列表，供之后生成的粒子复用
+ */
+export class EmitterLayer extends ParticleLayer {
+  static readonly DEFAULT_CONFIGURATION: LayerConfiguration = {
+    intensity: 1.0,
+    depthBase: 1.0,
+    depthMultiplier: 0,
+    orbitalSpeedMultiplier: 0,
+    velocityMultiplier: 0,
+    brightnessBase: 1.0,
+    brightnessMultiplier: 0
+  }
+
+  private emitters: ParticleEmitter[] = []
+
+  // 每个槽位的寿命状态
+  private life!: Float32Array       // 剩余寿命（秒），<=0表示空闲
+  private maxLife!: Float32Array
+  private baseSize!: Float32Array
+  private slotConfig: (EmitterConfig | undefined)[] = []
+
+  // 空闲槽位栈
+  private freeSlots!: Int32Array
+  private freeCount: number = 0
+
+  private readonly scratchPosition = new THREE.Vector3()
+  private readonly scratchVelocity = new THREE.Vector3()
+  private readonly scratchColor = new THREE.Color()
+  private readonly scratchForce = new THREE.Vector3()
+  private readonly scratchFieldForce = new THREE.Vector3()
+
+  constructor(capacity: number, name: string = 'emitters') {
+    super(
+      name,
+      capacity,
+      [0, 1],
+      [1, 1],
+      [new THREE.Color(1, 1, 1)],
+      SpatialDistribution.SPHERICAL,
+      EmitterLayer.DEFAULT_CONFIGURATION
+    )
+  }
+
+  public create(): void {
+    super.create()
+    this.updateBoundingSphere()
+    this.points.frustumCulled = false
+  }
+
+  // 粒子分布随时间变化，不参与视锥剔除
+  protected updateBoundingSphere(): void {
+    this.geometry.boundingSphere = new THREE.Sphere(new THREE.Vector3(), Infinity)
+  }
+
+  /**
+   * 添加发射器，同名发射器会被替换
+   */
+  public addEmitter(config: Partial<EmitterConfig> & Pick<EmitterConfig, 'name'>): ParticleEmitter {
+    this.removeEmitter(config.name)
+    const emitter = new ParticleEmitter(config)
+    this.emitters.push(emitter)
+    return emitter
+  }
+
+  /**
+   * 移除发射器，已生成的粒子继续走完生命周期
+   */
+  public removeEmitter(name: string): void {
+    this.emitters = this.emitters.filter(emitter => emitter.name !== name)
+  }
+
+  public getEmitter(name: string): ParticleEmitter | undefined {
+    return this.emitters.find(emitter => emitter.name === name)
+  }
+
+  public getEmitters(): ParticleEmitter[] {
+    return [...this.emitters]
+  }
+
+  public getLiveParticleCount(): number {
+    return this.particleCount - this.freeCount
+  }
+
+  /**
+   * 推进发射器并积分存活粒子
+   */
+  public update(deltaTime: number): void {
+    if (!this.geometry || deltaTime <= 0) return
+
+    // 生成新粒子
+    for (const emitter of this.emitters) {
+      const spawnCount = emitter.update(deltaTime)
+      for (let i = 0; i < spawnCount && this.freeCount > 0; i++) {
+        this.spawn(emitter)
+      }
+    }
+
+    // 发射结束的发射器直接移除，其粒子由槽位上的配置继续驱动
+    this.emitters = this.emitters.filter(emitter => !emitter.isFinished())
+
+    this.integrate(deltaTime)
+  }
+
+  // 生成时分配发射槽位，只能整体重建
+  public canRegenerate(): boolean {
+    return false
+  }
+
+  protected generateParticles(): void {
+    this.life = new Float32Array(this.particleCount)
+    this.maxLife = new Float32Array(this.particleCount)
+    this.baseSize = new Float32Array(this.particleCount)
+    this.slotConfig = new Array(this.particleCount).fill(undefined)
+    this.freeSlots = new Int32Array(this.particleCount)
+    this.freeCount = 0
+
+    // 所有槽位初始为空闲（大小为0不可见）
+    for (let i = this.particleCount - 1; i >= 0; i--) {
+      this.particleData.size[i] = 0
+      this.particleData.depth[i] = 0
+      this.freeSlots[this.freeCount++] = i
+    }
+  }
+
+  protected createMaterial(): void {
+    this.shaderProgram = 'emitter'
+    const { vertexShader, fragmentShader } = this.getShaderVariant()
+
+    this.material = new THREE.ShaderMaterial({
+      uniforms: {
+        time: { value: 0 },
+        mouse: { value: new THREE.Vector2() },
+        cameraPosition: { value: new THREE.Vector3() },
+        intensity: { value: this.layerConfig.intensity },
+        ...this.energyWaveUniforms,
+        ...this.depthFogUniforms,
+        layerOpacity: this.layerOpacity
+      },
+      vertexShader,
+      fragmentShader,
+      transparent: true,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+      side: THREE.DoubleSide
+    })
+  }
+
+  private spawn(emitter: ParticleEmitter): void {
+    const slot = this.freeSlots[--this.freeCount]
+    const config = emitter.config
+    const data = this.particleData
+    const i3 = slot * 3
+
+    const position = emitter.samplePosition(this.random.next, this.scratchPosition)
+    const velocity = emitter.sampleVelocity(this.random.next, this.scratchVelocity)
+
+    data.position[i3] = position.x
+    data.position[i3 + 1] = position.y
+    data.position[i3 + 2] = position.z
+    data.velocity[i3] = velocity.x
+    data.velocity[i3 + 1] = velocity.y
+    data.velocity[i3 + 2] = velocity.z
+    data.phase[slot] = this.random.next() * Math.PI * 2
+    data.type[slot] = config.particleType
+
+    const lifetime = config.lifetime[0] + (config.lifetime[1] - config.lifetime[0]) * this.random.next()
+    this.life[slot] = Math.max(lifetime, 0.01)
+    this.maxLife[slot] = this.life[slot]
+    this.baseSize[slot] = config.size[0] + (config.size[1] - config.size[0]) * this.random.next()
+    this.slotConfig[slot] = config
+
+    this.applyLifeCurves(slot, 0)
+  }
+
+  private integrate(deltaTime: number): void {
+    const data = this.particleData
+    const applyForces = this.forceFields?.hasActiveFields() ?? false
+    const force = this.scratchForce
+
+    for (let slot = 0; slot < this.particleCount; slot++) {
+      if (this.life[slot] <= 0) continue
+
+      this.life[slot] -= deltaTime
+      if (this.life[slot] <= 0) {
+        this.kill(slot)
+        continue
+      }
+
+      const config = this.slotConfig[slot]!
+      const i3 = slot * 3
+      const damping = Math.max(0, 1 - config.drag * deltaTime)
+
+      // 发射器重力加上场景力场
+      force.copy(config.gravity)
+      if (applyForces) {
+        force.add(this.forceFields!.sampleForce(data.position[i3], data.position[i3 + 1], data.position[i3 + 2], this.scratchFieldForce))
+      }
+
+      data.velocity[i3] = (data.velocity[i3] + force.x * deltaTime) * damping
+      data.velocity[i3 + 1] = (data.velocity[i3 + 1] + force.y * deltaTime) * damping
+      data.velocity[i3 + 2] = (data.velocity[i3 + 2] + force.z * deltaTime) * damping
+
+      data.position[i3] += data.velocity[i3] * deltaTime
+      data.position[i3 + 1] += data.velocity[i3 + 1] * deltaTime
+      data.position[i3 + 2] += data.velocity[i3 + 2] * deltaTime
+
+      this.applyLifeCurves(slot, 1 - this.life[slot] / this.maxLife[slot])
+    }
+
+    this.markParticleDataDirty(['position', 'velocity', 'color', 'size', 'depth', 'phase', 'type'])
+  }
+
+  // 按归一化年龄写入颜色、透明度（depth属性）和大小
+  private applyLifeCurves(slot: number, age: number): void {
+    const config = this.slotConfig[slot]!
+    const data = this.particleData
+    const alpha = sampleColor(config.colorOverLife, age, this.scratchColor)
+
+    data.color[slot * 3] = this.scratchColor.r
+    data.color[slot * 3 + 1] = this.scratchColor.g
+    data.color[slot * 3 + 2] = this.scratchColor.b
+    data.depth[slot] = alpha
+    data.size[slot] = this.baseSize[slot] * sampleCurve(config.sizeOverLife, age)
+  }
+
+  private kill(slot: number): void {
+    this.life[slot] = 0
+    this.slotConfig[slot] = undefined
+    this.particleData.size[slot] = 0
+    this.particleData.depth[slot] = 0
+    this.freeSlots[this.freeCount++] = slot
+  }
+
+  /**
+   * 发射器和槽位寿命不在快照中，恢复后所有槽位回到空闲
+   */
+  public restoreState(snapshot: LayerSnapshot): void {
+    super.restoreState(snapshot)
+    this.emitters = []
+    this.generateParticles()
+    if (this.geometry) {
+      this.markParticleDataDirty()
+    }
+  }
+
+  public dispose(): void {
+    this.emitters = []
+    this.slotConfig = []
+    super.dispose()
+  }
+}
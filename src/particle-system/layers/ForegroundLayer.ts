@@ -1,12 +1,13 @@
 import * as THREE from 'three'
 import { ParticleLayer } from '../ParticleLayer'
-import type { LayerConfiguration } from '../ParticleLayer'
-import { SpatialDistribution, ParticleType } from '../types'
+import type { LayerConfiguration, LayerOverrides } from '../ParticleLayer'
+import { SpatialDistribution, ParticleType, RenderMode } from '../types'
 import { ColorSystem } from '../utils/ColorSystem'
+import { Viewport } from '../utils/Viewport'
 
 export class ForegroundLayer extends ParticleLayer {
-  constructor() {
-    const particleCount = window.innerWidth < 640 ? 500 : 800
+  constructor(overrides: LayerOverrides = {}) {
+    const particleCount = Viewport.isCompact() ? 500 : 800
     const depthRange: [number, number] = [10, 50]
     const sizeRange: [number, number] = [4.0, 15.0]
     
@@ -36,17 +37,18 @@ export class ForegroundLayer extends ParticleLayer {
       orbitalSpeedMultiplier: 0.12,     // 大幅降低轨道速度 (从 0.3 降到 0.12)
       velocityMultiplier: 0.02,         // 大幅降低移动速度 (从 0.05 降到 0.02)
       brightnessBase: 1.0,              // 最大的基础亮度
-      brightnessMultiplier: 0.5         // 更大的亮度范围
+      brightnessMultiplier: 0.5,        // 更大的亮度范围
+      renderMode: RenderMode.INSTANCED_QUADS  // 大尺寸亮星不受gl_PointSize上限裁剪
     }
 
     super(
-      'foreground',
-      particleCount,
-      depthRange,
-      sizeRange,
-      colorPalette,
-      SpatialDistribution.GALAXY_ARM,
-      layerConfig
+      overrides.name ?? 'foreground',
+      overrides.particleCount ?? particleCount,
+      overrides.depthRange ?? depthRange,
+      overrides.sizeRange ?? sizeRange,
+      overrides.colorPalette ?? colorPalette,
+      overrides.spatialDistribution ?? SpatialDistribution.GALAXY_ARM,
+      { ...layerConfig, ...overrides.layerConfig }
     )
   }
 
@@ -67,7 +69,7 @@ export class ForegroundLayer extends ParticleLayer {
       this.particleData.depth[i] = 0.7 + depthFactor * 0.3
       
       // 生成颜色
-      const color = this.generateParticleColor(this.particleData.depth[i], normalizedDistance)
+      const color = this.resolveParticleColor(this.particleData.depth[i], normalizedDistance)
       this.particleData.color[i3] = color.r
       this.particleData.color[i3 + 1] = color.g
       this.particleData.color[i3 + 2] = color.b
@@ -76,16 +78,16 @@ export class ForegroundLayer extends ParticleLayer {
       this.particleData.size[i] = this.generateParticleSize(this.particleData.depth[i], normalizedDistance)
       
       // 生成轨道运动参数 - 降低速度
-      const orbitalSpeed = (0.5 + Math.random() * 0.5) * (2.0 - this.particleData.depth[i])
+      const orbitalSpeed = (0.5 + this.random.next() * 0.5) * (2.0 - this.particleData.depth[i])
       this.particleData.orbitalSpeed[i] = orbitalSpeed * 0.12  // 从 0.3 降到 0.12
       
       // 生成速度 - 降低各方向的移动速度
-      this.particleData.velocity[i3] = (Math.random() - 0.5) * 0.02      // 从 0.05 降到 0.02
-      this.particleData.velocity[i3 + 1] = (Math.random() - 0.5) * 0.008  // 从 0.02 降到 0.008
-      this.particleData.velocity[i3 + 2] = (Math.random() - 0.5) * 0.02   // 从 0.05 降到 0.02
+      this.particleData.velocity[i3] = (this.random.next() - 0.5) * 0.02      // 从 0.05 降到 0.02
+      this.particleData.velocity[i3 + 1] = (this.random.next() - 0.5) * 0.008  // 从 0.02 降到 0.008
+      this.particleData.velocity[i3 + 2] = (this.random.next() - 0.5) * 0.02   // 从 0.05 降到 0.02
       
       // 随机相位
-      this.particleData.phase[i] = Math.random() * Math.PI * 2
+      this.particleData.phase[i] = this.random.next() * Math.PI * 2
       
       // 粒子类型 - 前景有更多特殊类型
       const particleType = this.generateParticleType()
@@ -94,7 +96,7 @@ export class ForegroundLayer extends ParticleLayer {
   }
 
   protected generateParticleType(): ParticleType {
-    const random = Math.random()
+    const random = this.random.next()
     if (random < 0.1) return ParticleType.SUPERNOVA   // 10% 超新星
     if (random < 0.15) return ParticleType.PULSAR     // 5% 脉冲星
     if (random < 0.25) return ParticleType.ENERGY_FIELD // 10% 能量场
@@ -114,7 +116,7 @@ export class ForegroundLayer extends ParticleLayer {
     switch (particleType) {
       case ParticleType.SUPERNOVA:
         // 超新星：极高温度蓝白色
-        color = ColorSystem.temperatureToColor(15000 + Math.random() * 10000)
+        color = ColorSystem.temperatureToColor(15000 + this.random.next() * 10000)
         color.multiplyScalar(2.0) // 超新星极亮
         break
         
@@ -132,13 +134,13 @@ export class ForegroundLayer extends ParticleLayer {
           new THREE.Color(0x00ff00), // 高能绿
           new THREE.Color(0xff69b4)  // 活跃星系核粉
         ]
-        color = energyColors[Math.floor(Math.random() * energyColors.length)]
+        color = energyColors[Math.floor(this.random.next() * energyColors.length)]
         color.multiplyScalar(1.5)
         break
         
       default: // ParticleType.STAR
         // 明亮的近距离恒星：热恒星为主
-        const stellarTemp = 8000 + Math.random() * 20000 // 偏向热恒星
+        const stellarTemp = 8000 + this.random.next() * 20000 // 偏向热恒星
         color = ColorSystem.temperatureToColor(stellarTemp)
         color.multiplyScalar(1.2 + depth * 0.3)
         break
@@ -146,7 +148,7 @@ export class ForegroundLayer extends ParticleLayer {
     
     // 前景天体距离近，几乎无星际红化
     // 但可能有轻微的多普勒效应
-    const velocity = (Math.random() - 0.5) * 10000 // ±10km/s
+    const velocity = (this.random.next() - 0.5) * 10000 // ±10km/s
     color = ColorSystem.applyDopplerShift(color, velocity)
     
     // 深度增强亮度 - 前景更加明亮
@@ -0,0 +1,294 @@
+import * as THREE from 'three'
+import { ParticleLayer } from '../ParticleLayer'
+import type { LayerConfiguration, LayerOverrides } from '../ParticleLayer'
+import { SpatialDistribution, ParticleType } from '../types'
+import { ColorSystem } from '../utils/ColorSystem'
+import { Viewport } from '../utils/Viewport'
+
+/**
+ * 星系形态参数（盘面位于局部XZ平面，法线为+Y）
+ */
+export interface GalaxyParameters {
+  arms: number                        // 旋臂数量，0为无旋臂的椭圆/透镜状星系
+  winding: number                     // 旋臂从核心到盘边缘绕过的圈数
+  armSpread: number                   // 旋臂横向弥散（弧度）
+  radius: number                      // 盘半径（世界单位）
+  bulgeRatio: number                  // 核球粒子占比（0-1），即核球/盘比例
+  bulgeRadius: number                 // 核球半径（盘半径的比例）
+  diskThickness: number               // 盘厚度（盘半径的比例）
+  coreTemperature: number             // 核心颜色对应的色温（K），老年恒星偏黄
+  coreGradient: number                // 核心颜色向旋臂颜色过渡的范围（盘半径的比例）
+  palette: string                     // 旋臂颜色使用的ColorSystem调色板
+  starFormation: number               // 旋臂中电离氢区（星云发射线颜色）的比例
+  dustLanes: number                   // 尘埃带遮挡强度（0-1）
+  dustOffset: number                  // 尘埃带相对旋臂中心的角度偏移（弧度，负值在内侧）
+  dustWidth: number                   // 尘埃带角宽度（弧度）
+  center: [number, number, number]    // 星系中心（世界坐标）
+  tilt: number                        // 盘面倾角（度），0为正向，90为侧向
+  positionAngle: number               // 盘面在天空中的方位角（度）
+  rotationSpeed: number               // 绕盘面法线的自转速度（弧度/秒）
+}
+
+/**
+ * 内置星系形态
+ */
+export const GALAXY_PRESETS: Record<string, Partial<GalaxyParameters>> = {
+  // 两条清晰旋臂的宏象旋涡星系
+  spiral: { arms: 2, winding: 1.2, armSpread: 0.35, bulgeRatio: 0.2, dustLanes: 0.6, tilt: 35 },
+  // 多条松散旋臂的絮状旋涡星系
+  flocculent: { arms: 5, winding: 0.8, armSpread: 0.6, bulgeRatio: 0.12, dustLanes: 0.3, palette: 'nebula', starFormation: 0.08, tilt: 20 },
+  // 无旋臂、以老年恒星为主的椭圆星系
+  elliptical: { arms: 0, bulgeRatio: 0.85, bulgeRadius: 0.8, diskThickness: 0.5, dustLanes: 0, starFormation: 0, coreTemperature: 3900, tilt: 60 },
+  // 侧向的盘星系，中平面尘埃带明显
+  edgeOn: { arms: 3, winding: 1.0, bulgeRatio: 0.3, bulgeRadius: 0.3, diskThickness: 0.06, dustLanes: 0.9, dustWidth: 0.5, tilt: 86 }
+}
+
+/**
+ * 参数化星系层 - 核球 + 带对数式旋臂的指数盘，核心色温渐变到旋臂调色板，
+ * 尘埃带按掩膜压暗并红化粒子；整个星系可倾斜并绕自身法线缓慢自转
+ */
+export class GalaxyLayer extends ParticleLayer {
+  static readonly DEFAULT_PARAMETERS: GalaxyParameters = {
+    arms: 2,
+    winding: 1.2,
+    armSpread: 0.35,
+    radius: 80,
+    bulgeRatio: 0.2,
+    bulgeRadius: 0.2,
+    diskThickness: 0.08,
+    coreTemperature: 4400,
+    coreGradient: 0.45,
+    palette: 'galactic',
+    starFormation: 0.04,
+    dustLanes: 0.5,
+    dustOffset: -0.18,
+    dustWidth: 0.12,
+    center: [0, 0, -450],
+    tilt: 30,
+    positionAngle: 0,
+    rotationSpeed: 0.01
+  }
+
+  private parameters: GalaxyParameters
+  private readonly scratchColor = new THREE.Color()
+
+  constructor(parameters: Partial<GalaxyParameters> = {}, overrides: LayerOverrides = {}) {
+    const particleCount = Viewport.isCompact() ? 1200 : 2500
+    const resolved = { ...GalaxyLayer.DEFAULT_PARAMETERS, ...parameters }
+    const sizeRange: [number, number] = [0.6, 2.4]
+
+    const layerConfig: LayerConfiguration = {
+      intensity: 0.6,                   // 远处星系整体偏暗
+      depthBase: 0.35,
+      depthMultiplier: 0.5,
+      orbitalSpeedMultiplier: 0,        // 自转由整体旋转实现
+      velocityMultiplier: 0,
+      brightnessBase: 0.4,
+      brightnessMultiplier: 0.4
+    }
+
+    super(
+      overrides.name ?? 'galaxy',
+      overrides.particleCount ?? particleCount,
+      overrides.depthRange ?? [0, resolved.radius],
+      overrides.sizeRange ?? sizeRange,
+      overrides.colorPalette ?? [ColorSystem.temperatureToColor(resolved.coreTemperature)],
+      SpatialDistribution.GALAXY_ARM,
+      { ...layerConfig, ...overrides.layerConfig }
+    )
+
+    this.parameters = resolved
+  }
+
+  public create(): void {
+    super.create()
+    // 先绕法线自转，再倾斜，最后确定方位角
+    this.points.rotation.order = 'ZXY'
+    this.applyTransform()
+    console.log(`Galaxy layer ${this.name} created: ${this.parameters.arms} arms, ${this.particleCount} particles`)
+  }
+
+  public getParameters(): GalaxyParameters {
+    return { ...this.parameters, center: [...this.parameters.center] }
+  }
+
+  /**
+   * 修改星系参数；只影响朝向和自转的参数不重新生成粒子
+   */
+  public setParameters(parameters: Partial<GalaxyParameters>): void {
+    const transformOnly = Object.keys(parameters).every(key =>
+      key === 'center' || key === 'tilt' || key === 'positionAngle' || key === 'rotationSpeed'
+    )
+    this.parameters = { ...this.parameters, ...parameters }
+    this.depthRange = [0, this.parameters.radius]
+
+    if (!this.geometry) return
+    this.applyTransform()
+    if (!transformOnly) {
+      this.random.reset()
+      this.regenerateParticles()
+    }
+  }
+
+  public update(deltaTime: number): void {
+    if (!this.points || deltaTime <= 0) return
+    this.points.rotation.y += this.parameters.rotationSpeed * deltaTime
+  }
+
+  // 星系参数可在运行时修改，场景描述中的参数可能已过期
+  public canGenerateInWorker(): boolean {
+    return false
+  }
+
+  // 核球和盘面按随机数取样，与索引无关
+  public hasRandomOrder(): boolean {
+    return true
+  }
+
+  protected generateParticles(): void {
+    const { arms, bulgeRatio, radius, bulgeRadius } = this.parameters
+    const palette = ColorSystem.getPalette(this.parameters.palette)?.colors ?? [ColorSystem.temperatureToColor(9000)]
+    const core = ColorSystem.temperatureToColor(this.parameters.coreTemperature)
+    const position = new THREE.Vector3()
+
+    for (let i = 0; i < this.particleCount; i++) {
+      const i3 = i * 3
+      const inBulge = this.random.next() < bulgeRatio
+      let darkening = 0
+      let type = ParticleType.STAR
+
+      if (inBulge) {
+        this.sampleBulge(radius * bulgeRadius, position)
+        this.bulgeColor(core, this.scratchColor)
+      } else {
+        const armOffset = this.sampleDisk(position)
+        darkening = this.dustDarkening(position, armOffset)
+
+        // 旋臂上的恒星形成区呈现星云发射线颜色
+        if (arms > 0 && this.random.next() < this.parameters.starFormation) {
+          this.scratchColor.copy(ColorSystem.getRealisticNebulaColor(this.random.next))
+          type = ParticleType.NEBULA
+        } else {
+          this.diskColor(position, core, palette, this.scratchColor)
+        }
+      }
+
+      // 尘埃带：压暗并向红端偏移
+      if (darkening > 0) {
+        this.scratchColor.copy(ColorSystem.applyInterstellarReddening(this.scratchColor, darkening * 60, 0.01))
+      }
+
+      this.particleData.position[i3] = position.x
+      this.particleData.position[i3 + 1] = position.y
+      this.particleData.position[i3 + 2] = position.z
+      this.particleData.color[i3] = this.scratchColor.r
+      this.particleData.color[i3 + 1] = this.scratchColor.g
+      this.particleData.color[i3 + 2] = this.scratchColor.b
+
+      // 越靠近核心越亮
+      const centralBrightness = Math.exp(-position.length() / (radius * 0.3))
+      const { depthBase, depthMultiplier } = this.layerConfig
+      this.particleData.depth[i] = (depthBase + depthMultiplier * centralBrightness) * (1 - darkening * 0.75)
+
+      const [minSize, maxSize] = this.sizeRange
+      const sizeFactor = 0.6 * this.random.next() * this.random.next() + 0.4 * centralBrightness
+      this.particleData.size[i] = (minSize + (maxSize - minSize) * sizeFactor) * (type === ParticleType.NEBULA ? 1.5 : 1)
+
+      this.particleData.velocity[i3] = 0
+      this.particleData.velocity[i3 + 1] = 0
+      this.particleData.velocity[i3 + 2] = 0
+      this.particleData.orbitalSpeed[i] = 0
+      this.particleData.phase[i] = this.random.next() * Math.PI * 2
+      this.particleData.type[i] = type
+    }
+  }
+
+  /**
+   * 核球：指数径向分布的略扁球体
+   */
+  private sampleBulge(bulgeRadius: number, target: THREE.Vector3): THREE.Vector3 {
+    const u = this.random.next()
+    const r = -Math.log(1 - u * 0.95) * bulgeRadius * 0.35
+    const phi = Math.acos(1 - 2 * this.random.next())
+    const theta = 2 * Math.PI * this.random.next()
+
+    return target.set(
+      r * Math.sin(phi) * Math.cos(theta),
+      r * Math.cos(phi) * 0.7,
+      r * Math.sin(phi) * Math.sin(theta)
+    )
+  }
+
+  /**
+   * 盘：指数径向分布，旋臂角度随半径线性缠绕
+   * 返回粒子相对所在旋臂中心的角度偏移（无旋臂时为0）
+   */
+  private sampleDisk(target: THREE.Vector3): number {
+    const { arms, winding, armSpread, radius, diskThickness } = this.parameters
+    const scaleLength = radius / 3
+    const u = this.random.next()
+    const r = -scaleLength * Math.log(1 - u * (1 - Math.exp(-radius / scaleLength)))
+
+    let angle: number
+    let armOffset = 0
+    if (arms > 0) {
+      const arm = Math.floor(this.random.next() * arms)
+      // 外侧旋臂更松散
+      armOffset = this.gaussian() * armSpread * (0.5 + r / radius)
+      angle = (arm / arms) * Math.PI * 2 + winding * Math.PI * 2 * (r / radius) + armOffset
+    } else {
+      angle = this.random.next() * Math.PI * 2
+    }
+
+    // 盘向外略微变厚
+    const height = this.gaussian() * diskThickness * radius * 0.5 * (0.6 + 0.4 * r / radius)
+    target.set(Math.cos(angle) * r, height, Math.sin(angle) * r)
+    return armOffset
+  }
+
+  /**
+   * 尘埃带掩膜：沿旋臂内侧的窄带，集中在盘的中平面
+   */
+  private dustDarkening(position: THREE.Vector3, armOffset: number): number {
+    const { dustLanes, dustOffset, dustWidth, arms, radius, bulgeRadius, diskThickness } = this.parameters
+    if (dustLanes <= 0) return 0
+
+    const laneDistance = (armOffset - dustOffset) / Math.max(dustWidth, 1e-3)
+    const lane = arms > 0 ? Math.exp(-laneDistance * laneDistance) : 1
+    const planeDistance = position.y / Math.max(diskThickness * radius * 0.2, 1e-3)
+    const midplane = Math.exp(-planeDistance * planeDistance)
+    // 核心内部和盘边缘没有尘埃
+    const r = Math.hypot(position.x, position.z) / radius
+    const radial = THREE.MathUtils.smoothstep(r, bulgeRadius * 0.5, bulgeRadius) * (1 - THREE.MathUtils.smoothstep(r, 0.7, 1))
+
+    return Math.min(1, dustLanes * lane * midplane * radial)
+  }
+
+  // 核球以老年恒星为主，色温在核心附近浮动
+  private bulgeColor(core: THREE.Color, target: THREE.Color): THREE.Color {
+    const temperature = this.parameters.coreTemperature + (this.random.next() - 0.5) * 1200
+    return target.copy(ColorSystem.temperatureToColor(temperature)).lerp(core, 0.5)
+  }
+
+  // 盘：从核心色温渐变到旋臂调色板
+  private diskColor(position: THREE.Vector3, core: THREE.Color, palette: THREE.Color[], target: THREE.Color): THREE.Color {
+    const { radius, coreGradient } = this.parameters
+    const t = THREE.MathUtils.smoothstep(Math.hypot(position.x, position.z), 0, radius * Math.max(coreGradient, 1e-3))
+    const armColor = palette[Math.floor(this.random.next() * palette.length)]
+    return target.copy(core).lerp(armColor, t)
+  }
+
+  // Box-Muller正态分布采样
+  private gaussian(): number {
+    const u = Math.max(this.random.next(), 1e-9)
+    const v = this.random.next()
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+  }
+
+  private applyTransform(): void {
+    const { center, tilt, positionAngle } = this.parameters
+    this.points.position.set(center[0], center[1], center[2])
+    this.points.rotation.x = THREE.MathUtils.degToRad(tilt)
+    this.points.rotation.z = THREE.MathUtils.degToRad(positionAngle)
+  }
+}
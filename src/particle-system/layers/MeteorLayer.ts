@@ -0,0 +1,549 @@
+import * as THREE from 'three'
+import { ParticleLayer } from '../ParticleLayer'
+import type { LayerConfiguration } from '../ParticleLayer'
+import type { LayerAttachContext } from '../types'
+import { ParticleType, QualityLevel, SpatialDistribution } from '../types'
+import type { ColorPalette, ThemeConfig } from '../theme/ThemeManager'
+import type { LayerSnapshot } from '../snapshot/ParticleSnapshot'
+
+/**
+ * 流星层配置
+ */
+export interface MeteorConfig {
+  maxMeteors: number                      // 同时存在的流星上限
+  tailSegments: number                    // 每颗流星尾迹的粒子数
+  tailLength: number                      // 尾迹长度（世界单位）
+  spawnRate: number                       // 高质量下每秒随机生成的流星数
+  spawnCenter: [number, number, number]   // 随机流星起点区域的中心
+  spawnSize: [number, number, number]     // 随机流星起点区域的尺寸
+  direction: [number, number, number]     // 随机流星的平均飞行方向
+  spread: number                          // 飞行方向的随机偏转（弧度）
+  speed: [number, number]                 // 速度范围（单位/秒）
+  lifetime: [number, number]              // 寿命范围（秒）
+  headSize: [number, number]              // 头部大小范围（像素）
+  accentMix: number                       // 尾迹颜色向主题强调色混合的比例（0-1）
+  maxComets: number                       // 彗星上限
+  cometTailSegments: number               // 每颗彗星离子尾的粒子数
+  cometTailLength: number                 // 离子尾长度（世界单位）
+  cometTailFlow: number                   // 离子尾粒子向外流动的速度（尾长/秒）
+  lightSource: [number, number, number]   // 彗尾背向的光源位置
+}
+
+/**
+ * 脚本指定的流星轨迹
+ */
+export interface MeteorLaunch {
+  start: THREE.Vector3
+  velocity: THREE.Vector3
+  lifetime?: number
+  headSize?: number
+  color?: THREE.Color     // 尾迹颜色，默认取主题强调色
+}
+
+/**
+ * 彗星参数
+ */
+export interface CometOptions {
+  name: string
+  position: THREE.Vector3
+  velocity?: THREE.Vector3   // 彗核漂移速度
+  nucleusSize?: number
+  tailLength?: number
+  color?: THREE.Color        // 离子尾颜色
+}
+
+/**
+ * 流星雨参数
+ */
+export interface MeteorShowerOptions {
+  radiant: THREE.Vector3     // 辐射点，流星从该点向外飞出
+  rate: number               // 每秒流星数（按质量等级缩放）
+  duration: number           // 持续时间（秒）
+}
+
+interface Meteor {
+  active: boolean
+  start: THREE.Vector3
+  velocity: THREE.Vector3
+  age: number
+  lifetime: number
+  headSize: number
+  color: THREE.Color
+}
+
+interface Comet {
+  name: string
+  position: THREE.Vector3
+  velocity: THREE.Vector3
+  nucleusSize: number
+  tailLength: number
+  color: THREE.Color
+}
+
+// 各质量等级的生成频率倍数
+const QUALITY_SPAWN_SCALE: Record<QualityLevel, number> = {
+  [QualityLevel.LOW]: 0.25,
+  [QualityLevel.MEDIUM]: 0.6,
+  [QualityLevel.HIGH]: 1.0,
+  [QualityLevel.ULTRA]: 1.5
+}
+
+// 彗核和默认离子尾颜色
+const COMET_NUCLEUS_COLOR = new THREE.Color(1.0, 0.97, 0.9)
+const COMET_ION_COLOR = new THREE.Color(0.45, 0.7, 1.0)
+
+/**
+ * 流星层 - 随机或脚本轨迹的流星拖着渐隐尾迹划过，彗星的离子尾始终背向光源
+ * 每颗流星和彗星占用固定的槽位块：第一个槽位是头部，其余是尾迹
+ */
+export class MeteorLayer extends ParticleLayer {
+  static readonly DEFAULT_CONFIGURATION: LayerConfiguration = {
+    intensity: 1.0,
+    depthBase: 1.0,
+    depthMultiplier: 0,
+    orbitalSpeedMultiplier: 0,
+    velocityMultiplier: 0,
+    brightnessBase: 1.0,
+    brightnessMultiplier: 0
+  }
+
+  private config: MeteorConfig
+  private meteors: Meteor[] = []
+  private comets: (Comet | undefined)[] = []
+  private shower?: MeteorShowerOptions & { remaining: number }
+  private spawnScale: number = QUALITY_SPAWN_SCALE[QualityLevel.HIGH]
+  private spawnTimer: number = 0
+  private showerTimer: number = 0
+  private time: number = 0
+  private accent: THREE.Color = new THREE.Color(0.6, 0.8, 1.0)
+  // 离子尾粒子的横向偏移和流动相位，create()时由种子生成
+  private cometJitter!: Float32Array
+
+  private readonly scratchPosition = new THREE.Vector3()
+  private readonly scratchDirection = new THREE.Vector3()
+  private readonly scratchSide = new THREE.Vector3()
+  private readonly scratchUp = new THREE.Vector3()
+  private readonly scratchColor = new THREE.Color()
+
+  constructor(config: Partial<MeteorConfig> = {}, name: string = 'meteors') {
+    const resolved: MeteorConfig = {
+      maxMeteors: 16,
+      tailSegments: 24,
+      tailLength: 35,
+      spawnRate: 0.25,
+      spawnCenter: [0, 80, -200],
+      spawnSize: [500, 160, 150],
+      direction: [-0.8, -0.55, 0.1],
+      spread: 0.35,
+      speed: [150, 280],
+      lifetime: [0.6, 1.3],
+      headSize: [5, 9],
+      accentMix: 0.6,
+      maxComets: 2,
+      cometTailSegments: 120,
+      cometTailLength: 70,
+      cometTailFlow: 0.08,
+      lightSource: [600, -100, -400],
+      ...config
+    }
+
+    super(
+      name,
+      resolved.maxMeteors * (1 + resolved.tailSegments) + resolved.maxComets * (1 + resolved.cometTailSegments),
+      [0, 1],
+      [1, 1],
+      [new THREE.Color(1, 1, 1)],
+      SpatialDistribution.SPHERICAL,
+      MeteorLayer.DEFAULT_CONFIGURATION
+    )
+
+    this.config = resolved
+    // 彗星在创建前即可添加，重新生成时保留
+    this.comets = new Array(resolved.maxComets).fill(undefined)
+  }
+
+  public create(): void {
+    super.create()
+    this.updateBoundingSphere()
+    this.points.frustumCulled = false
+    console.log(`Meteor layer ${this.name} created with room for ${this.config.maxMeteors} meteors and ${this.config.maxComets} comets`)
+  }
+
+  // 流星遍布整个天空，不参与视锥剔除
+  protected updateBoundingSphere(): void {
+    this.geometry.boundingSphere = new THREE.Sphere(new THREE.Vector3(), Infinity)
+  }
+
+  public getConfig(): MeteorConfig {
+    return { ...this.config }
+  }
+
+  public onAttach(context: LayerAttachContext): void {
+    this.onQualityChange(context.qualityLevel)
+    this.onThemeChange(context.theme.colors, context.theme)
+  }
+
+  public onQualityChange(level: QualityLevel): void {
+    super.onQualityChange(level)
+    this.spawnScale = QUALITY_SPAWN_SCALE[level]
+  }
+
+  public onThemeChange(colors: ColorPalette, theme: ThemeConfig): void {
+    super.onThemeChange(colors, theme)
+    this.accent.copy(colors.accent)
+  }
+
+  /**
+   * 设置彗尾背向的光源位置
+   */
+  public setLightSource(position: THREE.Vector3): void {
+    this.config.lightSource = [position.x, position.y, position.z]
+  }
+
+  /**
+   * 按指定轨迹发射一颗流星，没有空闲槽位时返回false
+   */
+  public launchMeteor(launch: MeteorLaunch): boolean {
+    const meteor = this.meteors.find(candidate => !candidate.active)
+    if (!meteor) return false
+
+    meteor.active = true
+    meteor.start.copy(launch.start)
+    meteor.velocity.copy(launch.velocity)
+    meteor.age = 0
+    meteor.lifetime = Math.max(launch.lifetime ?? this.randomRange(this.config.lifetime), 0.05)
+    meteor.headSize = launch.headSize ?? this.randomRange(this.config.headSize)
+    if (launch.color) {
+      meteor.color.copy(launch.color)
+    } else {
+      meteor.color.set(1, 1, 1).lerp(this.accent, this.config.accentMix)
+    }
+    return true
+  }
+
+  /**
+   * 开始流星雨：一段时间内从辐射点向外密集发射流星
+   */
+  public startShower(options: Partial<MeteorShowerOptions> = {}): void {
+    const [x, y, z] = this.config.spawnCenter
+    const resolved: MeteorShowerOptions = {
+      radiant: new THREE.Vector3(x + this.config.spawnSize[0] * 0.3, y + this.config.spawnSize[1], z),
+      rate: 8,
+      duration: 5,
+      ...options
+    }
+    this.shower = { ...resolved, radiant: resolved.radiant.clone(), remaining: resolved.duration }
+    this.showerTimer = 0
+  }
+
+  public stopShower(): void {
+    this.shower = undefined
+  }
+
+  public isShowerActive(): boolean {
+    return this.shower !== undefined
+  }
+
+  /**
+   * 添加彗星（同名替换），超过上限时返回false
+   */
+  public addComet(options: CometOptions): boolean {
+    this.removeComet(options.name)
+    const slot = this.comets.findIndex(comet => comet === undefined)
+    if (slot === -1) {
+      console.warn(`Comet limit (${this.config.maxComets}) reached, "${options.name}" was not added`)
+      return false
+    }
+
+    this.comets[slot] = {
+      name: options.name,
+      position: options.position.clone(),
+      velocity: options.velocity?.clone() ?? new THREE.Vector3(),
+      nucleusSize: options.nucleusSize ?? 10,
+      tailLength: options.tailLength ?? this.config.cometTailLength,
+      color: options.color?.clone() ?? COMET_ION_COLOR.clone()
+    }
+    return true
+  }
+
+  public removeComet(name: string): boolean {
+    const slot = this.comets.findIndex(comet => comet?.name === name)
+    if (slot === -1) return false
+
+    this.comets[slot] = undefined
+    if (this.geometry) {
+      this.hideBlock(this.getCometBlockStart(slot), 1 + this.config.cometTailSegments)
+    }
+    return true
+  }
+
+  public getActiveMeteorCount(): number {
+    return this.meteors.filter(meteor => meteor.active).length
+  }
+
+  public update(deltaTime: number): void {
+    if (!this.geometry || deltaTime <= 0) return
+
+    this.time += deltaTime
+    this.spawnRandomMeteors(deltaTime)
+    this.spawnShowerMeteors(deltaTime)
+
+    this.meteors.forEach((meteor, index) => {
+      if (!meteor.active) return
+
+      meteor.age += deltaTime
+      if (meteor.age >= meteor.lifetime) {
+        meteor.active = false
+        this.hideBlock(index * (1 + this.config.tailSegments), 1 + this.config.tailSegments)
+        return
+      }
+      this.writeMeteor(meteor, index)
+    })
+
+    this.comets.forEach((comet, slot) => {
+      if (!comet) return
+      comet.position.addScaledVector(comet.velocity, deltaTime)
+      this.writeComet(comet, slot)
+    })
+
+    this.markParticleDataDirty(['position', 'color', 'size', 'depth'])
+  }
+
+  // 流星轨迹由发射参数决定，不支持变形
+  public morphTo(): Promise<void> {
+    console.warn(`Layer ${this.name} animates meteors along their trajectories and cannot be morphed`)
+    return Promise.resolve()
+  }
+
+  /**
+   * 流星状态不在快照中，恢复后流星槽位回到空闲，彗星保留并在下一帧重新写入
+   */
+  public restoreState(snapshot: LayerSnapshot): void {
+    super.restoreState(snapshot)
+    this.shower = undefined
+    this.generateParticles()
+    if (this.geometry) {
+      this.markParticleDataDirty()
+    }
+  }
+
+  // 生成时初始化流星状态，只能整体重建
+  public canRegenerate(): boolean {
+    return false
+  }
+
+  protected generateParticles(): void {
+    this.meteors = Array.from({ length: this.config.maxMeteors }, () => ({
+      active: false,
+      start: new THREE.Vector3(),
+      velocity: new THREE.Vector3(),
+      age: 0,
+      lifetime: 1,
+      headSize: 1,
+      color: new THREE.Color()
+    }))
+
+    // 每个离子尾粒子：两个横向偏移和一个流动相位
+    const tailCount = this.config.cometTailSegments
+    this.cometJitter = new Float32Array(tailCount * 3)
+    for (let i = 0; i < tailCount; i++) {
+      this.cometJitter[i * 3] = this.random.next() * 2 - 1
+      this.cometJitter[i * 3 + 1] = this.random.next() * 2 - 1
+      this.cometJitter[i * 3 + 2] = this.random.next()
+    }
+
+    const data = this.particleData
+    data.size.fill(0)
+    data.depth.fill(0)
+    data.velocity.fill(0)
+    data.orbitalSpeed.fill(0)
+    for (let i = 0; i < this.particleCount; i++) {
+      data.phase[i] = this.random.next() * Math.PI * 2
+      data.type[i] = ParticleType.STAR
+    }
+  }
+
+  // 位置由CPU逐帧写入，使用不带呼吸和视差的发射器着色器
+  protected createMaterial(): void {
+    this.shaderProgram = 'emitter'
+    const { vertexShader, fragmentShader } = this.getShaderVariant()
+
+    this.material = new THREE.ShaderMaterial({
+      uniforms: {
+        time: { value: 0 },
+        mouse: { value: new THREE.Vector2() },
+        cameraPosition: { value: new THREE.Vector3() },
+        intensity: { value: this.layerConfig.intensity },
+        ...this.energyWaveUniforms,
+        ...this.depthFogUniforms,
+        layerOpacity: this.layerOpacity
+      },
+      vertexShader,
+      fragmentShader,
+      transparent: true,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+      side: THREE.DoubleSide
+    })
+  }
+
+  private spawnRandomMeteors(deltaTime: number): void {
+    this.spawnTimer += this.config.spawnRate * this.spawnScale * deltaTime
+    while (this.spawnTimer >= 1) {
+      this.spawnTimer -= 1
+      const start = this.randomSpawnPoint(new THREE.Vector3())
+      const direction = new THREE.Vector3(...this.config.direction).normalize()
+      this.jitterDirection(direction, this.config.spread)
+      this.launchMeteor({ start, velocity: direction.multiplyScalar(this.randomRange(this.config.speed)) })
+    }
+  }
+
+  private spawnShowerMeteors(deltaTime: number): void {
+    if (!this.shower) return
+
+    this.shower.remaining -= deltaTime
+    this.showerTimer += this.shower.rate * this.spawnScale * deltaTime
+    while (this.showerTimer >= 1) {
+      this.showerTimer -= 1
+      // 起点散布在辐射点周围，沿远离辐射点的方向飞出
+      const start = this.randomSpawnPoint(new THREE.Vector3())
+      const direction = start.clone().sub(this.shower.radiant).normalize()
+      if (direction.lengthSq() === 0) {
+        direction.set(...this.config.direction).normalize()
+      }
+      this.jitterDirection(direction, this.config.spread * 0.3)
+      this.launchMeteor({ start, velocity: direction.multiplyScalar(this.randomRange(this.config.speed)) })
+    }
+
+    if (this.shower.remaining <= 0) {
+      this.shower = undefined
+    }
+  }
+
+  // 头部在前，尾迹沿来路排开并逐渐变暗变细；起点之前没有尾迹
+  private writeMeteor(meteor: Meteor, index: number): void {
+    const data = this.particleData
+    const segments = this.config.tailSegments
+    const base = index * (1 + segments)
+    const progress = meteor.age / meteor.lifetime
+    // 快速亮起，后段燃尽
+    const envelope = Math.min(1, progress / 0.1) * Math.min(1, (1 - progress) / 0.35)
+
+    const head = this.scratchPosition.copy(meteor.start).addScaledVector(meteor.velocity, meteor.age)
+    const speed = meteor.velocity.length()
+    const direction = this.scratchDirection.copy(meteor.velocity).divideScalar(Math.max(speed, 1e-6))
+    const tailLength = Math.min(this.config.tailLength, speed * meteor.age)
+
+    this.writeSlot(base, head, COMET_NUCLEUS_COLOR, meteor.headSize, envelope)
+
+    for (let k = 1; k <= segments; k++) {
+      const t = k / segments
+      const fade = Math.pow(1 - t, 1.5)
+      this.scratchColor.copy(COMET_NUCLEUS_COLOR).lerp(meteor.color, Math.min(1, t * 2))
+      const slot = base + k
+      const i3 = slot * 3
+      data.position[i3] = head.x - direction.x * tailLength * t
+      data.position[i3 + 1] = head.y - direction.y * tailLength * t
+      data.position[i3 + 2] = head.z - direction.z * tailLength * t
+      data.color[i3] = this.scratchColor.r
+      data.color[i3 + 1] = this.scratchColor.g
+      data.color[i3 + 2] = this.scratchColor.b
+      data.size[slot] = meteor.headSize * (0.25 + 0.55 * (1 - t))
+      data.depth[slot] = envelope * fade
+    }
+  }
+
+  // 离子尾从彗核沿背离光源的方向伸出，粒子不断向外流动并逐渐散开
+  private writeComet(comet: Comet, slot: number): void {
+    const data = this.particleData
+    const segments = this.config.cometTailSegments
+    const base = this.getCometBlockStart(slot)
+    const [lx, ly, lz] = this.config.lightSource
+
+    const away = this.scratchDirection.copy(comet.position).sub(this.scratchPosition.set(lx, ly, lz)).normalize()
+    if (away.lengthSq() === 0) away.set(0, 1, 0)
+    const side = this.scratchSide.set(0, 1, 0).cross(away)
+    if (side.lengthSq() < 1e-6) side.set(1, 0, 0).cross(away)
+    side.normalize()
+    const up = this.scratchUp.copy(away).cross(side)
+
+    // 彗核轻微闪烁
+    const flicker = 0.9 + Math.sin(this.time * 3 + slot) * 0.1
+    this.writeSlot(base, comet.position, COMET_NUCLEUS_COLOR, comet.nucleusSize * flicker, 1)
+
+    for (let k = 0; k < segments; k++) {
+      const t = (this.cometJitter[k * 3 + 2] + this.time * this.config.cometTailFlow) % 1
+      const distance = comet.tailLength * Math.pow(t, 0.8)
+      const width = comet.tailLength * 0.06 * t
+      const index = base + 1 + k
+      const i3 = index * 3
+
+      data.position[i3] = comet.position.x + away.x * distance + (side.x * this.cometJitter[k * 3] + up.x * this.cometJitter[k * 3 + 1]) * width
+      data.position[i3 + 1] = comet.position.y + away.y * distance + (side.y * this.cometJitter[k * 3] + up.y * this.cometJitter[k * 3 + 1]) * width
+      data.position[i3 + 2] = comet.position.z + away.z * distance + (side.z * this.cometJitter[k * 3] + up.z * this.cometJitter[k * 3 + 1]) * width
+
+      this.scratchColor.copy(COMET_NUCLEUS_COLOR).lerp(comet.color, Math.min(1, t * 4))
+      data.color[i3] = this.scratchColor.r
+      data.color[i3 + 1] = this.scratchColor.g
+      data.color[i3 + 2] = this.scratchColor.b
+      data.size[index] = comet.nucleusSize * (0.2 + 0.3 * (1 - t))
+      // 流动相位回绕时从彗核处淡入，避免粒子突然出现
+      data.depth[index] = Math.min(1, t / 0.05) * Math.pow(1 - t, 1.2) * 0.8
+    }
+  }
+
+  private writeSlot(slot: number, position: THREE.Vector3, color: THREE.Color, size: number, alpha: number): void {
+    const data = this.particleData
+    const i3 = slot * 3
+    data.position[i3] = position.x
+    data.position[i3 + 1] = position.y
+    data.position[i3 + 2] = position.z
+    data.color[i3] = color.r
+    data.color[i3 + 1] = color.g
+    data.color[i3 + 2] = color.b
+    data.size[slot] = size
+    data.depth[slot] = alpha
+  }
+
+  private hideBlock(start: number, count: number): void {
+    this.particleData.size.fill(0, start, start + count)
+    this.particleData.depth.fill(0, start, start + count)
+  }
+
+  private getCometBlockStart(slot: number): number {
+    return this.config.maxMeteors * (1 + this.config.tailSegments) + slot * (1 + this.config.cometTailSegments)
+  }
+
+  private randomSpawnPoint(target: THREE.Vector3): THREE.Vector3 {
+    const [cx, cy, cz] = this.config.spawnCenter
+    const [sx, sy, sz] = this.config.spawnSize
+    return target.set(
+      cx + (this.random.next() - 0.5) * sx,
+      cy + (this.random.next() - 0.5) * sy,
+      cz + (this.random.next() - 0.5) * sz
+    )
+  }
+
+  // 在以direction为轴、半角为spread的圆锥内随机偏转
+  private jitterDirection(direction: THREE.Vector3, spread: number): void {
+    if (spread <= 0) return
+    const side = this.scratchSide.set(0, 1, 0).cross(direction)
+    if (side.lengthSq() < 1e-6) side.set(1, 0, 0).cross(direction)
+    side.normalize()
+    const angle = this.random.next() * Math.PI * 2
+    const tilt = this.random.next() * spread
+    side.applyAxisAngle(direction, angle)
+    direction.applyAxisAngle(side, tilt).normalize()
+  }
+
+  private randomRange([min, max]: [number, number]): number {
+    return min + (max - min) * this.random.next()
+  }
+
+  public dispose(): void {
+    this.meteors = []
+    this.comets = []
+    this.shower = undefined
+    super.dispose()
+  }
+}
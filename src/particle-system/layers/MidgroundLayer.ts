@@ -1,12 +1,14 @@
 import * as THREE from 'three'
 import { ParticleLayer } from '../ParticleLayer'
-import type { LayerConfiguration } from '../ParticleLayer'
+import type { LayerConfiguration, LayerOverrides } from '../ParticleLayer'
 import { SpatialDistribution, ParticleType } from '../types'
 import { ColorSystem } from '../utils/ColorSystem'
+import type { ColorPalette } from '../theme/ThemeManager'
+import { Viewport } from '../utils/Viewport'
 
 export class MidgroundLayer extends ParticleLayer {
-  constructor() {
-    const particleCount = window.innerWidth < 640 ? 1000 : 1500
+  constructor(overrides: LayerOverrides = {}) {
+    const particleCount = Viewport.isCompact() ? 1000 : 1500
     const depthRange: [number, number] = [50, 120]
     const sizeRange: [number, number] = [2.0, 8.0]
     
@@ -40,19 +42,19 @@ export class MidgroundLayer extends ParticleLayer {
     }
 
     super(
-      'midground',
-      particleCount,
-      depthRange,
-      sizeRange,
-      colorPalette,
-      SpatialDistribution.SPIRAL,
-      layerConfig
+      overrides.name ?? 'midground',
+      overrides.particleCount ?? particleCount,
+      overrides.depthRange ?? depthRange,
+      overrides.sizeRange ?? sizeRange,
+      overrides.colorPalette ?? colorPalette,
+      overrides.spatialDistribution ?? SpatialDistribution.SPIRAL,
+      { ...layerConfig, ...overrides.layerConfig }
     )
   }
 
 
   protected generateParticleType(): ParticleType {
-    const random = Math.random()
+    const random = this.random.next()
     if (random < 0.4) return ParticleType.NEBULA        // 40% 星云
     if (random < 0.6) return ParticleType.ENERGY_FIELD  // 20% 能量场
     if (random < 0.65) return ParticleType.SUPERNOVA    // 5% 超新星
@@ -71,7 +73,7 @@ export class MidgroundLayer extends ParticleLayer {
     
     // 根据粒子类型使用不同的颜色策略
     if (particleType === ParticleType.NEBULA) {
-      color = ColorSystem.getRealisticNebulaColor()
+      color = ColorSystem.getRealisticNebulaColor(this.random.next)
       // 星云粒子有发光效果
       color.multiplyScalar(1.2 + depth * 0.3)
     } else if (particleType === ParticleType.ENERGY_FIELD) {
@@ -79,7 +81,7 @@ export class MidgroundLayer extends ParticleLayer {
       color.multiplyScalar(1.5)
     } else {
       // 恒星类型
-      color = ColorSystem.getRealisticStellarColor()
+      color = ColorSystem.getRealisticStellarColor(this.random.next)
       // 中等距离的轻微红化
       const distance = distanceFromCenter * 50
       color = ColorSystem.applyInterstellarReddening(color, distance, 0.005)
@@ -90,4 +92,9 @@ export class MidgroundLayer extends ParticleLayer {
     
     return color
   }
+
+  // 中景使用次要色，强调色发光
+  protected getThemeColors(colors: ColorPalette): { color: THREE.Color; glowColor: THREE.Color } {
+    return { color: colors.secondary, glowColor: colors.accent }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,402 @@
+import * as THREE from 'three'
+import { ParticleLayer } from '../ParticleLayer'
+import type { LayerConfiguration } from '../ParticleLayer'
+import type { LayerAttachContext } from '../types'
+import { QualityLevel, SpatialDistribution } from '../types'
+import type { ColorPalette, ThemeConfig } from '../theme/ThemeManager'
+import type { ShaderDefines } from '../shaders/ShaderLibrary'
+import { ColorSystem } from '../utils/ColorSystem'
+
+/**
+ * 体积星云配置
+ */
+export interface NebulaVolumeConfig {
+  center: [number, number, number]   // 包围盒中心（世界坐标）
+  size: [number, number, number]     // 包围盒尺寸（世界单位）
+  density: number                    // 吸收/发射密度
+  brightness: number
+  noiseScale: number                 // 噪声频率（相对包围盒）
+  threshold: number                  // 低于该噪声值的区域为空
+  driftSpeed: number                 // 噪声场缓慢流动的速度
+  themeMix: number                   // 发射线颜色向主题颜色靠拢的比例（0-1）
+}
+
+// 各质量等级的光线步数，0表示使用预烘焙广告牌
+const QUALITY_STEPS: Record<QualityLevel, number> = {
+  [QualityLevel.LOW]: 0,
+  [QualityLevel.MEDIUM]: 32,
+  [QualityLevel.HIGH]: 56,
+  [QualityLevel.ULTRA]: 96
+}
+
+// 广告牌贴图的分辨率和烘焙时沿视线的采样数
+const BAKE_SIZE = 96
+const BAKE_STEPS = 20
+
+/**
+ * 体积星云层 - 在有界包围盒内光线步进fbm噪声密度场
+ * 发射线颜色取自ColorSystem.getRealisticNebulaColor()并向主题颜色混合，远处融入深度雾；
+ * 低质量下退化为预烘焙的二维广告牌
+ */
+export class NebulaVolumeLayer extends ParticleLayer {
+  static readonly DEFAULT_CONFIGURATION: LayerConfiguration = {
+    intensity: 1.0,
+    depthBase: 1.0,
+    depthMultiplier: 0,
+    orbitalSpeedMultiplier: 0,
+    velocityMultiplier: 0,
+    brightnessBase: 1.0,
+    brightnessMultiplier: 0
+  }
+
+  private config: NebulaVolumeConfig
+  private emissionColors: THREE.Color[] = []
+  private themeColors: THREE.Color[] = []
+  private noiseOffset: THREE.Vector3 = new THREE.Vector3()
+  private bakedMap?: THREE.DataTexture
+  private glowIntensity: number = 1
+  private readonly cameraLocal = new THREE.Vector3()
+
+  constructor(config: Partial<NebulaVolumeConfig> = {}, name: string = 'nebulaVolume') {
+    // 整个星云作为一个"粒子"
+    super(
+      name,
+      1,
+      [0, 1],
+      [1, 1],
+      [new THREE.Color(1, 1, 1)],
+      SpatialDistribution.SPHERICAL,
+      NebulaVolumeLayer.DEFAULT_CONFIGURATION
+    )
+
+    this.config = {
+      center: [0, 0, -120],
+      size: [120, 70, 90],
+      density: 1.6,
+      brightness: 1.0,
+      noiseScale: 2.2,
+      threshold: 0.42,
+      driftSpeed: 0.02,
+      themeMix: 0.3,
+      ...config
+    }
+  }
+
+  public create(): void {
+    this.random.reset()
+    this.generateParticles()
+
+    // 发射线颜色和噪声偏移由种子决定
+    this.emissionColors = [0, 1, 2].map(() => ColorSystem.getRealisticNebulaColor(this.random.next))
+    this.noiseOffset.set(this.random.next() * 100, this.random.next() * 100, this.random.next() * 100)
+    if (this.themeColors.length === 0) {
+      this.themeColors = this.emissionColors.map(color => color.clone())
+    }
+
+    this.createGeometry()
+    this.createMaterial()
+
+    this.points = new THREE.Mesh(this.geometry, this.material)
+    this.points.name = this.name
+    this.points.position.set(...this.config.center)
+    this.points.frustumCulled = false
+    this.updateThemeUniforms()
+
+    console.log(`Nebula volume ${this.name} created (${this.isBillboard() ? 'billboard' : `${QUALITY_STEPS[this.shaderQuality]} steps`})`)
+  }
+
+  public getConfig(): NebulaVolumeConfig {
+    return { ...this.config, center: [...this.config.center], size: [...this.config.size] }
+  }
+
+  public updateConfig(config: Partial<NebulaVolumeConfig>): void {
+    const shapeChanged = config.size !== undefined || config.noiseScale !== undefined ||
+      config.threshold !== undefined || config.density !== undefined
+    this.config = { ...this.config, ...config }
+    if (!this.points) return
+
+    this.points.position.set(...this.config.center)
+    // 广告牌贴图依赖形状参数，需要重新烘焙
+    if (shapeChanged) {
+      this.rebuild()
+      return
+    }
+    this.updateShapeUniforms()
+    this.updateThemeUniforms()
+  }
+
+  public onAttach(context: LayerAttachContext): void {
+    this.onQualityChange(context.qualityLevel)
+    this.onThemeChange(context.theme.colors, context.theme)
+  }
+
+  /**
+   * 切换光线步数；进入或离开低质量时在体积和广告牌之间切换
+   */
+  public onQualityChange(level: QualityLevel): void {
+    const wasBillboard = this.isBillboard()
+    this.shaderQuality = level
+    if (!this.points) return
+
+    if (wasBillboard !== this.isBillboard()) {
+      this.rebuild()
+    } else {
+      this.updateShaderVariant()
+    }
+  }
+
+  /**
+   * 发射线颜色按themeMix向主题主色、次色和强调色混合
+   */
+  public onThemeChange(colors: ColorPalette, theme: ThemeConfig): void {
+    const targets = [colors.primary, colors.secondary, colors.accent]
+    this.themeColors = this.emissionColors.map((color, i) => color.clone().lerp(targets[i], this.config.themeMix))
+    this.glowIntensity = theme.glowIntensity
+    if (this.material) {
+      this.updateThemeUniforms()
+      this.updateShapeUniforms()
+    }
+  }
+
+  /**
+   * 每次渲染前把相机位置转换到包围盒的局部坐标
+   */
+  public onBeforeRender(_renderer: THREE.WebGLRenderer, camera: THREE.Camera): void {
+    if (this.isBillboard()) return
+    camera.getWorldPosition(this.cameraLocal)
+    this.points.worldToLocal(this.cameraLocal)
+    this.material.uniforms.cameraLocal.value.copy(this.cameraLocal)
+  }
+
+  // 体积由噪声场决定，不支持变形
+  public morphTo(): Promise<void> {
+    console.warn(`Layer ${this.name} is a volume and cannot be morphed`)
+    return Promise.resolve()
+  }
+
+  public dispose(): void {
+    this.bakedMap?.dispose()
+    this.bakedMap = undefined
+    super.dispose()
+  }
+
+  // 体积只用一个粒子定位，不按数量重新生成
+  public canRegenerate(): boolean {
+    return false
+  }
+
+  protected generateParticles(): void {
+    this.particleData.position.set(this.config.center)
+    this.particleData.size[0] = Math.max(...this.config.size)
+    this.particleData.depth[0] = 1
+  }
+
+  protected createGeometry(): void {
+    const [width, height, depth] = this.config.size
+    this.geometry = this.isBillboard()
+      ? new THREE.PlaneGeometry(2, 2)
+      : new THREE.BoxGeometry(width, height, depth)
+  }
+
+  // 光线步数和噪声倍频数随质量等级变化
+  protected getShaderDefines(): ShaderDefines {
+    return {
+      ...super.getShaderDefines(),
+      STEPS: QUALITY_STEPS[this.shaderQuality],
+      OCTAVES: this.shaderQuality === QualityLevel.MEDIUM ? 3 : 4
+    }
+  }
+
+  protected createMaterial(): void {
+    this.shaderProgram = this.isBillboard() ? 'nebulaBillboard' : 'nebulaVolume'
+    const { vertexShader, fragmentShader } = this.getShaderVariant()
+
+    const uniforms: { [key: string]: THREE.IUniform } = {
+      ...this.depthFogUniforms,
+      layerOpacity: this.layerOpacity,
+      time: { value: 0 },
+      mouse: { value: new THREE.Vector2() },
+      brightness: { value: 0 },
+      colorA: { value: new THREE.Color() },
+      colorB: { value: new THREE.Color() },
+      colorC: { value: new THREE.Color() }
+    }
+
+    if (this.isBillboard()) {
+      this.bakedMap?.dispose()
+      this.bakedMap = this.bakeBillboard()
+      uniforms.bakedMap = { value: this.bakedMap }
+      uniforms.billboardSize = { value: 0 }
+      this.material = new THREE.ShaderMaterial({
+        uniforms,
+        vertexShader,
+        fragmentShader,
+        transparent: true,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false
+      })
+    } else {
+      Object.assign(uniforms, {
+        cameraLocal: { value: new THREE.Vector3() },
+        halfSize: { value: new THREE.Vector3() },
+        density: { value: 0 },
+        noiseScale: { value: 0 },
+        threshold: { value: 0 },
+        driftSpeed: { value: 0 },
+        noiseOffset: { value: this.noiseOffset }
+      })
+      this.material = new THREE.ShaderMaterial({
+        uniforms,
+        vertexShader,
+        fragmentShader,
+        transparent: true,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false,
+        // 渲染背面，相机进入包围盒后仍然可见
+        side: THREE.BackSide
+      })
+    }
+
+    this.updateShapeUniforms()
+  }
+
+  // 体积/广告牌切换或形状变化后，在同一个网格对象上替换几何体和材质
+  private rebuild(): void {
+    const mesh = this.points as THREE.Mesh
+    const oldGeometry = this.geometry
+    const oldMaterial = this.material
+
+    this.createGeometry()
+    this.createMaterial()
+    mesh.geometry = this.geometry
+    mesh.material = this.material
+    this.updateThemeUniforms()
+
+    oldGeometry.dispose()
+    oldMaterial.dispose()
+  }
+
+  private isBillboard(): boolean {
+    return QUALITY_STEPS[this.shaderQuality] === 0
+  }
+
+  private updateShapeUniforms(): void {
+    const uniforms = this.material.uniforms
+    const [width, height, depth] = this.config.size
+    uniforms.brightness.value = this.config.brightness * this.glowIntensity
+    if (this.isBillboard()) {
+      uniforms.billboardSize.value = Math.max(width, height) / 2
+      return
+    }
+    uniforms.halfSize.value.set(width / 2, height / 2, depth / 2)
+    uniforms.density.value = this.config.density
+    uniforms.noiseScale.value = this.config.noiseScale
+    uniforms.threshold.value = this.config.threshold
+    uniforms.driftSpeed.value = this.config.driftSpeed
+  }
+
+  private updateThemeUniforms(): void {
+    const uniforms = this.material.uniforms
+    uniforms.colorA.value.copy(this.themeColors[0])
+    uniforms.colorB.value.copy(this.themeColors[1])
+    uniforms.colorC.value.copy(this.themeColors[2])
+  }
+
+  /**
+   * 在CPU上沿视线积分同一密度场，烘焙成广告牌贴图
+   * RGB为三种发射线颜色的权重，A为覆盖度；噪声场取time=0时的状态
+   */
+  private bakeBillboard(): THREE.DataTexture {
+    const data = new Uint8Array(BAKE_SIZE * BAKE_SIZE * 4)
+    const [width, height, depth] = this.config.size
+    const half = Math.max(width, height) / 2
+    const { density, noiseScale, threshold } = this.config
+    const offset = this.noiseOffset
+    const absorbedPerStep = density * (depth / BAKE_STEPS) / (width / 2)
+
+    for (let py = 0; py < BAKE_SIZE; py++) {
+      for (let px = 0; px < BAKE_SIZE; px++) {
+        const qx = ((px + 0.5) / BAKE_SIZE * 2 - 1) * half / (width / 2)
+        const qy = ((py + 0.5) / BAKE_SIZE * 2 - 1) * half / (height / 2)
+        let transmittance = 1
+        let weightA = 0
+        let weightB = 0
+        let weightC = 0
+
+        for (let step = 0; step < BAKE_STEPS && transmittance > 0.02; step++) {
+          const qz = ((step + 0.5) / BAKE_STEPS) * 2 - 1
+          const envelope = 1 - THREE.MathUtils.smoothstep(Math.sqrt(qx * qx + qy * qy + qz * qz), 0.35, 1)
+          if (envelope <= 0) continue
+
+          const n = this.fbm(qx * noiseScale + offset.x, qy * noiseScale + offset.y, qz * noiseScale + offset.z)
+          const d = THREE.MathUtils.clamp((n - threshold) * 2.5, 0, 1) * envelope
+          if (d <= 0.001) continue
+
+          const tint = this.noise(qx * noiseScale * 0.5 + offset.x + 3, qy * noiseScale * 0.5 + offset.y + 3, qz * noiseScale * 0.5 + offset.z + 3)
+          const mixB = THREE.MathUtils.smoothstep(tint, 0.25, 0.75)
+          const mixC = THREE.MathUtils.smoothstep(d, 0.5, 1)
+          const absorbed = d * absorbedPerStep
+          const contribution = transmittance * absorbed
+
+          weightA += contribution * (1 - mixB) * (1 - mixC)
+          weightB += contribution * mixB * (1 - mixC)
+          weightC += contribution * mixC
+          transmittance *= Math.exp(-absorbed)
+        }
+
+        const i4 = (py * BAKE_SIZE + px) * 4
+        data[i4] = Math.min(255, Math.round(weightA * 255))
+        data[i4 + 1] = Math.min(255, Math.round(weightB * 255))
+        data[i4 + 2] = Math.min(255, Math.round(weightC * 255))
+        data[i4 + 3] = Math.round((1 - transmittance) * 255)
+      }
+    }
+
+    const texture = new THREE.DataTexture(data, BAKE_SIZE, BAKE_SIZE, THREE.RGBAFormat)
+    texture.minFilter = THREE.LinearFilter
+    texture.magFilter = THREE.LinearFilter
+    texture.needsUpdate = true
+    return texture
+  }
+
+  // 与着色器相同的哈希值噪声
+  private hash(x: number, y: number, z: number): number {
+    const fract = (v: number) => v - Math.floor(v)
+    const px = fract(x * 0.3183099 + 0.1) * 17
+    const py = fract(y * 0.3183099 + 0.1) * 17
+    const pz = fract(z * 0.3183099 + 0.1) * 17
+    return fract(px * py * pz * (px + py + pz))
+  }
+
+  private noise(x: number, y: number, z: number): number {
+    const ix = Math.floor(x)
+    const iy = Math.floor(y)
+    const iz = Math.floor(z)
+    const smooth = (v: number) => v * v * (3 - 2 * v)
+    const fx = smooth(x - ix)
+    const fy = smooth(y - iy)
+    const fz = smooth(z - iz)
+    const lerp = THREE.MathUtils.lerp
+
+    return lerp(
+      lerp(lerp(this.hash(ix, iy, iz), this.hash(ix + 1, iy, iz), fx),
+        lerp(this.hash(ix, iy + 1, iz), this.hash(ix + 1, iy + 1, iz), fx), fy),
+      lerp(lerp(this.hash(ix, iy, iz + 1), this.hash(ix + 1, iy, iz + 1), fx),
+        lerp(this.hash(ix, iy + 1, iz + 1), this.hash(ix + 1, iy + 1, iz + 1), fx), fy),
+      fz
+    )
+  }
+
+  private fbm(x: number, y: number, z: number): number {
+    let value = 0
+    let amplitude = 0.5
+    for (let i = 0; i < 4; i++) {
+      value += amplitude * this.noise(x, y, z)
+      x = x * 2.02 + 1.7
+      y = y * 2.02 + 9.2
+      z = z * 2.02 + 3.1
+      amplitude *= 0.5
+    }
+    return value
+  }
+}
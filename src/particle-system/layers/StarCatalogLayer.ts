@@ -0,0 +1,215 @@
+import * as THREE from 'three'
+import { ParticleLayer } from '../ParticleLayer'
+import type { LayerConfiguration } from '../ParticleLayer'
+import { ParticleType, SpatialDistribution } from '../types'
+import { ColorSystem } from '../utils/ColorSystem'
+import { StarCatalog } from '../catalog/StarCatalog'
+import type { StarCatalogEntry, SkyOrientation } from '../catalog/StarCatalog'
+import type { LayerSnapshot } from '../snapshot/ParticleSnapshot'
+
+/**
+ * 星表层配置
+ */
+export interface StarCatalogConfig {
+  radius: number                     // 天球半径（世界单位）
+  magnitudeLimit: number             // 只显示不暗于该视星等的星
+  orientation: SkyOrientation | null // 为空时显示天球坐标（北天极朝上）
+  trackTime: boolean                 // 方位随当前时间更新
+  trackInterval: number              // 跟随时间时重新计算方位的间隔（秒）
+  horizonFade: number                // 地平线附近的淡出带宽度（天球半径的比例）
+}
+
+// 大小按该星等归一化（略亮于天狼星）
+const REFERENCE_MAGNITUDE = -1.5
+
+/**
+ * 星表层 - 按真实星表的赤经赤纬把恒星放在天球上
+ * 大小由视星等决定，颜色由光谱型决定；指定观测时间和纬度后转到地平坐标，地平线以下的星隐藏
+ * 星表按星等排序，渲染优化器截断粒子数时先去掉最暗的星
+ */
+export class StarCatalogLayer extends ParticleLayer {
+  static readonly DEFAULT_CONFIGURATION: LayerConfiguration = {
+    intensity: 1.0,
+    depthBase: 1.0,
+    depthMultiplier: 0,
+    orbitalSpeedMultiplier: 0,
+    velocityMultiplier: 0,
+    brightnessBase: 1.0,
+    brightnessMultiplier: 0
+  }
+
+  private entries: StarCatalogEntry[]
+  private config: StarCatalogConfig
+  private trackTimer: number = 0
+  private readonly scratchPosition = new THREE.Vector3()
+
+  constructor(
+    entries: StarCatalogEntry[],
+    config: Partial<StarCatalogConfig> = {},
+    name: string = 'starCatalog',
+    sizeRange: [number, number] = [1.0, 14.0]
+  ) {
+    const resolved: StarCatalogConfig = {
+      radius: 250,
+      magnitudeLimit: 6.5,
+      orientation: null,
+      trackTime: false,
+      trackInterval: 60,
+      horizonFade: 0.04,
+      ...config
+    }
+    const visible = entries
+      .filter(entry => entry.magnitude <= resolved.magnitudeLimit)
+      .sort((a, b) => a.magnitude - b.magnitude)
+
+    super(
+      name,
+      visible.length,
+      [resolved.radius, resolved.radius],
+      sizeRange,
+      [new THREE.Color(1, 1, 1)],
+      SpatialDistribution.SPHERICAL,
+      StarCatalogLayer.DEFAULT_CONFIGURATION
+    )
+
+    this.entries = visible
+    this.config = resolved
+  }
+
+  public create(): void {
+    super.create()
+    this.trackTimer = this.config.trackInterval
+    console.log(`Star catalog layer ${this.name} created with ${this.particleCount} stars`)
+  }
+
+  public getConfig(): StarCatalogConfig {
+    return { ...this.config }
+  }
+
+  public getEntries(): readonly StarCatalogEntry[] {
+    return this.entries
+  }
+
+  /**
+   * 按专名查找星表中的恒星（不区分大小写）
+   */
+  public findStar(name: string): StarCatalogEntry | undefined {
+    const query = name.trim().toLowerCase()
+    return this.entries.find(entry => entry.name.toLowerCase() === query)
+  }
+
+  /**
+   * 恒星在当前方位下的世界坐标
+   */
+  public getStarPosition(name: string, target: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 | undefined {
+    const entry = this.findStar(name)
+    if (!entry) return undefined
+    return this.placeStar(entry, this.getSiderealTime(), target)
+  }
+
+  /**
+   * 设置观测时间和地点，传入null回到天球坐标
+   * trackTime为true时忽略date，方位随当前时间推进
+   */
+  public setOrientation(orientation: SkyOrientation | null, trackTime: boolean = false): void {
+    this.config.orientation = orientation
+      ? { ...orientation, date: trackTime ? new Date() : orientation.date }
+      : null
+    this.config.trackTime = trackTime && orientation !== null
+    this.trackTimer = this.config.trackInterval
+
+    if (this.geometry) {
+      this.writeStars()
+      this.markParticleDataDirty(['position', 'size', 'depth'])
+      this.updateBoundingSphere()
+    }
+  }
+
+  public update(deltaTime: number): void {
+    if (!this.geometry || !this.config.trackTime || !this.config.orientation) return
+
+    this.trackTimer -= deltaTime
+    if (this.trackTimer > 0) return
+
+    this.setOrientation({ ...this.config.orientation, date: new Date() }, true)
+  }
+
+  // 恒星位置来自星表，不支持变形
+  public morphTo(): Promise<void> {
+    console.warn(`Layer ${this.name} places stars from its catalog and cannot be morphed`)
+    return Promise.resolve()
+  }
+
+  public restoreState(snapshot: LayerSnapshot): void {
+    super.restoreState(snapshot)
+    // 快照可能来自其他时间，按当前方位重新摆放
+    if (this.geometry && snapshot.particleCount === this.particleCount) {
+      this.writeStars()
+      this.markParticleDataDirty()
+    }
+  }
+
+  // 粒子数量由星表决定
+  public canRegenerate(): boolean {
+    return false
+  }
+
+  protected generateParticles(): void {
+    const data = this.particleData
+
+    for (let i = 0; i < this.particleCount; i++) {
+      const color = ColorSystem.stellarClassToColor(this.entries[i].spectralClass || 'G')
+      data.color[i * 3] = color.r
+      data.color[i * 3 + 1] = color.g
+      data.color[i * 3 + 2] = color.b
+
+      data.phase[i] = this.random.next() * Math.PI * 2
+      data.type[i] = ParticleType.STAR
+    }
+    data.velocity.fill(0)
+    data.orbitalSpeed.fill(0)
+
+    this.writeStars()
+  }
+
+  /**
+   * 按当前方位写入位置、大小和透明度（depth属性）
+   */
+  private writeStars(): void {
+    const data = this.particleData
+    const siderealTime = this.getSiderealTime()
+    const [minSize, maxSize] = this.sizeRange
+    const fade = Math.max(this.config.horizonFade, 1e-3)
+
+    for (let i = 0; i < this.particleCount; i++) {
+      const entry = this.entries[i]
+      const position = this.placeStar(entry, siderealTime, this.scratchPosition)
+      data.position[i * 3] = position.x
+      data.position[i * 3 + 1] = position.y
+      data.position[i * 3 + 2] = position.z
+
+      // 亮度比例：每暗1星等，表观直径缩小到10^-0.2
+      const flux = Math.min(1, Math.pow(10, -0.2 * (entry.magnitude - REFERENCE_MAGNITUDE)))
+
+      // 地平坐标下，地平线以下的星淡出
+      const altitude = this.config.orientation ? position.y / this.config.radius : 1
+      const visibility = THREE.MathUtils.smoothstep(altitude, -fade, fade)
+
+      data.size[i] = (minSize + (maxSize - minSize) * flux) * (visibility > 0 ? 1 : 0)
+      data.depth[i] = (0.45 + 0.55 * Math.sqrt(flux)) * visibility
+    }
+  }
+
+  private placeStar(entry: StarCatalogEntry, siderealTime: number, target: THREE.Vector3): THREE.Vector3 {
+    const orientation = this.config.orientation
+    if (!orientation) {
+      return StarCatalog.equatorialToVector(entry.ra, entry.dec, this.config.radius, target)
+    }
+    return StarCatalog.equatorialToHorizontal(entry.ra, entry.dec, siderealTime, orientation.latitude, this.config.radius, target)
+  }
+
+  private getSiderealTime(): number {
+    const orientation = this.config.orientation
+    return orientation ? StarCatalog.getLocalSiderealTime(orientation.date, orientation.longitude) : 0
+  }
+}
@@ -0,0 +1,259 @@
+import * as THREE from 'three'
+import { ParticleSystemManager } from '../ParticleSystemManager'
+import { Viewport } from '../utils/Viewport'
+import { errorHandler } from '../../utils/ErrorHandler'
+import type { OffscreenRenderCommand, OffscreenRenderEvent, OffscreenRenderState } from './OffscreenRenderer'
+
+// 离屏渲染Worker - 在OffscreenCanvas上运行ParticleSystemManager和渲染循环
+
+// 部分浏览器的Worker没有requestAnimationFrame
+const requestFrame = (callback: () => void): number =>
+  typeof requestAnimationFrame !== 'undefined' ? requestAnimationFrame(callback) : self.setTimeout(callback, 16)
+
+const cancelFrame = (id: number): void => {
+  if (typeof cancelAnimationFrame !== 'undefined') {
+    cancelAnimationFrame(id)
+  } else {
+    self.clearTimeout(id)
+  }
+}
+
+const post = (event: OffscreenRenderEvent, transfer: Transferable[] = []): void => {
+  self.postMessage(event, { transfer })
+}
+
+// 执行请求并应答，异常作为requestError返回
+const respond = (id: number, run: () => unknown, transfer: (result: unknown) => Transferable[] = () => []): void => {
+  try {
+    const result = run()
+    post({ type: 'response', id, result }, transfer(result))
+  } catch (error) {
+    post({ type: 'requestError', id, error: (error as Error).message })
+  }
+}
+
+/**
+ * Worker中的渲染宿主，按与主线程相同的配置创建相机、渲染器和粒子系统
+ */
+class OffscreenRenderHost {
+  private scene: THREE.Scene = new THREE.Scene()
+  private camera: THREE.PerspectiveCamera
+  private renderer: THREE.WebGLRenderer
+  private manager: ParticleSystemManager
+  private frameId?: number
+  private lastTime: number = performance.now() * 0.001
+
+  constructor(command: Extract<OffscreenRenderCommand, { type: 'init' }>) {
+    const { canvas, width, height, pixelRatio } = command
+    Viewport.setSize(width, height, pixelRatio)
+
+    this.camera = new THREE.PerspectiveCamera(75, width / height, 0.1, 1000)
+    this.camera.position.z = 5
+
+    this.renderer = new THREE.WebGLRenderer({
+      canvas,
+      alpha: true,
+      antialias: width > 640 && pixelRatio <= 2,
+      powerPreference: 'high-performance',
+      preserveDrawingBuffer: false,
+      failIfMajorPerformanceCaveat: false
+    })
+    this.renderer.outputColorSpace = THREE.SRGBColorSpace
+    this.renderer.toneMapping = THREE.ACESFilmicToneMapping
+    this.renderer.toneMappingExposure = 1.0
+    this.renderer.setSize(width, height, false)
+    this.renderer.setPixelRatio(pixelRatio)
+
+    this.manager = new ParticleSystemManager(this.scene)
+    this.manager.setRenderer(this.renderer)
+    this.manager.initialize()
+    this.manager.setOnFallback(report => this.fallBack(report.errors[0] ?? 'WebGL is not available'))
+    if (command.seed !== undefined) {
+      this.manager.setSeed(command.seed)
+    }
+
+    this.manager.setOnLayerReady((layer, progress) => {
+      post({ type: 'layerReady', name: layer.name, progress })
+    })
+    this.loadInitialScene(command.scene)
+
+    // 交互管理器不监听事件，输入由主线程以input消息转发
+    this.manager.initializeInteraction(this.camera)
+    this.manager.initializeRenderOptimizer(this.camera)
+    const postProcessing = this.manager.initializePostProcessing(this.camera)
+    if (postProcessing) {
+      postProcessing.setOnPassesChange(activePasses => post({ type: 'passes', activePasses }))
+      post({ type: 'passes', activePasses: postProcessing.getActivePassNames() })
+    }
+  }
+
+  /**
+   * 构造时已确认WebGL可用才开始渲染循环
+   */
+  start(): void {
+    if (this.manager.isUsingFallback()) {
+      this.fallBack(this.manager.getWebGLCompatibilityReport().errors[0] ?? 'WebGL is not available')
+      return
+    }
+    this.animate()
+  }
+
+  handle(command: OffscreenRenderCommand): void {
+    switch (command.type) {
+      case 'input':
+        this.manager.handleInteractionInput(command.input)
+        break
+
+      case 'resize':
+        this.resize(command.width, command.height, command.pixelRatio)
+        break
+
+      case 'theme':
+        this.manager.setTheme(command.name, command.transitionDuration)
+        break
+
+      case 'quality':
+        this.manager.setQuality(command.level)
+        break
+
+      case 'seed':
+        this.manager.setSeed(command.seed)
+        break
+
+      case 'removeLayer':
+        this.manager.removeLayer(command.name)
+        break
+
+      case 'camera': {
+        const rig = this.manager.getCameraRig()
+        if (rig) {
+          rig.runCommand(command.command).catch(error => console.error('Camera animation failed:', error))
+        }
+        break
+      }
+
+      case 'scene':
+        this.loadScene(command.id, command.scene)
+        break
+
+      case 'state':
+        respond(command.id, () => this.getState())
+        break
+
+      case 'addLayer':
+        respond(command.id, () => {
+          const layer = this.manager.addLayer(command.layer)
+          return { name: layer.name, particleCount: layer.particleCount }
+        })
+        break
+
+      case 'snapshot':
+        respond(command.id, () => this.manager.snapshot(), result => [result as ArrayBuffer])
+        break
+
+      case 'restore':
+        respond(command.id, () => this.manager.restore(command.data).scene?.name)
+        break
+
+      case 'dispose':
+        this.dispose()
+        break
+    }
+  }
+
+  private animate = (): void => {
+    this.frameId = requestFrame(this.animate)
+
+    const currentTime = performance.now() * 0.001
+    const deltaTime = currentTime - this.lastTime
+    this.lastTime = currentTime
+
+    try {
+      this.manager.updateCameraPosition(this.camera.position)
+      this.manager.update(deltaTime)
+      this.manager.render(deltaTime)
+    } catch (error) {
+      errorHandler.handleThreeJSError(error as Error, 'Offscreen Rendering')
+    }
+  }
+
+  private resize(width: number, height: number, pixelRatio: number): void {
+    Viewport.setSize(width, height, pixelRatio)
+
+    this.camera.aspect = width / height
+    this.camera.updateProjectionMatrix()
+    this.renderer.setSize(width, height, false)
+    this.renderer.setPixelRatio(pixelRatio)
+
+    this.manager.onWindowResize(width, height)
+  }
+
+  // 初始场景加载失败时没有对应的请求，按降级处理，由主线程渲染
+  private loadInitialScene(scene: unknown): void {
+    this.manager.loadSceneAsync(scene).then(loaded => {
+      post({ type: 'ready', name: loaded.name })
+    }).catch(error => {
+      this.fallBack(`Initial scene failed to load: ${(error as Error).message}`)
+    })
+  }
+
+  private loadScene(id: number, scene: unknown): void {
+    this.manager.loadSceneAsync(scene).then(loaded => {
+      post({ type: 'sceneLoaded', id, name: loaded.name })
+    }).catch(error => {
+      post({ type: 'requestError', id, error: (error as Error).message })
+    })
+  }
+
+  private getState(): OffscreenRenderState {
+    const rig = this.manager.getCameraRig()
+    return {
+      seed: this.manager.getSeed(),
+      theme: this.manager.getCurrentTheme().name,
+      themes: this.manager.getAvailableThemes(),
+      quality: this.manager.qualityLevel,
+      layers: this.manager.particleLayers.map(layer => layer.name),
+      layerTypes: this.manager.getLayerTypes(),
+      camera: rig && { mode: rig.getMode(), autoCruise: rig.getConfig().autoCruise, presets: rig.getPresetNames() }
+    }
+  }
+
+  // 降级时停止渲染，由主线程接管
+  private fallBack(reason: string): void {
+    this.stop()
+    post({ type: 'fallback', reason })
+  }
+
+  private stop(): void {
+    if (this.frameId !== undefined) {
+      cancelFrame(this.frameId)
+      this.frameId = undefined
+    }
+  }
+
+  private dispose(): void {
+    this.stop()
+    this.manager.dispose()
+    this.renderer.dispose()
+  }
+}
+
+let host: OffscreenRenderHost | undefined
+
+self.onmessage = (event: MessageEvent<OffscreenRenderCommand>) => {
+  const command = event.data
+
+  if (command.type === 'init') {
+    try {
+      host = new OffscreenRenderHost(command)
+      host.start()
+    } catch (error) {
+      post({ type: 'fallback', reason: (error as Error).message })
+    }
+    return
+  }
+
+  if (host) {
+    host.handle(command)
+  }
+}
@@ -0,0 +1,300 @@
+import type { QualityLevel } from '../types'
+import type { SceneLayerDescription } from '../scene/SceneDescription'
+import type { InteractionInput } from '../interaction/InteractionManager'
+import type { CameraRigCommand, CameraRigMode } from '../camera/CameraRig'
+import OffscreenRenderWorker from './OffscreenRenderWorker?worker&inline'
+
+// 主线程发给渲染Worker的消息；带id的消息由Worker以response或requestError应答
+export type OffscreenRenderCommand =
+  | { type: 'init'; canvas: OffscreenCanvas; width: number; height: number; pixelRatio: number; seed?: number; scene: unknown }
+  | { type: 'input'; input: InteractionInput }
+  | { type: 'resize'; width: number; height: number; pixelRatio: number }
+  | { type: 'theme'; name: string; transitionDuration?: number }
+  | { type: 'quality'; level: QualityLevel }
+  | { type: 'seed'; seed: number }
+  | { type: 'removeLayer'; name: string }
+  | { type: 'camera'; command: CameraRigCommand }
+  | { type: 'scene'; id: number; scene: unknown }
+  | { type: 'state'; id: number }
+  | { type: 'addLayer'; id: number; layer: SceneLayerDescription }
+  | { type: 'snapshot'; id: number }
+  | { type: 'restore'; id: number; data: ArrayBuffer }
+  | { type: 'dispose' }
+
+// 渲染Worker发回主线程的事件
+export type OffscreenRenderEvent =
+  | { type: 'ready'; name: string }
+  | { type: 'layerReady'; name: string; progress: number }
+  | { type: 'sceneLoaded'; id: number; name: string }
+  | { type: 'response'; id: number; result: unknown }
+  | { type: 'requestError'; id: number; error: string }
+  | { type: 'passes'; activePasses: string[] }
+  | { type: 'fallback'; reason: string }
+
+// Worker中粒子系统的当前状态
+export interface OffscreenRenderState {
+  seed: number
+  theme: string
+  themes: string[]
+  quality: QualityLevel
+  layers: string[]
+  layerTypes: string[]
+  camera?: { mode: CameraRigMode; autoCruise: boolean; presets: string[] }
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * 离屏渲染 - 把画布交给Worker，ParticleSystemManager和渲染器在Worker中运行
+ * 主线程只转发输入事件、尺寸、主题和质量变化以及终端命令，终端中的繁重命令不再造成掉帧
+ */
+export class OffscreenRenderer {
+  private worker: Worker
+  private nextRequestId: number = 1
+  private pendingRequests: Map<number, PendingRequest> = new Map()
+  private currentSceneName?: string
+  private ready: boolean = false
+  private readyWaiters: PendingRequest[] = []
+  private failure?: Error
+  private disposed: boolean = false
+
+  private onLayerReady?: (name: string, progress: number) => void
+  private onPassesChange?: (activePasses: string[]) => void
+  private onFallback?: (reason: string) => void
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof HTMLCanvasElement !== 'undefined' &&
+      'transferControlToOffscreen' in HTMLCanvasElement.prototype
+  }
+
+  /**
+   * 接管画布并在Worker中加载初始场景；画布交出后不能再在主线程创建上下文
+   */
+  constructor(canvas: HTMLCanvasElement, scene: unknown, seed?: number) {
+    const offscreen = canvas.transferControlToOffscreen()
+
+    this.worker = new OffscreenRenderWorker({ name: 'offscreen-render' })
+    this.worker.onmessage = (event: MessageEvent<OffscreenRenderEvent>) => {
+      this.handleEvent(event.data)
+    }
+    // Worker脚本加载或初始化失败时交由主线程渲染
+    this.worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault()
+      this.fail(event.message || 'Offscreen render worker failed')
+    }
+
+    this.post({
+      type: 'init',
+      canvas: offscreen,
+      width: window.innerWidth,
+      height: window.innerHeight,
+      pixelRatio: Math.min(window.devicePixelRatio, 2),
+      seed,
+      scene
+    }, [offscreen])
+
+    console.log('Offscreen rendering started')
+  }
+
+  /**
+   * 转发指针、点击、滚轮和触摸输入，由Worker中的交互管理器处理视差、点击效果和缩放
+   */
+  sendInput(input: InteractionInput): void {
+    this.post({ type: 'input', input })
+  }
+
+  resize(width: number, height: number, pixelRatio: number): void {
+    this.post({ type: 'resize', width, height, pixelRatio })
+  }
+
+  setTheme(name: string, transitionDuration?: number): void {
+    this.post({ type: 'theme', name, transitionDuration })
+  }
+
+  setQuality(level: QualityLevel): void {
+    this.post({ type: 'quality', level })
+  }
+
+  /**
+   * 设置主种子，Worker按新种子重新生成当前场景
+   */
+  setSeed(seed: number): void {
+    this.post({ type: 'seed', seed })
+  }
+
+  removeLayer(name: string): void {
+    this.post({ type: 'removeLayer', name })
+  }
+
+  runCameraCommand(command: CameraRigCommand): void {
+    this.post({ type: 'camera', command })
+  }
+
+  /**
+   * 在Worker中渐进加载场景，Promise以场景名完成，描述无效时reject
+   */
+  loadScene(scene: unknown): Promise<string> {
+    return this.request<string>(id => ({ type: 'scene', id, scene }))
+  }
+
+  /**
+   * 查询Worker中的种子、主题、质量和层；之前发出的消息都已处理
+   */
+  getState(): Promise<OffscreenRenderState> {
+    return this.request<OffscreenRenderState>(id => ({ type: 'state', id }))
+  }
+
+  /**
+   * 按描述添加层，Promise以层名和粒子数完成，类型未注册时reject
+   */
+  addLayer(layer: SceneLayerDescription): Promise<{ name: string; particleCount: number }> {
+    return this.request<{ name: string; particleCount: number }>(id => ({ type: 'addLayer', id, layer }))
+  }
+
+  /**
+   * 在Worker中编码当前画面的快照
+   */
+  snapshot(): Promise<ArrayBuffer> {
+    return this.request<ArrayBuffer>(id => ({ type: 'snapshot', id }))
+  }
+
+  /**
+   * 在Worker中恢复快照；数据转移给Worker，调用后不能再使用
+   */
+  async restore(data: ArrayBuffer): Promise<void> {
+    const sceneName = await this.request<string | undefined>(id => ({ type: 'restore', id, data }), [data])
+    if (sceneName !== undefined) {
+      this.currentSceneName = sceneName
+    }
+  }
+
+  /**
+   * 初始场景加载完成时以场景名完成，Worker降级或实例释放时reject
+   */
+  whenReady(): Promise<string> {
+    if (this.failure) {
+      return Promise.reject(this.failure)
+    }
+    if (this.ready) {
+      return Promise.resolve(this.currentSceneName ?? '')
+    }
+    return new Promise((resolve, reject) => {
+      this.readyWaiters.push({ resolve: result => resolve(result as string), reject })
+    })
+  }
+
+  getCurrentSceneName(): string | undefined {
+    return this.currentSceneName
+  }
+
+  setOnLayerReady(callback: (name: string, progress: number) => void): void {
+    this.onLayerReady = callback
+  }
+
+  setOnPassesChange(callback: (activePasses: string[]) => void): void {
+    this.onPassesChange = callback
+  }
+
+  /**
+   * Worker中无法使用WebGL时回调，调用方应释放本实例并改为在主线程渲染
+   */
+  setOnFallback(callback: (reason: string) => void): void {
+    this.onFallback = callback
+  }
+
+  dispose(): void {
+    if (this.disposed) return
+    this.disposed = true
+
+    this.post({ type: 'dispose' })
+    this.worker.terminate()
+    this.rejectPending(new Error('Offscreen renderer disposed'))
+  }
+
+  private post(command: OffscreenRenderCommand, transfer: Transferable[] = []): void {
+    if (this.disposed && command.type !== 'dispose') return
+    this.worker.postMessage(command, transfer)
+  }
+
+  private request<T>(createCommand: (id: number) => OffscreenRenderCommand, transfer: Transferable[] = []): Promise<T> {
+    if (this.disposed) {
+      return Promise.reject(new Error('Offscreen renderer disposed'))
+    }
+
+    const id = this.nextRequestId++
+    return new Promise<T>((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve: result => resolve(result as T), reject })
+      this.post(createCommand(id), transfer)
+    })
+  }
+
+  private settle(id: number): PendingRequest | undefined {
+    const pending = this.pendingRequests.get(id)
+    this.pendingRequests.delete(id)
+    return pending
+  }
+
+  private handleEvent(event: OffscreenRenderEvent): void {
+    switch (event.type) {
+      case 'ready':
+        this.ready = true
+        // 初始加载期间已切换到其他场景时保留新的场景名
+        this.currentSceneName ??= event.name
+        this.readyWaiters.forEach(waiter => waiter.resolve(event.name))
+        this.readyWaiters = []
+        break
+
+      case 'layerReady':
+        if (this.onLayerReady) {
+          this.onLayerReady(event.name, event.progress)
+        }
+        break
+
+      case 'sceneLoaded':
+        this.currentSceneName = event.name
+        this.settle(event.id)?.resolve(event.name)
+        break
+
+      case 'response':
+        this.settle(event.id)?.resolve(event.result)
+        break
+
+      case 'requestError':
+        this.settle(event.id)?.reject(new Error(event.error))
+        break
+
+      case 'passes':
+        if (this.onPassesChange) {
+          this.onPassesChange(event.activePasses)
+        }
+        break
+
+      case 'fallback':
+        this.fail(event.reason)
+        break
+    }
+  }
+
+  private fail(reason: string): void {
+    if (this.disposed) return
+
+    console.warn(`Offscreen rendering unavailable: ${reason}`)
+    this.rejectPending(new Error(reason))
+    if (this.onFallback) {
+      this.onFallback(reason)
+    }
+  }
+
+  private rejectPending(error: Error): void {
+    this.failure = error
+    this.pendingRequests.forEach(pending => pending.reject(error))
+    this.pendingRequests.clear()
+    this.readyWaiters.forEach(waiter => waiter.reject(error))
+    this.readyWaiters = []
+  }
+}
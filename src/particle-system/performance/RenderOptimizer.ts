@@ -29,6 +29,9 @@ export class RenderOptimizer {
 
   // LOD管理
   private lodCache: Map<string, LODLevel> = new Map()
+  // LOD按层的基准粒子数计算目标数量，首次优化时取层当前的数量
+  private baseParticleCounts: WeakMap<ParticleLayer, number> = new WeakMap()
+  private onRegenerateLayer?: (layer: ParticleLayer, particleCount: number) => void
 
   // 统计信息
   private stats = {
@@ -78,6 +81,29 @@ export class RenderOptimizer {
     this.optimizeGeometry(layer)
   }
 
+  /**
+   * 设置层的基准粒子数（如按设备重新生成后），LOD目标数量随之变化
+   */
+  public setBaseParticleCount(layer: ParticleLayer, particleCount: number): void {
+    this.baseParticleCounts.set(layer, particleCount)
+  }
+
+  /**
+   * LOD目标数量超过层已生成的粒子数时回调，由调用方重新生成该层
+   */
+  public setOnRegenerateLayer(callback: (layer: ParticleLayer, particleCount: number) => void): void {
+    this.onRegenerateLayer = callback
+  }
+
+  private getBaseParticleCount(layer: ParticleLayer): number {
+    let count = this.baseParticleCounts.get(layer)
+    if (count === undefined) {
+      count = layer.particleCount
+      this.baseParticleCounts.set(layer, count)
+    }
+    return count
+  }
+
   private updateFrustum(): void {
     this.cameraMatrix.multiplyMatrices(this.camera.projectionMatrix, this.camera.matrixWorldInverse)
     this.frustum.setFromProjectionMatrix(this.cameraMatrix)
@@ -86,7 +112,15 @@ export class RenderOptimizer {
   private applyLOD(layer: ParticleLayer): void {
     const cameraPosition = this.camera.position
     const layerPosition = layer.points.position
-    const distance = cameraPosition.distanceTo(layerPosition)
+    let distance = cameraPosition.distanceTo(layerPosition)
+
+    // 有包围球时按到包围球表面的距离计算，相机在天球等包围球内部飞行时保持最高细节
+    const boundingSphere = layer.points.geometry.boundingSphere
+    if (boundingSphere) {
+      const center = boundingSphere.center.clone().applyMatrix4(layer.points.matrixWorld)
+      const radius = boundingSphere.radius * layer.points.matrixWorld.getMaxScaleOnAxis()
+      distance = Math.max(0, cameraPosition.distanceTo(center) - radius)
+    }
 
     // 查找适当的LOD级别
     let lodLevel = this.config.lodLevels[this.config.lodLevels.length - 1]
@@ -107,7 +141,7 @@ export class RenderOptimizer {
 
   private applyLODToLayer(layer: ParticleLayer, lodLevel: LODLevel): void {
     // 调整粒子数量
-    const targetCount = Math.floor(layer.particleCount * lodLevel.particleCount)
+    const targetCount = Math.floor(this.getBaseParticleCount(layer) * lodLevel.particleCount)
 
     // 更新材质质量
     if (layer.material.uniforms.intensity) {
@@ -120,49 +154,29 @@ export class RenderOptimizer {
 
   private adjustParticleCount(layer: ParticleLayer, targetCount: number): void {
     const geometry = layer.geometry
-    const currentCount = geometry.attributes.position.count
-
-    if (targetCount !== currentCount) {
-      // 创建新的几何体属性
-      const positions = geometry.attributes.position.array as Float32Array
-      const colors = geometry.attributes.color.array as Float32Array
-      const sizes = geometry.attributes.size.array as Float32Array
-
-      // 截取或扩展数组
-      const newPositions = new Float32Array(targetCount * 3)
-      const newColors = new Float32Array(targetCount * 3)
-      const newSizes = new Float32Array(targetCount)
-
-      const copyCount = Math.min(targetCount, currentCount)
-
-      newPositions.set(positions.subarray(0, copyCount * 3))
-      newColors.set(colors.subarray(0, copyCount * 3))
-      newSizes.set(sizes.subarray(0, copyCount))
-
-      // 如果需要更多粒子，复制现有数据
-      if (targetCount > currentCount) {
-        for (let i = currentCount; i < targetCount; i++) {
-          const sourceIndex = i % currentCount
-          newPositions[i * 3] = positions[sourceIndex * 3]
-          newPositions[i * 3 + 1] = positions[sourceIndex * 3 + 1]
-          newPositions[i * 3 + 2] = positions[sourceIndex * 3 + 2]
-
-          newColors[i * 3] = colors[sourceIndex * 3]
-          newColors[i * 3 + 1] = colors[sourceIndex * 3 + 1]
-          newColors[i * 3 + 2] = colors[sourceIndex * 3 + 2]
-
-          newSizes[i] = sizes[sourceIndex]
-        }
-      }
+    const instanced = geometry instanceof THREE.InstancedBufferGeometry
+
+    // 体积等没有逐粒子颜色/大小属性的层不按粒子数量调整
+    if (!instanced && (!geometry.attributes.color || !geometry.attributes.size)) return
+
+    // 发射器、流星等层回收的槽位可能在任意索引，绘制范围会隐藏活动粒子
+    if (!layer.canRegenerate || !layer.canRegenerate()) return
+
+    // 需要更多粒子时重新生成，完成前显示全部已有粒子
+    if (targetCount > layer.particleCount && this.onRegenerateLayer) {
+      this.onRegenerateLayer(layer, targetCount)
+    }
 
-      // 更新几何体属性
-      geometry.setAttribute('position', new THREE.BufferAttribute(newPositions, 3))
-      geometry.setAttribute('color', new THREE.BufferAttribute(newColors, 3))
-      geometry.setAttribute('size', new THREE.BufferAttribute(newSizes, 1))
+    // 随机顺序的层只绘制前面的粒子即可得到均匀的子集
+    // 按索引取角度的分布（螺旋、旋臂等）前缀会截掉外圈或整段旋臂，因此保持全部粒子
+    const randomOrder = layer.hasRandomOrder ? layer.hasRandomOrder() : false
+    const visibleCount = randomOrder ? Math.min(targetCount, layer.particleCount) : layer.particleCount
 
-      geometry.attributes.position.needsUpdate = true
-      geometry.attributes.color.needsUpdate = true
-      geometry.attributes.size.needsUpdate = true
+    // 实例化四边形只需调整实例数量，position属性是四边形顶点
+    if (instanced) {
+      geometry.instanceCount = visibleCount
+    } else {
+      geometry.setDrawRange(0, visibleCount)
     }
   }
 
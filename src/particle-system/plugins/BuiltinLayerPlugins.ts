@@ -0,0 +1,209 @@
+import * as THREE from 'three'
+import type { LayerPlugin } from './LayerRegistry'
+import { CustomLayer } from '../layers/CustomLayer'
+import { DeepSpaceLayer } from '../layers/DeepSpaceLayer'
+import { BackgroundLayer } from '../layers/BackgroundLayer'
+import { MidgroundLayer } from '../layers/MidgroundLayer'
+import { ForegroundLayer } from '../layers/ForegroundLayer'
+import { EmitterLayer } from '../layers/EmitterLayer'
+import { ConstellationLayer, type ConstellationConfig } from '../layers/ConstellationLayer'
+import { StarCatalogLayer, type StarCatalogConfig } from '../layers/StarCatalogLayer'
+import { GalaxyLayer, GALAXY_PRESETS, type GalaxyParameters } from '../layers/GalaxyLayer'
+import { NebulaVolumeLayer } from '../layers/NebulaVolumeLayer'
+import { MeteorLayer } from '../layers/MeteorLayer'
+import { StarCatalog } from '../catalog/StarCatalog'
+import brightStarsCsv from '../catalog/bright-stars.csv?raw'
+
+// 选项结构需要可赋值给Record<string, unknown>，因此用类型别名而非接口
+type StarCatalogOptions = {
+  radius: number
+  magnitudeLimit: number
+  latitude?: number
+  longitude: number
+  date: string
+}
+
+type NebulaVolumeOptions = {
+  center: [number, number, number]
+  size: [number, number, number]
+  density: number
+  brightness: number
+  themeMix: number
+}
+
+type MeteorOptions = {
+  spawnRate: number
+  maxMeteors: number
+  tailLength: number
+  accentMix: number
+  lightSource: [number, number, number]
+  comet?: [number, number, number]
+}
+
+type GalaxyOptions = {
+  preset: string
+  center: [number, number, number]
+  radius?: number
+  arms?: number
+  winding?: number
+  tilt?: number
+  positionAngle?: number
+  rotationSpeed?: number
+  dustLanes?: number
+  palette?: string
+}
+
+/**
+ * 内置层类型
+ */
+export const BUILTIN_LAYER_PLUGINS: LayerPlugin[] = [
+  {
+    type: 'deepSpace',
+    description: 'Distant galaxies and nebulae',
+    create: (_options, overrides) => new DeepSpaceLayer(overrides)
+  },
+  {
+    type: 'background',
+    description: 'Faint background stars',
+    create: (_options, overrides) => new BackgroundLayer(overrides)
+  },
+  {
+    type: 'midground',
+    description: 'Mid-distance star field',
+    create: (_options, overrides) => new MidgroundLayer(overrides)
+  },
+  {
+    type: 'foreground',
+    description: 'Bright foreground stars',
+    create: (_options, overrides) => new ForegroundLayer(overrides)
+  },
+  {
+    // 所有参数由场景描述提供（必填字段由场景校验保证）
+    type: 'custom',
+    description: 'Fully scene-defined layer',
+    create: (_options, overrides) => new CustomLayer(
+      overrides.name!,
+      overrides.particleCount!,
+      overrides.depthRange!,
+      overrides.sizeRange!,
+      overrides.colorPalette!,
+      overrides.spatialDistribution,
+      overrides.layerConfig
+    )
+  },
+  {
+    type: 'emitters',
+    description: 'Emitter-driven particles with a fixed slot capacity',
+    options: {
+      capacity: { type: 'integer', default: 1024, min: 1, max: 65536, description: 'Maximum live particles' }
+    },
+    create: (options: { capacity: number }, overrides) => new EmitterLayer(options.capacity, overrides.name)
+  } satisfies LayerPlugin<{ capacity: number }>,
+  {
+    type: 'constellations',
+    description: 'Fading lines between neighbouring bright stars',
+    options: {
+      sources: { type: 'string', default: 'foreground,midground', description: 'Comma-separated names of the layers to connect' },
+      maxDistance: { type: 'number', min: 0.1, description: 'Longest line in world units (defaults to the quality preset)' },
+      lineOpacity: { type: 'number', min: 0, max: 1, description: 'Line opacity before fading' }
+    },
+    create: (options: { sources: string; maxDistance?: number; lineOpacity?: number }, overrides) => {
+      const config: Partial<ConstellationConfig> = {
+        sources: options.sources.split(',').map(source => source.trim()).filter(Boolean)
+      }
+      if (options.maxDistance !== undefined) config.maxDistance = options.maxDistance
+      if (options.lineOpacity !== undefined) config.lineOpacity = options.lineOpacity
+      return new ConstellationLayer(config, overrides.name)
+    }
+  } satisfies LayerPlugin<{ sources: string; maxDistance?: number; lineOpacity?: number }>,
+  {
+    type: 'starCatalog',
+    description: 'Real bright stars placed on the celestial sphere from a bundled catalog',
+    options: {
+      radius: { type: 'number', default: 250, min: 1, description: 'Celestial sphere radius in world units' },
+      magnitudeLimit: { type: 'number', default: 6.5, description: 'Faintest apparent magnitude shown' },
+      latitude: { type: 'number', min: -90, max: 90, description: 'Observer latitude; when set the sky is shown above this horizon' },
+      longitude: { type: 'number', default: 0, min: -180, max: 180, description: 'Observer longitude, east positive' },
+      date: { type: 'string', default: 'now', description: 'Observation time as an ISO date, or "now" to follow the clock' }
+    },
+    create: (options: StarCatalogOptions, overrides) => {
+      const config: Partial<StarCatalogConfig> = {
+        radius: options.radius,
+        magnitudeLimit: options.magnitudeLimit
+      }
+
+      if (options.latitude !== undefined) {
+        const trackTime = options.date === 'now'
+        let date = trackTime ? new Date() : new Date(options.date)
+        if (Number.isNaN(date.getTime())) {
+          console.warn(`Invalid star catalog date "${options.date}", using the current time`)
+          date = new Date()
+        }
+        config.orientation = { date, latitude: options.latitude, longitude: options.longitude }
+        config.trackTime = trackTime
+      }
+
+      // particleCount覆盖值限制最多显示的星数（保留最亮的）
+      const entries = StarCatalog.parse(brightStarsCsv).slice(0, overrides.particleCount)
+      return new StarCatalogLayer(entries, config, overrides.name, overrides.sizeRange)
+    }
+  } satisfies LayerPlugin<StarCatalogOptions>,
+  {
+    type: 'galaxy',
+    description: 'Parametric spiral or elliptical galaxy with bulge, arms and dust lanes',
+    options: {
+      preset: { type: 'string', default: 'spiral', values: Object.keys(GALAXY_PRESETS), description: 'Base galaxy shape' },
+      center: { type: 'vector3', default: [0, 0, -450], description: 'Galaxy center in world units' },
+      radius: { type: 'number', min: 1, description: 'Disk radius in world units' },
+      arms: { type: 'integer', min: 0, max: 12, description: 'Spiral arm count, 0 for an armless galaxy' },
+      winding: { type: 'number', min: 0, description: 'Turns each arm makes from the core to the rim' },
+      tilt: { type: 'number', min: -180, max: 180, description: 'Disk inclination in degrees, 90 is edge-on' },
+      positionAngle: { type: 'number', min: -360, max: 360, description: 'Disk orientation on the sky in degrees' },
+      rotationSpeed: { type: 'number', description: 'Spin about the disk normal in radians per second' },
+      dustLanes: { type: 'number', min: 0, max: 1, description: 'Dust lane darkening strength' },
+      palette: { type: 'string', values: ['deepSpace', 'nebula', 'energy', 'stellar', 'galactic', 'rainbow'], description: 'ColorSystem palette for the arms' }
+    },
+    create: (options: GalaxyOptions, overrides) => {
+      const { preset, ...values } = options
+      const parameters: Partial<GalaxyParameters> = { ...GALAXY_PRESETS[preset] }
+      for (const [key, value] of Object.entries(values)) {
+        if (value !== undefined) {
+          Object.assign(parameters, { [key]: value })
+        }
+      }
+      return new GalaxyLayer(parameters, overrides)
+    }
+  } satisfies LayerPlugin<GalaxyOptions>,
+  {
+    type: 'nebulaVolume',
+    description: 'Raymarched volumetric nebula (pre-baked billboard on low quality)',
+    options: {
+      center: { type: 'vector3', default: [0, 0, -120], description: 'Volume center in world units' },
+      size: { type: 'vector3', default: [120, 70, 90], description: 'Volume width, height and depth' },
+      density: { type: 'number', default: 1.6, min: 0, description: 'Emission and absorption density' },
+      brightness: { type: 'number', default: 1.0, min: 0 },
+      themeMix: { type: 'number', default: 0.3, min: 0, max: 1, description: 'How far the emission colors lean towards the theme' }
+    },
+    create: (options: NebulaVolumeOptions, overrides) => new NebulaVolumeLayer(options, overrides.name)
+  } satisfies LayerPlugin<NebulaVolumeOptions>,
+  {
+    type: 'meteors',
+    description: 'Shooting stars with fading tails, meteor showers and comets with ion tails',
+    options: {
+      spawnRate: { type: 'number', default: 0.25, min: 0, description: 'Random meteors per second on high quality' },
+      maxMeteors: { type: 'integer', default: 16, min: 1, max: 64 },
+      tailLength: { type: 'number', default: 35, min: 0, description: 'Meteor tail length in world units' },
+      accentMix: { type: 'number', default: 0.6, min: 0, max: 1, description: 'How far tail colors lean towards the theme accent' },
+      lightSource: { type: 'vector3', default: [600, -100, -400], description: 'Comet tails point away from this position' },
+      comet: { type: 'vector3', description: 'Place a comet nucleus at this position' }
+    },
+    create: (options: MeteorOptions, overrides) => {
+      const { comet, ...config } = options
+      const layer = new MeteorLayer(config, overrides.name)
+      if (comet) {
+        layer.addComet({ name: 'comet', position: new THREE.Vector3(...comet) })
+      }
+      return layer
+    }
+  } satisfies LayerPlugin<MeteorOptions>
+]
@@ -0,0 +1,110 @@
+import type { ParticleLayer, LayerOverrides } from '../ParticleLayer'
+import { validateLayerOptions } from '../scene/SceneDescription'
+
+export type LayerOptionType = 'number' | 'integer' | 'string' | 'boolean' | 'color' | 'vector3'
+
+/**
+ * 单个插件选项的描述
+ */
+export interface LayerOptionSpec<T = unknown> {
+  type: LayerOptionType
+  required?: boolean
+  default?: T
+  min?: number            // number/integer的取值范围
+  max?: number
+  values?: string[]       // string的可选值
+  description?: string
+}
+
+// 选项结构：每个选项字段对应一条描述
+export type LayerOptionsSchema<TOptions = Record<string, unknown>> = {
+  [K in keyof TOptions]-?: LayerOptionSpec<TOptions[K]>
+}
+
+/**
+ * 粒子层插件 - 以类型名注册层工厂，场景描述按类型名实例化
+ */
+export interface LayerPlugin<TOptions = Record<string, unknown>> {
+  type: string
+  description?: string
+  options?: LayerOptionsSchema<TOptions>
+  create(options: TOptions, overrides: LayerOverrides): ParticleLayer
+}
+
+/**
+ * 层插件注册表
+ */
+export class LayerRegistry {
+  private plugins: Map<string, LayerPlugin> = new Map()
+
+  constructor(plugins: LayerPlugin[] = []) {
+    plugins.forEach(plugin => this.register(plugin))
+  }
+
+  /**
+   * 注册插件，同名类型会被替换
+   */
+  public register(plugin: LayerPlugin): void {
+    if (this.plugins.has(plugin.type)) {
+      console.warn(`Layer type "${plugin.type}" is already registered, replacing it`)
+    }
+    this.plugins.set(plugin.type, plugin)
+  }
+
+  public unregister(type: string): boolean {
+    return this.plugins.delete(type)
+  }
+
+  public has(type: string): boolean {
+    return this.plugins.has(type)
+  }
+
+  public get(type: string): LayerPlugin | undefined {
+    return this.plugins.get(type)
+  }
+
+  public getTypes(): string[] {
+    return Array.from(this.plugins.keys())
+  }
+
+  /**
+   * 各类型的选项结构（供场景校验使用）
+   */
+  public getOptionSchemas(): Record<string, LayerOptionsSchema> {
+    const schemas: Record<string, LayerOptionsSchema> = {}
+    this.plugins.forEach((plugin, type) => {
+      if (plugin.options) {
+        schemas[type] = plugin.options
+      }
+    })
+    return schemas
+  }
+
+  /**
+   * 按类型名创建层（尚未调用create），选项无效时抛出错误
+   */
+  public create(type: string, overrides: LayerOverrides = {}, options: Record<string, unknown> = {}): ParticleLayer {
+    const plugin = this.plugins.get(type)
+    if (!plugin) {
+      throw new Error(`Unknown layer type: ${type} (available: ${this.getTypes().join(', ')})`)
+    }
+
+    const errors = validateLayerOptions(options, plugin.options, 'options')
+    if (errors.length > 0) {
+      throw new Error(`Invalid options for layer type "${type}":\n  - ${errors.join('\n  - ')}`)
+    }
+
+    return plugin.create(this.resolveOptions(plugin, options), overrides)
+  }
+
+  // 未提供的选项使用结构中的默认值
+  private resolveOptions(plugin: LayerPlugin, options: Record<string, unknown>): Record<string, unknown> {
+    const resolved: Record<string, unknown> = {}
+    for (const [key, spec] of Object.entries(plugin.options ?? {}) as [string, LayerOptionSpec][]) {
+      if (spec.default !== undefined) {
+        resolved[key] = spec.default
+      }
+    }
+    return { ...resolved, ...options }
+  }
+}
@@ -0,0 +1,152 @@
+import * as THREE from 'three'
+import type { ColorPalette } from '../theme/ThemeManager'
+import { PostPass } from './PostPass'
+import { PostProcessingShaders } from '../shaders/PostProcessingShaders'
+
+/**
+ * 辉光配置
+ */
+export interface BloomConfig {
+  threshold: number     // 参与辉光的最低亮度
+  knee: number          // 阈值附近的软过渡宽度
+  strength: number      // 叠加强度，再乘以主题的glowIntensity
+  radius: number        // 模糊半径（纹素）
+  iterations: number    // 模糊迭代次数，越多越柔和
+  downsample: number    // 高光纹理相对画面的缩小倍数
+}
+
+/**
+ * 辉光通道 - 提取高光，在降采样纹理上做可分离模糊后按主题辉光色叠加
+ */
+export class BloomPass extends PostPass {
+  public readonly name = 'bloom'
+  public readonly priority = 3
+  public readonly estimatedCost = 1.2
+  public readonly advanced = true
+
+  private config: BloomConfig
+  private glowIntensity: number = 1
+  private textureType: THREE.TextureDataType = THREE.UnsignedByteType
+  private width: number = 1
+  private height: number = 1
+  private targets: THREE.WebGLRenderTarget[]
+  private brightMaterial: THREE.ShaderMaterial
+  private blurMaterial: THREE.ShaderMaterial
+  private compositeMaterial: THREE.ShaderMaterial
+
+  constructor(config: Partial<BloomConfig> = {}) {
+    super()
+    this.config = {
+      threshold: 0.6,
+      knee: 0.2,
+      strength: 0.8,
+      radius: 1.5,
+      iterations: 2,
+      downsample: 2,
+      ...config
+    }
+
+    this.targets = [this.createTarget(), this.createTarget()]
+
+    this.brightMaterial = PostPass.createMaterial(PostProcessingShaders.getBrightPassFragmentShader(), {
+      threshold: { value: this.config.threshold },
+      knee: { value: this.config.knee }
+    })
+    this.blurMaterial = PostPass.createMaterial(PostProcessingShaders.getBlurFragmentShader(), {
+      direction: { value: new THREE.Vector2() }
+    })
+    this.compositeMaterial = PostPass.createMaterial(PostProcessingShaders.getBloomCompositeFragmentShader(), {
+      bloomTexture: { value: this.targets[0].texture },
+      strength: { value: this.config.strength },
+      tint: { value: new THREE.Color(1, 1, 1) }
+    })
+  }
+
+  public render(
+    renderer: THREE.WebGLRenderer,
+    input: THREE.Texture,
+    output: THREE.WebGLRenderTarget | null
+  ): void {
+    const [bright, scratch] = this.targets
+
+    this.brightMaterial.uniforms.inputTexture.value = input
+    this.quad.render(renderer, this.brightMaterial, bright)
+
+    // 水平、垂直交替模糊，结果留在bright中
+    const direction = this.blurMaterial.uniforms.direction.value as THREE.Vector2
+    for (let i = 0; i < this.config.iterations; i++) {
+      const spread = this.config.radius * (i + 1)
+
+      direction.set(spread / bright.width, 0)
+      this.blurMaterial.uniforms.inputTexture.value = bright.texture
+      this.quad.render(renderer, this.blurMaterial, scratch)
+
+      direction.set(0, spread / bright.height)
+      this.blurMaterial.uniforms.inputTexture.value = scratch.texture
+      this.quad.render(renderer, this.blurMaterial, bright)
+    }
+
+    this.compositeMaterial.uniforms.inputTexture.value = input
+    this.compositeMaterial.uniforms.strength.value = this.config.strength * this.glowIntensity
+    this.quad.render(renderer, this.compositeMaterial, output)
+  }
+
+  public setSize(width: number, height: number): void {
+    this.width = width
+    this.height = height
+    const scaledWidth = Math.max(1, Math.floor(width / this.config.downsample))
+    const scaledHeight = Math.max(1, Math.floor(height / this.config.downsample))
+    this.targets.forEach(target => target.setSize(scaledWidth, scaledHeight))
+  }
+
+  public setTextureType(type: THREE.TextureDataType): void {
+    if (type === this.textureType) return
+
+    this.textureType = type
+    this.targets.forEach(target => target.dispose())
+    this.targets = [this.createTarget(), this.createTarget()]
+    this.compositeMaterial.uniforms.bloomTexture.value = this.targets[0].texture
+    this.setSize(this.width, this.height)
+  }
+
+  public applyTheme(colors: ColorPalette, glowIntensity: number): void {
+    // 辉光色与白色混合，避免整体偏色过重
+    const tint = this.compositeMaterial.uniforms.tint.value as THREE.Color
+    tint.setRGB(1, 1, 1).lerp(colors.glow, 0.5)
+    this.glowIntensity = glowIntensity
+  }
+
+  public updateConfig(config: Partial<BloomConfig>): void {
+    const downsampleChanged = config.downsample !== undefined && config.downsample !== this.config.downsample
+    this.config = { ...this.config, ...config }
+    this.brightMaterial.uniforms.threshold.value = this.config.threshold
+    this.brightMaterial.uniforms.knee.value = this.config.knee
+
+    if (downsampleChanged) {
+      this.setSize(this.width, this.height)
+    }
+  }
+
+  public getConfig(): BloomConfig {
+    return { ...this.config }
+  }
+
+  public dispose(): void {
+    super.dispose()
+    this.targets.forEach(target => target.dispose())
+    this.brightMaterial.dispose()
+    this.blurMaterial.dispose()
+    this.compositeMaterial.dispose()
+  }
+
+  private createTarget(): THREE.WebGLRenderTarget {
+    return new THREE.WebGLRenderTarget(1, 1, {
+      type: this.textureType,
+      format: THREE.RGBAFormat,
+      minFilter: THREE.LinearFilter,
+      magFilter: THREE.LinearFilter,
+      depthBuffer: false,
+      stencilBuffer: false
+    })
+  }
+}
@@ -0,0 +1,44 @@
+import { ShaderPass } from './PostPass'
+import { PostProcessingShaders } from '../shaders/PostProcessingShaders'
+
+/**
+ * 色差配置
+ */
+export interface ChromaticAberrationConfig {
+  amount: number  // 画面角落处红蓝通道的偏移量（UV）
+}
+
+/**
+ * 色差通道 - 模拟镜头色散，边缘处红蓝通道分离
+ */
+export class ChromaticAberrationPass extends ShaderPass {
+  public readonly name = 'chromaticAberration'
+  public readonly priority = 1
+  public readonly estimatedCost = 0.35
+  public readonly advanced = true
+
+  private config: ChromaticAberrationConfig
+
+  constructor(config: Partial<ChromaticAberrationConfig> = {}) {
+    const resolved: ChromaticAberrationConfig = {
+      amount: 0.012,
+      ...config
+    }
+    super(PostProcessingShaders.getChromaticAberrationFragmentShader(), {
+      amount: { value: resolved.amount }
+    })
+    this.config = resolved
+  }
+
+  public updateConfig(config: Partial<ChromaticAberrationConfig>): void {
+    this.config = { ...this.config, ...config }
+  }
+
+  public getConfig(): ChromaticAberrationConfig {
+    return { ...this.config }
+  }
+
+  protected updateUniforms(): void {
+    this.material.uniforms.amount.value = this.config.amount
+  }
+}
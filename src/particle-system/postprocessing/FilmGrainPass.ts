@@ -0,0 +1,55 @@
+import * as THREE from 'three'
+import type { PostPassContext } from './PostPass'
+import { ShaderPass, PostPassStage } from './PostPass'
+import { PostProcessingShaders } from '../shaders/PostProcessingShaders'
+
+/**
+ * 胶片颗粒配置
+ */
+export interface FilmGrainConfig {
+  intensity: number  // 噪声幅度
+  size: number       // 颗粒大小（CSS像素）
+}
+
+/**
+ * 胶片颗粒通道 - 每帧变化的细微噪声，打散暗部的色带
+ */
+export class FilmGrainPass extends ShaderPass {
+  public readonly name = 'filmGrain'
+  public readonly priority = 2
+  public readonly estimatedCost = 0.2
+  public readonly stage = PostPassStage.DISPLAY
+
+  private config: FilmGrainConfig
+
+  constructor(config: Partial<FilmGrainConfig> = {}) {
+    const resolved: FilmGrainConfig = {
+      intensity: 0.05,
+      size: 1.5,
+      ...config
+    }
+    super(PostProcessingShaders.getFilmGrainFragmentShader(), {
+      intensity: { value: resolved.intensity },
+      time: { value: 0 },
+      resolution: { value: new THREE.Vector2(1, 1) }
+    })
+    this.config = resolved
+  }
+
+  public updateConfig(config: Partial<FilmGrainConfig>): void {
+    this.config = { ...this.config, ...config }
+  }
+
+  public getConfig(): FilmGrainConfig {
+    return { ...this.config }
+  }
+
+  protected updateUniforms(context: PostPassContext): void {
+    // 按颗粒大小缩小噪声网格，使颗粒在不同像素比下保持相同的CSS尺寸
+    const cell = Math.max(1e-3, this.config.size * context.pixelRatio)
+    this.material.uniforms.intensity.value = this.config.intensity
+    this.material.uniforms.time.value = context.time
+    const resolution = this.material.uniforms.resolution.value as THREE.Vector2
+    resolution.set(context.width / cell, context.height / cell)
+  }
+}
@@ -0,0 +1,96 @@
+import type * as THREE from 'three'
+
+// EXT_disjoint_timer_query_webgl2 的常量
+const TIME_ELAPSED_EXT = 0x88bf
+const GPU_DISJOINT_EXT = 0x8fbb
+
+/**
+ * GPU计时器 - 用计时查询测量一段渲染命令的GPU耗时
+ * 查询结果要在之后几帧才可读，所以读到的总是几帧之前的耗时
+ */
+export class GPUTimer {
+  private gl: WebGL2RenderingContext | null = null
+  private pending: WebGLQuery[] = []
+  private active: WebGLQuery | null = null
+  private lastTime: number | null = null
+
+  // 同时等待结果的查询数上限，超过时丢弃新的测量
+  private static readonly MAX_PENDING = 4
+
+  constructor(renderer: THREE.WebGLRenderer) {
+    const context = renderer.getContext()
+    if (typeof WebGL2RenderingContext !== 'undefined' &&
+        context instanceof WebGL2RenderingContext &&
+        context.getExtension('EXT_disjoint_timer_query_webgl2')) {
+      this.gl = context
+    }
+  }
+
+  public isSupported(): boolean {
+    return this.gl !== null
+  }
+
+  public begin(): void {
+    if (!this.gl || this.active || this.pending.length >= GPUTimer.MAX_PENDING) return
+
+    const query = this.gl.createQuery()
+    if (!query) return
+
+    this.gl.beginQuery(TIME_ELAPSED_EXT, query)
+    this.active = query
+  }
+
+  public end(): void {
+    if (!this.gl || !this.active) return
+
+    this.gl.endQuery(TIME_ELAPSED_EXT)
+    this.pending.push(this.active)
+    this.active = null
+  }
+
+  /**
+   * 读取已完成的查询，返回最新一次的耗时（毫秒），没有新结果时返回null
+   */
+  public poll(): number | null {
+    const gl = this.gl
+    if (!gl) return null
+
+    // 发生过GPU中断时本批结果不可信
+    const disjoint = gl.getParameter(GPU_DISJOINT_EXT) as boolean
+    let latest: number | null = null
+
+    while (this.pending.length > 0) {
+      const query = this.pending[0]
+      if (!gl.getQueryParameter(query, gl.QUERY_RESULT_AVAILABLE)) break
+
+      const nanoseconds = gl.getQueryParameter(query, gl.QUERY_RESULT) as number
+      if (!disjoint) {
+        latest = nanoseconds / 1e6
+      }
+      gl.deleteQuery(query)
+      this.pending.shift()
+    }
+
+    if (latest !== null) {
+      this.lastTime = latest
+    }
+    return latest
+  }
+
+  public getLastTime(): number | null {
+    return this.lastTime
+  }
+
+  public dispose(): void {
+    const gl = this.gl
+    if (!gl) return
+
+    if (this.active) {
+      gl.endQuery(TIME_ELAPSED_EXT)
+      gl.deleteQuery(this.active)
+      this.active = null
+    }
+    this.pending.forEach(query => gl.deleteQuery(query))
+    this.pending = []
+  }
+}
@@ -0,0 +1,142 @@
+import * as THREE from 'three'
+import type { ColorPalette } from '../theme/ThemeManager'
+import { PostProcessingShaders } from '../shaders/PostProcessingShaders'
+
+/**
+ * 通道所处阶段：HDR通道在色调映射之前处理线性高动态范围画面，显示通道在之后处理0-1的画面
+ */
+export enum PostPassStage {
+  HDR = 'hdr',
+  DISPLAY = 'display'
+}
+
+/**
+ * 每帧传给后期通道的信息
+ */
+export interface PostPassContext {
+  time: number
+  deltaTime: number
+  width: number        // 渲染目标像素宽度
+  height: number       // 渲染目标像素高度
+  pixelRatio: number   // 渲染目标像素与CSS像素之比
+}
+
+/**
+ * 全屏四边形 - 用指定材质把纹理画到渲染目标或屏幕
+ */
+export class FullscreenQuad {
+  private scene: THREE.Scene = new THREE.Scene()
+  private camera: THREE.OrthographicCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+  private mesh: THREE.Mesh
+
+  constructor(material?: THREE.Material) {
+    this.mesh = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), material)
+    this.mesh.frustumCulled = false
+    this.scene.add(this.mesh)
+  }
+
+  public render(renderer: THREE.WebGLRenderer, material: THREE.Material, target: THREE.WebGLRenderTarget | null): void {
+    this.mesh.material = material
+    renderer.setRenderTarget(target)
+    renderer.render(this.scene, this.camera)
+  }
+
+  public dispose(): void {
+    this.mesh.geometry.dispose()
+  }
+}
+
+/**
+ * 后期处理通道基类
+ * 通道读取上一步的画面纹理，写入output（为null时直接写屏）
+ */
+export abstract class PostPass {
+  /** 通道名，质量预设和开关按名称引用 */
+  public abstract readonly name: string
+  /** 预算不足时优先级低的通道先关闭 */
+  public abstract readonly priority: number
+  /** 1080p下的预估GPU耗时（毫秒），没有计时扩展时用于预算 */
+  public abstract readonly estimatedCost: number
+  /** 是否属于高级效果，设备关闭高级效果时不启用 */
+  public readonly advanced: boolean = false
+  /** 相对色调映射的位置 */
+  public readonly stage: PostPassStage = PostPassStage.HDR
+
+  protected quad: FullscreenQuad = new FullscreenQuad()
+
+  public abstract render(
+    renderer: THREE.WebGLRenderer,
+    input: THREE.Texture,
+    output: THREE.WebGLRenderTarget | null,
+    context: PostPassContext
+  ): void
+
+  /**
+   * 渲染目标尺寸变化
+   */
+  public setSize?(width: number, height: number): void
+
+  /**
+   * 管线在HDR和LDR渲染目标之间切换，自带渲染目标的通道应使用相同的纹理类型
+   */
+  public setTextureType?(type: THREE.TextureDataType): void
+
+  /**
+   * 主题颜色变化，过渡期间每帧调用
+   */
+  public applyTheme?(colors: ColorPalette, glowIntensity: number): void
+
+  public dispose(): void {
+    this.quad.dispose()
+  }
+
+  protected static createMaterial(
+    fragmentShader: string,
+    uniforms: Record<string, THREE.IUniform>
+  ): THREE.ShaderMaterial {
+    return new THREE.ShaderMaterial({
+      uniforms: { inputTexture: { value: null }, ...uniforms },
+      vertexShader: PostProcessingShaders.getQuadVertexShader(),
+      fragmentShader,
+      depthTest: false,
+      depthWrite: false,
+      // 色调映射由管线中的ToneMappingPass负责
+      toneMapped: false
+    })
+  }
+}
+
+/**
+ * 单个全屏着色器构成的通道
+ */
+export abstract class ShaderPass extends PostPass {
+  protected material: THREE.ShaderMaterial
+
+  constructor(fragmentShader: string, uniforms: Record<string, THREE.IUniform> = {}) {
+    super()
+    this.material = PostPass.createMaterial(fragmentShader, uniforms)
+  }
+
+  public render(
+    renderer: THREE.WebGLRenderer,
+    input: THREE.Texture,
+    output: THREE.WebGLRenderTarget | null,
+    context: PostPassContext
+  ): void {
+    this.material.uniforms.inputTexture.value = input
+    if (this.updateUniforms) {
+      this.updateUniforms(context)
+    }
+    this.quad.render(renderer, this.material, output)
+  }
+
+  public dispose(): void {
+    super.dispose()
+    this.material.dispose()
+  }
+
+  /**
+   * 渲染前写入逐帧uniform
+   */
+  protected updateUniforms?(context: PostPassContext): void
+}
@@ -0,0 +1,407 @@
+import * as THREE from 'three'
+import { QualityLevel } from '../types'
+import type { ColorPalette } from '../theme/ThemeManager'
+import type { DeviceConfig } from '../responsive/ResponsiveManager'
+import { PostPass, PostPassStage, type PostPassContext } from './PostPass'
+import { ToneMappingPass, type ToneMappingConfig } from './ToneMappingPass'
+import { GPUTimer } from './GPUTimer'
+
+/**
+ * 质量预设 - 各质量等级启用的通道和后期处理的GPU预算
+ */
+export interface PostProcessingPreset {
+  passes: string[]
+  budget: number  // 所有通道每帧GPU耗时上限（毫秒）
+}
+
+export const POST_PROCESSING_PRESETS: Record<QualityLevel, PostProcessingPreset> = {
+  [QualityLevel.LOW]: {
+    passes: ['scanlines', 'vignette'],
+    budget: 1.5
+  },
+  [QualityLevel.MEDIUM]: {
+    passes: ['scanlines', 'vignette', 'bloom'],
+    budget: 2.5
+  },
+  [QualityLevel.HIGH]: {
+    passes: ['scanlines', 'vignette', 'bloom', 'filmGrain'],
+    budget: 4
+  },
+  [QualityLevel.ULTRA]: {
+    passes: ['scanlines', 'vignette', 'bloom', 'filmGrain', 'chromaticAberration'],
+    budget: 6
+  }
+}
+
+/**
+ * 后期处理配置
+ */
+export interface PostProcessingConfig {
+  hdr: boolean             // 使用半浮点渲染目标，不支持时应传false退回8位sRGB目标
+  toneMapping: Partial<ToneMappingConfig>
+  budget: number | null    // GPU预算（毫秒），null表示使用质量预设的预算
+  budgetInterval: number   // 两次预算检查之间的秒数
+  resumeHeadroom: number   // 恢复通道后耗时需低于预算的该比例
+}
+
+/**
+ * 后期处理统计
+ */
+export interface PostProcessingStats {
+  gpuTime: number          // 最近的后期处理耗时（毫秒）
+  measured: boolean        // true为计时查询实测，false为按通道预估
+  hdr: boolean
+  budget: number
+  activePasses: string[]
+  suspendedPasses: string[]
+}
+
+// 通道预估耗时按1080p计算
+const REFERENCE_PIXELS = 1920 * 1080
+
+/**
+ * 后期处理管线 - 场景先渲染到离屏目标，依次经过HDR通道、色调映射和显示通道，最后一个通道写屏
+ * 粒子在线性空间混合，HDR目标保留超过1的亮度；通道是否运行由质量等级、设备配置、手动开关和GPU预算共同决定
+ */
+export class PostProcessingPipeline {
+  private renderer: THREE.WebGLRenderer
+  private config: PostProcessingConfig
+  private passes: PostPass[] = []
+  private targets: THREE.WebGLRenderTarget[]
+  private toneMappingPass: ToneMappingPass
+  private timer: GPUTimer
+
+  private qualityLevel: QualityLevel = QualityLevel.HIGH
+  private advancedEffects: boolean = true
+  private renderScale: number = 1
+  private disabledPasses: Set<string> = new Set()
+  private suspendedPasses: Set<string> = new Set()
+
+  private width: number = 1   // CSS像素
+  private height: number = 1
+  private time: number = 0
+  private gpuTime: number | null = null
+  private budgetTimer: number = 0
+  private activeSignature: string = ''
+  private onPassesChange?: (activePasses: string[]) => void
+
+  constructor(renderer: THREE.WebGLRenderer, config: Partial<PostProcessingConfig> = {}) {
+    this.renderer = renderer
+    this.config = {
+      hdr: true,
+      toneMapping: {},
+      budget: null,
+      budgetInterval: 0.5,
+      resumeHeadroom: 0.7,
+      ...config
+    }
+
+    // 第一个目标接收场景渲染，需要深度缓冲和多重采样
+    this.targets = [this.createTarget(true), this.createTarget(false)]
+    this.toneMappingPass = new ToneMappingPass(this.config.toneMapping)
+    this.timer = new GPUTimer(renderer)
+
+    const size = renderer.getSize(new THREE.Vector2())
+    this.setSize(size.x, size.y)
+
+    console.log(`PostProcessingPipeline initialized (HDR: ${this.config.hdr ? 'yes' : 'no'}, GPU timer: ${this.timer.isSupported() ? 'yes' : 'no'})`)
+  }
+
+  /**
+   * 添加通道，index省略时追加到末尾；同名通道会被替换
+   */
+  public addPass(pass: PostPass, index?: number): void {
+    this.removePass(pass.name)
+
+    const position = index === undefined ? this.passes.length : Math.max(0, Math.min(index, this.passes.length))
+    this.passes.splice(position, 0, pass)
+    if (pass.setTextureType) {
+      pass.setTextureType(this.getTextureType())
+    }
+    if (pass.setSize) {
+      pass.setSize(this.getPixelWidth(), this.getPixelHeight())
+    }
+    this.notifyPassesChange()
+  }
+
+  public removePass(name: string): boolean {
+    const index = this.passes.findIndex(pass => pass.name === name)
+    if (index === -1) return false
+
+    this.passes[index].dispose()
+    this.passes.splice(index, 1)
+    this.suspendedPasses.delete(name)
+    this.notifyPassesChange()
+    return true
+  }
+
+  public getPass<T extends PostPass = PostPass>(name: string): T | undefined {
+    return this.passes.find(pass => pass.name === name) as T | undefined
+  }
+
+  public getPassNames(): string[] {
+    return this.passes.map(pass => pass.name)
+  }
+
+  /**
+   * 手动开关通道，关闭的通道不受质量预设和预算影响
+   */
+  public setPassEnabled(name: string, enabled: boolean): void {
+    if (enabled) {
+      this.disabledPasses.delete(name)
+    } else {
+      this.disabledPasses.add(name)
+    }
+    this.notifyPassesChange()
+  }
+
+  public setQuality(level: QualityLevel): void {
+    this.qualityLevel = level
+    // 新等级重新按预算评估
+    this.suspendedPasses.clear()
+    this.gpuTime = null
+    this.notifyPassesChange()
+  }
+
+  /**
+   * 应用设备配置：关闭高级效果时不运行辉光、色差等通道，离屏目标按renderScale缩放
+   */
+  public setDeviceConfig(config: DeviceConfig): void {
+    this.advancedEffects = config.enableAdvancedEffects
+    if (config.renderScale !== this.renderScale) {
+      this.renderScale = config.renderScale
+      this.setSize(this.width, this.height)
+    }
+    this.notifyPassesChange()
+  }
+
+  public setBudget(budget: number | null): void {
+    this.config.budget = budget
+    this.suspendedPasses.clear()
+    this.notifyPassesChange()
+  }
+
+  /**
+   * 切换HDR和LDR渲染目标
+   */
+  public setHDR(enabled: boolean): void {
+    if (enabled === this.config.hdr) return
+
+    this.config.hdr = enabled
+    this.targets.forEach(target => target.dispose())
+    this.targets = [this.createTarget(true), this.createTarget(false)]
+    this.setSize(this.width, this.height)
+    this.passes.forEach(pass => {
+      if (pass.setTextureType) {
+        pass.setTextureType(this.getTextureType())
+      }
+    })
+  }
+
+  public isHDR(): boolean {
+    return this.config.hdr
+  }
+
+  public setToneMapping(config: Partial<ToneMappingConfig>): void {
+    this.toneMappingPass.updateConfig(config)
+  }
+
+  public getToneMapping(): ToneMappingConfig {
+    return this.toneMappingPass.getConfig()
+  }
+
+  public getBudget(): number {
+    return this.config.budget ?? POST_PROCESSING_PRESETS[this.qualityLevel].budget
+  }
+
+  public applyTheme(colors: ColorPalette, glowIntensity: number): void {
+    this.passes.forEach(pass => {
+      if (pass.applyTheme) {
+        pass.applyTheme(colors, glowIntensity)
+      }
+    })
+  }
+
+  /**
+   * 画布尺寸变化（CSS像素），像素比从渲染器读取
+   */
+  public setSize(width: number, height: number): void {
+    this.width = width
+    this.height = height
+
+    const pixelWidth = this.getPixelWidth()
+    const pixelHeight = this.getPixelHeight()
+    this.targets.forEach(target => target.setSize(pixelWidth, pixelHeight))
+    this.passes.forEach(pass => {
+      if (pass.setSize) {
+        pass.setSize(pixelWidth, pixelHeight)
+      }
+    })
+  }
+
+  public isPassActive(name: string): boolean {
+    return this.getActivePasses().some(pass => pass.name === name)
+  }
+
+  public getActivePassNames(): string[] {
+    return this.getActivePasses().map(pass => pass.name)
+  }
+
+  /**
+   * 活动通道变化时回调，例如通道被预算关闭时恢复对应的CSS效果
+   */
+  public setOnPassesChange(callback: (activePasses: string[]) => void): void {
+    this.onPassesChange = callback
+  }
+
+  public render(scene: THREE.Scene, camera: THREE.Camera, deltaTime: number): void {
+    this.time += deltaTime
+
+    const measured = this.timer.poll()
+    if (measured !== null) {
+      this.gpuTime = this.gpuTime === null ? measured : this.gpuTime * 0.8 + measured * 0.2
+    }
+    this.evaluateBudget(deltaTime)
+
+    // 色调映射固定在HDR通道和显示通道之间，没有其他通道时也要运行
+    const active = this.getActivePasses()
+    const passes = [
+      ...active.filter(pass => pass.stage === PostPassStage.HDR),
+      this.toneMappingPass,
+      ...active.filter(pass => pass.stage === PostPassStage.DISPLAY)
+    ]
+
+    const previousTarget = this.renderer.getRenderTarget()
+    let read = this.targets[0]
+    let write = this.targets[1]
+
+    this.renderer.setRenderTarget(read)
+    this.renderer.render(scene, camera)
+
+    const context: PostPassContext = {
+      time: this.time,
+      deltaTime,
+      width: read.width,
+      height: read.height,
+      pixelRatio: this.renderer.getPixelRatio() * this.renderScale
+    }
+
+    this.timer.begin()
+    passes.forEach((pass, index) => {
+      const isLast = index === passes.length - 1
+      pass.render(this.renderer, read.texture, isLast ? previousTarget : write, context)
+      if (!isLast) {
+        [read, write] = [write, read]
+      }
+    })
+    this.timer.end()
+
+    this.renderer.setRenderTarget(previousTarget)
+  }
+
+  public getStats(): PostProcessingStats {
+    return {
+      gpuTime: this.gpuTime ?? this.estimateCost([...this.getActivePasses(), this.toneMappingPass]),
+      measured: this.gpuTime !== null,
+      hdr: this.config.hdr,
+      budget: this.getBudget(),
+      activePasses: this.getActivePassNames(),
+      suspendedPasses: Array.from(this.suspendedPasses)
+    }
+  }
+
+  public dispose(): void {
+    this.passes.forEach(pass => pass.dispose())
+    this.passes = []
+    this.toneMappingPass.dispose()
+    this.targets.forEach(target => target.dispose())
+    this.timer.dispose()
+    this.onPassesChange = undefined
+  }
+
+  // 按管线顺序返回本帧要运行的通道
+  private getActivePasses(): PostPass[] {
+    const preset = POST_PROCESSING_PRESETS[this.qualityLevel]
+    return this.passes.filter(pass =>
+      preset.passes.includes(pass.name) &&
+      !this.disabledPasses.has(pass.name) &&
+      !this.suspendedPasses.has(pass.name) &&
+      (this.advancedEffects || !pass.advanced)
+    )
+  }
+
+  // 超出预算时关闭优先级最低的通道，余量充足时按优先级逐个恢复
+  private evaluateBudget(deltaTime: number): void {
+    this.budgetTimer += deltaTime
+    if (this.budgetTimer < this.config.budgetInterval) return
+    this.budgetTimer = 0
+
+    const active = this.getActivePasses()
+    // 有计时扩展时等待通道变化后的新测量结果
+    if (this.timer.isSupported() && this.gpuTime === null) return
+
+    const cost = this.gpuTime ?? this.estimateCost([...active, this.toneMappingPass])
+    const budget = this.getBudget()
+
+    if (cost > budget && active.length > 0) {
+      const lowest = active.reduce((min, pass) => pass.priority < min.priority ? pass : min)
+      this.suspendedPasses.add(lowest.name)
+      this.gpuTime = null
+      console.warn(`Post-processing over budget (${cost.toFixed(2)}ms > ${budget}ms), suspended: ${lowest.name}`)
+      this.notifyPassesChange()
+      return
+    }
+
+    const candidate = this.passes
+      .filter(pass => this.suspendedPasses.has(pass.name))
+      .sort((a, b) => b.priority - a.priority)[0]
+    if (candidate && cost + this.estimateCost([candidate]) <= budget * this.config.resumeHeadroom) {
+      this.suspendedPasses.delete(candidate.name)
+      this.gpuTime = null
+      this.notifyPassesChange()
+    }
+  }
+
+  private estimateCost(passes: PostPass[]): number {
+    const pixelScale = (this.getPixelWidth() * this.getPixelHeight()) / REFERENCE_PIXELS
+    return passes.reduce((total, pass) => total + pass.estimatedCost, 0) * pixelScale
+  }
+
+  private notifyPassesChange(): void {
+    const active = this.getActivePassNames()
+    const signature = active.join(',')
+    if (signature === this.activeSignature) return
+
+    this.activeSignature = signature
+    if (this.onPassesChange) {
+      this.onPassesChange(active)
+    }
+  }
+
+  private getPixelWidth(): number {
+    return Math.max(1, Math.floor(this.width * this.renderer.getPixelRatio() * this.renderScale))
+  }
+
+  private getPixelHeight(): number {
+    return Math.max(1, Math.floor(this.height * this.renderer.getPixelRatio() * this.renderScale))
+  }
+
+  private getTextureType(): THREE.TextureDataType {
+    return this.config.hdr ? THREE.HalfFloatType : THREE.UnsignedByteType
+  }
+
+  // LDR目标使用sRGB存储，8位精度集中在暗部，混合仍在线性空间进行
+  private createTarget(sceneTarget: boolean): THREE.WebGLRenderTarget {
+    const antialias = this.renderer.getContext().getContextAttributes()?.antialias ?? false
+    return new THREE.WebGLRenderTarget(1, 1, {
+      type: this.getTextureType(),
+      colorSpace: this.config.hdr ? THREE.LinearSRGBColorSpace : THREE.SRGBColorSpace,
+      format: THREE.RGBAFormat,
+      minFilter: THREE.LinearFilter,
+      magFilter: THREE.LinearFilter,
+      depthBuffer: sceneTarget,
+      stencilBuffer: false,
+      samples: sceneTarget && antialias ? 4 : 0
+    })
+  }
+}
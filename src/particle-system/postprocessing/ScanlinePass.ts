@@ -0,0 +1,66 @@
+import * as THREE from 'three'
+import type { ColorPalette } from '../theme/ThemeManager'
+import type { PostPassContext } from './PostPass'
+import { ShaderPass, PostPassStage } from './PostPass'
+import { PostProcessingShaders } from '../shaders/PostProcessingShaders'
+
+/**
+ * 扫描线配置
+ */
+export interface ScanlineConfig {
+  opacity: number  // 扫描线叠加的不透明度
+  period: number   // 扫描线周期（CSS像素）
+  speed: number    // 向下滚动速度（CSS像素/秒）
+}
+
+/**
+ * 扫描线通道 - 取代原来的.tech-scanlines CSS叠加层，颜色跟随主题
+ */
+export class ScanlinePass extends ShaderPass {
+  public readonly name = 'scanlines'
+  public readonly priority = 5
+  public readonly estimatedCost = 0.1
+  public readonly stage = PostPassStage.DISPLAY
+
+  private config: ScanlineConfig
+
+  constructor(config: Partial<ScanlineConfig> = {}) {
+    // 默认值与CSS版本一致：4px周期、2%不透明度、每0.1秒滚动一个周期
+    const resolved: ScanlineConfig = {
+      opacity: 0.02,
+      period: 4,
+      speed: 40,
+      ...config
+    }
+    super(PostProcessingShaders.getScanlineFragmentShader(), {
+      lineColor: { value: new THREE.Color(0, 1, 1) },
+      opacity: { value: resolved.opacity },
+      period: { value: resolved.period },
+      speed: { value: resolved.speed },
+      time: { value: 0 },
+      resolution: { value: new THREE.Vector2(1, 1) }
+    })
+    this.config = resolved
+  }
+
+  public applyTheme(colors: ColorPalette): void {
+    (this.material.uniforms.lineColor.value as THREE.Color).copy(colors.accent)
+  }
+
+  public updateConfig(config: Partial<ScanlineConfig>): void {
+    this.config = { ...this.config, ...config }
+  }
+
+  public getConfig(): ScanlineConfig {
+    return { ...this.config }
+  }
+
+  protected updateUniforms(context: PostPassContext): void {
+    this.material.uniforms.opacity.value = this.config.opacity
+    this.material.uniforms.period.value = this.config.period * context.pixelRatio
+    this.material.uniforms.speed.value = this.config.speed * context.pixelRatio
+    this.material.uniforms.time.value = context.time
+    const resolution = this.material.uniforms.resolution.value as THREE.Vector2
+    resolution.set(context.width, context.height)
+  }
+}
@@ -0,0 +1,77 @@
+import { ShaderPass } from './PostPass'
+import { PostProcessingShaders } from '../shaders/PostProcessingShaders'
+
+/**
+ * 色调映射算子
+ */
+export enum ToneMappingOperator {
+  LINEAR = 'linear',      // 只乘曝光，超过1的部分截断
+  ACES = 'aces',          // 电影感曲线，高光偏暖、对比较强
+  AGX = 'agx',            // 高光平滑过渡到白色，色相保持更好
+  REINHARD = 'reinhard'   // 最简单的x/(1+x)压缩，画面偏平
+}
+
+// 与PostProcessingShaders.getToneMappingFragmentShader()中的编号一致
+const TONE_MAPPING_OPERATOR_CODES: Record<ToneMappingOperator, number> = {
+  [ToneMappingOperator.LINEAR]: 0,
+  [ToneMappingOperator.ACES]: 1,
+  [ToneMappingOperator.AGX]: 2,
+  [ToneMappingOperator.REINHARD]: 3
+}
+
+/**
+ * 色调映射配置
+ */
+export interface ToneMappingConfig {
+  operator: ToneMappingOperator
+  exposure: number
+}
+
+/**
+ * 色调映射通道 - 把线性HDR画面压缩到0-1，由管线固定放在HDR通道和显示通道之间
+ */
+export class ToneMappingPass extends ShaderPass {
+  public readonly name = 'toneMapping'
+  public readonly priority = Infinity
+  public readonly estimatedCost = 0.1
+
+  private config: ToneMappingConfig
+
+  constructor(config: Partial<ToneMappingConfig> = {}) {
+    const resolved: ToneMappingConfig = {
+      operator: ToneMappingOperator.ACES,
+      exposure: 1,
+      ...config
+    }
+    super(PostProcessingShaders.getToneMappingFragmentShader(), {
+      toneMappingExposure: { value: resolved.exposure }
+    })
+    this.config = resolved
+    this.applyOperator()
+  }
+
+  public updateConfig(config: Partial<ToneMappingConfig>): void {
+    const operatorChanged = config.operator !== undefined && config.operator !== this.config.operator
+    this.config = { ...this.config, ...config }
+    if (operatorChanged) {
+      this.applyOperator()
+    }
+  }
+
+  public getConfig(): ToneMappingConfig {
+    return { ...this.config }
+  }
+
+  protected updateUniforms(): void {
+    this.material.uniforms.toneMappingExposure.value = this.config.exposure
+  }
+
+  // 切换算子需要重新编译着色器
+  private applyOperator(): void {
+    this.material.defines = {
+      ...this.material.defines,
+      TONE_MAPPING_OPERATOR: TONE_MAPPING_OPERATOR_CODES[this.config.operator]
+    }
+    this.material.needsUpdate = true
+  }
+}
@@ -0,0 +1,58 @@
+import * as THREE from 'three'
+import type { ColorPalette } from '../theme/ThemeManager'
+import type { PostPassContext } from './PostPass'
+import { ShaderPass, PostPassStage } from './PostPass'
+import { PostProcessingShaders } from '../shaders/PostProcessingShaders'
+
+/**
+ * 暗角配置
+ */
+export interface VignetteConfig {
+  offset: number    // 从画面中心到暗角开始处的距离（按画面高度归一化）
+  darkness: number  // 角落处向背景色过渡的程度（0-1）
+}
+
+/**
+ * 暗角通道 - 画面边缘向主题背景色过渡
+ */
+export class VignettePass extends ShaderPass {
+  public readonly name = 'vignette'
+  public readonly priority = 4
+  public readonly estimatedCost = 0.15
+  public readonly stage = PostPassStage.DISPLAY
+
+  private config: VignetteConfig
+
+  constructor(config: Partial<VignetteConfig> = {}) {
+    const resolved: VignetteConfig = {
+      offset: 0.35,
+      darkness: 0.65,
+      ...config
+    }
+    super(PostProcessingShaders.getVignetteFragmentShader(), {
+      offset: { value: resolved.offset },
+      darkness: { value: resolved.darkness },
+      vignetteColor: { value: new THREE.Color(0, 0, 0) },
+      aspect: { value: 1 }
+    })
+    this.config = resolved
+  }
+
+  public applyTheme(colors: ColorPalette): void {
+    (this.material.uniforms.vignetteColor.value as THREE.Color).copy(colors.background)
+  }
+
+  public updateConfig(config: Partial<VignetteConfig>): void {
+    this.config = { ...this.config, ...config }
+  }
+
+  public getConfig(): VignetteConfig {
+    return { ...this.config }
+  }
+
+  protected updateUniforms(context: PostPassContext): void {
+    this.material.uniforms.offset.value = this.config.offset
+    this.material.uniforms.darkness.value = this.config.darkness
+    this.material.uniforms.aspect.value = context.width / Math.max(1, context.height)
+  }
+}
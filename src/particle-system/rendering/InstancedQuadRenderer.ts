@@ -0,0 +1,104 @@
+import * as THREE from 'three'
+import type { ParticleData } from '../types'
+import type { ShaderProgramSource } from '../shaders/ShaderLibrary'
+
+/**
+ * 四边形精灵参数
+ */
+export interface QuadSpriteOptions {
+  spriteAspect: number     // 宽高比，>1为横向拉长
+  velocityStretch: number  // 沿屏幕速度方向的拉伸系数，0为不拉伸
+  spinSpeed: number        // 自转速度（弧度/秒）
+}
+
+// ParticleData字段对应的实例属性名
+const INSTANCE_ATTRIBUTES: Record<keyof ParticleData, [string, number]> = {
+  position: ['instancePosition', 3],
+  color: ['color', 3],
+  size: ['size', 1],
+  velocity: ['velocity', 3],
+  phase: ['phase', 1],
+  depth: ['depth', 1],
+  orbitalSpeed: ['orbitalSpeed', 1],
+  type: ['particleType', 1]
+}
+
+/**
+ * 实例化四边形渲染 - 不受gl_PointSize上限限制，可旋转、拉伸
+ * 每个粒子是一个实例，实例属性直接引用ParticleData中的数组
+ */
+export class InstancedQuadRenderer {
+  /**
+   * ParticleData字段在实例化几何体中的属性名
+   */
+  static getAttributeName(field: keyof ParticleData): string {
+    return INSTANCE_ATTRIBUTES[field][0]
+  }
+
+  static createGeometry(particleData: ParticleData, particleCount: number): THREE.InstancedBufferGeometry {
+    const geometry = new THREE.InstancedBufferGeometry()
+    const quad = new THREE.PlaneGeometry(1, 1)
+
+    geometry.index = quad.index
+    geometry.setAttribute('position', quad.getAttribute('position'))
+    geometry.setAttribute('uv', quad.getAttribute('uv'))
+
+    for (const field of Object.keys(INSTANCE_ATTRIBUTES) as (keyof ParticleData)[]) {
+      const [name, itemSize] = INSTANCE_ATTRIBUTES[field]
+      geometry.setAttribute(name, new THREE.InstancedBufferAttribute(particleData[field], itemSize))
+    }
+    geometry.instanceCount = particleCount
+
+    return geometry
+  }
+
+  /**
+   * 基于点精灵材质创建四边形材质，沿用其uniform和混合设置
+   * shaders为ShaderLibrary中instancedQuad程序的变体
+   */
+  static createMaterial(
+    baseMaterial: THREE.ShaderMaterial,
+    options: QuadSpriteOptions,
+    shaders: ShaderProgramSource
+  ): THREE.ShaderMaterial {
+    return new THREE.ShaderMaterial({
+      uniforms: {
+        ...baseMaterial.uniforms,
+        viewport: { value: new THREE.Vector2(1, 1) },
+        spriteAspect: { value: options.spriteAspect },
+        velocityStretch: { value: options.velocityStretch },
+        spinSpeed: { value: options.spinSpeed }
+      },
+      vertexShader: shaders.vertexShader,
+      fragmentShader: shaders.fragmentShader,
+      transparent: baseMaterial.transparent,
+      blending: baseMaterial.blending,
+      depthWrite: baseMaterial.depthWrite,
+      side: baseMaterial.side
+    })
+  }
+
+  static createMesh(geometry: THREE.InstancedBufferGeometry, material: THREE.ShaderMaterial): THREE.Mesh {
+    const mesh = new THREE.Mesh(geometry, material)
+    const drawingBufferSize = new THREE.Vector2()
+
+    // 精灵大小以像素计，渲染前同步绘制缓冲区尺寸
+    mesh.onBeforeRender = (renderer, _scene, _camera, _geometry, currentMaterial) => {
+      const uniforms = (currentMaterial as THREE.ShaderMaterial).uniforms
+      if (uniforms?.viewport) {
+        renderer.getDrawingBufferSize(drawingBufferSize)
+        uniforms.viewport.value.copy(drawingBufferSize)
+      }
+    }
+
+    return mesh
+  }
+
+  /**
+   * 按粒子位置计算包围球（四边形顶点本身不代表粒子分布）
+   */
+  static computeBoundingSphere(geometry: THREE.InstancedBufferGeometry, particleData: ParticleData): void {
+    const box = new THREE.Box3().setFromArray(particleData.position)
+    geometry.boundingSphere = box.getBoundingSphere(new THREE.Sphere())
+  }
+}
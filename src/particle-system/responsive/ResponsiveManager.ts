@@ -1,5 +1,6 @@
 import * as THREE from 'three'
 import { QualityLevel } from '../types'
+import { Viewport } from '../utils/Viewport'
 
 export enum DeviceType {
   MOBILE = 'mobile',
@@ -100,9 +101,9 @@ export class ResponsiveManager {
   }
 
   private detectDevice(): void {
-    this.screenSize.set(window.innerWidth, window.innerHeight)
-    this.pixelRatio = Math.min(window.devicePixelRatio || 1, 2)
-    this.hasTouchSupport = 'ontouchstart' in window || navigator.maxTouchPoints > 0
+    this.screenSize.set(Viewport.getWidth(), Viewport.getHeight())
+    this.pixelRatio = Math.min(Viewport.getPixelRatio(), 2)
+    this.hasTouchSupport = (typeof window !== 'undefined' && 'ontouchstart' in window) || navigator.maxTouchPoints > 0
 
     // 检测设备类型
     const width = this.screenSize.x
@@ -124,19 +125,27 @@ export class ResponsiveManager {
     }
   }
 
+  // 重新检测设备，设备类型变化时通知
+  private updateDevice(): void {
+    const oldDevice = this.currentDevice
+    this.detectDevice()
+
+    if (this.onResize) {
+      this.onResize(this.screenSize)
+    }
+
+    if (oldDevice !== this.currentDevice && this.onDeviceChange) {
+      this.onDeviceChange(this.currentDevice, this.getCurrentConfig())
+    }
+  }
+
   private setupEventListeners(): void {
+    // Worker中没有窗口事件，尺寸由onWindowResize传入
+    if (typeof window === 'undefined') return
+
     // 窗口大小变化
     this.resizeHandler = () => {
-      const oldDevice = this.currentDevice
-      this.detectDevice()
-
-      if (this.onResize) {
-        this.onResize(this.screenSize)
-      }
-
-      if (oldDevice !== this.currentDevice && this.onDeviceChange) {
-        this.onDeviceChange(this.currentDevice, this.getCurrentConfig())
-      }
+      this.updateDevice()
     }
 
     // 设备方向变化
@@ -362,6 +371,6 @@ Advanced Effects: ${this.getCurrentConfig().enableAdvancedEffects ? 'Enabled' :
 
   public onWindowResize(width: number, height: number): void {
     this.screenSize.set(width, height)
-    this.detectDevice()
+    this.updateDevice()
   }
 }
\ No newline at end of file
@@ -0,0 +1,597 @@
+import type { LayerConfiguration, ShapeColorMode } from '../ParticleLayer'
+import { SpatialDistribution, SimulationMode, RenderMode } from '../types'
+import type { LayerOptionsSchema, LayerOptionSpec } from '../plugins/LayerRegistry'
+import { ForceFieldType } from '../forces/ForceField'
+import { ForceFieldSystem } from '../forces/ForceFieldSystem'
+
+/**
+ * 场景描述格式 - 以JSON声明粒子层组合
+ */
+export const SCENE_FORMAT_VERSION = 1
+
+// 调色板条目：十六进制颜色、黑体温度或光谱分类
+export type PaletteEntry = string | { temperature: number } | { stellarClass: string }
+
+// 调色板：ColorSystem中的调色板名称，或颜色条目列表
+export type PaletteDescription = string | PaletteEntry[]
+
+// 粒子数量：固定值，或区分窄屏/默认两种取值
+export type ParticleCountDescription = number | { compact: number; default: number }
+
+// 形状分布：文字、图片地址或SVG路径，以及在世界空间中的摆放方式
+export interface SceneShapeDescription {
+  type: 'text' | 'image' | 'svgPath'
+  text?: string
+  font?: string
+  src?: string
+  path?: string
+  viewBox?: [number, number]
+  lineWidth?: number
+  color?: string
+  width?: number
+  center?: [number, number, number]
+  depthJitter?: number
+  colorMode?: ShapeColorMode
+  resolution?: number
+}
+
+export interface SceneLayerDescription {
+  type: string
+  name?: string
+  particleCount?: ParticleCountDescription
+  depthRange?: [number, number]
+  sizeRange?: [number, number]
+  distribution?: `${SpatialDistribution}`
+  palette?: PaletteDescription
+  shape?: SceneShapeDescription
+  config?: Partial<LayerConfiguration>
+  options?: Record<string, unknown>    // 插件层的选项，按插件注册的结构校验
+}
+
+// 力场动画：中心绕轴公转、强度脉动或方向旋转（周期单位为秒）
+export type SceneForceAnimation =
+  | { type: 'orbit'; radius: number; period: number; axis?: [number, number, number] }
+  | { type: 'pulse'; amplitude: number; period: number }
+  | { type: 'rotate'; period: number; axis?: [number, number, number] }
+
+// 场景中的力场（引力井、涡旋、风等），省略的参数使用ForceField的默认值
+export interface SceneForceDescription {
+  type: `${ForceFieldType}`
+  name?: string
+  position?: [number, number, number]
+  direction?: [number, number, number]
+  strength?: number
+  radius?: number
+  falloff?: number
+  frequency?: number
+  speed?: number
+  enabled?: boolean
+  animation?: SceneForceAnimation
+}
+
+export interface SceneDescription {
+  version: number
+  name: string
+  description?: string
+  theme?: string
+  layers: SceneLayerDescription[]
+  forces?: SceneForceDescription[]
+}
+
+// 校验时可用的外部信息
+export interface SceneValidationContext {
+  layerTypes: string[]
+  layerOptions?: Record<string, LayerOptionsSchema>
+  themes?: string[]
+  palettes?: string[]
+}
+
+/**
+ * 场景或单个层描述校验失败时抛出，errors中每一项都带有字段路径
+ */
+export class SceneValidationError extends Error {
+  public readonly errors: string[]
+
+  constructor(name: string, errors: string[], subject: 'scene' | 'layer' = 'scene') {
+    super(`Invalid ${subject} "${name}":\n  - ${errors.join('\n  - ')}`)
+    this.name = 'SceneValidationError'
+    this.errors = errors
+  }
+}
+
+// 自定义层必须提供的字段
+const CUSTOM_LAYER_REQUIRED_FIELDS: (keyof SceneLayerDescription)[] = [
+  'name', 'particleCount', 'depthRange', 'sizeRange', 'palette'
+]
+
+const NUMERIC_CONFIG_KEYS: (keyof LayerConfiguration)[] = [
+  'intensity',
+  'depthBase',
+  'depthMultiplier',
+  'orbitalSpeedMultiplier',
+  'velocityMultiplier',
+  'brightnessBase',
+  'brightnessMultiplier',
+  'spriteAspect',
+  'velocityStretch',
+  'spinSpeed'
+]
+
+const LAYER_KEYS = ['type', 'name', 'particleCount', 'depthRange', 'sizeRange', 'distribution', 'palette', 'shape', 'config', 'options']
+const SHAPE_KEYS = [
+  'type', 'text', 'font', 'src', 'path', 'viewBox', 'lineWidth', 'color',
+  'width', 'center', 'depthJitter', 'colorMode', 'resolution'
+]
+// 各形状类型必须提供的字段
+const SHAPE_REQUIRED_FIELDS: Record<SceneShapeDescription['type'], (keyof SceneShapeDescription)[]> = {
+  text: ['text'],
+  image: ['src'],
+  svgPath: ['path', 'viewBox']
+}
+// 需要shape字段的分布
+const SHAPE_DISTRIBUTIONS: string[] = [SpatialDistribution.IMAGE, SpatialDistribution.SVG_PATH, SpatialDistribution.TEXT]
+const FORCE_KEYS = [
+  'type', 'name', 'position', 'direction', 'strength', 'radius', 'falloff', 'frequency', 'speed', 'enabled', 'animation'
+]
+// 各动画类型允许和必须提供的字段
+const FORCE_ANIMATION_FIELDS: Record<SceneForceAnimation['type'], { allowed: string[]; required: string[] }> = {
+  orbit: { allowed: ['type', 'radius', 'period', 'axis'], required: ['radius', 'period'] },
+  pulse: { allowed: ['type', 'amplitude', 'period'], required: ['amplitude', 'period'] },
+  rotate: { allowed: ['type', 'period', 'axis'], required: ['period'] }
+}
+const SCENE_KEYS = ['version', 'name', 'description', 'theme', 'layers', 'forces']
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return 'an array'
+  if (value === null) return 'null'
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  return typeof value === 'string' ? `"${value}"` : typeof value
+}
+
+function checkUnknownKeys(value: Record<string, unknown>, allowed: string[], path: string, errors: string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      errors.push(`${path}.${key}: unknown field (allowed: ${allowed.join(', ')})`)
+    }
+  }
+}
+
+function checkRange(value: unknown, path: string, errors: string[], minimum: number): void {
+  if (!Array.isArray(value) || value.length !== 2 || value.some(v => typeof v !== 'number' || !isFinite(v))) {
+    errors.push(`${path}: expected [min, max] with two numbers, got ${describe(value)}`)
+    return
+  }
+  if (value[0] < minimum) {
+    errors.push(`${path}: min must be >= ${minimum}, got ${value[0]}`)
+  }
+  if (value[0] >= value[1]) {
+    errors.push(`${path}: min (${value[0]}) must be smaller than max (${value[1]})`)
+  }
+}
+
+function checkParticleCount(value: unknown, path: string, errors: string[]): void {
+  const isValidCount = (count: unknown) => typeof count === 'number' && Number.isInteger(count) && count > 0
+
+  if (isObject(value)) {
+    checkUnknownKeys(value, ['compact', 'default'], path, errors)
+    for (const key of ['compact', 'default']) {
+      if (!isValidCount(value[key])) {
+        errors.push(`${path}.${key}: expected a positive integer, got ${describe(value[key])}`)
+      }
+    }
+    return
+  }
+
+  if (!isValidCount(value)) {
+    errors.push(`${path}: expected a positive integer or { compact, default }, got ${describe(value)}`)
+  }
+}
+
+function checkPalette(value: unknown, path: string, errors: string[], palettes?: string[]): void {
+  if (typeof value === 'string') {
+    if (palettes && palettes.length > 0 && !palettes.includes(value)) {
+      errors.push(`${path}: unknown palette "${value}" (available: ${palettes.join(', ')})`)
+    }
+    return
+  }
+
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push(`${path}: expected a palette name or a non-empty list of colors, got ${describe(value)}`)
+    return
+  }
+
+  value.forEach((entry, index) => {
+    const entryPath = `${path}[${index}]`
+    if (typeof entry === 'string') {
+      if (!/^#[0-9a-fA-F]{6}$/.test(entry)) {
+        errors.push(`${entryPath}: expected a "#rrggbb" color, got "${entry}"`)
+      }
+    } else if (isObject(entry) && 'temperature' in entry) {
+      if (typeof entry.temperature !== 'number' || entry.temperature <= 0) {
+        errors.push(`${entryPath}.temperature: expected a positive number of kelvin`)
+      }
+    } else if (isObject(entry) && 'stellarClass' in entry) {
+      if (typeof entry.stellarClass !== 'string' || !/^[OBAFGKMLT]/i.test(entry.stellarClass)) {
+        errors.push(`${entryPath}.stellarClass: expected one of O, B, A, F, G, K, M, L, T`)
+      }
+    } else {
+      errors.push(`${entryPath}: expected "#rrggbb", { temperature } or { stellarClass }, got ${describe(entry)}`)
+    }
+  })
+}
+
+function checkShape(value: unknown, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object, got ${describe(value)}`)
+    return
+  }
+
+  checkUnknownKeys(value, SHAPE_KEYS, path, errors)
+
+  const shapeTypes = Object.keys(SHAPE_REQUIRED_FIELDS)
+  if (typeof value.type !== 'string' || !shapeTypes.includes(value.type)) {
+    errors.push(`${path}.type: expected one of ${shapeTypes.join(', ')}, got ${describe(value.type)}`)
+  } else {
+    for (const field of SHAPE_REQUIRED_FIELDS[value.type as SceneShapeDescription['type']]) {
+      if (!(field in value)) {
+        errors.push(`${path}.${field}: required for ${value.type} shapes`)
+      }
+    }
+  }
+
+  for (const key of ['text', 'font', 'src', 'path', 'color']) {
+    if (key in value && (typeof value[key] !== 'string' || value[key] === '')) {
+      errors.push(`${path}.${key}: expected a non-empty string, got ${describe(value[key])}`)
+    }
+  }
+  for (const key of ['lineWidth', 'width', 'depthJitter', 'resolution']) {
+    if (key in value && (typeof value[key] !== 'number' || !isFinite(value[key] as number) || (value[key] as number) < 0)) {
+      errors.push(`${path}.${key}: expected a non-negative number, got ${describe(value[key])}`)
+    }
+  }
+
+  if ('viewBox' in value) {
+    const viewBox = value.viewBox
+    if (!Array.isArray(viewBox) || viewBox.length !== 2 || viewBox.some(v => typeof v !== 'number' || !(v > 0))) {
+      errors.push(`${path}.viewBox: expected [width, height] with two positive numbers, got ${describe(viewBox)}`)
+    }
+  }
+  if ('center' in value) {
+    const center = value.center
+    if (!Array.isArray(center) || center.length !== 3 || center.some(v => typeof v !== 'number' || !isFinite(v))) {
+      errors.push(`${path}.center: expected [x, y, z] with three numbers, got ${describe(center)}`)
+    }
+  }
+  if ('colorMode' in value && value.colorMode !== 'source' && value.colorMode !== 'palette') {
+    errors.push(`${path}.colorMode: expected "source" or "palette", got ${describe(value.colorMode)}`)
+  }
+}
+
+function checkConfig(value: unknown, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object, got ${describe(value)}`)
+    return
+  }
+
+  checkUnknownKeys(value, [...NUMERIC_CONFIG_KEYS, 'simulationMode', 'renderMode', 'shaderDefines', 'shaderProgram'], path, errors)
+
+  for (const key of NUMERIC_CONFIG_KEYS) {
+    if (key in value && (typeof value[key] !== 'number' || !isFinite(value[key] as number))) {
+      errors.push(`${path}.${key}: expected a number, got ${describe(value[key])}`)
+    }
+  }
+
+  const simulationModes = Object.values(SimulationMode) as string[]
+  if ('simulationMode' in value && !simulationModes.includes(value.simulationMode as string)) {
+    errors.push(`${path}.simulationMode: expected one of ${simulationModes.join(', ')}, got ${describe(value.simulationMode)}`)
+  }
+
+  const renderModes = Object.values(RenderMode) as string[]
+  if ('renderMode' in value && !renderModes.includes(value.renderMode as string)) {
+    errors.push(`${path}.renderMode: expected one of ${renderModes.join(', ')}, got ${describe(value.renderMode)}`)
+  }
+
+  if ('shaderDefines' in value) {
+    checkShaderDefines(value.shaderDefines, `${path}.shaderDefines`, errors)
+  }
+
+  // 点精灵默认使用基础着色器，场景可选用增强的points程序
+  const shaderPrograms = ['simple', 'points']
+  if ('shaderProgram' in value && !shaderPrograms.includes(value.shaderProgram as string)) {
+    errors.push(`${path}.shaderProgram: expected one of ${shaderPrograms.join(', ')}, got ${describe(value.shaderProgram)}`)
+  }
+}
+
+// 着色器定义：GLSL宏名映射到布尔值或有限数值
+function checkShaderDefines(value: unknown, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object, got ${describe(value)}`)
+    return
+  }
+
+  for (const [name, define] of Object.entries(value)) {
+    if (!/^[A-Za-z_]\w*$/.test(name)) {
+      errors.push(`${path}: "${name}" is not a valid GLSL macro name`)
+    } else if (typeof define !== 'boolean' && (typeof define !== 'number' || !isFinite(define))) {
+      errors.push(`${path}.${name}: expected a boolean or number, got ${describe(define)}`)
+    }
+  }
+}
+
+function checkVector3(value: unknown, path: string, errors: string[]): void {
+  if (!Array.isArray(value) || value.length !== 3 || value.some(v => typeof v !== 'number' || !isFinite(v))) {
+    errors.push(`${path}: expected [x, y, z] with three numbers, got ${describe(value)}`)
+  }
+}
+
+function checkForceAnimation(value: unknown, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object, got ${describe(value)}`)
+    return
+  }
+
+  const animationTypes = Object.keys(FORCE_ANIMATION_FIELDS)
+  if (typeof value.type !== 'string' || !animationTypes.includes(value.type)) {
+    errors.push(`${path}.type: expected one of ${animationTypes.join(', ')}, got ${describe(value.type)}`)
+    return
+  }
+
+  const fields = FORCE_ANIMATION_FIELDS[value.type as SceneForceAnimation['type']]
+  checkUnknownKeys(value, fields.allowed, path, errors)
+  for (const field of fields.required) {
+    if (!(field in value)) {
+      errors.push(`${path}.${field}: required for ${value.type} animations`)
+    }
+  }
+
+  for (const key of ['radius', 'amplitude']) {
+    if (key in value && (typeof value[key] !== 'number' || !isFinite(value[key] as number))) {
+      errors.push(`${path}.${key}: expected a number, got ${describe(value[key])}`)
+    }
+  }
+  if ('period' in value && (typeof value.period !== 'number' || !(value.period > 0))) {
+    errors.push(`${path}.period: expected a positive number of seconds, got ${describe(value.period)}`)
+  }
+  if ('axis' in value) checkVector3(value.axis, `${path}.axis`, errors)
+}
+
+function checkForce(value: unknown, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected a force object, got ${describe(value)}`)
+    return
+  }
+
+  checkUnknownKeys(value, FORCE_KEYS, path, errors)
+
+  const forceTypes = Object.values(ForceFieldType) as string[]
+  if (typeof value.type !== 'string' || !forceTypes.includes(value.type)) {
+    errors.push(`${path}.type: expected one of ${forceTypes.join(', ')}, got ${describe(value.type)}`)
+  }
+
+  if ('name' in value && (typeof value.name !== 'string' || value.name.trim() === '')) {
+    errors.push(`${path}.name: expected a non-empty string`)
+  }
+  if ('position' in value) checkVector3(value.position, `${path}.position`, errors)
+  if ('direction' in value) {
+    checkVector3(value.direction, `${path}.direction`, errors)
+    if (Array.isArray(value.direction) && value.direction.every(v => v === 0)) {
+      errors.push(`${path}.direction: must not be a zero vector`)
+    }
+  }
+  if ('strength' in value && (typeof value.strength !== 'number' || !isFinite(value.strength))) {
+    errors.push(`${path}.strength: expected a number, got ${describe(value.strength)}`)
+  }
+  for (const key of ['radius', 'falloff', 'frequency', 'speed']) {
+    if (key in value && (typeof value[key] !== 'number' || !isFinite(value[key] as number) || (value[key] as number) < 0)) {
+      errors.push(`${path}.${key}: expected a non-negative number, got ${describe(value[key])}`)
+    }
+  }
+  if ('enabled' in value && typeof value.enabled !== 'boolean') {
+    errors.push(`${path}.enabled: expected true or false, got ${describe(value.enabled)}`)
+  }
+  if ('animation' in value) checkForceAnimation(value.animation, `${path}.animation`, errors)
+}
+
+function checkOption(value: unknown, spec: LayerOptionSpec, path: string, errors: string[]): void {
+  switch (spec.type) {
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !isFinite(value) || (spec.type === 'integer' && !Number.isInteger(value))) {
+        errors.push(`${path}: expected ${spec.type === 'integer' ? 'an integer' : 'a number'}, got ${describe(value)}`)
+      } else if (spec.min !== undefined && value < spec.min) {
+        errors.push(`${path}: must be >= ${spec.min}, got ${value}`)
+      } else if (spec.max !== undefined && value > spec.max) {
+        errors.push(`${path}: must be <= ${spec.max}, got ${value}`)
+      }
+      break
+
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`${path}: expected a string, got ${describe(value)}`)
+      } else if (spec.values && !spec.values.includes(value)) {
+        errors.push(`${path}: expected one of ${spec.values.join(', ')}, got "${value}"`)
+      }
+      break
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`${path}: expected true or false, got ${describe(value)}`)
+      }
+      break
+
+    case 'color':
+      if (typeof value !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(value)) {
+        errors.push(`${path}: expected a "#rrggbb" color, got ${describe(value)}`)
+      }
+      break
+
+    case 'vector3':
+      checkVector3(value, path, errors)
+      break
+  }
+}
+
+/**
+ * 按插件注册的选项结构校验层选项，返回带路径的错误列表
+ */
+export function validateLayerOptions(value: unknown, schema: LayerOptionsSchema | undefined, path: string): string[] {
+  const errors: string[] = []
+  const options = value ?? {}
+
+  if (!isObject(options)) {
+    return [`${path}: expected an object, got ${describe(options)}`]
+  }
+  if (!schema) {
+    if (Object.keys(options).length > 0) {
+      errors.push(`${path}: this layer type takes no options`)
+    }
+    return errors
+  }
+
+  checkUnknownKeys(options, Object.keys(schema), path, errors)
+
+  for (const [key, spec] of Object.entries(schema)) {
+    if (!(key in options)) {
+      if (spec.required) {
+        errors.push(`${path}.${key}: required`)
+      }
+      continue
+    }
+    checkOption(options[key], spec, `${path}.${key}`, errors)
+  }
+
+  return errors
+}
+
+function checkLayer(value: unknown, path: string, errors: string[], context: SceneValidationContext): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected a layer object, got ${describe(value)}`)
+    return
+  }
+
+  checkUnknownKeys(value, LAYER_KEYS, path, errors)
+
+  if (typeof value.type !== 'string') {
+    errors.push(`${path}.type: required, expected one of ${context.layerTypes.join(', ')}`)
+  } else if (!context.layerTypes.includes(value.type)) {
+    errors.push(`${path}.type: unknown layer type "${value.type}" (available: ${context.layerTypes.join(', ')})`)
+  } else if (value.type === 'custom') {
+    for (const field of CUSTOM_LAYER_REQUIRED_FIELDS) {
+      if (!(field in value)) {
+        errors.push(`${path}.${field}: required for custom layers`)
+      }
+    }
+  }
+
+  if ('name' in value && (typeof value.name !== 'string' || value.name.trim() === '')) {
+    errors.push(`${path}.name: expected a non-empty string`)
+  }
+  if ('particleCount' in value) checkParticleCount(value.particleCount, `${path}.particleCount`, errors)
+  if ('depthRange' in value) checkRange(value.depthRange, `${path}.depthRange`, errors, 0)
+  if ('sizeRange' in value) checkRange(value.sizeRange, `${path}.sizeRange`, errors, 0)
+  if ('palette' in value) checkPalette(value.palette, `${path}.palette`, errors, context.palettes)
+  if ('config' in value) checkConfig(value.config, `${path}.config`, errors)
+  if ('shape' in value) checkShape(value.shape, `${path}.shape`, errors)
+  if (typeof value.type === 'string' && context.layerTypes.includes(value.type)) {
+    errors.push(...validateLayerOptions(value.options, context.layerOptions?.[value.type], `${path}.options`))
+  }
+
+  const distributions = Object.values(SpatialDistribution) as string[]
+  if ('distribution' in value && !distributions.includes(value.distribution as string)) {
+    errors.push(`${path}.distribution: expected one of ${distributions.join(', ')}, got ${describe(value.distribution)}`)
+  } else if (SHAPE_DISTRIBUTIONS.includes(value.distribution as string) && !('shape' in value)) {
+    errors.push(`${path}.shape: required for the "${value.distribution}" distribution`)
+  }
+}
+
+/**
+ * 校验单个层描述（运行时添加层时使用）
+ */
+export function validateLayerDescription(data: unknown, context: SceneValidationContext): string[] {
+  const errors: string[] = []
+  checkLayer(data, 'layer', errors, context)
+  return errors
+}
+
+/**
+ * 校验场景描述，返回带路径的可读错误列表（为空表示有效）
+ */
+export function validateSceneDescription(data: unknown, context: SceneValidationContext): string[] {
+  const errors: string[] = []
+
+  if (!isObject(data)) {
+    return [`scene: expected an object, got ${describe(data)}`]
+  }
+
+  checkUnknownKeys(data, SCENE_KEYS, 'scene', errors)
+
+  if (data.version !== SCENE_FORMAT_VERSION) {
+    errors.push(`scene.version: expected ${SCENE_FORMAT_VERSION}, got ${describe(data.version)}`)
+  }
+  if (typeof data.name !== 'string' || data.name.trim() === '') {
+    errors.push('scene.name: required, expected a non-empty string')
+  }
+  if ('description' in data && typeof data.description !== 'string') {
+    errors.push(`scene.description: expected a string, got ${describe(data.description)}`)
+  }
+  if ('theme' in data) {
+    if (typeof data.theme !== 'string') {
+      errors.push(`scene.theme: expected a string, got ${describe(data.theme)}`)
+    } else if (context.themes && !context.themes.includes(data.theme)) {
+      errors.push(`scene.theme: unknown theme "${data.theme}" (available: ${context.themes.join(', ')})`)
+    }
+  }
+
+  if (!Array.isArray(data.layers) || data.layers.length === 0) {
+    errors.push('scene.layers: required, expected a non-empty array of layers')
+    return errors
+  }
+
+  const seenNames = new Set<string>()
+  data.layers.forEach((layer, index) => {
+    const path = `scene.layers[${index}]`
+    checkLayer(layer, path, errors, context)
+
+    // 同名层会相互替换，视为错误
+    if (isObject(layer)) {
+      const layerName = typeof layer.name === 'string' ? layer.name : layer.type
+      if (typeof layerName === 'string') {
+        if (seenNames.has(layerName)) {
+          errors.push(`${path}: duplicate layer name "${layerName}", set a unique "name"`)
+        }
+        seenNames.add(layerName)
+      }
+    }
+  })
+
+  if ('forces' in data) {
+    if (!Array.isArray(data.forces)) {
+      errors.push(`scene.forces: expected an array of forces, got ${describe(data.forces)}`)
+    } else {
+      // 光标吸引子占用一个力场槽位
+      const maxForces = ForceFieldSystem.MAX_FIELDS - 1
+      if (data.forces.length > maxForces) {
+        errors.push(`scene.forces: at most ${maxForces} forces are supported, got ${data.forces.length}`)
+      }
+
+      const seenForceNames = new Set<string>()
+      data.forces.forEach((force, index) => {
+        const path = `scene.forces[${index}]`
+        checkForce(force, path, errors)
+
+        if (isObject(force) && typeof force.name === 'string') {
+          if (seenForceNames.has(force.name)) {
+            errors.push(`${path}: duplicate force name "${force.name}"`)
+          }
+          seenForceNames.add(force.name)
+        }
+      })
+    }
+  }
+
+  return errors
+}
@@ -0,0 +1,191 @@
+import * as THREE from 'three'
+import type { ParticleLayer, LayerOverrides, ShapeLayout } from '../ParticleLayer'
+import { SpatialDistribution } from '../types'
+import { ColorSystem } from '../utils/ColorSystem'
+import type { ShapeSource } from '../utils/ShapeSampler'
+import type { LayerRegistry } from '../plugins/LayerRegistry'
+import { ForceField, ForceFieldAnimations, type ForceFieldType, type ForceFieldAnimation } from '../forces/ForceField'
+import {
+  validateSceneDescription,
+  validateLayerDescription,
+  SceneValidationError,
+  type SceneDescription,
+  type SceneLayerDescription,
+  type SceneShapeDescription,
+  type SceneForceDescription,
+  type SceneForceAnimation,
+  type PaletteDescription,
+  type ParticleCountDescription,
+  type SceneValidationContext
+} from './SceneDescription'
+import { Viewport } from '../utils/Viewport'
+
+/**
+ * 场景加载器 - 把场景描述转换为粒子层实例
+ */
+export class SceneLoader {
+  /**
+   * 解析（可为JSON字符串）并校验场景描述，无效时抛出SceneValidationError
+   * 层类型及其选项结构取自注册表
+   */
+  static parse(
+    source: unknown,
+    registry: LayerRegistry,
+    context: Omit<SceneValidationContext, 'layerTypes' | 'layerOptions'> = {}
+  ): SceneDescription {
+    let data = source
+    if (typeof source === 'string') {
+      try {
+        data = JSON.parse(source)
+      } catch (error) {
+        throw new SceneValidationError('<json>', [`scene: invalid JSON (${(error as Error).message})`])
+      }
+    }
+
+    const errors = validateSceneDescription(data, {
+      ...context,
+      layerTypes: registry.getTypes(),
+      layerOptions: registry.getOptionSchemas()
+    })
+    if (errors.length > 0) {
+      const name = typeof (data as { name?: unknown })?.name === 'string' ? (data as { name: string }).name : '<unnamed>'
+      throw new SceneValidationError(name, errors)
+    }
+
+    return data as SceneDescription
+  }
+
+  /**
+   * 校验单个层描述并创建层（尚未调用create），无效时抛出SceneValidationError
+   */
+  static parseLayer(
+    description: unknown,
+    registry: LayerRegistry,
+    context: Omit<SceneValidationContext, 'layerTypes' | 'layerOptions'> = {}
+  ): ParticleLayer {
+    const errors = validateLayerDescription(description, {
+      ...context,
+      layerTypes: registry.getTypes(),
+      layerOptions: registry.getOptionSchemas()
+    })
+    if (errors.length > 0) {
+      const name = typeof (description as { name?: unknown })?.name === 'string' ? (description as { name: string }).name : '<unnamed>'
+      throw new SceneValidationError(name, errors, 'layer')
+    }
+
+    return this.createLayer(description as SceneLayerDescription, registry)
+  }
+
+  /**
+   * 按声明顺序创建场景中的所有层（尚未调用create）
+   */
+  static createLayers(scene: SceneDescription, registry: LayerRegistry): ParticleLayer[] {
+    return scene.layers.map(layer => this.createLayer(layer, registry))
+  }
+
+  static createLayer(description: SceneLayerDescription, registry: LayerRegistry): ParticleLayer {
+    const layer = registry.create(description.type, this.toOverrides(description), description.options)
+    if (description.shape) {
+      this.applyShape(layer, description.shape)
+    }
+    return layer
+  }
+
+  /**
+   * 创建场景声明的力场，未命名的力场按类型和序号命名
+   */
+  static createForceFields(scene: SceneDescription): ForceField[] {
+    return (scene.forces ?? []).map((description, index) => this.createForceField(description, `${scene.name}-${description.type}-${index}`))
+  }
+
+  static createForceField(description: SceneForceDescription, defaultName: string): ForceField {
+    const field = new ForceField({
+      name: description.name ?? defaultName,
+      type: description.type as ForceFieldType
+    })
+
+    if (description.position !== undefined) field.position.fromArray(description.position)
+    if (description.direction !== undefined) field.direction.fromArray(description.direction).normalize()
+    if (description.strength !== undefined) field.strength = description.strength
+    if (description.radius !== undefined) field.radius = description.radius
+    if (description.falloff !== undefined) field.falloff = description.falloff
+    if (description.frequency !== undefined) field.frequency = description.frequency
+    if (description.speed !== undefined) field.speed = description.speed
+    if (description.enabled !== undefined) field.enabled = description.enabled
+    if (description.animation !== undefined) field.animation = this.createForceAnimation(field, description.animation)
+
+    return field
+  }
+
+  static createForceAnimation(field: ForceField, animation: SceneForceAnimation): ForceFieldAnimation {
+    const axis = 'axis' in animation && animation.axis ? new THREE.Vector3().fromArray(animation.axis) : undefined
+
+    switch (animation.type) {
+      case 'orbit':
+        return ForceFieldAnimations.orbit(field.position, animation.radius, animation.period, axis)
+      case 'pulse':
+        return ForceFieldAnimations.pulse(field.strength, animation.amplitude, animation.period)
+      case 'rotate':
+        return ForceFieldAnimations.rotateDirection(animation.period, axis)
+    }
+  }
+
+  static toOverrides(description: SceneLayerDescription): LayerOverrides {
+    const overrides: LayerOverrides = {}
+
+    if (description.name !== undefined) overrides.name = description.name
+    if (description.particleCount !== undefined) overrides.particleCount = this.resolveParticleCount(description.particleCount)
+    if (description.depthRange !== undefined) overrides.depthRange = [...description.depthRange]
+    if (description.sizeRange !== undefined) overrides.sizeRange = [...description.sizeRange]
+    if (description.palette !== undefined) overrides.colorPalette = this.resolvePalette(description.palette)
+    if (description.distribution !== undefined) overrides.spatialDistribution = description.distribution as SpatialDistribution
+    if (description.config !== undefined) overrides.layerConfig = { ...description.config }
+
+    return overrides
+  }
+
+  /**
+   * 把形状应用到层上；图片异步加载，加载完成前使用球形分布
+   */
+  static applyShape(layer: ParticleLayer, shape: SceneShapeDescription): void {
+    const layout: Partial<ShapeLayout> = {}
+    if (shape.width !== undefined) layout.width = shape.width
+    if (shape.center !== undefined) layout.center = [...shape.center]
+    if (shape.depthJitter !== undefined) layout.depthJitter = shape.depthJitter
+    if (shape.colorMode !== undefined) layout.colorMode = shape.colorMode
+    const samplerOptions = shape.resolution !== undefined ? { resolution: shape.resolution } : {}
+
+    if (shape.type === 'image') {
+      layer.loadShapeImage(shape.src!, layout, samplerOptions).catch(error => {
+        console.warn(`Layer ${layer.name} keeps its fallback distribution:`, error)
+      })
+      return
+    }
+
+    const source: ShapeSource = shape.type === 'text'
+      ? { type: 'text', text: shape.text!, font: shape.font, color: shape.color }
+      : { type: 'svgPath', path: shape.path!, viewBox: [...shape.viewBox!], lineWidth: shape.lineWidth, color: shape.color }
+    layer.setShape(source, layout, samplerOptions)
+  }
+
+  static resolveParticleCount(count: ParticleCountDescription): number {
+    if (typeof count === 'number') return count
+    return Viewport.isCompact() ? count.compact : count.default
+  }
+
+  static resolvePalette(palette: PaletteDescription): THREE.Color[] {
+    if (typeof palette === 'string') {
+      const namedPalette = ColorSystem.getPalette(palette)
+      if (!namedPalette) {
+        throw new Error(`Unknown palette: ${palette}`)
+      }
+      return namedPalette.colors.map(color => color.clone())
+    }
+
+    return palette.map(entry => {
+      if (typeof entry === 'string') return new THREE.Color(entry)
+      if ('temperature' in entry) return ColorSystem.temperatureToColor(entry.temperature)
+      return ColorSystem.stellarClassToColor(entry.stellarClass)
+    })
+  }
+}
@@ -0,0 +1,12 @@
+// 内置场景导出
+import defaultScene from './default.json'
+import nebulaDriftScene from './nebula-drift.json'
+import gravityWellScene from './gravity-well.json'
+import nightSkyScene from './night-sky.json'
+
+export const builtinScenes: Record<string, unknown> = {
+  default: defaultScene,
+  'nebula-drift': nebulaDriftScene,
+  'gravity-well': gravityWellScene,
+  'night-sky': nightSkyScene
+}
@@ -1,274 +1,508 @@
 // Enhanced Deep Space Particle Shaders
-// 增强版深空粒子着色器，具有3D轨道运动、多层发光和距离雾化效果
+// 深空粒子着色器程序，共用的效果以 #include <片段名> 引用ShaderChunks中的片段
+// 效果开关由ShaderLibrary按质量等级和层的定义生成的#define决定：
+//   QUALITY_LEVEL        质量等级（0低 1中 2高 3超高）
+//   USE_DEPTH_FOG        深度雾化
+//   USE_ENERGY_WAVES     能量波位移和增亮
+//   USE_CLICK_RIPPLES    点击涟漪
+//   USE_ORBITAL_MOTION   3D轨道运动和深度视差（层选用）
+//   USE_TYPE_BREATHING   按粒子类型区分的呼吸脉动（层选用）
+//   USE_GLOW_HALO        多层发光和能量光环，高质量以上生效（层选用）
+//   GPU_SIMULATION       位置从模拟纹理读取
+// simple程序不引用片段也不读取宏，作为着色器编译失败时的备用
+
+import type { ShaderProgramSource } from './ShaderLibrary'
 
 export class EnhancedShaders {
-  // 增强版顶点着色器 - 3D轨道运动和呼吸效果
-  static getEnhancedVertexShader(): string {
+  // 点精灵顶点着色器
+  static getPointsVertexShader(): string {
     return `
-      precision highp float;
-      
+      #ifdef GPU_SIMULATION
+        precision highp float;
+      #else
+        precision mediump float;
+      #endif
+
       // 自定义属性（Three.js内置了position）
       attribute vec3 color;
       attribute float size;
-      attribute vec3 velocity;
       attribute float phase;
       attribute float depth;
       attribute float orbitalSpeed;
       attribute float particleType;
 
-      // 传递给片段着色器的变量
+      #ifdef GPU_SIMULATION
+        attribute vec2 simUv;
+        uniform sampler2D positionTexture;
+      #endif
+
       varying vec3 vColor;
       varying float vAlpha;
-      varying float vSize;
-      varying float vDepth;
+      varying float vFogDistance;
       varying float vType;
-      varying vec3 vPosition;
 
-      // 自定义统一变量（Three.js内置了cameraPosition, modelMatrix等）
       uniform float time;
       uniform vec2 mouse;
       uniform float intensity;
-      
-      // 3D轨道运动函数
-      vec3 orbitalMotion(vec3 pos, float t, float speed, float ph) {
-        float angle = t * speed + ph;
-        float radius = length(pos.xz);
-        
-        // 螺旋运动
-        vec3 newPos = pos;
-        newPos.x = cos(angle) * radius;
-        newPos.z = sin(angle) * radius;
-        
-        // 垂直呼吸效果
-        newPos.y += sin(t * 2.0 + ph) * 0.5;
-        
-        return newPos;
-      }
-      
-      // 鼠标交互的3D视差效果
-      vec3 mouseParallax(vec3 pos, vec2 mousePos, float d) {
-        vec3 parallax = vec3(0.0);
-        float parallaxStrength = (1.0 - d) * 8.0;
-        
-        parallax.x = mousePos.x * parallaxStrength;
-        parallax.y = mousePos.y * parallaxStrength;
-        parallax.z = length(mousePos) * parallaxStrength * 0.5;
-        
-        return pos + parallax;
+
+      #include <energy_waves>
+      #include <click_ripples>
+      #include <orbital_motion>
+      #include <breathing>
+
+      void main() {
+        vType = particleType;
+
+        #ifdef GPU_SIMULATION
+          // 位置由模拟纹理提供，保留跨帧状态
+          vec3 pos = texture2D(positionTexture, simUv).xyz;
+        #else
+          vec3 pos = position;
+        #endif
+
+        #if defined(USE_ORBITAL_MOTION) && !defined(GPU_SIMULATION)
+          pos = orbitalMotion(pos, time, orbitalSpeed, phase);
+          pos = mouseParallax(pos, mouse, depth);
+        #else
+          // 简单的鼠标交互
+          pos.x += mouse.x * depth * 2.0;
+          pos.y += mouse.y * depth * 2.0;
+        #endif
+
+        float breathe = breathingEffect(time, phase, particleType);
+
+        // 能量波在世界空间中推开并提亮粒子（模拟模式下只影响显示，不写回模拟状态）
+        vec3 worldPos = (modelMatrix * vec4(pos, 1.0)).xyz;
+        vec3 waveGlow = applyEnergyWaves(worldPos);
+        float waveBoost = max(waveGlow.r, max(waveGlow.g, waveGlow.b));
+        vColor = color + waveGlow;
+        vAlpha = min(1.0, depth + waveBoost * 0.5);
+
+        vec4 mvPosition = viewMatrix * vec4(worldPos, 1.0);
+        gl_Position = projectionMatrix * mvPosition;
+        vFogDistance = length(mvPosition.xyz);
+
+        // 点击涟漪扫过时粒子变大变亮
+        float ripple = clickRippleAmount(gl_Position);
+        vAlpha = min(1.0, vAlpha + ripple * 0.5);
+
+        gl_PointSize = size * breathe * intensity * (1.0 + waveBoost + ripple * 0.5);
+        #if defined(USE_ORBITAL_MOTION) && !defined(GPU_SIMULATION)
+          // 随距离缩小
+          gl_PointSize /= 1.0 + vFogDistance * 0.01;
+        #endif
       }
-      
-      // 呼吸和脉动效果
-      float breathingEffect(float t, float ph, float type) {
-        float baseBreath = 0.8 + sin(t * 1.5 + ph) * 0.2;
-        
-        // 根据粒子类型调整呼吸效果
-        if (type == 1.0) { // 超新星
-          baseBreath *= 1.5 + sin(t * 8.0 + ph) * 0.3;
-        } else if (type == 2.0) { // 脉冲星
-          baseBreath *= 1.2 + sin(t * 12.0 + ph) * 0.4;
-        }
-        
-        return baseBreath;
+    `;
+  }
+
+  // 点精灵片段着色器 - 柔和圆点，高质量下可换成多层发光和能量光环
+  static getPointsFragmentShader(): string {
+    return `
+      precision mediump float;
+
+      varying vec3 vColor;
+      varying float vAlpha;
+      varying float vFogDistance;
+      varying float vType;
+
+      uniform float time;
+      uniform float intensity;
+      uniform float layerOpacity;
+
+      #include <depth_fog>
+      #include <glow>
+
+      void main() {
+        vec2 center = gl_PointCoord - 0.5;
+        float dist = length(center);
+
+        if (dist > 0.5) discard;
+
+        #if defined(USE_GLOW_HALO) && QUALITY_LEVEL >= 2
+          vec4 color = multiLayerGlow(center, vColor, vType, time) + energyHalo(center, vColor, vType, time);
+          color.a *= vAlpha * intensity;
+          color = applyDepthFog(color, vFogDistance);
+
+          // 超过1的发光强度转为HDR亮度，由后期处理的色调映射压缩，不再截断成一片白
+          float overdrive = max(color.a - 1.0, 0.0);
+          color.rgb = max(color.rgb, 0.0) * (1.0 + overdrive);
+          color.a = clamp(color.a, 0.0, 1.0);
+
+          gl_FragColor = color;
+        #else
+          float alpha = 1.0 - smoothstep(0.0, 0.5, dist);
+          alpha *= vAlpha * intensity;
+
+          gl_FragColor = applyDepthFog(vec4(vColor, alpha), vFogDistance);
+        #endif
+
+        // 层渐入渐出
+        gl_FragColor.a *= layerOpacity;
       }
-      
+    `;
+  }
+
+  // 发射器粒子顶点着色器 - 位置由CPU积分，depth属性承载生命周期透明度
+  static getEmitterVertexShader(): string {
+    return `
+      precision mediump float;
+
+      attribute vec3 color;
+      attribute float size;
+      attribute float depth;
+      attribute float particleType;
+
+      varying vec3 vColor;
+      varying float vAlpha;
+      varying float vFogDistance;
+      varying float vType;
+
+      uniform float intensity;
+
+      #include <energy_waves>
+
       void main() {
-        vColor = color;
-        vDepth = depth;
         vType = particleType;
-        
-        // 应用3D轨道运动
-        vec3 pos = orbitalMotion(position, time, orbitalSpeed, phase);
-        
-        // 应用鼠标视差效果
-        pos = mouseParallax(pos, mouse, depth);
-        
-        // 计算世界位置
-        vec4 worldPosition = modelMatrix * vec4(pos, 1.0);
-        vPosition = worldPosition.xyz;
-        
-        // 应用模型视图变换
-        vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
-        
-        // 计算透视投影
+
+        vec3 worldPos = (modelMatrix * vec4(position, 1.0)).xyz;
+        vec3 waveGlow = applyEnergyWaves(worldPos);
+        float waveBoost = max(waveGlow.r, max(waveGlow.g, waveGlow.b));
+        vColor = color + waveGlow;
+        // 生命周期透明度为0的粒子保持隐藏
+        vAlpha = min(1.0, depth * (1.0 + waveBoost));
+
+        vec4 mvPosition = viewMatrix * vec4(worldPos, 1.0);
         gl_Position = projectionMatrix * mvPosition;
-        
-        // 计算粒子大小 - 基于深度和距离
-        float distanceFromCamera = length(mvPosition.xyz);
-        float sizeFactor = 1.0 / (1.0 + distanceFromCamera * 0.01);
-        
-        // 应用呼吸效果
-        float breathFactor = breathingEffect(time, phase, particleType);
-        
-        // 最终大小计算
-        vSize = size * sizeFactor * breathFactor * intensity;
-        gl_PointSize = vSize;
-        
-        // 计算透明度 - 基于深度和距离
-        vAlpha = depth * (1.0 - distanceFromCamera * 0.003);
-        vAlpha = clamp(vAlpha, 0.0, 1.0);
+        vFogDistance = length(mvPosition.xyz);
+
+        gl_PointSize = size * intensity * (1.0 + waveBoost);
       }
     `;
   }
 
-  // 增强版片段着色器 - 多层发光和距离雾化
-  static getEnhancedFragmentShader(): string {
+  // 实例化四边形顶点着色器 - 每个实例一个粒子，支持旋转、速度拉伸和非正方形精灵
+  static getInstancedQuadVertexShader(): string {
     return `
       precision highp float;
-      
-      // 从顶点着色器传入的变量
+
+      // 四边形角点由内置的position(-0.5到0.5)和uv提供
+
+      // 实例属性（与ParticleData共用缓冲区）
+      attribute vec3 instancePosition;
+      attribute vec3 color;
+      attribute float size;
+      attribute vec3 velocity;
+      attribute float phase;
+      attribute float depth;
+      attribute float particleType;
+
       varying vec3 vColor;
       varying float vAlpha;
-      varying float vSize;
-      varying float vDepth;
-      varying float vType;
-      varying vec3 vPosition;
-      
-      // 自定义统一变量
+      varying vec2 vUv;
+      varying float vFogDistance;
+
       uniform float time;
       uniform vec2 mouse;
       uniform float intensity;
+      uniform vec2 viewport;
+      uniform float spriteAspect;
+      uniform float velocityStretch;
+      uniform float spinSpeed;
+
+      #include <energy_waves>
+      #include <click_ripples>
+      #include <breathing>
+
+      void main() {
+        vUv = uv;
+
+        vec3 pos = instancePosition;
+        pos.x += mouse.x * depth * 2.0;
+        pos.y += mouse.y * depth * 2.0;
+
+        // 能量波在世界空间中推开并提亮粒子
+        vec3 worldPos = (modelMatrix * vec4(pos, 1.0)).xyz;
+        vec3 waveGlow = applyEnergyWaves(worldPos);
+        float waveBoost = max(waveGlow.r, max(waveGlow.g, waveGlow.b));
+        vColor = color + waveGlow;
+        vAlpha = min(1.0, depth + waveBoost * 0.5);
+
+        vec4 mvPosition = viewMatrix * vec4(worldPos, 1.0);
+        vec4 clipCenter = projectionMatrix * mvPosition;
+        vFogDistance = length(mvPosition.xyz);
+
+        float ripple = clickRippleAmount(clipCenter);
+        vAlpha = min(1.0, vAlpha + ripple * 0.5);
+
+        float breathe = breathingEffect(time, phase, particleType);
+        float pixelSize = size * breathe * intensity * (1.0 + waveBoost + ripple * 0.5);
+
+        // 速度在屏幕上的投影（像素/秒）
+        vec4 clipAhead = projectionMatrix * viewMatrix * vec4(worldPos + (modelMatrix * vec4(velocity, 0.0)).xyz, 1.0);
+        vec2 screenVelocity = (clipAhead.xy / clipAhead.w - clipCenter.xy / clipCenter.w) * viewport * 0.5;
+        float screenSpeed = length(screenVelocity);
+
+        // 有速度拉伸时沿速度方向对齐，否则按相位和自转速度旋转
+        float angle = phase + time * spinSpeed;
+        vec2 axis = vec2(cos(angle), sin(angle));
+        float stretch = 1.0;
+        if (velocityStretch > 0.0 && screenSpeed > 0.001 && clipAhead.w > 0.0) {
+          axis = screenVelocity / screenSpeed;
+          stretch = 1.0 + velocityStretch * screenSpeed / max(pixelSize, 1.0);
+        }
+
+        vec2 local = vec2(position.x * spriteAspect * stretch, position.y) * pixelSize;
+        vec2 offset = axis * local.x + vec2(-axis.y, axis.x) * local.y;
+
+        clipCenter.xy += offset * 2.0 / viewport * clipCenter.w;
+        gl_Position = clipCenter;
+      }
+    `;
+  }
+
+  static getInstancedQuadFragmentShader(): string {
+    return `
+      precision mediump float;
+
+      varying vec3 vColor;
+      varying float vAlpha;
+      varying vec2 vUv;
+      varying float vFogDistance;
+
+      uniform float intensity;
+      uniform float layerOpacity;
 
-      // 点击效果相关
-      uniform vec2 clickPositions[5];
-      uniform float clickIntensities[5];
-      uniform float clickRadii[5];
-      uniform int activeClickCount;
-      
-      // 优化的多层发光效果 - 减少计算复杂度
-      vec4 multiLayerGlow(vec2 center, vec3 color, float type, float t) {
+      #include <depth_fog>
+
+      void main() {
+        vec2 center = vUv - 0.5;
         float dist = length(center);
-        
-        // 使用预计算的距离值优化平滑步骤
-        float distSq = dist * dist;
-        
-        // 简化的双层发光模型
-        float coreGlow = exp(-distSq * 25.0); // 核心光层，使用指数衰减
-        float outerGlow = exp(-distSq * 6.25); // 外层光，使用指数衰减
-        
-        // 优化的类型调整 - 减少分支
-        float typeMultiplier = 1.0 + type * 0.5;
-        float pulseEffect = sin(t * (8.0 + type * 4.0)) * 0.3 + 0.7;
-        
-        // 组合光层 - 简化计算
-        float totalGlow = (coreGlow * 0.7 + outerGlow * 0.3) * typeMultiplier * pulseEffect;
-        
-        return vec4(color, totalGlow);
+
+        if (dist > 0.5) discard;
+
+        float alpha = 1.0 - smoothstep(0.0, 0.5, dist);
+        alpha *= vAlpha * intensity * layerOpacity;
+
+        gl_FragColor = applyDepthFog(vec4(vColor, alpha), vFogDistance);
       }
-      
-      // 距离雾化效果
-      vec4 distanceFog(vec4 color, float depth, vec3 pos) {
-        float distanceFromCamera = length(pos - cameraPosition);
-        float fogFactor = 1.0 - exp(-distanceFromCamera * 0.002);
-        
-        // 深空雾化颜色
-        vec3 fogColor = vec3(0.05, 0.1, 0.2);
-        
-        // 应用雾化
-        vec3 finalColor = mix(color.rgb, fogColor, fogFactor * (1.0 - depth));
-        float finalAlpha = color.a * (1.0 - fogFactor * 0.3);
-        
-        return vec4(finalColor, finalAlpha);
+    `;
+  }
+
+  // 星座连线顶点着色器 - 端点使用与星点相同的视差，靠近光标的线段高亮
+  static getConstellationVertexShader(): string {
+    return `
+      precision mediump float;
+
+      attribute float depth;
+      attribute float alpha;
+
+      varying float vAlpha;
+      varying float vHighlight;
+      varying float vShimmer;
+      varying float vFogDistance;
+
+      uniform float time;
+      uniform vec2 mouse;
+      uniform float aspect;
+      uniform float cursorRadius;
+
+      void main() {
+        vAlpha = alpha;
+
+        vec3 pos = position;
+        pos.x += mouse.x * depth * 2.0;
+        pos.y += mouse.y * depth * 2.0;
+
+        vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+        gl_Position = projectionMatrix * mvPosition;
+        vFogDistance = length(mvPosition.xyz);
+
+        // 屏幕空间中与光标的距离（按宽高比修正）
+        vec2 ndc = gl_Position.xy / max(gl_Position.w, 0.0001);
+        vec2 offset = (ndc - mouse) * vec2(aspect, 1.0);
+        vHighlight = 1.0 - smoothstep(0.0, cursorRadius, length(offset));
+
+        // 沿线缓慢流动的明暗变化
+        vShimmer = 0.8 + sin(time * 1.5 + position.x * 0.3 + position.y * 0.2) * 0.2;
       }
-      
-      // 优化的能量光环效果 - 增强真实感
-      vec4 energyHalo(vec2 center, vec3 color, float type, float t) {
-        float dist = length(center);
-        
-        // 基于粒子类型的不同光环效果
-        float halo = 0.0;
-        
-        if (type == 1.0) { // 超新星 - 强烈的冲击波效果
-          float shockwave = sin(dist * 20.0 - t * 8.0) * 0.5 + 0.5;
-          halo = exp(-dist * 8.0) * shockwave * 2.0;
-        } else if (type == 2.0) { // 脉冲星 - 旋转的射电束
-          float angle = atan(center.y, center.x);
-          float beam = sin(angle * 2.0 + t * 15.0) * 0.5 + 0.5;
-          halo = exp(-dist * 12.0) * beam * 1.5;
-        } else if (type == 3.0) { // 星云 - 柔和的扩散光
-          halo = exp(-dist * 3.0) * (0.8 + sin(t * 2.0) * 0.2);
-        } else { // 普通恒星 - 传统的衍射光环
-          float stellarHalo = exp(-dist * 10.0);
-          float twinkle = sin(t * 5.0 + dist * 15.0) * 0.3 + 0.7;
-          halo = stellarHalo * twinkle * 0.6;
-        }
-        
-        return vec4(color, halo * 0.4);
+    `;
+  }
+
+  static getConstellationFragmentShader(): string {
+    return `
+      precision mediump float;
+
+      varying float vAlpha;
+      varying float vHighlight;
+      varying float vShimmer;
+      varying float vFogDistance;
+
+      uniform vec3 color;
+      uniform float opacity;
+      uniform float lineOpacity;
+      uniform float intensity;
+      uniform float layerOpacity;
+
+      #include <depth_fog>
+
+      void main() {
+        float alpha = vAlpha * lineOpacity * opacity * layerOpacity * vShimmer * (1.0 + vHighlight * 2.0);
+        vec3 lineColor = mix(color, vec3(1.0), vHighlight * 0.5) * intensity;
+
+        gl_FragColor = applyDepthFog(vec4(lineColor, min(alpha, 1.0)), vFogDistance);
       }
+    `;
+  }
 
-      // 点击波动效果
-      float calculateClickEffect(vec3 worldPos) {
-        float totalEffect = 0.0;
+  // 体积星云顶点着色器 - 传出包围盒的局部坐标作为光线终点
+  static getNebulaVolumeVertexShader(): string {
+    return `
+      varying vec3 vLocalPosition;
 
-        for (int i = 0; i < 5; i++) {
-          if (i >= activeClickCount) break;
+      void main() {
+        vLocalPosition = position;
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+      }
+    `;
+  }
+
+  // 体积星云片段着色器 - 在包围盒内按STEPS步光线步进fbm噪声密度场
+  static getNebulaVolumeFragmentShader(): string {
+    return `
+      precision highp float;
 
-          // 将屏幕坐标转换为世界坐标（简化版）
-          vec2 screenPos = (worldPos.xy + 1.0) * 0.5;
-          vec2 clickPos = clickPositions[i] / vec2(1920.0, 1080.0); // 假设屏幕分辨率
+      varying vec3 vLocalPosition;
 
-          float distance = length(screenPos - clickPos);
-          float radius = clickRadii[i] / 1000.0; // 标准化半径
+      uniform vec3 cameraLocal;
+      uniform vec3 halfSize;
+      uniform float time;
+      uniform float density;
+      uniform float brightness;
+      uniform float layerOpacity;
+      uniform float noiseScale;
+      uniform float threshold;
+      uniform float driftSpeed;
+      uniform vec3 noiseOffset;
+      uniform vec3 colorA;
+      uniform vec3 colorB;
+      uniform vec3 colorC;
+
+      #include <depth_fog>
+      #include <noise>
+
+      // 归一化坐标（-1到1）下的密度：噪声减去阈值，再乘以椭球包络
+      float sampleDensity(vec3 q) {
+        float envelope = 1.0 - smoothstep(0.35, 1.0, length(q));
+        float n = fbm(q * noiseScale + noiseOffset + vec3(0.0, 0.0, time * driftSpeed));
+        return clamp((n - threshold) * 2.5, 0.0, 1.0) * envelope;
+      }
+
+      vec2 intersectBox(vec3 origin, vec3 direction) {
+        vec3 invDirection = 1.0 / direction;
+        vec3 t0 = (-halfSize - origin) * invDirection;
+        vec3 t1 = (halfSize - origin) * invDirection;
+        vec3 tMin = min(t0, t1);
+        vec3 tMax = max(t0, t1);
+        return vec2(max(max(tMin.x, tMin.y), tMin.z), min(min(tMax.x, tMax.y), tMax.z));
+      }
 
-          if (distance < radius) {
-            float wave = sin((distance / radius) * 3.14159 * 4.0 - time * 8.0) * 0.5 + 0.5;
-            float falloff = 1.0 - (distance / radius);
-            totalEffect += wave * falloff * clickIntensities[i];
+      void main() {
+        vec3 direction = normalize(vLocalPosition - cameraLocal);
+        vec2 bounds = intersectBox(cameraLocal, direction);
+        bounds.x = max(bounds.x, 0.0);
+        if (bounds.x >= bounds.y) discard;
+
+        float stepSize = (bounds.y - bounds.x) / float(STEPS);
+        // 起点抖动，消除分层条纹
+        float t = bounds.x + stepSize * hash(vLocalPosition * 13.7 + fract(time));
+
+        vec3 color = vec3(0.0);
+        float transmittance = 1.0;
+
+        for (int i = 0; i < STEPS; i++) {
+          vec3 q = (cameraLocal + direction * t) / halfSize;
+          float d = sampleDensity(q);
+
+          if (d > 0.001) {
+            // 低频噪声决定发射线颜色的分区，致密处偏向第三种颜色
+            float tint = noise(q * noiseScale * 0.5 + noiseOffset + 3.0);
+            vec3 emission = mix(mix(colorA, colorB, smoothstep(0.25, 0.75, tint)), colorC, smoothstep(0.5, 1.0, d));
+
+            // 远处的星云融入深度雾
+            float fog = depthFogAmount(t);
+            emission = mix(emission, depthFogColor(t), fog * 0.6);
+
+            float absorbed = d * density * stepSize / max(halfSize.x, 0.001);
+            color += transmittance * emission * absorbed * brightness * (1.0 - fog * 0.5);
+            transmittance *= exp(-absorbed);
+            if (transmittance < 0.02) break;
           }
+
+          t += stepSize;
+          if (t > bounds.y) break;
         }
 
-        return clamp(totalEffect, 0.0, 2.0);
+        gl_FragColor = vec4(color, layerOpacity);
       }
+    `;
+  }
+
+  // 星云广告牌顶点着色器 - 低质量下用始终朝向相机的预烘焙贴图代替光线步进
+  static getNebulaBillboardVertexShader(): string {
+    return `
+      varying vec2 vUv;
+      varying float vDistance;
+
+      uniform float billboardSize;
 
       void main() {
-        // 计算中心点
-        vec2 center = gl_PointCoord - 0.5;
-        float dist = length(center);
-        
-        // 丢弃超出半径的片段
-        if (dist > 0.5) discard;
-        
-        // 计算多层发光
-        vec4 glowColor = multiLayerGlow(center, vColor, vType, time);
-        
-        // 添加能量光环
-        vec4 haloColor = energyHalo(center, vColor, vType, time);
-        
-        // 组合效果
-        vec4 finalColor = glowColor + haloColor;
-
-        // 计算点击效果
-        float clickEffect = calculateClickEffect(vPosition);
-        finalColor.rgb += finalColor.rgb * clickEffect * 0.5; // 增强亮度
-        finalColor.a += clickEffect * 0.3; // 增强透明度
-
-        // 应用距离雾化
-        finalColor = distanceFog(finalColor, vDepth, vPosition);
-        
-        // 应用全局透明度和强度
-        finalColor.a *= vAlpha * intensity;
-        
-        // 确保不会过度曝光
-        finalColor.rgb = clamp(finalColor.rgb, 0.0, 2.0);
-        finalColor.a = clamp(finalColor.a, 0.0, 1.0);
-        
-        gl_FragColor = finalColor;
+        vUv = uv;
+        vec4 mvPosition = modelViewMatrix * vec4(0.0, 0.0, 0.0, 1.0);
+        vDistance = length(mvPosition.xyz);
+        mvPosition.xy += position.xy * billboardSize;
+        gl_Position = projectionMatrix * mvPosition;
+      }
+    `;
+  }
+
+  // 星云广告牌片段着色器 - 贴图RGB通道分别是三种发射线颜色的权重
+  static getNebulaBillboardFragmentShader(): string {
+    return `
+      precision mediump float;
+
+      varying vec2 vUv;
+      varying float vDistance;
+
+      uniform sampler2D bakedMap;
+      uniform float brightness;
+      uniform float layerOpacity;
+      uniform vec3 colorA;
+      uniform vec3 colorB;
+      uniform vec3 colorC;
+
+      #include <depth_fog>
+
+      void main() {
+        vec4 weights = texture2D(bakedMap, vUv);
+        vec3 color = colorA * weights.r + colorB * weights.g + colorC * weights.b;
+
+        float fog = depthFogAmount(vDistance);
+        color = mix(color, depthFogColor(vDistance) * weights.a, fog * 0.6) * (1.0 - fog * 0.5);
+
+        gl_FragColor = vec4(color * brightness, layerOpacity);
       }
     `;
   }
 
-  // 备用简化着色器 - 用于兼容性
+  // 基础顶点着色器 - 不引用任何片段和宏，点精灵层默认使用，增强着色器在当前驱动上编译失败时也改用它
   static getSimpleVertexShader(): string {
     return `
       precision mediump float;
-      
-      // 自定义属性（Three.js内置了position）
+
       attribute vec3 color;
       attribute float size;
       attribute float phase;
       attribute float depth;
-      attribute vec3 velocity;
-      attribute float orbitalSpeed;
-      attribute float particleType;
 
       varying vec3 vColor;
       varying float vAlpha;
@@ -276,49 +510,78 @@ export class EnhancedShaders {
       uniform float time;
       uniform vec2 mouse;
       uniform float intensity;
-      
+
       void main() {
-        vColor = color;
-        vAlpha = depth;
-        
         vec3 pos = position;
-        
+
         // 简单的鼠标交互
         pos.x += mouse.x * depth * 2.0;
         pos.y += mouse.y * depth * 2.0;
-        
+
         // 简单的呼吸效果
         float breathe = 0.8 + sin(time * 2.0 + phase) * 0.2;
-        
-        vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
-        gl_Position = projectionMatrix * mvPosition;
-        
+
+        vColor = color;
+        vAlpha = min(1.0, depth);
+
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(pos, 1.0);
         gl_PointSize = size * breathe * intensity;
       }
     `;
   }
 
+  // 基础片段着色器 - 柔和圆点
   static getSimpleFragmentShader(): string {
     return `
       precision mediump float;
-      
+
       varying vec3 vColor;
       varying float vAlpha;
-      
-      uniform float time;
+
       uniform float intensity;
-      
+      uniform float layerOpacity;
+
       void main() {
-        vec2 center = gl_PointCoord - 0.5;
-        float dist = length(center);
-        
+        float dist = length(gl_PointCoord - 0.5);
         if (dist > 0.5) discard;
-        
-        float alpha = 1.0 - smoothstep(0.0, 0.5, dist);
-        alpha *= vAlpha * intensity;
-        
-        gl_FragColor = vec4(vColor, alpha);
+
+        float alpha = (1.0 - smoothstep(0.0, 0.5, dist)) * vAlpha * intensity * layerOpacity;
+        gl_FragColor = vec4(vColor, clamp(alpha, 0.0, 1.0));
       }
     `;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 内置的粒子着色器程序，按名称在ShaderLibrary中取变体
+ */
+export const PARTICLE_SHADER_PROGRAMS: Record<string, ShaderProgramSource> = {
+  points: {
+    vertexShader: EnhancedShaders.getPointsVertexShader(),
+    fragmentShader: EnhancedShaders.getPointsFragmentShader()
+  },
+  emitter: {
+    vertexShader: EnhancedShaders.getEmitterVertexShader(),
+    fragmentShader: EnhancedShaders.getPointsFragmentShader()
+  },
+  instancedQuad: {
+    vertexShader: EnhancedShaders.getInstancedQuadVertexShader(),
+    fragmentShader: EnhancedShaders.getInstancedQuadFragmentShader()
+  },
+  constellation: {
+    vertexShader: EnhancedShaders.getConstellationVertexShader(),
+    fragmentShader: EnhancedShaders.getConstellationFragmentShader()
+  },
+  nebulaVolume: {
+    vertexShader: EnhancedShaders.getNebulaVolumeVertexShader(),
+    fragmentShader: EnhancedShaders.getNebulaVolumeFragmentShader()
+  },
+  nebulaBillboard: {
+    vertexShader: EnhancedShaders.getNebulaBillboardVertexShader(),
+    fragmentShader: EnhancedShaders.getNebulaBillboardFragmentShader()
+  },
+  simple: {
+    vertexShader: EnhancedShaders.getSimpleVertexShader(),
+    fragmentShader: EnhancedShaders.getSimpleFragmentShader()
+  }
+}
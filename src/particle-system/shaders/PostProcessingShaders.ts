@@ -0,0 +1,204 @@
+// Post-processing Shaders
+// 后期处理着色器：全屏四边形采样上一步的画面，前半段在线性HDR空间，色调映射之后为0-1的线性值
+// 最后一步输出到屏幕时由three.js做sRGB转换
+// 画布是透明的（预乘alpha），叠加类效果需要同时混合颜色和alpha，才能盖住画布后面的CSS背景
+
+export class PostProcessingShaders {
+  // 全屏四边形顶点着色器
+  static getQuadVertexShader(): string {
+    return `
+      varying vec2 vUv;
+
+      void main() {
+        vUv = uv;
+        gl_Position = vec4(position.xy, 0.0, 1.0);
+      }
+    `;
+  }
+
+  // 输出到屏幕时转换到sRGB，写入渲染目标时three.js会关闭这一段
+  static getOutputChunk(): string {
+    return `
+      #include <colorspace_fragment>
+    `;
+  }
+
+  // 色调映射 - 算子由TONE_MAPPING_OPERATOR选择，函数来自three.js的tonemapping_pars_fragment
+  // 0: 线性（仅曝光） 1: ACES 2: AgX 3: Reinhard
+  static getToneMappingFragmentShader(): string {
+    return `
+      uniform sampler2D inputTexture;
+      varying vec2 vUv;
+
+      #include <tonemapping_pars_fragment>
+
+      void main() {
+        vec4 color = texture2D(inputTexture, vUv);
+
+        #if TONE_MAPPING_OPERATOR == 1
+          color.rgb = ACESFilmicToneMapping(color.rgb);
+        #elif TONE_MAPPING_OPERATOR == 2
+          color.rgb = AgXToneMapping(color.rgb);
+        #elif TONE_MAPPING_OPERATOR == 3
+          color.rgb = ReinhardToneMapping(color.rgb);
+        #else
+          color.rgb = LinearToneMapping(color.rgb);
+        #endif
+
+        gl_FragColor = vec4(clamp(color.rgb, 0.0, 1.0), clamp(color.a, 0.0, 1.0));
+        ${PostProcessingShaders.getOutputChunk()}
+      }
+    `;
+  }
+
+  // 辉光亮度提取 - 超过阈值的部分按软膝曲线过渡
+  static getBrightPassFragmentShader(): string {
+    return `
+      uniform sampler2D inputTexture;
+      uniform float threshold;
+      uniform float knee;
+      varying vec2 vUv;
+
+      void main() {
+        vec3 color = texture2D(inputTexture, vUv).rgb;
+        float brightness = max(color.r, max(color.g, color.b));
+
+        float soft = clamp(brightness - threshold + knee, 0.0, 2.0 * knee);
+        soft = soft * soft / (4.0 * knee + 1e-4);
+        float contribution = max(soft, brightness - threshold) / max(brightness, 1e-4);
+
+        gl_FragColor = vec4(color * contribution, 1.0);
+      }
+    `;
+  }
+
+  // 9采样可分离高斯模糊，direction为单个纹素的偏移
+  static getBlurFragmentShader(): string {
+    return `
+      uniform sampler2D inputTexture;
+      uniform vec2 direction;
+      varying vec2 vUv;
+
+      void main() {
+        vec3 color = texture2D(inputTexture, vUv).rgb * 0.2270270270;
+        color += texture2D(inputTexture, vUv + direction * 1.3846153846).rgb * 0.3162162162;
+        color += texture2D(inputTexture, vUv - direction * 1.3846153846).rgb * 0.3162162162;
+        color += texture2D(inputTexture, vUv + direction * 3.2307692308).rgb * 0.0702702703;
+        color += texture2D(inputTexture, vUv - direction * 3.2307692308).rgb * 0.0702702703;
+
+        gl_FragColor = vec4(color, 1.0);
+      }
+    `;
+  }
+
+  // 辉光合成 - 模糊后的高光按主题辉光色叠加回原画面
+  static getBloomCompositeFragmentShader(): string {
+    return `
+      uniform sampler2D inputTexture;
+      uniform sampler2D bloomTexture;
+      uniform float strength;
+      uniform vec3 tint;
+      varying vec2 vUv;
+
+      void main() {
+        vec4 base = texture2D(inputTexture, vUv);
+        vec3 bloom = texture2D(bloomTexture, vUv).rgb;
+
+        gl_FragColor = vec4(base.rgb + bloom * tint * strength, base.a);
+        ${PostProcessingShaders.getOutputChunk()}
+      }
+    `;
+  }
+
+  // 色差 - 红蓝通道沿径向错开，越靠近边缘偏移越大
+  static getChromaticAberrationFragmentShader(): string {
+    return `
+      uniform sampler2D inputTexture;
+      uniform float amount;
+      varying vec2 vUv;
+
+      void main() {
+        vec2 fromCenter = vUv - 0.5;
+        vec2 offset = fromCenter * dot(fromCenter, fromCenter) * amount;
+
+        float r = texture2D(inputTexture, vUv + offset).r;
+        vec4 base = texture2D(inputTexture, vUv);
+        float b = texture2D(inputTexture, vUv - offset).b;
+
+        gl_FragColor = vec4(r, base.g, b, base.a);
+        ${PostProcessingShaders.getOutputChunk()}
+      }
+    `;
+  }
+
+  // 暗角 - 边缘像一层主题背景色叠加在画面上
+  static getVignetteFragmentShader(): string {
+    return `
+      uniform sampler2D inputTexture;
+      uniform float offset;
+      uniform float darkness;
+      uniform vec3 vignetteColor;
+      uniform float aspect;
+      varying vec2 vUv;
+
+      void main() {
+        vec4 base = texture2D(inputTexture, vUv);
+        vec2 fromCenter = (vUv - 0.5) * vec2(aspect, 1.0);
+        float vignette = smoothstep(offset, offset + 0.75, length(fromCenter)) * darkness;
+
+        gl_FragColor = mix(base, vec4(vignetteColor, 1.0), vignette);
+        ${PostProcessingShaders.getOutputChunk()}
+      }
+    `;
+  }
+
+  // 胶片颗粒 - 每帧变化的哈希噪声，只作用于画布上已绘制的部分，暗部颗粒更明显
+  static getFilmGrainFragmentShader(): string {
+    return `
+      uniform sampler2D inputTexture;
+      uniform float intensity;
+      uniform float time;
+      uniform vec2 resolution;
+      varying vec2 vUv;
+
+      float grainHash(vec2 p) {
+        vec3 p3 = fract(vec3(p.xyx) * 0.1031);
+        p3 += dot(p3, p3.yzx + 33.33);
+        return fract((p3.x + p3.y) * p3.z);
+      }
+
+      void main() {
+        vec4 base = texture2D(inputTexture, vUv);
+        float noise = grainHash(floor(vUv * resolution) + fract(time * 7.31) * 1000.0) - 0.5;
+        float luminance = dot(base.rgb, vec3(0.2126, 0.7152, 0.0722));
+        float response = 1.0 - smoothstep(0.0, 0.8, luminance) * 0.6;
+
+        gl_FragColor = vec4(max(base.rgb + noise * intensity * response * base.a, 0.0), base.a);
+        ${PostProcessingShaders.getOutputChunk()}
+      }
+    `;
+  }
+
+  // 扫描线 - 与原CSS叠加层一致：4px周期，下半周期叠加主题色，每0.1秒滚动一个周期
+  static getScanlineFragmentShader(): string {
+    return `
+      uniform sampler2D inputTexture;
+      uniform vec3 lineColor;
+      uniform float opacity;
+      uniform float period;
+      uniform float speed;
+      uniform float time;
+      uniform vec2 resolution;
+      varying vec2 vUv;
+
+      void main() {
+        vec4 base = texture2D(inputTexture, vUv);
+        float y = (1.0 - vUv.y) * resolution.y - time * speed;
+        float line = step(0.5, fract(y / period));
+
+        gl_FragColor = mix(base, vec4(lineColor, 1.0), line * opacity);
+        ${PostProcessingShaders.getOutputChunk()}
+      }
+    `;
+  }
+}
@@ -0,0 +1,252 @@
+// Shader Chunks
+// 命名GLSL片段，着色器源码中用 #include <名称> 引用，由ShaderLibrary展开
+// 可按质量开关的效果在片段内用#ifdef判断，未启用时提供同名的空实现，引用处无需改动
+
+export const SHADER_CHUNKS: Record<string, string> = {
+  // 值噪声和fbm，倍频数由OCTAVES决定
+  noise: `
+      #ifndef OCTAVES
+        #define OCTAVES 4
+      #endif
+
+      float hash(vec3 p) {
+        p = fract(p * 0.3183099 + 0.1);
+        p *= 17.0;
+        return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
+      }
+
+      float noise(vec3 x) {
+        vec3 i = floor(x);
+        vec3 f = fract(x);
+        f = f * f * (3.0 - 2.0 * f);
+        return mix(
+          mix(mix(hash(i), hash(i + vec3(1.0, 0.0, 0.0)), f.x),
+              mix(hash(i + vec3(0.0, 1.0, 0.0)), hash(i + vec3(1.0, 1.0, 0.0)), f.x), f.y),
+          mix(mix(hash(i + vec3(0.0, 0.0, 1.0)), hash(i + vec3(1.0, 0.0, 1.0)), f.x),
+              mix(hash(i + vec3(0.0, 1.0, 1.0)), hash(i + vec3(1.0, 1.0, 1.0)), f.x), f.y),
+          f.z
+        );
+      }
+
+      float fbm(vec3 p) {
+        float value = 0.0;
+        float amplitude = 0.5;
+        for (int i = 0; i < OCTAVES; i++) {
+          value += amplitude * noise(p);
+          p = p * 2.02 + vec3(1.7, 9.2, 3.1);
+          amplitude *= 0.5;
+        }
+        return value;
+      }
+  `,
+
+  // 3D轨道运动和随深度变化的鼠标视差
+  orbital_motion: `
+      vec3 orbitalMotion(vec3 pos, float t, float speed, float ph) {
+        float angle = t * speed + ph;
+        float radius = length(pos.xz);
+
+        // 螺旋运动
+        vec3 newPos = pos;
+        newPos.x = cos(angle) * radius;
+        newPos.z = sin(angle) * radius;
+
+        // 垂直呼吸效果
+        newPos.y += sin(t * 2.0 + ph) * 0.5;
+
+        return newPos;
+      }
+
+      vec3 mouseParallax(vec3 pos, vec2 mousePos, float d) {
+        vec3 parallax = vec3(0.0);
+        float parallaxStrength = (1.0 - d) * 8.0;
+
+        parallax.x = mousePos.x * parallaxStrength;
+        parallax.y = mousePos.y * parallaxStrength;
+        parallax.z = length(mousePos) * parallaxStrength * 0.5;
+
+        return pos + parallax;
+      }
+  `,
+
+  // 呼吸缩放，USE_TYPE_BREATHING时超新星和脉冲星叠加更快的脉动
+  breathing: `
+      float breathingEffect(float t, float ph, float type) {
+        #ifdef USE_TYPE_BREATHING
+          float baseBreath = 0.8 + sin(t * 1.5 + ph) * 0.2;
+
+          if (type == 1.0) { // 超新星
+            baseBreath *= 1.5 + sin(t * 8.0 + ph) * 0.3;
+          } else if (type == 2.0) { // 脉冲星
+            baseBreath *= 1.2 + sin(t * 12.0 + ph) * 0.4;
+          }
+
+          return baseBreath;
+        #else
+          return 0.8 + sin(t * 2.0 + ph) * 0.2;
+        #endif
+      }
+  `,
+
+  // 多层发光和按粒子类型区分的能量光环
+  glow: `
+      vec4 multiLayerGlow(vec2 center, vec3 color, float type, float t) {
+        float distSq = dot(center, center);
+
+        // 核心光层和外层光，指数衰减
+        float coreGlow = exp(-distSq * 25.0);
+        float outerGlow = exp(-distSq * 6.25);
+
+        float typeMultiplier = 1.0 + type * 0.5;
+        float pulseEffect = sin(t * (8.0 + type * 4.0)) * 0.3 + 0.7;
+
+        float totalGlow = (coreGlow * 0.7 + outerGlow * 0.3) * typeMultiplier * pulseEffect;
+
+        return vec4(color, totalGlow);
+      }
+
+      vec4 energyHalo(vec2 center, vec3 color, float type, float t) {
+        float dist = length(center);
+        float halo = 0.0;
+
+        if (type == 1.0) { // 超新星 - 强烈的冲击波效果
+          float shockwave = sin(dist * 20.0 - t * 8.0) * 0.5 + 0.5;
+          halo = exp(-dist * 8.0) * shockwave * 2.0;
+        } else if (type == 2.0) { // 脉冲星 - 旋转的射电束
+          float angle = atan(center.y, center.x);
+          float beam = sin(angle * 2.0 + t * 15.0) * 0.5 + 0.5;
+          halo = exp(-dist * 12.0) * beam * 1.5;
+        } else if (type == 3.0) { // 星云 - 柔和的扩散光
+          halo = exp(-dist * 3.0) * (0.8 + sin(t * 2.0) * 0.2);
+        } else { // 普通恒星 - 传统的衍射光环
+          float stellarHalo = exp(-dist * 10.0);
+          float twinkle = sin(t * 5.0 + dist * 15.0) * 0.3 + 0.7;
+          halo = stellarHalo * twinkle * 0.6;
+        }
+
+        return vec4(color, halo * 0.4);
+      }
+  `,
+
+  // 深度雾化 - 按到相机的距离在近/远/深空雾色之间过渡
+  // depthFogAmount返回雾的混合量，applyDepthFog把粒子颜色染向雾色并降低透明度
+  depth_fog: `
+      #ifdef USE_DEPTH_FOG
+        uniform float fogNearDistance;
+        uniform float fogFarDistance;
+        uniform float fogDeepDistance;
+        uniform vec3 fogNearColor;
+        uniform vec3 fogFarColor;
+        uniform vec3 fogDeepColor;
+        uniform float fogIntensity;
+        uniform float fogEnabled;
+
+        float depthFogAmount(float viewDistance) {
+          return fogEnabled * clamp(fogIntensity * smoothstep(fogNearDistance, fogDeepDistance, viewDistance), 0.0, 1.0);
+        }
+
+        vec3 depthFogColor(float viewDistance) {
+          vec3 color = mix(fogNearColor, fogFarColor, smoothstep(fogNearDistance, fogFarDistance, viewDistance));
+          return mix(color, fogDeepColor, smoothstep(fogFarDistance, fogDeepDistance, viewDistance));
+        }
+      #else
+        float depthFogAmount(float viewDistance) {
+          return 0.0;
+        }
+
+        vec3 depthFogColor(float viewDistance) {
+          return vec3(0.0);
+        }
+      #endif
+
+      vec4 applyDepthFog(vec4 color, float viewDistance) {
+        float fog = depthFogAmount(viewDistance);
+        return vec4(mix(color.rgb, depthFogColor(viewDistance), fog * 0.6), color.a * (1.0 - fog * 0.5));
+      }
+  `,
+
+  // 能量波 - 累加所有波前在世界坐标处的位移，返回叠加的增亮颜色
+  energy_waves: `
+      #ifdef USE_ENERGY_WAVES
+        #define MAX_ENERGY_WAVES 8
+
+        uniform int energyWaveCount;
+        uniform vec4 energyWaveA[MAX_ENERGY_WAVES]; // xyz 起点, w 当前半径
+        uniform vec4 energyWaveB[MAX_ENERGY_WAVES]; // xyz 传播方向, w 形状（0球面, 1平面）
+        uniform vec4 energyWaveC[MAX_ENERGY_WAVES]; // rgb 颜色, a 当前强度
+        uniform vec4 energyWaveD[MAX_ENERGY_WAVES]; // 厚度, 位移幅度, 增亮, 未使用
+
+        vec3 applyEnergyWaves(inout vec3 worldPos) {
+          vec3 glow = vec3(0.0);
+          vec3 displacement = vec3(0.0);
+
+          for (int i = 0; i < MAX_ENERGY_WAVES; i++) {
+            if (i >= energyWaveCount) break;
+
+            vec4 a = energyWaveA[i];
+            vec4 b = energyWaveB[i];
+            vec4 c = energyWaveC[i];
+            vec4 d = energyWaveD[i];
+            vec3 offset = worldPos - a.xyz;
+
+            float waveDistance;
+            vec3 pushDirection;
+            if (b.w > 0.5) {
+              waveDistance = dot(offset, b.xyz);
+              pushDirection = b.xyz;
+            } else {
+              waveDistance = length(offset);
+              pushDirection = waveDistance > 0.0001 ? offset / waveDistance : vec3(0.0);
+            }
+
+            // 以波前为中心的高斯剖面
+            float shell = (waveDistance - a.w) / max(d.x, 0.0001);
+            float profile = exp(-shell * shell) * c.a;
+
+            displacement += pushDirection * profile * d.y;
+            glow += c.rgb * profile * d.z;
+          }
+
+          worldPos += displacement;
+          return glow;
+        }
+      #else
+        vec3 applyEnergyWaves(inout vec3 worldPos) {
+          return vec3(0.0);
+        }
+      #endif
+  `,
+
+  // 点击涟漪 - 屏幕空间中从点击位置扩散的圆环，返回粒子所在处的环强度
+  click_ripples: `
+      #ifdef USE_CLICK_RIPPLES
+        #define MAX_CLICK_RIPPLES 5
+
+        uniform int clickRippleCount;
+        uniform vec4 clickRipples[MAX_CLICK_RIPPLES]; // xy 点击位置（CSS像素，原点在左上）, z 当前半径, w 强度
+        uniform vec2 clickRippleViewport;
+
+        float clickRippleAmount(vec4 clipPosition) {
+          if (clipPosition.w <= 0.0) return 0.0;
+
+          vec2 ndc = clipPosition.xy / clipPosition.w;
+          vec2 pixel = vec2(ndc.x * 0.5 + 0.5, 0.5 - ndc.y * 0.5) * clickRippleViewport;
+          float amount = 0.0;
+
+          for (int i = 0; i < MAX_CLICK_RIPPLES; i++) {
+            if (i >= clickRippleCount) break;
+
+            vec4 ripple = clickRipples[i];
+            float ring = (length(pixel - ripple.xy) - ripple.z) / 12.0;
+            amount += exp(-ring * ring) * ripple.w;
+          }
+
+          return amount;
+        }
+      #else
+        float clickRippleAmount(vec4 clipPosition) {
+          return 0.0;
+        }
+      #endif
+  `
+}
@@ -0,0 +1,143 @@
+import * as THREE from 'three'
+import { errorHandler } from '../../utils/ErrorHandler'
+
+export type ShaderStage = 'vertex' | 'fragment'
+
+/**
+ * 编译日志中的一条错误，附带出错行的源码
+ */
+export interface ShaderCompileIssue {
+  stage: ShaderStage
+  line: number      // 从1开始，驱动没有给出行号时为0
+  message: string
+  source: string
+}
+
+/**
+ * 着色器编译或链接失败，消息中逐条列出带行号和源码的错误
+ */
+export class ShaderCompileError extends Error {
+  public readonly issues: ShaderCompileIssue[]
+  public readonly programLog: string
+
+  constructor(context: string, issues: ShaderCompileIssue[], programLog: string = '') {
+    const details = issues.length > 0
+      ? issues.map(issue => ShaderCompileError.formatIssue(issue))
+      : [programLog || 'unknown link error']
+    super(`Shader compilation failed in ${context}:\n  - ${details.join('\n  - ')}`)
+    this.name = 'ShaderCompileError'
+    this.issues = issues
+    this.programLog = programLog
+  }
+
+  private static formatIssue(issue: ShaderCompileIssue): string {
+    const location = issue.line > 0 ? `${issue.stage}:${issue.line}` : issue.stage
+    return issue.source
+      ? `${location} ${issue.message}\n      > ${issue.line}: ${issue.source}`
+      : `${location} ${issue.message}`
+  }
+}
+
+// three.js材质属性中的当前程序，diagnostics在首次使用程序时写入
+interface CompiledProgram {
+  program: WebGLProgram
+  getUniforms(): unknown
+  diagnostics?: { runnable: boolean; programLog: string }
+}
+
+// 各驱动的错误行格式："ERROR: 0:12: ..."（ANGLE等）和 "0:12(5): error: ..."（Mesa）
+const ERROR_LINE_PATTERNS = [
+  /^ERROR:\s*\d+:(\d+):\s*(.*)$/,
+  /^\d+:(\d+)\(\d+\):\s*error:\s*(.*)$/
+]
+
+/**
+ * 着色器编译检查 - 接管three.js的onShaderError，把编译错误解析成带行号的消息交给ErrorHandler
+ * 并在层创建时预先编译材质，让调用方在画面空白之前发现失败
+ */
+export class ShaderCompileChecker {
+  private renderer: THREE.WebGLRenderer
+  private previousHandler: THREE.WebGLRenderer['debug']['onShaderError']
+  // 按WebGL程序记录错误，three.js对同一程序只回调一次
+  private failures: WeakMap<WebGLProgram, ShaderCompileError> = new WeakMap()
+  private context: string = 'Shader Compilation'
+
+  constructor(renderer: THREE.WebGLRenderer) {
+    this.renderer = renderer
+    this.previousHandler = renderer.debug.onShaderError
+
+    renderer.debug.checkShaderErrors = true
+    renderer.debug.onShaderError = (gl, program, vertexShader, fragmentShader) => {
+      this.handleShaderError(gl, program, vertexShader, fragmentShader)
+    }
+  }
+
+  /**
+   * 编译对象（含子对象）的全部材质，返回第一个无法运行的程序的错误，全部可用时返回null
+   */
+  check(object: THREE.Object3D, camera: THREE.Camera, scene: THREE.Scene, context: string): ShaderCompileError | null {
+    const previousContext = this.context
+    this.context = context
+
+    try {
+      const materials = this.renderer.compile(object, camera, scene)
+
+      for (const material of materials) {
+        const program = (this.renderer.properties.get(material) as { currentProgram?: CompiledProgram }).currentProgram
+        if (!program) continue
+
+        // three.js在首次取uniform时才检查链接状态并回调onShaderError
+        program.getUniforms()
+        if (program.diagnostics && !program.diagnostics.runnable) {
+          return this.failures.get(program.program) ?? new ShaderCompileError(context, [], program.diagnostics.programLog)
+        }
+      }
+      return null
+    } finally {
+      this.context = previousContext
+    }
+  }
+
+  /**
+   * 把驱动的编译日志解析成逐条错误，行号对应传入的完整源码
+   */
+  static parseLog(stage: ShaderStage, log: string, source: string): ShaderCompileIssue[] {
+    const sourceLines = source.split('\n')
+    const issues: ShaderCompileIssue[] = []
+
+    for (const entry of log.split('\n')) {
+      const text = entry.trim()
+      if (!text) continue
+
+      const match = ERROR_LINE_PATTERNS.map(pattern => pattern.exec(text)).find(result => result !== null)
+      if (match) {
+        const line = parseInt(match[1], 10)
+        issues.push({ stage, line, message: match[2], source: (sourceLines[line - 1] ?? '').trim() })
+      } else if (/error/i.test(text)) {
+        issues.push({ stage, line: 0, message: text, source: '' })
+      }
+    }
+
+    return issues
+  }
+
+  dispose(): void {
+    this.renderer.debug.onShaderError = this.previousHandler
+  }
+
+  private handleShaderError(
+    gl: WebGLRenderingContext,
+    program: WebGLProgram,
+    vertexShader: WebGLShader,
+    fragmentShader: WebGLShader
+  ): void {
+    const issues = [
+      ...ShaderCompileChecker.parseLog('vertex', gl.getShaderInfoLog(vertexShader) ?? '', gl.getShaderSource(vertexShader) ?? ''),
+      ...ShaderCompileChecker.parseLog('fragment', gl.getShaderInfoLog(fragmentShader) ?? '', gl.getShaderSource(fragmentShader) ?? '')
+    ]
+    const error = new ShaderCompileError(this.context, issues, (gl.getProgramInfoLog(program) ?? '').trim())
+
+    this.failures.set(program, error)
+    errorHandler.handleThreeJSError(error, this.context)
+  }
+}
@@ -0,0 +1,155 @@
+import { QualityLevel } from '../types'
+import { SHADER_CHUNKS } from './ShaderChunks'
+import { PARTICLE_SHADER_PROGRAMS } from './EnhancedShaders'
+
+/**
+ * 着色器宏定义：true输出不带值的#define，false表示不定义，数值原样作为宏的值
+ */
+export type ShaderDefines = Record<string, boolean | number>
+
+/**
+ * 着色器程序源码，可包含 #include <片段名> 和#ifdef分支
+ */
+export interface ShaderProgramSource {
+  vertexShader: string
+  fragmentShader: string
+}
+
+/**
+ * 展开后的着色器变体
+ */
+export interface ShaderVariant extends ShaderProgramSource {
+  key: string
+}
+
+export interface ShaderVariantOptions {
+  quality: QualityLevel
+  defines?: ShaderDefines    // 层的定义，覆盖质量等级的同名定义
+}
+
+/**
+ * 各质量等级默认启用的效果
+ */
+export const SHADER_QUALITY_DEFINES: Record<QualityLevel, ShaderDefines> = {
+  [QualityLevel.LOW]: {
+    QUALITY_LEVEL: 0,
+    USE_DEPTH_FOG: true
+  },
+  [QualityLevel.MEDIUM]: {
+    QUALITY_LEVEL: 1,
+    USE_DEPTH_FOG: true,
+    USE_ENERGY_WAVES: true
+  },
+  [QualityLevel.HIGH]: {
+    QUALITY_LEVEL: 2,
+    USE_DEPTH_FOG: true,
+    USE_ENERGY_WAVES: true,
+    USE_CLICK_RIPPLES: true
+  },
+  [QualityLevel.ULTRA]: {
+    QUALITY_LEVEL: 3,
+    USE_DEPTH_FOG: true,
+    USE_ENERGY_WAVES: true,
+    USE_CLICK_RIPPLES: true
+  }
+}
+
+// 只匹配独占一行的 #include <名称>
+const INCLUDE_PATTERN = /^[ \t]*#include +<([\w.]+)>[ \t]*$/gm
+
+/**
+ * 着色器库 - 管理命名GLSL片段和着色器程序，按质量等级和层定义生成并缓存变体
+ */
+export class ShaderLibrary {
+  private static chunks: Map<string, string> = new Map(Object.entries(SHADER_CHUNKS))
+  private static programs: Map<string, ShaderProgramSource> = new Map(Object.entries(PARTICLE_SHADER_PROGRAMS))
+  private static variants: Map<string, ShaderVariant> = new Map()
+
+  /**
+   * 注册或替换GLSL片段，已缓存的变体随之失效
+   */
+  static registerChunk(name: string, source: string): void {
+    ShaderLibrary.chunks.set(name, source)
+    ShaderLibrary.variants.clear()
+  }
+
+  static hasChunk(name: string): boolean {
+    return ShaderLibrary.chunks.has(name)
+  }
+
+  /**
+   * 注册或替换着色器程序，已缓存的变体随之失效
+   */
+  static registerProgram(name: string, source: ShaderProgramSource): void {
+    ShaderLibrary.programs.set(name, source)
+    ShaderLibrary.variants.clear()
+  }
+
+  static hasProgram(name: string): boolean {
+    return ShaderLibrary.programs.has(name)
+  }
+
+  /**
+   * 递归展开 #include <名称>，同一片段只展开一次
+   * 不在库中的名称保留原样，交给three.js展开其内置片段
+   */
+  static resolveIncludes(source: string): string {
+    return ShaderLibrary.expandIncludes(source, new Set(), [])
+  }
+
+  /**
+   * 取着色器程序在指定质量等级和层定义下的变体，相同定义组合共用缓存
+   */
+  static getVariant(program: string, options: ShaderVariantOptions): ShaderVariant {
+    const source = ShaderLibrary.programs.get(program)
+    if (!source) {
+      throw new Error(`Unknown shader program: ${program}`)
+    }
+
+    const defines = ShaderLibrary.getDefineEntries({ ...SHADER_QUALITY_DEFINES[options.quality], ...options.defines })
+    const key = `${program}|${defines.join(',')}`
+
+    const cached = ShaderLibrary.variants.get(key)
+    if (cached) return cached
+
+    const header = defines.map(define => `#define ${define}\n`).join('')
+    const variant: ShaderVariant = {
+      key,
+      vertexShader: header + ShaderLibrary.resolveIncludes(source.vertexShader),
+      fragmentShader: header + ShaderLibrary.resolveIncludes(source.fragmentShader)
+    }
+    ShaderLibrary.variants.set(key, variant)
+    return variant
+  }
+
+  static getCacheSize(): number {
+    return ShaderLibrary.variants.size
+  }
+
+  static clearCache(): void {
+    ShaderLibrary.variants.clear()
+  }
+
+  private static expandIncludes(source: string, included: Set<string>, stack: string[]): string {
+    return source.replace(INCLUDE_PATTERN, (line: string, name: string) => {
+      const chunk = ShaderLibrary.chunks.get(name)
+      if (chunk === undefined) return line
+
+      if (stack.includes(name)) {
+        throw new Error(`Circular shader include: ${[...stack, name].join(' -> ')}`)
+      }
+      if (included.has(name)) return ''
+
+      included.add(name)
+      return ShaderLibrary.expandIncludes(chunk, included, [...stack, name])
+    })
+  }
+
+  // 按名称排序的宏（"名称"或"名称 值"），使相同的定义组合得到相同的源码和缓存键
+  private static getDefineEntries(defines: ShaderDefines): string[] {
+    return Object.keys(defines)
+      .sort()
+      .filter(name => defines[name] !== false)
+      .map(name => defines[name] === true ? name : `${name} ${defines[name]}`)
+  }
+}
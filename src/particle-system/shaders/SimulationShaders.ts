@@ -0,0 +1,172 @@
+// GPGPU Particle Simulation Shaders
+// 粒子模拟着色器：位置和速度保存在浮点纹理中，每帧通过全屏四边形积分
+
+export class SimulationShaders {
+  // 全屏四边形顶点着色器
+  static getQuadVertexShader(): string {
+    return `
+      varying vec2 vUv;
+
+      void main() {
+        vUv = uv;
+        gl_Position = vec4(position.xy, 0.0, 1.0);
+      }
+    `;
+  }
+
+  // 纹理拷贝 - 用于把初始数据写入渲染目标
+  static getCopyFragmentShader(): string {
+    return `
+      precision highp float;
+
+      uniform sampler2D sourceTexture;
+      varying vec2 vUv;
+
+      void main() {
+        gl_FragColor = texture2D(sourceTexture, vUv);
+      }
+    `;
+  }
+
+  // 力场 - uniform由ForceFieldSystem写入，公式与ForceField.accumulate一致
+  static getForceFieldChunk(): string {
+    return `
+      #define MAX_FORCE_FIELDS 8
+
+      uniform int forceFieldCount;
+      uniform float forceFieldTime;
+      uniform vec4 forceFieldA[MAX_FORCE_FIELDS]; // xyz 中心, w 类型
+      uniform vec4 forceFieldB[MAX_FORCE_FIELDS]; // xyz 方向, w 强度
+      uniform vec4 forceFieldC[MAX_FORCE_FIELDS]; // 半径, 衰减指数, 噪声频率, 噪声速度
+
+      float forceAttenuation(float dist, float radius, float falloff) {
+        if (radius <= 0.0) return 1.0;
+        float x = 1.0 - dist / radius;
+        return x <= 0.0 ? 0.0 : pow(x, falloff);
+      }
+
+      // 解析旋度噪声：势函数的旋度，天然无散度
+      vec3 curlFlow(vec3 p, float t) {
+        return vec3(
+          -sin(p.x + t) * sin(p.y) - cos(p.z + t) * cos(p.x),
+          -sin(p.y + t) * sin(p.z) - cos(p.x + t) * cos(p.y),
+          -sin(p.z + t) * sin(p.x) - cos(p.y + t) * cos(p.z)
+        );
+      }
+
+      vec3 computeForceField(vec3 pos) {
+        vec3 force = vec3(0.0);
+
+        for (int i = 0; i < MAX_FORCE_FIELDS; i++) {
+          if (i >= forceFieldCount) break;
+
+          vec3 center = forceFieldA[i].xyz;
+          float type = forceFieldA[i].w;
+          vec3 axis = forceFieldB[i].xyz;
+          float strength = forceFieldB[i].w;
+          vec4 params = forceFieldC[i];
+
+          vec3 offset = center - pos;
+          float dist = length(offset);
+
+          if (type < 1.5) {
+            // 吸引(0) / 排斥(1)
+            float direction = type < 0.5 ? 1.0 : -1.0;
+            force += offset / max(dist, 0.001) * strength * direction * forceAttenuation(dist, params.x, params.y);
+          } else if (type < 2.5) {
+            // 涡旋：绕轴的切向力
+            vec3 radial = -offset - axis * dot(-offset, axis);
+            float radialDist = length(radial);
+            if (radialDist > 0.001) {
+              force += cross(axis, radial / radialDist) * strength * forceAttenuation(radialDist, params.x, params.y);
+            }
+          } else if (type < 3.5) {
+            // 风
+            force += axis * strength * forceAttenuation(dist, params.x, params.y);
+          } else {
+            // 旋度噪声
+            force += curlFlow(pos * params.z, forceFieldTime * params.w) * strength * forceAttenuation(dist, params.x, params.y);
+          }
+        }
+
+        return force;
+      }
+    `;
+  }
+
+  // 速度积分 - xyz为速度，w保存相位
+  static getVelocityFragmentShader(): string {
+    return `
+      precision highp float;
+
+      uniform sampler2D positionTexture;
+      uniform sampler2D velocityTexture;
+      uniform sampler2D originTexture;
+      uniform float deltaTime;
+      uniform float time;
+      uniform float damping;
+      uniform float returnStrength;
+      uniform float maxSpeed;
+
+      varying vec2 vUv;
+
+      ${SimulationShaders.getForceFieldChunk()}
+
+      // 绕Y轴旋转原始位置，得到与无状态模式一致的轨道目标点
+      vec3 orbitalTarget(vec3 origin, float t, float speed, float ph) {
+        float angle = t * speed;
+        float c = cos(angle);
+        float s = sin(angle);
+        vec3 target = vec3(origin.x * c - origin.z * s, origin.y, origin.x * s + origin.z * c);
+        target.y += sin(t * 2.0 + ph) * 0.5;
+        return target;
+      }
+
+      void main() {
+        vec4 positionData = texture2D(positionTexture, vUv);
+        vec4 velocityData = texture2D(velocityTexture, vUv);
+        vec3 origin = texture2D(originTexture, vUv).xyz;
+
+        vec3 pos = positionData.xyz;
+        vec3 vel = velocityData.xyz;
+        float orbitalSpeed = positionData.w;
+        float phase = velocityData.w;
+
+        // 弹簧力把粒子拉回轨道目标点，再叠加力场
+        vec3 target = orbitalTarget(origin, time, orbitalSpeed, phase);
+        vec3 acceleration = (target - pos) * returnStrength;
+        acceleration += computeForceField(pos);
+
+        vel += acceleration * deltaTime;
+        vel *= pow(damping, deltaTime * 60.0);
+
+        float speed = length(vel);
+        if (speed > maxSpeed) {
+          vel *= maxSpeed / speed;
+        }
+
+        gl_FragColor = vec4(vel, phase);
+      }
+    `;
+  }
+
+  // 位置积分 - xyz为位置，w保存轨道速度
+  static getPositionFragmentShader(): string {
+    return `
+      precision highp float;
+
+      uniform sampler2D positionTexture;
+      uniform sampler2D velocityTexture;
+      uniform float deltaTime;
+
+      varying vec2 vUv;
+
+      void main() {
+        vec4 positionData = texture2D(positionTexture, vUv);
+        vec3 vel = texture2D(velocityTexture, vUv).xyz;
+
+        gl_FragColor = vec4(positionData.xyz + vel * deltaTime, positionData.w);
+      }
+    `;
+  }
+}
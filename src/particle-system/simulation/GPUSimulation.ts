@@ -0,0 +1,302 @@
+import * as THREE from 'three'
+import type { ParticleData } from '../types'
+import { SimulationShaders } from '../shaders/SimulationShaders'
+import { ForceFieldSystem } from '../forces/ForceFieldSystem'
+import type { ForceFieldUniforms } from '../forces/ForceFieldSystem'
+
+/**
+ * GPU模拟配置
+ */
+export interface GPUSimulationConfig {
+  damping: number          // 每帧速度阻尼（按60fps归一化）
+  returnStrength: number   // 回到轨道目标点的弹性系数
+  maxSpeed: number         // 最大速度限制
+  maxDeltaTime: number     // 单步最大时间，避免切换标签页后的大跳变
+}
+
+/**
+ * GPU粒子模拟 - 使用乒乓渲染目标在浮点纹理中积分位置和速度
+ * 位置纹理: xyz=位置, w=轨道速度；速度纹理: xyz=速度, w=相位
+ */
+export class GPUSimulation {
+  static readonly DEFAULT_CONFIG: GPUSimulationConfig = {
+    damping: 0.92,
+    returnStrength: 4.0,
+    maxSpeed: 40.0,
+    maxDeltaTime: 1 / 15
+  }
+
+  public readonly textureSize: number
+  public readonly particleCount: number
+
+  private renderer: THREE.WebGLRenderer
+  private config: GPUSimulationConfig
+  private positionTargets: THREE.WebGLRenderTarget[]
+  private velocityTargets: THREE.WebGLRenderTarget[]
+  private currentIndex: number = 0
+  private originTexture: THREE.DataTexture
+
+  // 全屏四边形渲染
+  private scene: THREE.Scene = new THREE.Scene()
+  private camera: THREE.OrthographicCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+  private quad: THREE.Mesh
+  private copyMaterial: THREE.ShaderMaterial
+  private velocityMaterial: THREE.ShaderMaterial
+  private positionMaterial: THREE.ShaderMaterial
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    particleData: ParticleData,
+    particleCount: number,
+    config: Partial<GPUSimulationConfig> = {}
+  ) {
+    this.renderer = renderer
+    this.particleCount = particleCount
+    this.textureSize = Math.max(1, Math.ceil(Math.sqrt(particleCount)))
+    this.config = { ...GPUSimulation.DEFAULT_CONFIG, ...config }
+
+    const textureType = GPUSimulation.getTextureType(renderer) ?? THREE.HalfFloatType
+    this.positionTargets = [this.createRenderTarget(textureType), this.createRenderTarget(textureType)]
+    this.velocityTargets = [this.createRenderTarget(textureType), this.createRenderTarget(textureType)]
+
+    const initialPositions = this.createDataTexture(particleData.position, particleData.orbitalSpeed)
+    const initialVelocities = this.createDataTexture(particleData.velocity, particleData.phase)
+    this.originTexture = this.createDataTexture(particleData.position, particleData.orbitalSpeed)
+
+    this.copyMaterial = new THREE.ShaderMaterial({
+      uniforms: { sourceTexture: { value: null } },
+      vertexShader: SimulationShaders.getQuadVertexShader(),
+      fragmentShader: SimulationShaders.getCopyFragmentShader()
+    })
+
+    this.velocityMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        positionTexture: { value: null },
+        velocityTexture: { value: null },
+        originTexture: { value: this.originTexture },
+        deltaTime: { value: 0 },
+        time: { value: 0 },
+        damping: { value: this.config.damping },
+        returnStrength: { value: this.config.returnStrength },
+        maxSpeed: { value: this.config.maxSpeed },
+        ...ForceFieldSystem.createUniforms()
+      },
+      vertexShader: SimulationShaders.getQuadVertexShader(),
+      fragmentShader: SimulationShaders.getVelocityFragmentShader()
+    })
+
+    this.positionMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        positionTexture: { value: null },
+        velocityTexture: { value: null },
+        deltaTime: { value: 0 }
+      },
+      vertexShader: SimulationShaders.getQuadVertexShader(),
+      fragmentShader: SimulationShaders.getPositionFragmentShader()
+    })
+
+    this.quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), this.copyMaterial)
+    this.quad.frustumCulled = false
+    this.scene.add(this.quad)
+
+    // 把初始数据写入两组乒乓目标
+    const previousTarget = renderer.getRenderTarget()
+    for (const target of this.positionTargets) {
+      this.copyTexture(initialPositions, target)
+    }
+    for (const target of this.velocityTargets) {
+      this.copyTexture(initialVelocities, target)
+    }
+    renderer.setRenderTarget(previousTarget)
+
+    initialPositions.dispose()
+    initialVelocities.dispose()
+  }
+
+  /**
+   * 检查渲染器是否支持浮点渲染目标和顶点纹理采样
+   */
+  static isSupported(renderer: THREE.WebGLRenderer): boolean {
+    if (renderer.capabilities.maxVertexTextures < 1) return false
+    return GPUSimulation.getTextureType(renderer) !== null
+  }
+
+  private static getTextureType(renderer: THREE.WebGLRenderer): THREE.TextureDataType | null {
+    if (renderer.extensions.has('EXT_color_buffer_float')) return THREE.FloatType
+    if (renderer.extensions.has('EXT_color_buffer_half_float')) return THREE.HalfFloatType
+    return null
+  }
+
+  /**
+   * 为每个粒子生成指向模拟纹理的UV坐标
+   */
+  public createReferenceArray(): Float32Array {
+    const references = new Float32Array(this.particleCount * 2)
+    for (let i = 0; i < this.particleCount; i++) {
+      references[i * 2] = ((i % this.textureSize) + 0.5) / this.textureSize
+      references[i * 2 + 1] = (Math.floor(i / this.textureSize) + 0.5) / this.textureSize
+    }
+    return references
+  }
+
+  /**
+   * 推进一步模拟
+   */
+  public step(deltaTime: number, time: number): void {
+    const dt = Math.min(Math.max(deltaTime, 0), this.config.maxDeltaTime)
+    if (dt === 0) return
+
+    const nextIndex = 1 - this.currentIndex
+    const previousTarget = this.renderer.getRenderTarget()
+
+    // 速度积分
+    const velocityUniforms = this.velocityMaterial.uniforms
+    velocityUniforms.positionTexture.value = this.positionTargets[this.currentIndex].texture
+    velocityUniforms.velocityTexture.value = this.velocityTargets[this.currentIndex].texture
+    velocityUniforms.deltaTime.value = dt
+    velocityUniforms.time.value = time
+    this.renderPass(this.velocityMaterial, this.velocityTargets[nextIndex])
+
+    // 位置积分（使用新速度）
+    const positionUniforms = this.positionMaterial.uniforms
+    positionUniforms.positionTexture.value = this.positionTargets[this.currentIndex].texture
+    positionUniforms.velocityTexture.value = this.velocityTargets[nextIndex].texture
+    positionUniforms.deltaTime.value = dt
+    this.renderPass(this.positionMaterial, this.positionTargets[nextIndex])
+
+    this.renderer.setRenderTarget(previousTarget)
+    this.currentIndex = nextIndex
+  }
+
+  public getPositionTexture(): THREE.Texture {
+    return this.positionTargets[this.currentIndex].texture
+  }
+
+  public getVelocityTexture(): THREE.Texture {
+    return this.velocityTargets[this.currentIndex].texture
+  }
+
+  /**
+   * 读回当前位置/速度纹理（RGBA，每像素一个粒子），用于快照
+   */
+  public readState(): { position: Float32Array; velocity: Float32Array } {
+    return {
+      position: this.readTarget(this.positionTargets[this.currentIndex]),
+      velocity: this.readTarget(this.velocityTargets[this.currentIndex])
+    }
+  }
+
+  /**
+   * 用快照中的纹理数据覆盖当前状态
+   */
+  public writeState(position: Float32Array, velocity: Float32Array): void {
+    const expectedLength = this.textureSize * this.textureSize * 4
+    if (position.length !== expectedLength || velocity.length !== expectedLength) {
+      console.warn('Simulation state does not match the texture size, keeping the current state')
+      return
+    }
+
+    const previousTarget = this.renderer.getRenderTarget()
+    const positionTexture = this.createStateTexture(position)
+    const velocityTexture = this.createStateTexture(velocity)
+    for (const target of this.positionTargets) {
+      this.copyTexture(positionTexture, target)
+    }
+    for (const target of this.velocityTargets) {
+      this.copyTexture(velocityTexture, target)
+    }
+    this.renderer.setRenderTarget(previousTarget)
+
+    positionTexture.dispose()
+    velocityTexture.dispose()
+  }
+
+  /**
+   * 共享力场系统的uniform对象，力场变化无需逐帧复制
+   */
+  public setForceFields(uniforms: ForceFieldUniforms | null): void {
+    Object.assign(this.velocityMaterial.uniforms, uniforms ?? ForceFieldSystem.createUniforms())
+  }
+
+  public getConfig(): GPUSimulationConfig {
+    return { ...this.config }
+  }
+
+  public updateConfig(config: Partial<GPUSimulationConfig>): void {
+    this.config = { ...this.config, ...config }
+
+    const uniforms = this.velocityMaterial.uniforms
+    uniforms.damping.value = this.config.damping
+    uniforms.returnStrength.value = this.config.returnStrength
+    uniforms.maxSpeed.value = this.config.maxSpeed
+  }
+
+  public dispose(): void {
+    this.positionTargets.forEach(target => target.dispose())
+    this.velocityTargets.forEach(target => target.dispose())
+    this.originTexture.dispose()
+    this.quad.geometry.dispose()
+    this.copyMaterial.dispose()
+    this.velocityMaterial.dispose()
+    this.positionMaterial.dispose()
+  }
+
+  private createRenderTarget(type: THREE.TextureDataType): THREE.WebGLRenderTarget {
+    return new THREE.WebGLRenderTarget(this.textureSize, this.textureSize, {
+      type,
+      format: THREE.RGBAFormat,
+      minFilter: THREE.NearestFilter,
+      magFilter: THREE.NearestFilter,
+      depthBuffer: false,
+      stencilBuffer: false
+    })
+  }
+
+  private createDataTexture(vectors: Float32Array, scalars: Float32Array): THREE.DataTexture {
+    const data = new Float32Array(this.textureSize * this.textureSize * 4)
+    for (let i = 0; i < this.particleCount; i++) {
+      data[i * 4] = vectors[i * 3]
+      data[i * 4 + 1] = vectors[i * 3 + 1]
+      data[i * 4 + 2] = vectors[i * 3 + 2]
+      data[i * 4 + 3] = scalars[i]
+    }
+    return this.createStateTexture(data)
+  }
+
+  private createStateTexture(data: Float32Array): THREE.DataTexture {
+    const texture = new THREE.DataTexture(data, this.textureSize, this.textureSize, THREE.RGBAFormat, THREE.FloatType)
+    texture.minFilter = THREE.NearestFilter
+    texture.magFilter = THREE.NearestFilter
+    texture.needsUpdate = true
+    return texture
+  }
+
+  // 半精度目标读回后转换为float
+  private readTarget(target: THREE.WebGLRenderTarget): Float32Array {
+    const size = this.textureSize
+    if (target.texture.type === THREE.FloatType) {
+      const pixels = new Float32Array(size * size * 4)
+      this.renderer.readRenderTargetPixels(target, 0, 0, size, size, pixels)
+      return pixels
+    }
+
+    const halfPixels = new Uint16Array(size * size * 4)
+    this.renderer.readRenderTargetPixels(target, 0, 0, size, size, halfPixels)
+    const pixels = new Float32Array(halfPixels.length)
+    for (let i = 0; i < halfPixels.length; i++) {
+      pixels[i] = THREE.DataUtils.fromHalfFloat(halfPixels[i])
+    }
+    return pixels
+  }
+
+  private copyTexture(source: THREE.Texture, target: THREE.WebGLRenderTarget): void {
+    this.copyMaterial.uniforms.sourceTexture.value = source
+    this.renderPass(this.copyMaterial, target)
+  }
+
+  private renderPass(material: THREE.ShaderMaterial, target: THREE.WebGLRenderTarget): void {
+    this.quad.material = material
+    this.renderer.setRenderTarget(target)
+    this.renderer.render(this.scene, this.camera)
+  }
+}
@@ -0,0 +1,353 @@
+import * as THREE from 'three'
+import type { ParticleData } from '../types'
+import type { SceneDescription } from '../scene/SceneDescription'
+import type { ThemeConfig, ColorPalette } from '../theme/ThemeManager'
+import type { CameraViewpoint } from '../camera/CameraRig'
+
+/**
+ * 粒子快照二进制格式
+ *
+ * 0-3   魔数 "WPSS"
+ * 4-5   格式版本 (uint16)
+ * 6-7   保留
+ * 8-11  头部JSON的字节长度 (uint32)
+ * 12-   UTF-8头部JSON，补齐到4字节
+ * 之后  各层ParticleData及模拟状态的Float32数据，按头部记录的偏移读取
+ *
+ * 所有数值均为小端序
+ */
+export const SNAPSHOT_FORMAT_VERSION = 1
+
+const SNAPSHOT_MAGIC = 'WPSS'
+const HEADER_OFFSET = 12
+
+const PARTICLE_DATA_FIELDS: (keyof ParticleData)[] = [
+  'position', 'color', 'size', 'velocity', 'phase', 'depth', 'orbitalSpeed', 'type'
+]
+
+// 可序列化的uniform：数字、布尔，或按类型标记的数值数组
+export type SerializedUniform =
+  | number
+  | boolean
+  | { type: 'vector2' | 'vector3' | 'vector4' | 'color' | 'numbers'; value: number[] }
+
+// GPU模拟纹理中的实时状态（RGBA，每像素一个粒子）
+export interface SimulationSnapshot {
+  textureSize: number
+  position: Float32Array
+  velocity: Float32Array
+}
+
+export interface LayerSnapshot {
+  name: string
+  particleCount: number
+  data: ParticleData
+  uniforms: Record<string, SerializedUniform>
+  simulation?: SimulationSnapshot
+}
+
+export interface CameraSnapshot {
+  position: [number, number, number]
+  quaternion: [number, number, number, number]
+  target?: [number, number, number]  // 相机组件基础视点的注视点
+  fov: number
+  zoom: number
+}
+
+// 主题颜色按线性分量保存，避免颜色空间转换带来的误差
+export interface ThemeSnapshot {
+  name: string
+  colors: Record<keyof ColorPalette, [number, number, number]>
+  particleOpacity: number
+  glowIntensity: number
+  animationSpeed: number
+}
+
+export interface ParticleSnapshotData {
+  version: number
+  createdAt: number
+  seed: number
+  time: number
+  scene?: SceneDescription
+  theme: ThemeSnapshot
+  camera?: CameraSnapshot
+  layers: LayerSnapshot[]
+}
+
+// 头部JSON中的层描述：数组以 [偏移, 长度]（单位为float）引用数据区
+interface EncodedLayer {
+  name: string
+  particleCount: number
+  uniforms: Record<string, SerializedUniform>
+  arrays: Record<string, [number, number]>
+  simulation?: { textureSize: number; position: [number, number]; velocity: [number, number] }
+}
+
+type EncodedHeader = Omit<ParticleSnapshotData, 'layers'> & { layers: EncodedLayer[] }
+
+/**
+ * 快照格式错误（魔数不符、版本过新或数据截断）
+ */
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SnapshotError'
+  }
+}
+
+/**
+ * 粒子快照的编码、解码和uniform序列化
+ */
+export class ParticleSnapshot {
+  static encode(snapshot: ParticleSnapshotData): ArrayBuffer {
+    const blocks: Float32Array[] = []
+    let floatOffset = 0
+
+    const addBlock = (array: Float32Array): [number, number] => {
+      blocks.push(array)
+      const range: [number, number] = [floatOffset, array.length]
+      floatOffset += array.length
+      return range
+    }
+
+    const layers: EncodedLayer[] = snapshot.layers.map(layer => {
+      const arrays: Record<string, [number, number]> = {}
+      for (const field of PARTICLE_DATA_FIELDS) {
+        arrays[field] = addBlock(layer.data[field])
+      }
+
+      const encoded: EncodedLayer = {
+        name: layer.name,
+        particleCount: layer.particleCount,
+        uniforms: layer.uniforms,
+        arrays
+      }
+      if (layer.simulation) {
+        encoded.simulation = {
+          textureSize: layer.simulation.textureSize,
+          position: addBlock(layer.simulation.position),
+          velocity: addBlock(layer.simulation.velocity)
+        }
+      }
+      return encoded
+    })
+
+    const header: EncodedHeader = { ...snapshot, version: SNAPSHOT_FORMAT_VERSION, layers }
+    const headerBytes = new TextEncoder().encode(JSON.stringify(header))
+    const dataOffset = HEADER_OFFSET + Math.ceil(headerBytes.length / 4) * 4
+
+    const buffer = new ArrayBuffer(dataOffset + floatOffset * 4)
+    const view = new DataView(buffer)
+    for (let i = 0; i < SNAPSHOT_MAGIC.length; i++) {
+      view.setUint8(i, SNAPSHOT_MAGIC.charCodeAt(i))
+    }
+    view.setUint16(4, SNAPSHOT_FORMAT_VERSION, true)
+    view.setUint32(8, headerBytes.length, true)
+    new Uint8Array(buffer, HEADER_OFFSET, headerBytes.length).set(headerBytes)
+
+    let byteOffset = dataOffset
+    for (const block of blocks) {
+      ParticleSnapshot.writeFloats(view, byteOffset, block)
+      byteOffset += block.length * 4
+    }
+
+    return buffer
+  }
+
+  /**
+   * 解码快照，格式不符或版本高于当前支持时抛出SnapshotError
+   */
+  static decode(source: ArrayBuffer | Uint8Array): ParticleSnapshotData {
+    const bytes = source instanceof Uint8Array ? source : new Uint8Array(source)
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+    if (bytes.byteLength < HEADER_OFFSET) {
+      throw new SnapshotError('Snapshot is truncated')
+    }
+    const magic = String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3])
+    if (magic !== SNAPSHOT_MAGIC) {
+      throw new SnapshotError('Not a particle snapshot')
+    }
+    const version = view.getUint16(4, true)
+    if (version > SNAPSHOT_FORMAT_VERSION) {
+      throw new SnapshotError(`Snapshot version ${version} is newer than supported version ${SNAPSHOT_FORMAT_VERSION}`)
+    }
+
+    const headerLength = view.getUint32(8, true)
+    const dataOffset = HEADER_OFFSET + Math.ceil(headerLength / 4) * 4
+    if (dataOffset > bytes.byteLength) {
+      throw new SnapshotError('Snapshot header is truncated')
+    }
+
+    let header: EncodedHeader
+    try {
+      header = JSON.parse(new TextDecoder().decode(bytes.subarray(HEADER_OFFSET, HEADER_OFFSET + headerLength)))
+    } catch (error) {
+      throw new SnapshotError(`Snapshot header is corrupt (${(error as Error).message})`)
+    }
+
+    const readBlock = ([offset, length]: [number, number]): Float32Array => {
+      const byteOffset = dataOffset + offset * 4
+      if (byteOffset + length * 4 > bytes.byteLength) {
+        throw new SnapshotError('Snapshot data is truncated')
+      }
+      return ParticleSnapshot.readFloats(view, byteOffset, length)
+    }
+
+    const layers: LayerSnapshot[] = header.layers.map(layer => {
+      const data = {} as ParticleData
+      for (const field of PARTICLE_DATA_FIELDS) {
+        data[field] = readBlock(layer.arrays[field])
+      }
+
+      const snapshot: LayerSnapshot = {
+        name: layer.name,
+        particleCount: layer.particleCount,
+        uniforms: layer.uniforms,
+        data
+      }
+      if (layer.simulation) {
+        snapshot.simulation = {
+          textureSize: layer.simulation.textureSize,
+          position: readBlock(layer.simulation.position),
+          velocity: readBlock(layer.simulation.velocity)
+        }
+      }
+      return snapshot
+    })
+
+    return { ...header, version, layers }
+  }
+
+  /**
+   * 序列化uniform数值，纹理等无法保存的值被跳过
+   */
+  static serializeUniforms(uniforms: Record<string, THREE.IUniform>): Record<string, SerializedUniform> {
+    const result: Record<string, SerializedUniform> = {}
+
+    for (const [key, uniform] of Object.entries(uniforms)) {
+      const value = uniform.value
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        result[key] = value
+      } else if (value instanceof THREE.Color) {
+        result[key] = { type: 'color', value: value.toArray() }
+      } else if (value instanceof THREE.Vector2) {
+        result[key] = { type: 'vector2', value: value.toArray() }
+      } else if (value instanceof THREE.Vector3) {
+        result[key] = { type: 'vector3', value: value.toArray() }
+      } else if (value instanceof THREE.Vector4) {
+        result[key] = { type: 'vector4', value: value.toArray() }
+      } else if (Array.isArray(value) && value.every(item => typeof item === 'number')) {
+        result[key] = { type: 'numbers', value: [...value] }
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * 把序列化的数值写回材质中已有的uniform，类型不符的项被忽略
+   */
+  static applyUniforms(uniforms: Record<string, THREE.IUniform>, serialized: Record<string, SerializedUniform>): void {
+    for (const [key, value] of Object.entries(serialized)) {
+      const uniform = uniforms[key]
+      if (!uniform) continue
+
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        if (typeof uniform.value === typeof value) {
+          uniform.value = value
+        }
+      } else if (value.type === 'numbers') {
+        if (Array.isArray(uniform.value)) {
+          uniform.value = [...value.value]
+        }
+      } else if (uniform.value && typeof uniform.value.fromArray === 'function') {
+        uniform.value.fromArray(value.value)
+      }
+    }
+  }
+
+  static captureTheme(theme: ThemeConfig): ThemeSnapshot {
+    const colors = {} as ThemeSnapshot['colors']
+    for (const [key, color] of Object.entries(theme.colors) as [keyof ColorPalette, THREE.Color][]) {
+      colors[key] = [color.r, color.g, color.b]
+    }
+    return {
+      name: theme.name,
+      colors,
+      particleOpacity: theme.particleOpacity,
+      glowIntensity: theme.glowIntensity,
+      animationSpeed: theme.animationSpeed
+    }
+  }
+
+  static toThemeConfig(snapshot: ThemeSnapshot): ThemeConfig {
+    const colors = {} as ColorPalette
+    for (const [key, rgb] of Object.entries(snapshot.colors) as [keyof ColorPalette, [number, number, number]][]) {
+      colors[key] = new THREE.Color(rgb[0], rgb[1], rgb[2])
+    }
+    return {
+      name: snapshot.name,
+      colors,
+      particleOpacity: snapshot.particleOpacity,
+      glowIntensity: snapshot.glowIntensity,
+      animationSpeed: snapshot.animationSpeed
+    }
+  }
+
+  /**
+   * 记录相机；传入相机组件的基础视点时记录视点本身，不含视差和缩放偏移
+   */
+  static captureCamera(camera: THREE.PerspectiveCamera, viewpoint?: CameraViewpoint): CameraSnapshot {
+    if (viewpoint) {
+      const orientation = new THREE.Matrix4().lookAt(viewpoint.position, viewpoint.target, camera.up)
+      return {
+        position: viewpoint.position.toArray() as [number, number, number],
+        quaternion: new THREE.Quaternion().setFromRotationMatrix(orientation).toArray() as [number, number, number, number],
+        target: viewpoint.target.toArray() as [number, number, number],
+        fov: viewpoint.fov ?? camera.fov,
+        zoom: camera.zoom
+      }
+    }
+
+    return {
+      position: camera.position.toArray() as [number, number, number],
+      quaternion: camera.quaternion.toArray() as [number, number, number, number],
+      fov: camera.fov,
+      zoom: camera.zoom
+    }
+  }
+
+  static applyCamera(camera: THREE.PerspectiveCamera, snapshot: CameraSnapshot): void {
+    camera.position.fromArray(snapshot.position)
+    camera.quaternion.fromArray(snapshot.quaternion)
+    camera.fov = snapshot.fov
+    camera.zoom = snapshot.zoom
+    camera.updateProjectionMatrix()
+  }
+
+  /**
+   * 转换为相机组件的视点；没有记录注视点的快照沿相机朝向取focusDistance处
+   */
+  static toViewpoint(snapshot: CameraSnapshot, focusDistance: number): CameraViewpoint {
+    const position = new THREE.Vector3().fromArray(snapshot.position)
+    const target = snapshot.target
+      ? new THREE.Vector3().fromArray(snapshot.target)
+      : new THREE.Vector3(0, 0, -focusDistance).applyQuaternion(new THREE.Quaternion().fromArray(snapshot.quaternion)).add(position)
+    return { position, target, fov: snapshot.fov }
+  }
+
+  private static writeFloats(view: DataView, byteOffset: number, values: Float32Array): void {
+    for (let i = 0; i < values.length; i++) {
+      view.setFloat32(byteOffset + i * 4, values[i], true)
+    }
+  }
+
+  private static readFloats(view: DataView, byteOffset: number, length: number): Float32Array {
+    const values = new Float32Array(length)
+    for (let i = 0; i < length; i++) {
+      values[i] = view.getFloat32(byteOffset + i * 4, true)
+    }
+    return values
+  }
+}
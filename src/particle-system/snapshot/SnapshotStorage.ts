@@ -0,0 +1,109 @@
+// IndexedDB中保存的快照条目
+export interface StoredSnapshot {
+  name: string
+  savedAt: number
+  byteLength: number
+  data: ArrayBuffer
+}
+
+const DATABASE_NAME = 'whispin-particles'
+const DATABASE_VERSION = 1
+const STORE_NAME = 'snapshots'
+
+/**
+ * 快照存储 - IndexedDB持久化，以及文件下载/读取
+ */
+export class SnapshotStorage {
+  static readonly FILE_EXTENSION = '.wpss'
+
+  private static databasePromise?: Promise<IDBDatabase>
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined'
+  }
+
+  /**
+   * 按名称保存快照，同名覆盖
+   */
+  static async save(name: string, data: ArrayBuffer): Promise<void> {
+    const entry: StoredSnapshot = { name, savedAt: Date.now(), byteLength: data.byteLength, data }
+    await this.request('readwrite', store => store.put(entry))
+  }
+
+  static async load(name: string): Promise<ArrayBuffer | undefined> {
+    const entry = await this.request<StoredSnapshot | undefined>('readonly', store => store.get(name))
+    return entry?.data
+  }
+
+  /**
+   * 已保存的快照（不含数据），按保存时间从新到旧
+   */
+  static async list(): Promise<Omit<StoredSnapshot, 'data'>[]> {
+    const entries = await this.request<StoredSnapshot[]>('readonly', store => store.getAll())
+    return entries
+      .map(({ name, savedAt, byteLength }) => ({ name, savedAt, byteLength }))
+      .sort((a, b) => b.savedAt - a.savedAt)
+  }
+
+  static async remove(name: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(name))
+  }
+
+  /**
+   * 以文件形式下载快照
+   */
+  static download(data: ArrayBuffer, fileName: string = `particles-${Date.now()}`): void {
+    const blob = new Blob([data], { type: 'application/octet-stream' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = fileName.endsWith(this.FILE_EXTENSION) ? fileName : `${fileName}${this.FILE_EXTENSION}`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+
+    // 等待浏览器开始下载后再释放
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+  }
+
+  static readFile(file: Blob): Promise<ArrayBuffer> {
+    return file.arrayBuffer()
+  }
+
+  private static openDatabase(): Promise<IDBDatabase> {
+    if (!this.databasePromise) {
+      this.databasePromise = new Promise((resolve, reject) => {
+        if (!this.isSupported()) {
+          reject(new Error('IndexedDB is not available'))
+          return
+        }
+
+        const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'name' })
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+
+      // 打开失败时允许之后重试
+      this.databasePromise.catch(() => {
+        this.databasePromise = undefined
+      })
+    }
+    return this.databasePromise
+  }
+
+  private static async request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const database = await this.openDatabase()
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, mode)
+      const request = operation(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result as T)
+      transaction.onerror = () => reject(transaction.error ?? request.error)
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'))
+    })
+  }
+}
@@ -129,6 +129,16 @@ export class ThemeManager {
       return false
     }
 
+    // 时长为0时立即切换（同时结束进行中的过渡）
+    if (transitionDuration <= 0) {
+      this.activeTransition = undefined
+      this.currentTheme = newTheme
+      this.transitionCallbacks.forEach(callback => {
+        callback(1, newTheme.colors)
+      })
+      return true
+    }
+
     if (newTheme === this.currentTheme) {
       return true
     }
@@ -1,4 +1,11 @@
 import * as THREE from 'three'
+import type { LayerFormation, MorphOptions, GeneratedParticles } from './ParticleLayer'
+import type { ThemeConfig, ColorPalette } from './theme/ThemeManager'
+import type { LayerSnapshot } from './snapshot/ParticleSnapshot'
+import type { ForceFieldSystem } from './forces/ForceFieldSystem'
+import type { DepthFogSystem, DepthFogOverrides } from './effects/DepthFogSystem'
+import type { ClickRippleSystem } from './effects/ClickRippleSystem'
+import type { EnergyWaveSystem } from './effects/EnergyWaveSystem'
 
 // 质量等级枚举
 export enum QualityLevel {
@@ -38,18 +45,58 @@ export interface LegacyColorPalette {
   background: THREE.Color[]   // 背景颜色
 }
 
+// 层加入管理器时可访问的运行环境
+export interface LayerAttachContext {
+  scene: THREE.Scene
+  renderer?: THREE.WebGLRenderer
+  camera?: THREE.PerspectiveCamera
+  qualityLevel: QualityLevel
+  theme: ThemeConfig
+  depthFog?: DepthFogSystem
+  getLayer(name: string): ParticleLayer | undefined
+}
+
 // 粒子层接口
 export interface ParticleLayer {
   name: string
   particleCount: number
   geometry: THREE.BufferGeometry
   material: THREE.ShaderMaterial
-  points: THREE.Points
+  points: THREE.Points | THREE.Mesh | THREE.LineSegments
   
   create(): void
   updateUniforms(time: number, mouse: THREE.Vector2): void
   dispose(): void
   onWindowResize?(width: number, height: number): void
+  updateSimulation?(renderer: THREE.WebGLRenderer, deltaTime: number): void
+  updateMorph?(): void
+  update?(deltaTime: number): void
+  morphTo?(formation: LayerFormation, options?: Partial<MorphOptions>): Promise<void>
+  getFormation?(): LayerFormation
+  hasRandomOrder?(): boolean
+  setSeed?(seed: number): void
+  getSeed?(): number
+  getParticleData?(): ParticleData
+  canRegenerate?(): boolean
+  canGenerateInWorker?(): boolean
+  generateData?(particleCount?: number): GeneratedParticles
+  applyGeneratedParticles?(generated: GeneratedParticles): void
+  captureState?(): LayerSnapshot
+  restoreState?(snapshot: LayerSnapshot): void
+  setForceFields?(system: ForceFieldSystem | null): void
+  setEnergyWaves?(system: EnergyWaveSystem | null): void
+  setClickRipples?(system: ClickRippleSystem | null): void
+  setDepthFog?(system: DepthFogSystem | null): void
+  setFogOverrides?(overrides: DepthFogOverrides): void
+  useSimpleShaders?(): boolean
+  setOpacity?(opacity: number): void
+
+  // 生命周期钩子（由ParticleSystemManager调用）
+  onAttach?(context: LayerAttachContext): void
+  onDetach?(): void
+  onQualityChange?(level: QualityLevel): void
+  onThemeChange?(colors: ColorPalette, theme: ThemeConfig): void
+  onBeforeRender?(renderer: THREE.WebGLRenderer, camera: THREE.Camera): void
 }
 
 // 粒子系统管理器接口
@@ -68,7 +115,10 @@ export enum SpatialDistribution {
   SPIRAL = 'spiral',
   RING = 'ring',
   SPHERICAL = 'spherical',
-  GALAXY_ARM = 'galaxy_arm'
+  GALAXY_ARM = 'galaxy_arm',
+  IMAGE = 'image',       // 位图的不透明像素
+  SVG_PATH = 'svg_path', // SVG路径填充/描边
+  TEXT = 'text'          // 渲染后的文字
 }
 
 // 粒子类型
@@ -78,4 +128,16 @@ export enum ParticleType {
   PULSAR = 2,
   NEBULA = 3,
   ENERGY_FIELD = 4
-}
\ No newline at end of file
+}
+
+// 粒子运动模拟模式
+export enum SimulationMode {
+  STATELESS = 'stateless', // 顶点着色器中的闭式运动（默认）
+  GPU = 'gpu',             // 浮点纹理中保存位置/速度，逐帧积分
+  CPU = 'cpu'              // 与GPU模式相同的积分在CPU上执行，不依赖浮点纹理
+}
+// 粒子渲染方式
+export enum RenderMode {
+  POINTS = 'points',                   // THREE.Points点精灵（默认）
+  INSTANCED_QUADS = 'instanced_quads'  // 实例化四边形，可旋转、拉伸，不受点大小上限限制
+}
@@ -1,4 +1,5 @@
 import * as THREE from 'three'
+import type { RandomSource } from './SeededRandom'
 
 export interface ColorPalette {
   name: string
@@ -175,23 +176,18 @@ export class ColorSystem {
   }
 
   /**
-   * 高质量色彩混合 (使用Lab色彩空间)
+   * 高质量色彩混合 (使用CIE Lab色彩空间)
+   * THREE.Color的分量已是线性sRGB，直接转换到XYZ再到Lab，不再做伽马往返
    */
   static blendColorsLab(color1: THREE.Color, color2: THREE.Color, factor: number): THREE.Color {
-    // 简化的Lab色彩空间混合
-    const r1 = Math.pow(color1.r, 2.2)
-    const g1 = Math.pow(color1.g, 2.2) 
-    const b1 = Math.pow(color1.b, 2.2)
-    
-    const r2 = Math.pow(color2.r, 2.2)
-    const g2 = Math.pow(color2.g, 2.2)
-    const b2 = Math.pow(color2.b, 2.2)
-    
-    const r = Math.pow(r1 + (r2 - r1) * factor, 1/2.2)
-    const g = Math.pow(g1 + (g2 - g1) * factor, 1/2.2)
-    const b = Math.pow(b1 + (b2 - b1) * factor, 1/2.2)
-    
-    return new THREE.Color(r, g, b)
+    const lab1 = this.linearToLab(color1)
+    const lab2 = this.linearToLab(color2)
+
+    return this.labToLinear(
+      lab1[0] + (lab2[0] - lab1[0]) * factor,
+      lab1[1] + (lab2[1] - lab1[1]) * factor,
+      lab1[2] + (lab2[2] - lab1[2]) * factor
+    )
   }
 
   /**
@@ -200,22 +196,77 @@ export class ColorSystem {
   static adaptiveBrightness(color: THREE.Color, targetLuminance: number): THREE.Color {
     const adjusted = color.clone()
     
-    // 计算感知亮度 (使用WCAG标准)
-    const currentLuminance = 0.299 * adjusted.r + 0.587 * adjusted.g + 0.114 * adjusted.b
+    // 线性分量使用Rec.709相对亮度
+    const currentLuminance = this.getLuminance(adjusted)
     
     if (currentLuminance > 0) {
       const scale = targetLuminance / currentLuminance
       adjusted.multiplyScalar(scale)
     }
     
-    // 确保颜色值在有效范围内
-    adjusted.r = Math.min(1, adjusted.r)
-    adjusted.g = Math.min(1, adjusted.g)
-    adjusted.b = Math.min(1, adjusted.b)
+    // 超出范围时整体缩放，逐通道截断会改变色相
+    const maxComponent = Math.max(adjusted.r, adjusted.g, adjusted.b)
+    if (maxComponent > 1) {
+      adjusted.multiplyScalar(1 / maxComponent)
+    }
     
     return adjusted
   }
 
+  /**
+   * 线性颜色的相对亮度 (Rec.709)
+   */
+  static getLuminance(color: THREE.Color): number {
+    return 0.2126 * color.r + 0.7152 * color.g + 0.0722 * color.b
+  }
+
+  /**
+   * 从sRGB分量(0-1)创建颜色，转换到three.js使用的线性工作空间
+   */
+  static fromSRGB(r: number, g: number, b: number): THREE.Color {
+    return new THREE.Color().setRGB(r, g, b, THREE.SRGBColorSpace)
+  }
+
+  /**
+   * 获取颜色的sRGB分量(0-1)，用于CSS和画布等按sRGB解释数值的场合
+   */
+  static toSRGB(color: THREE.Color): { r: number; g: number; b: number } {
+    const target = { r: 0, g: 0, b: 0 }
+    return color.getRGB(target, THREE.SRGBColorSpace)
+  }
+
+  // 线性sRGB -> CIE Lab (D65白点)
+  private static linearToLab(color: THREE.Color): [number, number, number] {
+    const x = (0.4124 * color.r + 0.3576 * color.g + 0.1805 * color.b) / 0.95047
+    const y = 0.2126 * color.r + 0.7152 * color.g + 0.0722 * color.b
+    const z = (0.0193 * color.r + 0.1192 * color.g + 0.9505 * color.b) / 1.08883
+
+    const f = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116
+    const fx = f(x)
+    const fy = f(y)
+    const fz = f(z)
+
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]
+  }
+
+  // CIE Lab (D65白点) -> 线性sRGB
+  private static labToLinear(l: number, a: number, b: number): THREE.Color {
+    const fy = (l + 16) / 116
+    const fx = fy + a / 500
+    const fz = fy - b / 200
+
+    const inverse = (t: number) => t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27)
+    const x = inverse(fx) * 0.95047
+    const y = inverse(fy)
+    const z = inverse(fz) * 1.08883
+
+    return new THREE.Color(
+      Math.max(0, 3.2406 * x - 1.5372 * y - 0.4986 * z),
+      Math.max(0, -0.9689 * x + 1.8758 * y + 0.0415 * z),
+      Math.max(0, 0.0557 * x - 0.2040 * y + 1.0570 * z)
+    )
+  }
+
   /**
    * 基于时间的颜色变化 - 增强版本，降低动画速度
    */
@@ -239,13 +290,13 @@ export class ColorSystem {
   /**
    * 生成随机颜色（在调色板范围内）- 增强饱和度版本
    */
-  static generateRandomColor(palette: ColorPalette, variation: number = 0.3): THREE.Color {
-    const baseColor = palette.colors[Math.floor(Math.random() * palette.colors.length)].clone()
+  static generateRandomColor(palette: ColorPalette, variation: number = 0.3, random: RandomSource = Math.random): THREE.Color {
+    const baseColor = palette.colors[Math.floor(random() * palette.colors.length)].clone()
     
     // 添加随机变化 - 增强饱和度，提高亮度
-    const hueShift = (Math.random() - 0.5) * variation
-    const satShift = 0.2 + (Math.random() - 0.5) * variation * 0.3 // 提高基础饱和度
-    const lightShift = 0.1 + (Math.random() - 0.5) * variation * 0.2 // 提高基础亮度
+    const hueShift = (random() - 0.5) * variation
+    const satShift = 0.2 + (random() - 0.5) * variation * 0.3 // 提高基础饱和度
+    const lightShift = 0.1 + (random() - 0.5) * variation * 0.2 // 提高基础亮度
     
     baseColor.offsetHSL(hueShift, satShift, lightShift)
     
@@ -282,13 +333,8 @@ export class ColorSystem {
       b = 255
     }
     
-    // 归一化并应用伽马校正
-    const gamma = 2.2
-    r = Math.pow(r / 255, 1 / gamma)
-    g = Math.pow(g / 255, 1 / gamma)
-    b = Math.pow(b / 255, 1 / gamma)
-    
-    return new THREE.Color(r, g, b)
+    // 拟合公式给出的是sRGB显示值，转换到线性工作空间
+    return this.fromSRGB(r / 255, g / 255, b / 255)
   }
 
   /**
@@ -314,8 +360,8 @@ export class ColorSystem {
   /**
    * 获取现实恒星类型的颜色分布
    */
-  static getRealisticStellarColor(): THREE.Color {
-    const rand = Math.random()
+  static getRealisticStellarColor(random: RandomSource = Math.random): THREE.Color {
+    const rand = random()
     
     // 基于实际恒星分布的概率
     if (rand < 0.76) return this.stellarClassToColor('M')      // 76% 红矮星
@@ -330,8 +376,8 @@ export class ColorSystem {
   /**
    * 生成真实的星云发射线颜色
    */
-  static getRealisticNebulaColor(): THREE.Color {
-    const rand = Math.random()
+  static getRealisticNebulaColor(random: RandomSource = Math.random): THREE.Color {
+    const rand = random()
     
     // 基于实际发射线强度的概率分布
     if (rand < 0.40) return new THREE.Color(0xdc143c)   // 40% H-alpha 红色
@@ -0,0 +1,89 @@
+// 返回 [0, 1) 的随机数函数，Math.random 与 SeededRandom.next 均可
+export type RandomSource = () => number
+
+/**
+ * 可设定种子的伪随机数生成器（mulberry32）
+ * 相同种子产生完全相同的序列，用于复现星空
+ */
+export class SeededRandom {
+  public readonly seed: number
+  private state: number
+
+  constructor(seed: number = SeededRandom.createSeed()) {
+    this.seed = seed >>> 0
+    this.state = this.seed
+  }
+
+  /**
+   * 生成新的随机种子（32位无符号整数）
+   */
+  static createSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0
+  }
+
+  /**
+   * 解析种子字符串：十进制数字直接使用，其余文字取哈希
+   */
+  static parseSeed(value: string): number {
+    const trimmed = value.trim()
+    return /^\d+$/.test(trimmed) ? Number(trimmed) >>> 0 : SeededRandom.hashString(trimmed)
+  }
+
+  /**
+   * 由主种子和标签派生子种子，增删其他层不影响已有层的序列
+   */
+  static deriveSeed(seed: number, label: string): number {
+    return SeededRandom.hashString(`${seed >>> 0}:${label}`)
+  }
+
+  static hashString(value: string): number {
+    // FNV-1a
+    let hash = 0x811c9dc5
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+
+  /**
+   * [0, 1) 均匀分布，可直接作为 () => number 传递
+   */
+  public next = (): number => {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  public range(min: number, max: number): number {
+    return min + (max - min) * this.next()
+  }
+
+  public int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive)
+  }
+
+  public pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)]
+  }
+
+  /**
+   * 回到种子的初始状态
+   */
+  public reset(): void {
+    this.state = this.seed
+  }
+
+  /**
+   * 当前内部状态，配合setState在其他线程或实例上继续同一序列
+   */
+  public getState(): number {
+    return this.state
+  }
+
+  public setState(state: number): void {
+    this.state = state >>> 0
+  }
+}
@@ -0,0 +1,179 @@
+import * as THREE from 'three'
+
+/**
+ * 形状来源：位图、文字或SVG路径
+ */
+export type ShapeSource =
+  | { type: 'image'; image: HTMLImageElement | HTMLCanvasElement | ImageBitmap }
+  | { type: 'text'; text: string; font?: string; color?: string }
+  | { type: 'svgPath'; path: string; viewBox: [number, number]; lineWidth?: number; color?: string }
+
+export interface ShapeSamplerOptions {
+  resolution: number      // 采样画布的最长边像素数
+  alphaThreshold: number  // 视为不透明的最小alpha (0-1)
+}
+
+/**
+ * 采样结果 - 每个不透明像素一个点
+ * 坐标以宽度归一化：x ∈ [-0.5, 0.5]，y ∈ [-aspect/2, aspect/2]，y轴向上
+ */
+export interface ShapeSample {
+  positions: Float32Array  // [x, y] * count
+  colors: Float32Array     // [r, g, b] * count（线性空间）
+  count: number
+  aspect: number           // 高 / 宽
+  pixelSize: number        // 单个像素的归一化宽度
+}
+
+const DEFAULT_OPTIONS: ShapeSamplerOptions = {
+  resolution: 256,
+  alphaThreshold: 0.5
+}
+
+const DEFAULT_FONT = 'bold 120px "Courier New", monospace'
+
+/**
+ * 形状采样器 - 把图片、文字或SVG路径栅格化并收集不透明像素
+ */
+export class ShapeSampler {
+  /**
+   * 采样形状来源，返回所有不透明像素的位置和颜色
+   */
+  static sample(source: ShapeSource, options: Partial<ShapeSamplerOptions> = {}): ShapeSample {
+    const { resolution, alphaThreshold } = { ...DEFAULT_OPTIONS, ...options }
+
+    const [naturalWidth, naturalHeight] = this.measure(source)
+    if (naturalWidth <= 0 || naturalHeight <= 0) {
+      return this.createEmptySample()
+    }
+
+    // 按最长边缩放到采样分辨率
+    const scale = resolution / Math.max(naturalWidth, naturalHeight)
+    const width = Math.max(1, Math.round(naturalWidth * scale))
+    const height = Math.max(1, Math.round(naturalHeight * scale))
+
+    const context = this.createContext(width, height)
+    if (!context) {
+      return this.createEmptySample()
+    }
+
+    context.scale(width / naturalWidth, height / naturalHeight)
+    this.draw(context, source, naturalWidth, naturalHeight)
+
+    const pixels = context.getImageData(0, 0, width, height).data
+    const minimumAlpha = alphaThreshold * 255
+
+    let count = 0
+    for (let i = 3; i < pixels.length; i += 4) {
+      if (pixels[i] >= minimumAlpha) count++
+    }
+
+    const positions = new Float32Array(count * 2)
+    const colors = new Float32Array(count * 3)
+    const color = new THREE.Color()
+    const aspect = height / width
+
+    let index = 0
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const offset = (y * width + x) * 4
+        if (pixels[offset + 3] < minimumAlpha) continue
+
+        positions[index * 2] = (x + 0.5) / width - 0.5
+        positions[index * 2 + 1] = aspect * 0.5 - (y + 0.5) / width
+
+        // 画布像素为sRGB，转换到渲染使用的线性空间
+        color.setRGB(pixels[offset] / 255, pixels[offset + 1] / 255, pixels[offset + 2] / 255, THREE.SRGBColorSpace)
+        colors[index * 3] = color.r
+        colors[index * 3 + 1] = color.g
+        colors[index * 3 + 2] = color.b
+        index++
+      }
+    }
+
+    return { positions, colors, count, aspect, pixelSize: 1 / width }
+  }
+
+  /**
+   * 加载图片（支持跨域PNG/SVG文件）
+   */
+  static loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const image = new Image()
+      image.crossOrigin = 'anonymous'
+      image.onload = () => resolve(image)
+      image.onerror = () => reject(new Error(`Failed to load shape image: ${url}`))
+      image.src = url
+    })
+  }
+
+  private static measure(source: ShapeSource): [number, number] {
+    switch (source.type) {
+      case 'image': {
+        const image = source.image
+        const isImageElement = typeof HTMLImageElement !== 'undefined' && image instanceof HTMLImageElement
+        return isImageElement ? [image.naturalWidth, image.naturalHeight] : [image.width, image.height]
+      }
+      case 'text': {
+        const context = this.createContext(1, 1)
+        if (!context) return [0, 0]
+        context.font = source.font ?? DEFAULT_FONT
+        const lines = source.text.split('\n')
+        const metrics = context.measureText('Mg')
+        const lineHeight = (metrics.fontBoundingBoxAscent + metrics.fontBoundingBoxDescent) || 120
+        const width = Math.max(...lines.map(line => context.measureText(line).width))
+        return [Math.ceil(width), Math.ceil(lineHeight * lines.length)]
+      }
+      case 'svgPath':
+        return source.viewBox
+    }
+  }
+
+  // Worker中没有document，用OffscreenCanvas取样（2D上下文的用法相同）
+  private static createContext(width: number, height: number): CanvasRenderingContext2D | null {
+    const canvas = typeof document !== 'undefined'
+      ? document.createElement('canvas')
+      : new OffscreenCanvas(width, height) as unknown as HTMLCanvasElement
+    canvas.width = width
+    canvas.height = height
+    return canvas.getContext('2d', { willReadFrequently: true })
+  }
+
+  private static draw(context: CanvasRenderingContext2D, source: ShapeSource, width: number, height: number): void {
+    switch (source.type) {
+      case 'image':
+        context.drawImage(source.image, 0, 0, width, height)
+        break
+      case 'text': {
+        context.font = source.font ?? DEFAULT_FONT
+        context.fillStyle = source.color ?? '#ffffff'
+        context.textAlign = 'center'
+        context.textBaseline = 'middle'
+        const lines = source.text.split('\n')
+        const lineHeight = height / lines.length
+        lines.forEach((line, index) => {
+          context.fillText(line, width / 2, lineHeight * (index + 0.5))
+        })
+        break
+      }
+      case 'svgPath': {
+        const path = new Path2D(source.path)
+        const color = source.color ?? '#ffffff'
+        // 指定线宽时描边，否则填充
+        if (source.lineWidth) {
+          context.strokeStyle = color
+          context.lineWidth = source.lineWidth
+          context.stroke(path)
+        } else {
+          context.fillStyle = color
+          context.fill(path)
+        }
+        break
+      }
+    }
+  }
+
+  private static createEmptySample(): ShapeSample {
+    return { positions: new Float32Array(0), colors: new Float32Array(0), count: 0, aspect: 1, pixelSize: 0 }
+  }
+}
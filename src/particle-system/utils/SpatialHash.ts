@@ -0,0 +1,77 @@
+/**
+ * 均匀网格空间哈希 - 按格子存放点的索引，用于近邻查询
+ * 格子边长取查询半径时，每次查询只需检查周围27个格子
+ */
+export class SpatialHash {
+  private cellSize: number
+  private cells: Map<string, number[]> = new Map()
+  private positions: number[] = []
+
+  constructor(cellSize: number = 1) {
+    this.cellSize = Math.max(cellSize, 1e-6)
+  }
+
+  /**
+   * 清空所有点，可同时修改格子边长
+   */
+  public clear(cellSize: number = this.cellSize): void {
+    this.cellSize = Math.max(cellSize, 1e-6)
+    this.cells.clear()
+    this.positions = []
+  }
+
+  public insert(index: number, x: number, y: number, z: number): void {
+    const key = this.getKey(this.toCell(x), this.toCell(y), this.toCell(z))
+    const cell = this.cells.get(key)
+    if (cell) {
+      cell.push(index)
+    } else {
+      this.cells.set(key, [index])
+    }
+
+    this.positions[index * 3] = x
+    this.positions[index * 3 + 1] = y
+    this.positions[index * 3 + 2] = z
+  }
+
+  /**
+   * 查询距离(x, y, z)不超过radius的点，按距离从近到远返回 [索引, 距离平方]
+   */
+  public query(x: number, y: number, z: number, radius: number): [number, number][] {
+    const results: [number, number][] = []
+    const radiusSquared = radius * radius
+    const range = Math.ceil(radius / this.cellSize)
+    const cx = this.toCell(x)
+    const cy = this.toCell(y)
+    const cz = this.toCell(z)
+
+    for (let ix = cx - range; ix <= cx + range; ix++) {
+      for (let iy = cy - range; iy <= cy + range; iy++) {
+        for (let iz = cz - range; iz <= cz + range; iz++) {
+          const cell = this.cells.get(this.getKey(ix, iy, iz))
+          if (!cell) continue
+
+          for (const index of cell) {
+            const dx = this.positions[index * 3] - x
+            const dy = this.positions[index * 3 + 1] - y
+            const dz = this.positions[index * 3 + 2] - z
+            const distanceSquared = dx * dx + dy * dy + dz * dz
+            if (distanceSquared <= radiusSquared) {
+              results.push([index, distanceSquared])
+            }
+          }
+        }
+      }
+    }
+
+    return results.sort((a, b) => a[1] - b[1])
+  }
+
+  private toCell(value: number): number {
+    return Math.floor(value / this.cellSize)
+  }
+
+  private getKey(x: number, y: number, z: number): string {
+    return `${x},${y},${z}`
+  }
+}
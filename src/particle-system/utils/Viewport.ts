@@ -0,0 +1,39 @@
+/**
+ * 视口尺寸 - 主线程直接读取window，Worker中使用主线程同步过来的尺寸
+ */
+export class Viewport {
+  // 窄屏阈值，内置层和场景描述的compact粒子数以此区分
+  static readonly COMPACT_WIDTH = 640
+
+  private static size?: { width: number; height: number; pixelRatio: number }
+
+  /**
+   * 设置视口尺寸（Worker中由主线程的resize消息调用），设置后不再读取window
+   */
+  static setSize(width: number, height: number, pixelRatio: number = 1): void {
+    Viewport.size = { width, height, pixelRatio }
+  }
+
+  static getWidth(): number {
+    if (Viewport.size) return Viewport.size.width
+    return typeof window !== 'undefined' ? window.innerWidth : 1024
+  }
+
+  static getHeight(): number {
+    if (Viewport.size) return Viewport.size.height
+    return typeof window !== 'undefined' ? window.innerHeight : 768
+  }
+
+  static getPixelRatio(): number {
+    if (Viewport.size) return Viewport.size.pixelRatio
+    return typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1
+  }
+
+  static getAspect(): number {
+    return Viewport.getWidth() / Math.max(Viewport.getHeight(), 1)
+  }
+
+  static isCompact(): boolean {
+    return Viewport.getWidth() < Viewport.COMPACT_WIDTH
+  }
+}
@@ -35,8 +35,8 @@ export class ErrorHandler {
   }
 
   private setupGlobalErrorHandlers(): void {
-    // 全局JavaScript错误
-    window.addEventListener('error', (event) => {
+    // 全局JavaScript错误（self在页面和Worker中都指向全局对象）
+    self.addEventListener('error', (event) => {
       this.handleError({
         message: `JavaScript Error: ${event.message}`,
         severity: ErrorSeverity.HIGH,
@@ -46,7 +46,7 @@ export class ErrorHandler {
     })
 
     // Promise未捕获错误
-    window.addEventListener('unhandledrejection', (event) => {
+    self.addEventListener('unhandledrejection', (event) => {
       this.handleError({
         message: `Unhandled Promise Rejection: ${event.reason}`,
         severity: ErrorSeverity.HIGH,
@@ -116,6 +116,9 @@ export class ErrorHandler {
   }
 
   private notifyUser(errorInfo: ErrorInfo): void {
+    // Worker中没有页面可以显示通知
+    if (typeof document === 'undefined') return
+
     // 创建用户友好的错误通知
     const notification = document.createElement('div')
     notification.style.cssText = `